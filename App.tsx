@@ -6,14 +6,25 @@ import { AboutModal } from './components/AboutModal';
 import { FilePreviewModal } from './components/FilePreviewModal';
 import { InsightsModal } from './components/InsightsModal';
 import { ConfirmModal } from './components/ConfirmModal';
-import { ParsedFile, JoinCandidate, AnalysisStatus } from './types';
+import { SchemaModal } from './components/SchemaModal';
+import { GroupByModal } from './components/GroupByModal';
+import { DedupeModal } from './components/DedupeModal';
+import { FormulaModal } from './components/FormulaModal';
+import { ProfileModal } from './components/ProfileModal';
+import { UnionModal } from './components/UnionModal';
+import { RecipesModal } from './components/RecipesModal';
+import { ParsedFile, JoinCandidate, AnalysisStatus, JoinGraph, Recipe } from './types';
 import { analyzeFilesForJoin } from './services/geminiService';
-import { Bot, Sparkles, RefreshCw, XCircle, Info, Upload, Download } from 'lucide-react';
+import { withSchema } from './services/schemaService';
+import { parseRecipe } from './services/recipeService';
+import { Bot, Sparkles, RefreshCw, XCircle, Info, Upload, Download, Layers, ScrollText } from 'lucide-react';
 
 const App: React.FC = () => {
   const [files, setFiles] = useState<ParsedFile[]>([]);
   const [analysisStatus, setAnalysisStatus] = useState<AnalysisStatus>(AnalysisStatus.IDLE);
   const [candidates, setCandidates] = useState<JoinCandidate[]>([]);
+  const [joinGraph, setJoinGraph] = useState<JoinGraph | null>(null);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
   const [error, setError] = useState<string | null>(null);
   
   // Modals
@@ -21,6 +32,13 @@ const App: React.FC = () => {
   const [showResetConfirm, setShowResetConfirm] = useState(false);
   const [previewFile, setPreviewFile] = useState<ParsedFile | null>(null);
   const [insightFile, setInsightFile] = useState<ParsedFile | null>(null);
+  const [schemaFile, setSchemaFile] = useState<ParsedFile | null>(null);
+  const [groupByFile, setGroupByFile] = useState<ParsedFile | null>(null);
+  const [dedupeFile, setDedupeFile] = useState<ParsedFile | null>(null);
+  const [formulaFile, setFormulaFile] = useState<ParsedFile | null>(null);
+  const [profileFile, setProfileFile] = useState<ParsedFile | null>(null);
+  const [showUnion, setShowUnion] = useState(false);
+  const [showRecipes, setShowRecipes] = useState(false);
 
   const handleFilesParsed = (newFiles: ParsedFile[]) => {
     // Avoid duplicates by name (simple check)
@@ -30,6 +48,7 @@ const App: React.FC = () => {
     if (analysisStatus === AnalysisStatus.COMPLETED) {
       setAnalysisStatus(AnalysisStatus.IDLE);
       setCandidates([]);
+      setJoinGraph(null);
     }
   };
 
@@ -39,6 +58,7 @@ const App: React.FC = () => {
     if (files.length <= 2) { 
        setAnalysisStatus(AnalysisStatus.IDLE);
        setCandidates([]);
+       setJoinGraph(null);
     }
   };
 
@@ -48,6 +68,9 @@ const App: React.FC = () => {
     if (insightFile?.id === updatedFile.id) {
       setInsightFile(updatedFile);
     }
+    if (schemaFile?.id === updatedFile.id) {
+      setSchemaFile(updatedFile);
+    }
   };
 
   const handleAnalyze = async () => {
@@ -58,10 +81,12 @@ const App: React.FC = () => {
     setAnalysisStatus(AnalysisStatus.ANALYZING);
     setError(null);
     setCandidates([]);
+    setJoinGraph(null);
     
     try {
       const results = await analyzeFilesForJoin(files);
-      setCandidates(results);
+      setCandidates(results.candidates);
+      setJoinGraph(results.joinGraph || null);
       setAnalysisStatus(AnalysisStatus.COMPLETED);
     } catch (err: any) {
       console.error(err);
@@ -70,12 +95,21 @@ const App: React.FC = () => {
     }
   };
 
+  const handleUpdateCandidate = (index: number, candidate: JoinCandidate) => {
+    setCandidates(prev => prev.map((c, i) => i === index ? candidate : c));
+  };
+
   const handleSaveJoinedFile = (newFile: ParsedFile) => {
     setFiles(prev => [...prev, newFile]);
   };
 
+  // Recipes are looked up by name, so saving under an existing name replaces that recipe
+  const handleSaveRecipe = (recipe: Recipe) => {
+    setRecipes(prev => [...prev.filter(r => r.name !== recipe.name), recipe]);
+  };
+
   const exportState = () => {
-    const dataStr = JSON.stringify(files);
+    const dataStr = JSON.stringify({ files, recipes });
     const blob = new Blob([dataStr], { type: "application/json" });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -93,11 +127,26 @@ const App: React.FC = () => {
     reader.onload = (ev) => {
       try {
         const json = JSON.parse(ev.target?.result as string);
-        if (Array.isArray(json)) {
-          setFiles(json);
+        // Workspaces exported before recipes existed are a bare array of files
+        const importedFiles = Array.isArray(json) ? json : json?.files;
+        if (Array.isArray(importedFiles)) {
+          // Workspaces exported before column typing existed get their schema inferred here
+          setFiles(importedFiles.map((f: ParsedFile) => f.schema ? f : withSchema(f)));
           setAnalysisStatus(AnalysisStatus.IDLE);
           setCandidates([]);
-          alert("Workspace imported successfully!");
+          setJoinGraph(null);
+          // Recipes are kept across workspaces; imported ones replace any with the same name
+          const rejected: string[] = [];
+          (Array.isArray(json?.recipes) ? json.recipes : []).forEach((r: any) => {
+            try {
+              handleSaveRecipe(parseRecipe(r));
+            } catch (err: any) {
+              rejected.push(err.message);
+            }
+          });
+          alert(rejected.length > 0
+            ? `Workspace imported, but ${rejected.length} recipe${rejected.length > 1 ? 's were' : ' was'} skipped: ${rejected.join('; ')}`
+            : "Workspace imported successfully!");
         } else {
           alert("Invalid JSON format");
         }
@@ -112,6 +161,7 @@ const App: React.FC = () => {
   const performReset = () => {
     setFiles([]);
     setCandidates([]);
+    setJoinGraph(null);
     setAnalysisStatus(AnalysisStatus.IDLE);
     setError(null);
   };
@@ -119,12 +169,55 @@ const App: React.FC = () => {
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900 pb-20">
       <AboutModal isOpen={showAbout} onClose={() => setShowAbout(false)} />
-      <FilePreviewModal file={previewFile} onClose={() => setPreviewFile(null)} />
+      <FilePreviewModal
+        file={previewFile}
+        onClose={() => setPreviewFile(null)}
+        onSaveFile={handleSaveJoinedFile}
+      />
       <InsightsModal 
         file={insightFile} 
         onClose={() => setInsightFile(null)} 
         onUpdateFile={updateFileState}
       />
+      <SchemaModal
+        file={schemaFile}
+        onClose={() => setSchemaFile(null)}
+        onUpdateFile={updateFileState}
+      />
+      <GroupByModal
+        file={groupByFile}
+        onClose={() => setGroupByFile(null)}
+        onSaveFile={handleSaveJoinedFile}
+      />
+      <DedupeModal
+        file={dedupeFile}
+        onClose={() => setDedupeFile(null)}
+        onSaveFile={handleSaveJoinedFile}
+      />
+      <FormulaModal
+        file={formulaFile}
+        onClose={() => setFormulaFile(null)}
+        onSaveFile={handleSaveJoinedFile}
+      />
+      <ProfileModal
+        file={profileFile}
+        onClose={() => setProfileFile(null)}
+      />
+      <UnionModal
+        isOpen={showUnion}
+        files={files}
+        onClose={() => setShowUnion(false)}
+        onSaveFile={handleSaveJoinedFile}
+      />
+      <RecipesModal
+        isOpen={showRecipes}
+        recipes={recipes}
+        files={files}
+        onClose={() => setShowRecipes(false)}
+        onAddRecipe={handleSaveRecipe}
+        onDeleteRecipe={(name) => setRecipes(prev => prev.filter(r => r.name !== name))}
+        onSaveFile={handleSaveJoinedFile}
+      />
       <ConfirmModal 
         isOpen={showResetConfirm}
         onClose={() => setShowResetConfirm(false)}
@@ -153,6 +246,9 @@ const App: React.FC = () => {
                    <Upload className="w-5 h-5" />
                    <input type="file" accept=".json" onChange={importState} className="hidden" />
                 </label>
+                <button onClick={() => setShowRecipes(true)} className="text-slate-500 hover:text-blue-600 p-2 rounded-full hover:bg-slate-100 transition-colors" title="Recipes">
+                   <ScrollText className="w-5 h-5" />
+                </button>
                 {files.length > 0 && (
                    <button onClick={exportState} className="text-slate-500 hover:text-blue-600 p-2 rounded-full hover:bg-slate-100 transition-colors" title="Export Workspace">
                       <Download className="w-5 h-5" />
@@ -213,6 +309,11 @@ const App: React.FC = () => {
                       onRemove={removeFile}
                       onPreview={(f) => setPreviewFile(f)}
                       onInsights={(f) => setInsightFile(f)}
+                      onEditSchema={(f) => setSchemaFile(f)}
+                      onGroupBy={(f) => setGroupByFile(f)}
+                      onDedupe={(f) => setDedupeFile(f)}
+                      onAddColumn={(f) => setFormulaFile(f)}
+                      onProfile={(f) => setProfileFile(f)}
                       colorIndex={idx}
                     />
                   ))}
@@ -244,6 +345,15 @@ const App: React.FC = () => {
                       </>
                     )}
                   </button>
+                  {files.length >= 2 && (
+                    <button
+                      onClick={() => setShowUnion(true)}
+                      className="w-full mt-3 py-2 rounded-xl flex items-center justify-center space-x-2 text-sm font-medium text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 transition-colors"
+                    >
+                      <Layers className="w-4 h-4" />
+                      <span>Append Files Instead (Union)</span>
+                    </button>
+                  )}
                   {files.length === 1 && (
                     <p className="text-center text-xs text-slate-400 mt-2">
                       Upload at least one more file to enable analysis.
@@ -271,6 +381,10 @@ const App: React.FC = () => {
                  candidates={candidates} 
                  files={files} 
                  onSaveJoinedFile={handleSaveJoinedFile}
+                 onUpdateCandidate={handleUpdateCandidate}
+                 joinGraph={joinGraph}
+                 onUpdateJoinGraph={setJoinGraph}
+                 onSaveRecipe={handleSaveRecipe}
                />
             ) : (
               files.length > 0 && analysisStatus === AnalysisStatus.IDLE && (
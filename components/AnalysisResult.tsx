@@ -1,89 +1,269 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { JoinCandidate, ParsedFile, JoinType, JoinStats } from '../types';
-import { Link2, AlertTriangle, Lightbulb, ArrowRight, Download, Loader2, Layers, GitMerge, Combine, Database, Flag, Save, Sparkles, PencilLine } from 'lucide-react';
-import { joinDatasets, downloadCSV, calculateJoinStats, createJoinedFile } from '../services/dataService';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { JoinCandidate, ParsedFile, JoinType, JoinStats, JoinGraph, TaskProgress, Recipe, KeyQuality } from '../types';
+import { Link2, Workflow, KeyRound, BarChart3, AlertTriangle, Lightbulb, ArrowRight, Download, Loader2, Layers, GitMerge, Combine, Database, Flag, Save, Sparkles, PencilLine, ScanSearch, PanelRight, Filter, FilterX, CalendarClock, CalendarRange, Scale, ScrollText } from 'lucide-react';
+import { downloadCSV, createJoinedFile, dedupeByKey, aggregateByKey, getEstimatedRows, DEFAULT_ROW_LIMIT } from '../services/dataService';
 import { generateSemanticMerge, generateMergePlan } from '../services/geminiService';
+import { createDefaultJoinGraph, getJoinStepError } from '../services/joinGraphService';
+import { getTemporalOptions, getTemporalConfigError } from '../services/temporalService';
+import { getKeyColumnsError, getKeySignature } from '../services/keyService';
+import { createRecipe } from '../services/recipeService';
+import { isLowOverlap, rankCandidates } from '../services/keyQualityService';
+import { createDataWorker, isCancelledError } from '../services/workerClient';
+import { KeyColumnsEditor } from './KeyColumnsEditor';
+import { NormalizationPanel } from './NormalizationPanel';
+import { FuzzyOptionsPanel } from './FuzzyOptionsPanel';
+import { TemporalOptionsPanel } from './TemporalOptionsPanel';
+import { JoinFilesPanel } from './JoinFilesPanel';
+import { CardinalityPanel } from './CardinalityPanel';
+import { KeyQualityPanel } from './KeyQualityPanel';
+import { OutputColumnsPanel } from './OutputColumnsPanel';
+import { CoalescePanel } from './CoalescePanel';
+import { JoinGuardModal, JoinGuardChoice } from './JoinGuardModal';
+import { JoinGraphBuilder } from './JoinGraphBuilder';
+import { JoinPreview } from './JoinPreview';
+import { MatchReportModal } from './MatchReportModal';
+import { ReconcileModal } from './ReconcileModal';
+import { SaveRecipeModal } from './SaveRecipeModal';
+import { TaskProgressBar } from './TaskProgressBar';
+
+type JoinAction = 'download' | 'save';
+
+// 'shared': every file joins on one key. 'chain': files join pair by pair, each pair on its own key.
+type JoinMode = 'shared' | 'chain';
+
+// Stats and key checks read every row of every file; wait for edits to settle before re-running them
+const CHECK_DELAY_MS = 300;
 
 interface AnalysisResultProps {
   candidates: JoinCandidate[];
   files: ParsedFile[];
   onSaveJoinedFile: (newFile: ParsedFile) => void;
+  onUpdateCandidate: (index: number, candidate: JoinCandidate) => void;
+  joinGraph: JoinGraph | null; // Chained join, suggested by the AI or built by the user
+  onUpdateJoinGraph: (graph: JoinGraph) => void;
+  onSaveRecipe: (recipe: Recipe) => void;
 }
 
-export const AnalysisResult: React.FC<AnalysisResultProps> = ({ candidates, files, onSaveJoinedFile }) => {
+export const AnalysisResult: React.FC<AnalysisResultProps> = ({ candidates, files, onSaveJoinedFile, onUpdateCandidate, joinGraph, onUpdateJoinGraph, onSaveRecipe }) => {
   const [selectedCandidateIndex, setSelectedCandidateIndex] = useState(0);
   const [isProcessing, setIsProcessing] = useState(false);
   const [selectedJoinType, setSelectedJoinType] = useState<JoinType>(JoinType.ADDITIVE); 
   const [stats, setStats] = useState<JoinStats | null>(null);
+  const [rowLimit, setRowLimit] = useState(DEFAULT_ROW_LIMIT);
+  const [guardedAction, setGuardedAction] = useState<JoinAction | null>(null);
+  const [joinMode, setJoinMode] = useState<JoinMode>('shared');
+  const [showMatchReport, setShowMatchReport] = useState(false);
+  const [showReconcile, setShowReconcile] = useState(false);
+  const [joinProgress, setJoinProgress] = useState<TaskProgress | null>(null);
+  // The last finished run, recorded so it can be saved as a recipe
+  const [lastRun, setLastRun] = useState<Recipe | null>(null);
+  const [recipeDraft, setRecipeDraft] = useState<Recipe | null>(null);
+  // Local checks of every candidate, in candidate order; empty until the first check finishes
+  const [qualities, setQualities] = useState<KeyQuality[]>([]);
+  const hasCheckedKeys = useRef(false);
+  // Files and key signatures the current qualities were measured on, so edits re-check only what changed
+  const checkedKeys = useRef<{ files: ParsedFile[]; signatures: string[] } | null>(null);
+
+  // Stats, key checks and joins each get a background worker, so recalculating never cancels a running join
+  const statsWorker = useMemo(() => createDataWorker(), []);
+  const qualityWorker = useMemo(() => createDataWorker(), []);
+  const joinWorker = useMemo(() => createDataWorker(), []);
+  useEffect(() => () => {
+    statsWorker.dispose();
+    qualityWorker.dispose();
+    joinWorker.dispose();
+  }, [statsWorker, qualityWorker, joinWorker]);
 
   // AI Plan State
   const [aiPlan, setAiPlan] = useState<string>('');
   const [isPlanning, setIsPlanning] = useState(false);
 
+  // Join order (file ids) and files left out of the join. The first included file is the anchor.
+  const [fileOrder, setFileOrder] = useState<string[]>(() => files.map(f => f.id));
+  const [excludedFileIds, setExcludedFileIds] = useState<string[]>([]);
+
   const activeCandidate = candidates[selectedCandidateIndex];
 
-  // Recalculate stats when candidate/files change
+  // Keep the order in sync with the workspace. Files saved from a join are left out by default;
+  // files derived from one upload (grouped, deduped, filtered) join like uploads.
   useEffect(() => {
-    if (activeCandidate && files.length > 0) {
-      const calculatedStats = calculateJoinStats(files, activeCandidate);
-      setStats(calculatedStats);
-      // Reset plan when candidate changes
-      setAiPlan('');
-    }
-  }, [activeCandidate, files]);
+    const kept = fileOrder.filter(id => files.some(f => f.id === id));
+    const added = files.filter(f => !fileOrder.includes(f.id));
+    if (added.length === 0 && kept.length === fileOrder.length) return;
+    setFileOrder([...kept, ...added.map(f => f.id)]);
+    setExcludedFileIds(prev => [...prev, ...added.filter(f => f.isJoined).map(f => f.id)]);
+  }, [files]);
+
+  const joinFiles = useMemo(() => fileOrder
+    .filter(id => !excludedFileIds.includes(id))
+    .map(id => files.find(f => f.id === id))
+    .filter((f): f is ParsedFile => !!f), [files, fileOrder, excludedFileIds]);
+
+  // Reset plan when candidate changes
+  useEffect(() => setAiPlan(''), [activeCandidate, joinFiles]);
+
+  // Recalculate stats once edits to the key or files settle; edits to other settings don't change them.
+  // An edit cancels the previous, now stale, calculation.
+  const activeSignature = activeCandidate ? getKeySignature(activeCandidate) : null;
+  useEffect(() => {
+    // Stats of the previous key would mislead the row-limit guard; it asks about an unknown size until these arrive
+    setStats(null);
+    if (!activeCandidate || joinFiles.length === 0) return;
+    const timer = setTimeout(() => {
+      statsWorker.run<JoinStats>({ type: 'joinStats', files: joinFiles, candidate: activeCandidate })
+        .then(setStats)
+        .catch(err => !isCancelledError(err) && console.error("Stats failed", err));
+    }, CHECK_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      statsWorker.cancel();
+    };
+  }, [activeSignature, joinFiles, statsWorker]);
+
+  // Check every candidate on the full data, once edits settle. After the first check only candidates
+  // whose key changed are re-checked. The first result also moves the selection off a key the files
+  // barely share; later ones (after edits) never switch tabs under the user.
+  useEffect(() => {
+    if (joinFiles.length < 2) return;
+    const signatures = candidates.map(getKeySignature);
+    const checked = checkedKeys.current;
+    const indexes = checked && checked.files === joinFiles && checked.signatures.length === signatures.length
+      ? signatures.map((_, i) => i).filter(i => signatures[i] !== checked.signatures[i])
+      : candidates.map((_, i) => i);
+    if (indexes.length === 0) return;
+
+    const timer = setTimeout(() => {
+      qualityWorker.run<KeyQuality[]>({ type: 'keyQuality', files: joinFiles, candidates: indexes.map(i => candidates[i]) })
+        .then(result => {
+          const isFullCheck = indexes.length === candidates.length;
+          setQualities(prev => {
+            const next = isFullCheck ? [] : [...prev];
+            indexes.forEach((candidateIndex, i) => next[candidateIndex] = result[i]);
+            return next;
+          });
+          checkedKeys.current = { files: joinFiles, signatures };
+          if (hasCheckedKeys.current) return;
+          hasCheckedKeys.current = true;
+          setSelectedCandidateIndex(current => isLowOverlap(result[current], candidates[current], selectedJoinType)
+            ? rankCandidates(candidates, result, selectedJoinType)[0]
+            : current);
+        })
+        .catch(err => !isCancelledError(err) && console.error("Key quality check failed", err));
+    }, CHECK_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      qualityWorker.cancel();
+    };
+  }, [candidates, joinFiles, qualityWorker, selectedJoinType]);
 
   // Generate Plan when AI_SEMANTIC is selected
   useEffect(() => {
-    if (selectedJoinType === JoinType.AI_SEMANTIC && !aiPlan && !isPlanning && files.length > 0) {
+    if (selectedJoinType === JoinType.AI_SEMANTIC && !aiPlan && !isPlanning && joinFiles.length > 0) {
       setIsPlanning(true);
-      generateMergePlan(files, activeCandidate).then(plan => {
+      generateMergePlan(joinFiles, activeCandidate).then(plan => {
         setAiPlan(plan);
         setIsPlanning(false);
       }).catch(() => setIsPlanning(false));
     }
-  }, [selectedJoinType, activeCandidate, files, aiPlan, isPlanning]);
+  }, [selectedJoinType, activeCandidate, joinFiles, aiPlan, isPlanning]);
 
   if (!candidates || candidates.length === 0) return null;
 
-  const handleAction = async (action: 'download' | 'save') => {
+  // Null for chained, fuzzy and date joins, whose size is only known once they run
+  const estimatedRows = joinMode === 'shared' ? getEstimatedRows(stats, selectedJoinType) : null;
+
+  const isTemporal = selectedJoinType === JoinType.ASOF || selectedJoinType === JoinType.RANGE;
+  const canRun = joinMode === 'chain'
+    ? !!joinGraph && joinGraph.steps.length > 0 && joinGraph.steps.every((_, i) => !getJoinStepError(joinGraph, i))
+    : joinFiles.length >= 2 && !getKeyColumnsError(joinFiles, activeCandidate) && (!isTemporal || !getTemporalConfigError(joinFiles, getTemporalOptions(joinFiles, activeCandidate), selectedJoinType));
+
+  const handleChangeMode = (mode: JoinMode) => {
+    if (mode === 'chain' && !joinGraph) onUpdateJoinGraph(createDefaultJoinGraph(joinFiles, activeCandidate));
+    setJoinMode(mode);
+  };
+
+  const handleAction = (action: JoinAction) => {
+    // AI merges only process a sample of rows
+    const isAiMerge = joinMode === 'shared' && selectedJoinType === JoinType.AI_SEMANTIC;
+    if (!isAiMerge && (estimatedRows === null || estimatedRows > rowLimit)) {
+      setGuardedAction(action);
+      return;
+    }
+    runJoin(action);
+  };
+
+  const handleGuardChoice = (choice: JoinGuardChoice) => {
+    const action = guardedAction;
+    setGuardedAction(null);
+    if (!action || choice === 'cancel') return;
+    if (choice === 'limit') runJoin(action, undefined, rowLimit);
+    else if (choice === 'full') runJoin(action);
+    else runJoin(action, choice);
+  };
+
+  const runJoin = async (action: JoinAction, reduce?: 'dedupe' | 'aggregate', maxRows?: number) => {
     setIsProcessing(true);
+    setJoinProgress(null);
 
-    // Use setTimeout to allow UI to update with spinner
-    setTimeout(async () => {
-      try {
-        let joinedData: any[] = [];
-        let fileNamePrefix = '';
-
-        if (selectedJoinType === JoinType.AI_SEMANTIC) {
-          // Pass the edited plan to the merge function
-          joinedData = await generateSemanticMerge(files, activeCandidate, aiPlan);
-          fileNamePrefix = 'ai_semantic_merge';
-        } else {
-          joinedData = joinDatasets(files, activeCandidate, selectedJoinType);
-          
-          let joinTypeName = 'full';
-          if (selectedJoinType === JoinType.INNER) joinTypeName = 'inner';
-          if (selectedJoinType === JoinType.LEFT) joinTypeName = 'left';
-          if (selectedJoinType === JoinType.ADDITIVE) joinTypeName = 'additive';
-          fileNamePrefix = `merged_${joinTypeName}`;
-        }
-
-        const fileName = `${fileNamePrefix}_${activeCandidate.keyName.replace(/\s+/g, '_')}`;
-
-        if (action === 'download') {
-          downloadCSV(joinedData, `${fileName}.csv`);
-        } else {
-          const newFile = createJoinedFile(joinedData, `${fileName} (Joined)`);
-          onSaveJoinedFile(newFile);
-          alert("File saved to workspace! You can now analyze it with AI insights.");
-        }
-      } catch (e) {
+    try {
+      let fileNamePrefix = '';
+      if (joinMode === 'chain' && joinGraph) {
+        fileNamePrefix = `merged_chain_${joinGraph.steps.length + 1}_files`;
+      } else if (selectedJoinType === JoinType.AI_SEMANTIC) {
+        fileNamePrefix = 'ai_semantic_merge';
+      } else {
+        let joinTypeName = 'full';
+        if (selectedJoinType === JoinType.INNER) joinTypeName = 'inner';
+        if (selectedJoinType === JoinType.LEFT) joinTypeName = 'left';
+        if (selectedJoinType === JoinType.RIGHT) joinTypeName = 'right';
+        if (selectedJoinType === JoinType.SEMI) joinTypeName = 'semi';
+        if (selectedJoinType === JoinType.ANTI) joinTypeName = 'anti';
+        if (selectedJoinType === JoinType.ADDITIVE) joinTypeName = 'additive';
+        if (selectedJoinType === JoinType.FUZZY) joinTypeName = 'fuzzy';
+        if (selectedJoinType === JoinType.ASOF) joinTypeName = 'asof';
+        if (selectedJoinType === JoinType.RANGE) joinTypeName = 'range';
+        fileNamePrefix = `merged_${joinTypeName}`;
+      }
+
+      const fileName = joinMode === 'chain' ? fileNamePrefix : `${fileNamePrefix}_${activeCandidate.keyName.replace(/\s+/g, '_')}`;
+      // When saving, the worker also builds the workspace file so schema inference stays off the main thread
+      const saveAs = action === 'save' ? `${fileName} (Joined)` : undefined;
+      let result: any[] | ParsedFile;
+
+      if (joinMode === 'chain' && joinGraph) {
+        result = await joinWorker.run({ type: 'joinGraph', files, graph: joinGraph, maxRows, saveAs }, setJoinProgress);
+      } else if (selectedJoinType === JoinType.AI_SEMANTIC) {
+        const reduceFile = reduce === 'dedupe' ? dedupeByKey : reduce === 'aggregate' ? aggregateByKey : null;
+        const inputFiles = reduceFile ? joinFiles.map(f => reduceFile(f, activeCandidate)) : joinFiles;
+        // Pass the edited plan to the merge function
+        const joinedData = await generateSemanticMerge(inputFiles, activeCandidate, aiPlan);
+        result = saveAs ? createJoinedFile(joinedData, saveAs) : joinedData;
+      } else {
+        result = await joinWorker.run({ type: 'join', files: joinFiles, candidate: activeCandidate, joinType: selectedJoinType, reduce, maxRows, saveAs }, setJoinProgress);
+      }
+
+      // AI merges depend on the model's answer, so only local joins can be replayed
+      if (joinMode === 'chain' && joinGraph) {
+        setLastRun(createRecipe(fileName, { joinGraph }, files, files));
+      } else if (selectedJoinType !== JoinType.AI_SEMANTIC) {
+        setLastRun(createRecipe(fileName, { candidate: activeCandidate, joinType: selectedJoinType, reduce }, joinFiles, files));
+      }
+
+      if (Array.isArray(result)) {
+        downloadCSV(result, `${fileName}.csv`);
+      } else {
+        onSaveJoinedFile(result);
+        alert("File saved to workspace! You can now analyze it with AI insights.");
+      }
+    } catch (e: any) {
+      if (!isCancelledError(e)) {
         console.error("Join failed", e);
-        alert("Failed to join datasets. Check console for details.");
-      } finally {
-        setIsProcessing(false);
+        alert(`Failed to join datasets. ${e?.message || 'Check console for details.'}`);
       }
-    }, 100);
+    } finally {
+      setIsProcessing(false);
+      setJoinProgress(null);
+    }
   };
 
   const joinOptions = [
@@ -105,6 +285,33 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ candidates, file
       color: 'border-fuchsia-200 bg-fuchsia-50 text-fuchsia-700',
       activeBorder: 'border-fuchsia-500 ring-1 ring-fuchsia-500'
     },
+    {
+      type: JoinType.FUZZY,
+      title: 'Fuzzy Match Join',
+      icon: ScanSearch,
+      description: 'Matches similar (not identical) keys locally on the full data. Adds a match score and the matched key from each file.',
+      count: 'Runs locally',
+      color: 'border-cyan-200 bg-cyan-50 text-cyan-700',
+      activeBorder: 'border-cyan-500 ring-1 ring-cyan-500'
+    },
+    {
+      type: JoinType.ASOF,
+      title: 'As-of Join',
+      icon: CalendarClock,
+      description: `Gives each row of "${joinFiles[0]?.name}" the row dated closest to it in every other file, e.g. the price or rate valid on a transaction date.`,
+      count: 'Runs locally',
+      color: 'border-sky-200 bg-sky-50 text-sky-700',
+      activeBorder: 'border-sky-500 ring-1 ring-sky-500'
+    },
+    {
+      type: JoinType.RANGE,
+      title: 'Date Range Join',
+      icon: CalendarRange,
+      description: `Matches each row of "${joinFiles[0]?.name}" to the rows whose valid-from / valid-to period contains its date, e.g. employee assignments.`,
+      count: 'Runs locally',
+      color: 'border-lime-200 bg-lime-50 text-lime-700',
+      activeBorder: 'border-lime-500 ring-1 ring-lime-500'
+    },
     {
       type: JoinType.OUTER,
       title: 'Full Outer Join',
@@ -127,15 +334,69 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ candidates, file
       type: JoinType.LEFT,
       title: 'Left Join',
       icon: Layers,
-      description: `Keep all records from "${files[0]?.name}", matching others where possible.`,
+      description: `Keep all records from "${joinFiles[0]?.name}", matching others where possible.`,
       count: stats?.[JoinType.LEFT],
       color: 'border-violet-200 bg-violet-50 text-violet-700',
       activeBorder: 'border-violet-500 ring-1 ring-violet-500'
+    },
+    {
+      type: JoinType.RIGHT,
+      title: 'Right Join',
+      icon: PanelRight,
+      description: `Keep all records from "${joinFiles[joinFiles.length - 1]?.name}", matching others where possible.`,
+      count: stats?.[JoinType.RIGHT],
+      color: 'border-purple-200 bg-purple-50 text-purple-700',
+      activeBorder: 'border-purple-500 ring-1 ring-purple-500'
+    },
+    {
+      type: JoinType.SEMI,
+      title: 'Semi Join',
+      icon: Filter,
+      description: `Rows in "${joinFiles[0]?.name}" that have a match in every other file. Keeps only its own columns.`,
+      count: stats?.[JoinType.SEMI],
+      color: 'border-teal-200 bg-teal-50 text-teal-700',
+      activeBorder: 'border-teal-500 ring-1 ring-teal-500'
+    },
+    {
+      type: JoinType.ANTI,
+      title: 'Anti Join',
+      icon: FilterX,
+      description: `Rows in "${joinFiles[0]?.name}" with no match in at least one other file. Ideal for reconciliation.`,
+      count: stats?.[JoinType.ANTI],
+      color: 'border-orange-200 bg-orange-50 text-orange-700',
+      activeBorder: 'border-orange-500 ring-1 ring-orange-500'
     }
   ];
 
   return (
     <div className="bg-white rounded-2xl shadow-xl border border-blue-100 overflow-hidden animate-fade-in-up flex flex-col">
+      <JoinGuardModal
+        isOpen={guardedAction !== null}
+        estimatedRows={estimatedRows}
+        rowLimit={rowLimit}
+        canReduce={joinMode === 'shared'}
+        onChoose={handleGuardChoice}
+      />
+      <MatchReportModal
+        isOpen={showMatchReport}
+        files={joinFiles}
+        candidate={activeCandidate}
+        onClose={() => setShowMatchReport(false)}
+        onSaveFile={onSaveJoinedFile}
+      />
+      <ReconcileModal
+        isOpen={showReconcile}
+        files={joinFiles}
+        candidate={activeCandidate}
+        onUpdateCandidate={(updated) => onUpdateCandidate(selectedCandidateIndex, updated)}
+        onClose={() => setShowReconcile(false)}
+        onSaveFile={onSaveJoinedFile}
+      />
+      <SaveRecipeModal
+        recipe={recipeDraft}
+        onClose={() => setRecipeDraft(null)}
+        onSave={onSaveRecipe}
+      />
       <div className="bg-gradient-to-r from-blue-600 to-indigo-600 p-6 text-white">
         <div className="flex flex-col sm:flex-row items-center justify-between mb-2">
           <div className="flex items-center space-x-3 mb-4 sm:mb-0">
@@ -151,7 +412,10 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ candidates, file
 
         {/* Candidate Selector Tabs */}
         <div className="flex space-x-2 overflow-x-auto pb-2 custom-scrollbar mt-4">
-          {candidates.map((cand, idx) => {
+          {rankCandidates(candidates, qualities, selectedJoinType).map(idx => {
+            const cand = candidates[idx];
+            const quality = qualities[idx];
+            const isLow = isLowOverlap(quality, cand, selectedJoinType);
             const isActive = idx === selectedCandidateIndex;
             return (
               <button
@@ -166,9 +430,18 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ candidates, file
                 `}
               >
                 <span>{cand.keyName}</span>
-                <span className={`px-1.5 py-0.5 rounded-full text-xs ${isActive ? 'bg-blue-100 text-blue-700' : 'bg-black/20 text-white'}`}>
+                <span className={`px-1.5 py-0.5 rounded-full text-xs ${isActive ? 'bg-blue-100 text-blue-700' : 'bg-black/20 text-white'}`} title="AI confidence">
                   {cand.confidenceScore}%
                 </span>
+                {quality && (
+                  <span
+                    className={`flex items-center px-1.5 py-0.5 rounded-full text-xs ${isLow ? 'bg-red-500 text-white' : isActive ? 'bg-emerald-100 text-emerald-700' : 'bg-black/20 text-white'}`}
+                    title="Share of keys found exactly in every file, checked on all rows"
+                  >
+                    {isLow && <AlertTriangle className="w-3 h-3 mr-1" />}
+                    {Math.round(quality.overlap * 100)}% overlap
+                  </span>
+                )}
               </button>
             )
           })}
@@ -178,94 +451,240 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ candidates, file
       <div className="p-6 sm:p-8 space-y-8 flex-1">
         {/* Active Candidate Details */}
         <div className="animate-fade-in">
-          <div className="text-center mb-8">
-            <p className="text-sm text-slate-500 uppercase tracking-wider font-semibold mb-2">Selected Common Column</p>
-            <div className="inline-flex items-center justify-center space-x-2 bg-blue-50 px-6 py-3 rounded-xl border border-blue-200">
-               <span className="text-2xl sm:text-3xl font-bold text-blue-900 break-all">{activeCandidate.keyName}</span>
+          {/* Join Mode */}
+          <div className="flex justify-center mb-8">
+            <div className="inline-flex p-1 bg-slate-100 rounded-xl">
+              <button
+                onClick={() => handleChangeMode('shared')}
+                className={`flex items-center px-4 py-2 rounded-lg text-sm font-medium transition-colors ${joinMode === 'shared' ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                <KeyRound className="w-4 h-4 mr-2" />
+                One Shared Key
+              </button>
+              <button
+                onClick={() => handleChangeMode('chain')}
+                className={`flex items-center px-4 py-2 rounded-lg text-sm font-medium transition-colors ${joinMode === 'chain' ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                <Workflow className="w-4 h-4 mr-2" />
+                Chained Joins
+                {joinGraph && joinGraph.steps.some(st => st.reasoning) && (
+                  <span className="ml-2 px-1.5 py-0.5 rounded bg-fuchsia-100 text-fuchsia-700 text-[10px] uppercase font-bold">AI</span>
+                )}
+              </button>
             </div>
           </div>
 
-          {/* Reasoning */}
-          <div className="bg-slate-50 rounded-xl p-5 border border-slate-100 relative mb-8">
-            <Lightbulb className="w-5 h-5 text-amber-500 absolute top-5 left-5" />
-            <div className="pl-8">
-              <h4 className="text-sm font-semibold text-slate-800 mb-2">AI Reasoning</h4>
-              <p className="text-slate-600 leading-relaxed text-sm">
-                {activeCandidate.reasoning}
-              </p>
+          {joinMode === 'chain' && joinGraph ? (
+            <JoinGraphBuilder
+              files={files}
+              graph={joinGraph}
+              onChange={onUpdateJoinGraph}
+            />
+          ) : (
+            <>
+            <div className="text-center mb-8">
+              <p className="text-sm text-slate-500 uppercase tracking-wider font-semibold mb-2">Selected Common Column</p>
+              <div className="inline-flex items-center justify-center space-x-2 bg-blue-50 px-6 py-3 rounded-xl border border-blue-200">
+                 <span className="text-2xl sm:text-3xl font-bold text-blue-900 break-all">{activeCandidate.keyName}</span>
+              </div>
+            </div>
+
+            {/* Reasoning */}
+            <div className="bg-slate-50 rounded-xl p-5 border border-slate-100 relative mb-8">
+              <Lightbulb className="w-5 h-5 text-amber-500 absolute top-5 left-5" />
+              <div className="pl-8">
+                <h4 className="text-sm font-semibold text-slate-800 mb-2">AI Reasoning</h4>
+                <p className="text-slate-600 leading-relaxed text-sm">
+                  {activeCandidate.reasoning}
+                </p>
+              </div>
             </div>
-          </div>
           
-          <hr className="border-slate-100 mb-8" />
-
-          {/* Join Strategy Selection */}
-          <div className="mb-6">
-             <h4 className="text-sm font-semibold text-slate-900 mb-4">Select Join Method</h4>
-             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-2 gap-4">
-                {joinOptions.map((opt) => (
-                  <button
-                    key={opt.type}
-                    onClick={() => setSelectedJoinType(opt.type)}
+            {joinFiles.length >= 2 && (
+              <KeyQualityPanel
+                quality={qualities[selectedCandidateIndex] || null}
+                candidate={activeCandidate}
+                joinType={selectedJoinType}
+              />
+            )}
+
+            <JoinFilesPanel
+              files={files}
+              fileOrder={fileOrder}
+              excludedFileIds={excludedFileIds}
+              onChangeOrder={setFileOrder}
+              onChangeExcluded={setExcludedFileIds}
+            />
+
+            <KeyColumnsEditor
+              files={joinFiles}
+              candidate={activeCandidate}
+              onChange={(updated) => onUpdateCandidate(selectedCandidateIndex, updated)}
+            />
+
+            <NormalizationPanel
+              files={joinFiles}
+              candidate={activeCandidate}
+              onChange={(updated) => onUpdateCandidate(selectedCandidateIndex, updated)}
+            />
+
+            <div className="mb-8 grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <button
+                onClick={() => setShowMatchReport(true)}
+                disabled={joinFiles.length < 2}
+                className="flex items-center justify-center px-4 py-3 rounded-xl border border-slate-200 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <BarChart3 className="w-4 h-4 mr-2 text-slate-400" />
+                Match Report: matched and unmatched keys per file
+              </button>
+              <button
+                onClick={() => setShowReconcile(true)}
+                disabled={joinFiles.length < 2}
+                className="flex items-center justify-center px-4 py-3 rounded-xl border border-slate-200 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Scale className="w-4 h-4 mr-2 text-slate-400" />
+                Reconcile: compare values for matched keys
+              </button>
+            </div>
+
+            <hr className="border-slate-100 mb-8" />
+
+            {/* Join Strategy Selection */}
+            <div className="mb-6">
+               <h4 className="text-sm font-semibold text-slate-900 mb-4">Select Join Method</h4>
+               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-2 gap-4">
+                  {joinOptions.map((opt) => (
+                    <button
+                      key={opt.type}
+                      onClick={() => setSelectedJoinType(opt.type)}
+                      className={`
+                        relative flex flex-col items-start p-4 rounded-xl border-2 transition-all duration-200 text-left h-full
+                        ${selectedJoinType === opt.type ? opt.activeBorder + ' bg-white shadow-md' : 'border-slate-100 hover:border-slate-300 bg-white hover:bg-slate-50'}
+                      `}
+                    >
+                      <div className={`p-2 rounded-lg mb-3 ${opt.color}`}>
+                        <opt.icon className="w-5 h-5" />
+                      </div>
+                      <div className="mb-1 w-full flex justify-between items-center">
+                        <span className="font-bold text-slate-800 text-sm">{opt.title}</span>
+                        {opt.count !== undefined && (
+                          <span className="text-xs font-mono bg-slate-100 px-2 py-0.5 rounded text-slate-600">
+                            {typeof opt.count === 'number' ? `${opt.count} rows` : opt.count}
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-xs text-slate-500 leading-relaxed">
+                        {opt.description}
+                      </p>
+                    
+                      {selectedJoinType === opt.type && (
+                        <div className="absolute top-3 right-3">
+                          <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
+                        </div>
+                      )}
+                    </button>
+                  ))}
+               </div>
+            </div>
+
+            <CardinalityPanel
+              stats={stats}
+              rowLimit={rowLimit}
+              onChangeRowLimit={setRowLimit}
+            />
+
+            {selectedJoinType !== JoinType.AI_SEMANTIC && (
+              <OutputColumnsPanel
+                files={joinFiles}
+                candidate={activeCandidate}
+                joinType={selectedJoinType}
+                onChange={(updated) => onUpdateCandidate(selectedCandidateIndex, updated)}
+              />
+            )}
+
+            {selectedJoinType !== JoinType.AI_SEMANTIC && (
+              <CoalescePanel
+                files={joinFiles}
+                candidate={activeCandidate}
+                joinType={selectedJoinType}
+                onChange={(updated) => onUpdateCandidate(selectedCandidateIndex, updated)}
+              />
+            )}
+
+            {selectedJoinType === JoinType.FUZZY && (
+              <FuzzyOptionsPanel
+                files={joinFiles}
+                candidate={activeCandidate}
+                onChange={(updated) => onUpdateCandidate(selectedCandidateIndex, updated)}
+              />
+            )}
+
+            {isTemporal && (
+              <TemporalOptionsPanel
+                files={joinFiles}
+                candidate={activeCandidate}
+                joinType={selectedJoinType}
+                onChange={(updated) => onUpdateCandidate(selectedCandidateIndex, updated)}
+              />
+            )}
+
+            {/* AI Plan Editor (Only visible if AI_SEMANTIC is selected) */}
+            {selectedJoinType === JoinType.AI_SEMANTIC && (
+              <div className="mb-8 animate-fade-in">
+                <div className="flex items-center justify-between mb-2">
+                   <h4 className="text-sm font-semibold text-fuchsia-900 flex items-center">
+                     <PencilLine className="w-4 h-4 mr-2" />
+                     Review AI Execution Plan
+                   </h4>
+                   {isPlanning && <span className="text-xs text-slate-400 animate-pulse">Generating plan...</span>}
+                </div>
+                <div className="relative">
+                  <textarea
+                    value={aiPlan}
+                    onChange={(e) => setAiPlan(e.target.value)}
+                    disabled={isPlanning}
                     className={`
-                      relative flex flex-col items-start p-4 rounded-xl border-2 transition-all duration-200 text-left h-full
-                      ${selectedJoinType === opt.type ? opt.activeBorder + ' bg-white shadow-md' : 'border-slate-100 hover:border-slate-300 bg-white hover:bg-slate-50'}
+                      w-full h-48 p-4 rounded-xl border-2 text-sm font-mono leading-relaxed resize-none focus:outline-none focus:ring-2 focus:ring-fuchsia-500
+                      ${isPlanning ? 'bg-slate-50 border-slate-200 text-slate-400' : 'bg-fuchsia-50/30 border-fuchsia-100 text-slate-700'}
                     `}
-                  >
-                    <div className={`p-2 rounded-lg mb-3 ${opt.color}`}>
-                      <opt.icon className="w-5 h-5" />
+                    placeholder="The AI will describe its merge strategy here. You can edit it to provide specific instructions."
+                  />
+                  {!isPlanning && !aiPlan && (
+                    <div className="absolute inset-0 flex items-center justify-center text-slate-400 text-sm">
+                       Plan generation failed. Please type your instructions manually.
                     </div>
-                    <div className="mb-1 w-full flex justify-between items-center">
-                      <span className="font-bold text-slate-800 text-sm">{opt.title}</span>
-                      {opt.count !== undefined && (
-                        <span className="text-xs font-mono bg-slate-100 px-2 py-0.5 rounded text-slate-600">
-                          {typeof opt.count === 'number' ? `${opt.count} rows` : opt.count}
-                        </span>
-                      )}
-                    </div>
-                    <p className="text-xs text-slate-500 leading-relaxed">
-                      {opt.description}
-                    </p>
-                    
-                    {selectedJoinType === opt.type && (
-                      <div className="absolute top-3 right-3">
-                        <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
-                      </div>
-                    )}
-                  </button>
-                ))}
-             </div>
-          </div>
-
-          {/* AI Plan Editor (Only visible if AI_SEMANTIC is selected) */}
-          {selectedJoinType === JoinType.AI_SEMANTIC && (
-            <div className="mb-8 animate-fade-in">
-              <div className="flex items-center justify-between mb-2">
-                 <h4 className="text-sm font-semibold text-fuchsia-900 flex items-center">
-                   <PencilLine className="w-4 h-4 mr-2" />
-                   Review AI Execution Plan
-                 </h4>
-                 {isPlanning && <span className="text-xs text-slate-400 animate-pulse">Generating plan...</span>}
+                  )}
+                </div>
+                <p className="text-xs text-slate-500 mt-2">
+                  <strong>Tip:</strong> You can edit the text above to force the AI to behave differently (e.g., "Do not merge column X", "Use strict matching for Emails").
+                </p>
               </div>
-              <div className="relative">
-                <textarea
-                  value={aiPlan}
-                  onChange={(e) => setAiPlan(e.target.value)}
-                  disabled={isPlanning}
-                  className={`
-                    w-full h-48 p-4 rounded-xl border-2 text-sm font-mono leading-relaxed resize-none focus:outline-none focus:ring-2 focus:ring-fuchsia-500
-                    ${isPlanning ? 'bg-slate-50 border-slate-200 text-slate-400' : 'bg-fuchsia-50/30 border-fuchsia-100 text-slate-700'}
-                  `}
-                  placeholder="The AI will describe its merge strategy here. You can edit it to provide specific instructions."
-                />
-                {!isPlanning && !aiPlan && (
-                  <div className="absolute inset-0 flex items-center justify-center text-slate-400 text-sm">
-                     Plan generation failed. Please type your instructions manually.
-                  </div>
-                )}
-              </div>
-              <p className="text-xs text-slate-500 mt-2">
-                <strong>Tip:</strong> You can edit the text above to force the AI to behave differently (e.g., "Do not merge column X", "Use strict matching for Emails").
-              </p>
+            )}
+            </>
+          )}
+
+          <JoinPreview
+            files={files}
+            joinFiles={joinFiles}
+            candidate={activeCandidate}
+            joinType={selectedJoinType}
+            joinGraph={joinMode === 'chain' ? joinGraph : null}
+          />
+
+          {joinMode === 'shared' && joinFiles.length < 2 && (
+            <div className="mb-4 flex items-center p-3 text-sm text-amber-700 bg-amber-50 rounded-lg border border-amber-100">
+              <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+              Include at least two files to run a join.
+            </div>
+          )}
+
+          {isProcessing && (
+            <div className="mb-4">
+              <TaskProgressBar
+                progress={joinProgress}
+                label={joinMode === 'shared' && selectedJoinType === JoinType.AI_SEMANTIC ? 'Waiting for the AI merge...' : 'Starting join...'}
+                onCancel={joinMode === 'shared' && selectedJoinType === JoinType.AI_SEMANTIC ? undefined : () => joinWorker.cancel()}
+              />
             </div>
           )}
 
@@ -273,7 +692,7 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ candidates, file
           <div className="pt-2 flex flex-col sm:flex-row gap-4">
             <button 
               onClick={() => handleAction('download')}
-              disabled={isProcessing || (selectedJoinType === JoinType.AI_SEMANTIC && isPlanning)}
+              disabled={isProcessing || !canRun || (joinMode === 'shared' && selectedJoinType === JoinType.AI_SEMANTIC && isPlanning)}
               className={`
                 flex-1 flex items-center justify-center space-x-2 py-4 rounded-xl font-bold text-lg shadow-md hover:shadow-lg transition-all transform active:scale-[0.99] text-white
                 bg-slate-800 hover:bg-slate-900 disabled:opacity-70 disabled:cursor-not-allowed
@@ -284,13 +703,20 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ candidates, file
             </button>
             <button 
               onClick={() => handleAction('save')}
-              disabled={isProcessing || (selectedJoinType === JoinType.AI_SEMANTIC && isPlanning)}
+              disabled={isProcessing || !canRun || (joinMode === 'shared' && selectedJoinType === JoinType.AI_SEMANTIC && isPlanning)}
               className={`
                 flex-1 flex items-center justify-center space-x-2 py-4 rounded-xl font-bold text-lg shadow-md hover:shadow-lg transition-all transform active:scale-[0.99] text-white disabled:opacity-70 disabled:cursor-not-allowed
-                ${selectedJoinType === JoinType.INNER ? 'bg-emerald-600 hover:bg-emerald-700' : 
+                ${joinMode === 'chain' ? 'bg-blue-600 hover:bg-blue-700' :
+                  selectedJoinType === JoinType.INNER ? 'bg-emerald-600 hover:bg-emerald-700' : 
                   selectedJoinType === JoinType.LEFT ? 'bg-violet-600 hover:bg-violet-700' : 
+                  selectedJoinType === JoinType.RIGHT ? 'bg-purple-600 hover:bg-purple-700' : 
+                  selectedJoinType === JoinType.SEMI ? 'bg-teal-600 hover:bg-teal-700' : 
+                  selectedJoinType === JoinType.ANTI ? 'bg-orange-600 hover:bg-orange-700' : 
                   selectedJoinType === JoinType.ADDITIVE ? 'bg-indigo-600 hover:bg-indigo-700' :
                   selectedJoinType === JoinType.AI_SEMANTIC ? 'bg-fuchsia-600 hover:bg-fuchsia-700' :
+                  selectedJoinType === JoinType.FUZZY ? 'bg-cyan-600 hover:bg-cyan-700' :
+                  selectedJoinType === JoinType.ASOF ? 'bg-sky-600 hover:bg-sky-700' :
+                  selectedJoinType === JoinType.RANGE ? 'bg-lime-600 hover:bg-lime-700' :
                   'bg-blue-600 hover:bg-blue-700'}
               `}
             >
@@ -298,6 +724,16 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ candidates, file
               <span>Save to Workspace</span>
             </button>
           </div>
+
+          {lastRun && !isProcessing && (
+            <button
+              onClick={() => setRecipeDraft(lastRun)}
+              className="mt-4 w-full flex items-center justify-center px-4 py-3 rounded-xl border border-slate-200 text-sm font-medium text-slate-700 hover:bg-slate-50"
+            >
+              <ScrollText className="w-4 h-4 mr-2 text-slate-400" />
+              Save the last run as a recipe to repeat it on new files
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,83 @@
+import React from 'react';
+import { JoinStats } from '../types';
+import { Network, AlertTriangle } from 'lucide-react';
+
+interface CardinalityPanelProps {
+  stats: JoinStats | null;
+  rowLimit: number;
+  onChangeRowLimit: (limit: number) => void;
+}
+
+const RELATIONSHIP_STYLES: Record<string, string> = {
+  '1:1': 'bg-emerald-100 text-emerald-700',
+  '1:N': 'bg-amber-100 text-amber-700',
+  'N:M': 'bg-red-100 text-red-700'
+};
+
+export const CardinalityPanel: React.FC<CardinalityPanelProps> = ({ stats, rowLimit, onChangeRowLimit }) => {
+  if (!stats?.keyCardinality) return null;
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-semibold text-slate-900 flex items-center">
+          <Network className="w-4 h-4 mr-2 text-slate-400" />
+          Key Cardinality
+          {stats.relationship && (
+            <span className={`ml-2 px-2 py-0.5 rounded text-xs font-mono ${RELATIONSHIP_STYLES[stats.relationship]}`}>
+              {stats.relationship}
+            </span>
+          )}
+        </h4>
+        <label className="text-xs text-slate-500 flex items-center">
+          Warn above
+          <input
+            type="number"
+            min={1000}
+            step={1000}
+            value={rowLimit}
+            onChange={(e) => onChangeRowLimit(Math.max(1, Number(e.target.value) || 0))}
+            className="mx-2 w-24 px-2 py-1 rounded-lg border border-slate-300 text-right font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          rows
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-3">
+        {stats.keyCardinality.map(c => (
+          <div key={c.fileName} className="p-3 rounded-xl border border-slate-100 bg-slate-50 text-xs">
+            <div className="flex items-center justify-between mb-1">
+              <span className="font-semibold text-slate-700 truncate" title={c.fileName}>{c.fileName}</span>
+              <span className={`ml-2 px-1.5 py-0.5 rounded font-mono font-bold ${c.duplicateKeys > 0 ? 'bg-amber-100 text-amber-700' : 'bg-emerald-100 text-emerald-700'}`}>
+                {c.duplicateKeys > 0 ? 'N' : '1'}
+              </span>
+            </div>
+            <p className="text-slate-500">
+              {c.distinctKeys.toLocaleString()} distinct keys
+              {c.duplicateKeys > 0 && ` • ${c.duplicateKeys.toLocaleString()} repeated (up to ${c.maxRowsPerKey} rows)`}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {stats.topFanOutKeys && stats.topFanOutKeys.length > 0 && (
+        <div className="rounded-xl border border-amber-100 bg-amber-50/50 p-3">
+          <p className="text-xs font-semibold text-amber-800 mb-2 flex items-center">
+            <AlertTriangle className="w-3 h-3 mr-1" />
+            Keys that multiply rows the most
+          </p>
+          <div className="space-y-1">
+            {stats.topFanOutKeys.map(k => (
+              <div key={k.key} className="flex items-center justify-between text-xs font-mono">
+                <span className="text-slate-700 truncate" title={k.key}>{k.key}</span>
+                <span className="text-slate-500 whitespace-nowrap ml-2">
+                  {k.rowsPerFile.join(' × ')} → <span className="font-bold text-amber-700">{k.outputRows.toLocaleString()}</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React from 'react';
+import { JoinCandidate, ParsedFile, JoinType, CoalesceGroup, CoalesceRule } from '../types';
+import { getJoinOutputColumns } from '../services/dataService';
+import { suggestCoalesceGroups, getCoalesceNameClash, COALESCE_RULE_LABELS, CONFLICTS_COLUMN } from '../services/coalesceService';
+import { Merge, Plus, Trash2, X, Sparkles } from 'lucide-react';
+
+interface CoalescePanelProps {
+  files: ParsedFile[]; // Files in the join, in join order
+  candidate: JoinCandidate;
+  joinType: JoinType;
+  onChange: (candidate: JoinCandidate) => void;
+}
+
+export const CoalescePanel: React.FC<CoalescePanelProps> = ({ files, candidate, joinType, onChange }) => {
+  const groups = candidate.coalesce || [];
+  const outputColumns = getJoinOutputColumns(files, candidate, joinType);
+  const columnNames = outputColumns.map(c => c.name);
+  const usedColumns = new Set(groups.flatMap(g => g.sources.map(s => s.column)));
+
+  const setGroups = (next: CoalesceGroup[]) => onChange({ ...candidate, coalesce: next });
+
+  const updateGroup = (index: number, patch: Partial<CoalesceGroup>) => {
+    setGroups(groups.map((g, i) => i === index ? { ...g, ...patch } : g));
+  };
+
+  const handleSuggest = () => {
+    // Only add suggestions for columns that aren't already grouped
+    const fresh = suggestCoalesceGroups(outputColumns.filter(c => !usedColumns.has(c.name)));
+    setGroups([...groups, ...fresh]);
+  };
+
+  return (
+    <div className="mb-8">
+      <h4 className="text-sm font-semibold text-slate-900 mb-3 flex items-center">
+        <Merge className="w-4 h-4 mr-2 text-slate-400" />
+        Coalesce Columns
+        <span className="ml-2 text-xs font-normal text-slate-400">Merge synonymous columns; disagreements are listed in {CONFLICTS_COLUMN}</span>
+      </h4>
+
+      <div className="space-y-2">
+        {groups.map((group, index) => {
+          const clash = getCoalesceNameClash(group, columnNames);
+          const available = columnNames.filter(name => !usedColumns.has(name));
+          return (
+            <div key={index} className="p-3 rounded-xl border border-slate-100 bg-slate-50 space-y-2">
+              <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                <input
+                  type="text"
+                  value={group.outputName}
+                  onChange={(e) => updateGroup(index, { outputName: e.target.value })}
+                  className={`px-2 py-1 rounded-lg border bg-white text-xs font-mono sm:w-48 focus:outline-none focus:ring-2 focus:ring-blue-500 ${clash ? 'border-red-300' : 'border-slate-300'}`}
+                  title="Output column name"
+                />
+                <select
+                  value={group.rule}
+                  onChange={(e) => updateGroup(index, { rule: e.target.value as CoalesceRule })}
+                  className="px-2 py-1 rounded-lg border border-slate-300 bg-white text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {Object.values(CoalesceRule).map(rule => <option key={rule} value={rule}>{COALESCE_RULE_LABELS[rule]}</option>)}
+                </select>
+                <button
+                  onClick={() => setGroups(groups.filter((_, i) => i !== index))}
+                  className="sm:ml-auto p-1 text-slate-400 hover:text-red-500"
+                  title="Remove group"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              {clash && <p className="text-xs text-red-600">{clash}. This group will be skipped.</p>}
+
+              <div className="flex flex-wrap items-center gap-2">
+                {group.sources.map((source, sIdx) => (
+                  <span key={source.column} className="inline-flex items-center px-2 py-0.5 bg-white border border-blue-200 text-blue-800 rounded text-xs font-mono">
+                    <span className="mr-1 text-blue-400">{sIdx + 1}.</span>
+                    {source.column}
+                    {group.rule === CoalesceRule.NEWEST_BY_DATE && (
+                      <select
+                        value={source.dateColumn || ''}
+                        onChange={(e) => updateGroup(index, {
+                          sources: group.sources.map((s, i) => i === sIdx ? { ...s, dateColumn: e.target.value || undefined } : s)
+                        })}
+                        className="ml-2 text-[10px] px-1 py-0.5 rounded border border-slate-200 bg-slate-50 text-slate-600"
+                        title="Date column that says how recent this value is"
+                      >
+                        <option value="">no date</option>
+                        {columnNames.map(name => <option key={name} value={name}>{name}</option>)}
+                      </select>
+                    )}
+                    <button
+                      onClick={() => updateGroup(index, { sources: group.sources.filter((_, i) => i !== sIdx) })}
+                      className="ml-1 text-blue-300 hover:text-red-500"
+                      title="Remove column from group"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+                {available.length > 0 && (
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && updateGroup(index, { sources: [...group.sources, { column: e.target.value }] })}
+                    className="text-xs px-2 py-1 rounded-lg border border-dashed border-slate-300 bg-white text-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">+ Add column</option>
+                    {available.map(name => <option key={name} value={name}>{name}</option>)}
+                  </select>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-3 mt-3">
+        <button
+          onClick={handleSuggest}
+          className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-lg"
+        >
+          <Sparkles className="w-3 h-3 mr-1" />
+          Suggest Groups
+        </button>
+        <button
+          onClick={() => setGroups([...groups, { outputName: '', sources: [], rule: CoalesceRule.FIRST_BY_PRIORITY }])}
+          className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg"
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          Add Group
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,263 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ParsedFile, DedupeConfig, DedupeStrategy, DuplicateReport, KeyNormalizationOption, TaskProgress } from '../types';
+import { DEDUPE_STRATEGY_LABELS, getDedupeConfigError, getDedupeFileName, getKeptRowIndex } from '../services/dedupeService';
+import { NORMALIZATION_OPTIONS, NORMALIZATION_OPTION_LABELS } from '../services/keyService';
+import { formatValue } from '../services/schemaService';
+import { createDataWorker, isCancelledError } from '../services/workerClient';
+import { TaskProgressBar } from './TaskProgressBar';
+import { X, CopyMinus, Search, Save } from 'lucide-react';
+
+interface DedupeModalProps {
+  file: ParsedFile | null;
+  onClose: () => void;
+  onSaveFile: (newFile: ParsedFile) => void;
+}
+
+const EMPTY_CONFIG: DedupeConfig = { columns: [], strategy: DedupeStrategy.KEEP_FIRST };
+
+// Groups listed in full; the saved file always handles all of them
+const MAX_SHOWN_GROUPS = 20;
+
+export const DedupeModal: React.FC<DedupeModalProps> = ({ file, onClose, onSaveFile }) => {
+  const [config, setConfig] = useState<DedupeConfig>(EMPTY_CONFIG);
+  const [report, setReport] = useState<DuplicateReport | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [progress, setProgress] = useState<TaskProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const worker = useMemo(() => createDataWorker(), []);
+  useEffect(() => () => worker.dispose(), [worker]);
+
+  // Start over whenever the modal opens on a different file
+  useEffect(() => {
+    setConfig(EMPTY_CONFIG);
+    setFileName('');
+    setError(null);
+  }, [file?.id]);
+
+  // Groups depend on the compared columns and rules, not on which row survives
+  useEffect(() => setReport(null), [file?.id, config.columns, config.normalization]);
+
+  if (!file) return null;
+
+  const configError = getDedupeConfigError(file, config);
+  const outputName = fileName.trim() || getDedupeFileName(file);
+
+  const handleClose = () => {
+    worker.cancel();
+    onClose();
+  };
+
+  const toggleColumn = (column: string) => {
+    const columns = config.columns.includes(column) ? config.columns.filter(c => c !== column) : [...config.columns, column];
+    setConfig({ ...config, columns });
+  };
+
+  const toggleRule = (option: KeyNormalizationOption) => {
+    setConfig({ ...config, normalization: { ...config.normalization, [option]: !config.normalization?.[option] } });
+  };
+
+  const runTask = async (task: () => Promise<void>, failure: string) => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      await task();
+    } catch (err: any) {
+      if (!isCancelledError(err)) setError(err.message || failure);
+    } finally {
+      setIsRunning(false);
+      setProgress(null);
+    }
+  };
+
+  const handleFind = () => runTask(async () => {
+    setReport(await worker.run<DuplicateReport>({ type: 'findDuplicates', file, config }, setProgress));
+  }, 'Duplicate search failed');
+
+  const handleSave = () => runTask(async () => {
+    const result = await worker.run<ParsedFile>({ type: 'dedupe', file, config, saveAs: outputName }, setProgress);
+    onSaveFile(result);
+    onClose();
+  }, 'Deduplication failed');
+
+  const shownHeaders = [...config.columns, ...file.headers.filter(h => !config.columns.includes(h))];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm transition-opacity"
+        onClick={handleClose}
+      />
+
+      {/* Modal Content */}
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden animate-fade-in-up">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div className="flex items-center space-x-3 min-w-0">
+            <div className="p-2 bg-blue-100 text-blue-600 rounded-lg">
+              <CopyMinus className="w-6 h-6" />
+            </div>
+            <div className="min-w-0">
+              <h3 className="text-xl font-bold text-slate-900 truncate">Remove Duplicates</h3>
+              <p className="text-sm text-slate-500 truncate">{file.name} • {file.rowCount.toLocaleString()} rows, cleaned copy saved as a new file</p>
+            </div>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto custom-scrollbar p-6 space-y-6">
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-sm font-semibold text-slate-900">Compare Columns</h4>
+              <button
+                onClick={() => setConfig({ ...config, columns: config.columns.length === file.headers.length ? [] : [...file.headers] })}
+                className="text-xs font-medium text-blue-600 hover:text-blue-700"
+              >
+                {config.columns.length === file.headers.length ? 'Clear' : 'All columns (whole-row duplicates)'}
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {file.headers.map(col => (
+                <button
+                  key={col}
+                  onClick={() => toggleColumn(col)}
+                  className={`px-2 py-1 rounded-lg border text-xs font-mono transition-colors ${config.columns.includes(col) ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                >
+                  {col}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-slate-900 mb-1">Matching Rules</h4>
+            <p className="text-xs text-slate-500 mb-3">Leave all off to find exact duplicates only.</p>
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              {NORMALIZATION_OPTIONS.map(option => (
+                <label key={option} className="flex items-center text-sm text-slate-700" title={NORMALIZATION_OPTION_LABELS[option].example}>
+                  <input
+                    type="checkbox"
+                    checked={!!config.normalization?.[option]}
+                    onChange={() => toggleRule(option)}
+                    className="mr-2 accent-blue-600"
+                  />
+                  {NORMALIZATION_OPTION_LABELS[option].title}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-slate-900 mb-3">For Each Group</h4>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {Object.values(DedupeStrategy).map(strategy => (
+                <label
+                  key={strategy}
+                  className={`flex items-start p-3 rounded-xl border cursor-pointer transition-colors ${config.strategy === strategy ? 'border-blue-300 bg-blue-50/50' : 'border-slate-100 bg-white hover:bg-slate-50'}`}
+                >
+                  <input
+                    type="radio"
+                    checked={config.strategy === strategy}
+                    onChange={() => setConfig({ ...config, strategy })}
+                    className="mt-0.5 mr-3 accent-blue-600"
+                  />
+                  <div>
+                    <span className="text-sm font-medium text-slate-800">{DEDUPE_STRATEGY_LABELS[strategy].title}</span>
+                    <p className="text-xs text-slate-500">{DEDUPE_STRATEGY_LABELS[strategy].description}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <button
+            onClick={handleFind}
+            disabled={!!configError || isRunning}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-lg disabled:opacity-50"
+          >
+            <Search className="w-4 h-4 mr-2" />
+            Find Duplicates
+          </button>
+
+          {report && (
+            <div>
+              <p className="text-sm text-slate-700 mb-3">
+                {report.groups.length === 0
+                  ? 'No duplicates found.'
+                  : `${report.groups.length.toLocaleString()} duplicate groups • ${report.duplicateRows.toLocaleString()} rows would be removed`}
+                {report.blankRows > 0 && <span className="text-slate-500"> • {report.blankRows.toLocaleString()} rows blank in every compared column are kept as they are</span>}
+              </p>
+              <div className="space-y-3">
+                {report.groups.slice(0, MAX_SHOWN_GROUPS).map(group => {
+                  const kept = getKeptRowIndex(file, group, config.strategy);
+                  return (
+                    <div key={group.key} className="overflow-x-auto custom-scrollbar border rounded-lg">
+                      <table className="min-w-full divide-y divide-slate-200 text-xs">
+                        <thead className="bg-slate-50">
+                          <tr>
+                            <th className="px-3 py-1.5 text-left font-medium text-slate-500">Row</th>
+                            {shownHeaders.map(h => (
+                              <th key={h} className={`px-3 py-1.5 text-left font-medium whitespace-nowrap ${config.columns.includes(h) ? 'text-blue-600' : 'text-slate-500'}`}>{h}</th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-slate-100">
+                          {group.rowIndexes.map(index => {
+                            const isKept = kept === null || kept === index;
+                            return (
+                              <tr key={index} className={kept === index ? 'bg-emerald-50' : isKept ? '' : 'text-slate-400 line-through'}>
+                                <td className="px-3 py-1.5 font-mono text-slate-400">{index + 1}</td>
+                                {shownHeaders.map(h => (
+                                  <td key={h} className="px-3 py-1.5 whitespace-nowrap max-w-[200px] truncate">{formatValue(file.data[index][h])}</td>
+                                ))}
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                  );
+                })}
+              </div>
+              {report.groups.length > MAX_SHOWN_GROUPS && (
+                <p className="text-xs text-slate-400 mt-2">Showing {MAX_SHOWN_GROUPS} of {report.groups.length.toLocaleString()} groups.</p>
+              )}
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-sm font-semibold text-slate-900 mb-3">New File Name</h4>
+            <input
+              type="text"
+              value={fileName}
+              onChange={(e) => setFileName(e.target.value)}
+              placeholder={getDedupeFileName(file)}
+              className="w-full px-3 py-2 rounded-lg border border-slate-300 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          {isRunning && <TaskProgressBar progress={progress} label="Deduplicating" onCancel={worker.cancel} />}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 bg-slate-50 flex items-center justify-between gap-4">
+          <span className="text-xs text-slate-500">{configError || `${DEDUPE_STRATEGY_LABELS[config.strategy].title} of each group on ${config.columns.join(', ')}`}</span>
+          <button
+            onClick={handleSave}
+            disabled={!!configError || isRunning}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg disabled:opacity-50 shrink-0"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            Save to Workspace
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,16 +1,21 @@
 import React from 'react';
 import { ParsedFile } from '../types';
-import { FileSpreadsheet, Table, X, Eye, Brain } from 'lucide-react';
+import { FileSpreadsheet, Table, X, Eye, Brain, Columns3, Sigma, CopyMinus, SquareFunction, BarChart3 } from 'lucide-react';
 
 interface FileCardProps {
   file: ParsedFile;
   onRemove: (id: string) => void;
   onPreview: (file: ParsedFile) => void;
   onInsights: (file: ParsedFile) => void;
+  onEditSchema: (file: ParsedFile) => void;
+  onGroupBy: (file: ParsedFile) => void;
+  onDedupe: (file: ParsedFile) => void;
+  onAddColumn: (file: ParsedFile) => void;
+  onProfile: (file: ParsedFile) => void;
   colorIndex: number; // For visual differentiation
 }
 
-const COLORS = [
+export const COLORS = [
   'bg-emerald-500',
   'bg-blue-500',
   'bg-violet-500',
@@ -18,7 +23,7 @@ const COLORS = [
   'bg-rose-500'
 ];
 
-export const FileCard: React.FC<FileCardProps> = ({ file, onRemove, onPreview, onInsights, colorIndex }) => {
+export const FileCard: React.FC<FileCardProps> = ({ file, onRemove, onPreview, onInsights, onEditSchema, onGroupBy, onDedupe, onAddColumn, onProfile, colorIndex }) => {
   const themeColor = file.isJoined ? 'bg-indigo-600' : COLORS[colorIndex % COLORS.length];
 
   return (
@@ -40,6 +45,7 @@ export const FileCard: React.FC<FileCardProps> = ({ file, onRemove, onPreview, o
             <h3 className="text-slate-900 font-semibold truncate text-sm sm:text-base flex items-center" title={file.name}>
               {file.name}
               {file.isJoined && <span className="ml-2 px-1.5 py-0.5 bg-indigo-100 text-indigo-700 text-[10px] rounded uppercase font-bold tracking-wider">Joined</span>}
+              {file.isDerived && <span className="ml-2 px-1.5 py-0.5 bg-slate-100 text-slate-600 text-[10px] rounded uppercase font-bold tracking-wider">Derived</span>}
             </h3>
             <div className="flex items-center text-xs text-slate-500 space-x-3 mt-1">
               <span className="flex items-center">
@@ -60,6 +66,41 @@ export const FileCard: React.FC<FileCardProps> = ({ file, onRemove, onPreview, o
           >
             <Brain className="w-5 h-5" />
           </button>
+          <button 
+            onClick={() => onProfile(file)}
+            className="p-2 text-slate-600 bg-slate-50 hover:bg-slate-100 rounded-lg transition-colors"
+            title="Column Profile"
+          >
+            <BarChart3 className="w-5 h-5" />
+          </button>
+          <button 
+            onClick={() => onEditSchema(file)}
+            className="p-2 text-slate-600 bg-slate-50 hover:bg-slate-100 rounded-lg transition-colors"
+            title="Column Types"
+          >
+            <Columns3 className="w-5 h-5" />
+          </button>
+          <button 
+            onClick={() => onGroupBy(file)}
+            className="p-2 text-slate-600 bg-slate-50 hover:bg-slate-100 rounded-lg transition-colors"
+            title="Group & Aggregate"
+          >
+            <Sigma className="w-5 h-5" />
+          </button>
+          <button 
+            onClick={() => onDedupe(file)}
+            className="p-2 text-slate-600 bg-slate-50 hover:bg-slate-100 rounded-lg transition-colors"
+            title="Remove Duplicates"
+          >
+            <CopyMinus className="w-5 h-5" />
+          </button>
+          <button 
+            onClick={() => onAddColumn(file)}
+            className="p-2 text-slate-600 bg-slate-50 hover:bg-slate-100 rounded-lg transition-colors"
+            title="Add Column"
+          >
+            <SquareFunction className="w-5 h-5" />
+          </button>
           <button 
             onClick={() => onPreview(file)}
             className="p-2 text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors"
@@ -81,7 +122,7 @@ export const FileCard: React.FC<FileCardProps> = ({ file, onRemove, onPreview, o
       <div className="px-4 pb-4 overflow-x-auto custom-scrollbar">
         <div className="flex space-x-2">
           {file.headers.slice(0, 6).map((h, i) => (
-             <span key={i} className="px-2 py-0.5 bg-slate-50 border border-slate-100 rounded text-[10px] text-slate-500 font-mono whitespace-nowrap">
+             <span key={i} className="px-2 py-0.5 bg-slate-50 border border-slate-100 rounded text-[10px] text-slate-500 font-mono whitespace-nowrap" title={file.schema?.[i]?.type}>
                {h}
              </span>
           ))}
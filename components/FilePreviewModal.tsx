@@ -1,34 +1,216 @@
-import React, { useState } from 'react';
-import { ParsedFile } from '../types';
-import { X, FileSpreadsheet, Search } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ParsedFile, ColumnFilter, ColumnType, FilterOperator, GridView, TaskProgress } from '../types';
+import { formatValue, getColumnType, COLUMN_TYPE_LABELS } from '../services/schemaService';
+import {
+  EMPTY_GRID_VIEW,
+  FILTER_OPERATOR_LABELS,
+  createColumnFilter,
+  describeFilter,
+  getViewFileName,
+  isFilterComplete,
+  isViewFiltered
+} from '../services/gridService';
+import { createDataWorker, isCancelledError } from '../services/workerClient';
+import { TaskProgressBar } from './TaskProgressBar';
+import { X, FileSpreadsheet, Search, Filter, Pin, PinOff, ArrowUp, ArrowDown, Save } from 'lucide-react';
 
 interface FilePreviewModalProps {
   file: ParsedFile | null;
   onClose: () => void;
+  onSaveFile: (newFile: ParsedFile) => void;
 }
 
-export const FilePreviewModal: React.FC<FilePreviewModalProps> = ({ file, onClose }) => {
-  const [searchTerm, setSearchTerm] = useState('');
+const ROW_HEIGHT = 36;
+const OVERSCAN = 10; // Rows rendered above and below the visible ones, so fast scrolling doesn't flash blank
+const INDEX_WIDTH = 72;
+const DEFAULT_COLUMN_WIDTH = 160;
+const MIN_COLUMN_WIDTH = 60;
+// Filtering reads every row; wait for typing to settle before running it
+const VIEW_DELAY_MS = 300;
+// Browsers cap element heights (about 17.9M px in Firefox, 33.5M px in Chrome). Past this, scroll
+// positions are stretched over all rows instead of giving each row its own 36 px of scrollbar.
+const MAX_SCROLL_HEIGHT = 10_000_000;
+
+export const FilePreviewModal: React.FC<FilePreviewModalProps> = ({ file, onClose, onSaveFile }) => {
+  const [view, setView] = useState<GridView>(EMPTY_GRID_VIEW);
+  const [editingColumn, setEditingColumn] = useState<string | null>(null);
+  const [widths, setWidths] = useState<Record<string, number>>({});
+  const [pinned, setPinned] = useState<string[]>([]);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [saveName, setSaveName] = useState('');
+  const [progress, setProgress] = useState<TaskProgress | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Rows the view shows, in order, and the file they index; null shows every row in file order
+  const [viewResult, setViewResult] = useState<{ file: ParsedFile; rows: number[] } | null>(null);
+  const [isFiltering, setIsFiltering] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Filtering gets its own worker, so a new search never cancels a save
+  const worker = useMemo(() => createDataWorker(), []);
+  const viewWorker = useMemo(() => createDataWorker(), []);
+  useEffect(() => () => {
+    worker.dispose();
+    viewWorker.dispose();
+  }, [worker, viewWorker]);
+
+  // Start over whenever the modal opens on a different file
+  useEffect(() => {
+    setView(EMPTY_GRID_VIEW);
+    setEditingColumn(null);
+    setWidths({});
+    setPinned([]);
+    setSaveName('');
+    setError(null);
+    scrollRef.current?.scrollTo({ top: 0, left: 0 });
+  }, [file?.id]);
+
+  // Only the rows inside the viewport are rendered, so the grid needs to know how tall it is
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [file?.id]);
+
+  // Filter and sort in the background once edits settle; the grid keeps the last rows until then
+  useEffect(() => {
+    if (!file || !isViewFiltered(view)) {
+      setViewResult(null);
+      setIsFiltering(false);
+      return;
+    }
+    const timer = setTimeout(() => {
+      setIsFiltering(true);
+      viewWorker.run<number[]>({ type: 'viewRows', file, view })
+        .then(rows => {
+          setViewResult({ file, rows });
+          setIsFiltering(false);
+        })
+        .catch(err => {
+          if (isCancelledError(err)) return;
+          setError(err.message || 'Filtering failed');
+          setIsFiltering(false);
+        });
+    }, VIEW_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      viewWorker.cancel();
+      // A cancelled run never settles; the next run, if any, sets the flag again
+      setIsFiltering(false);
+    };
+  }, [file, view, viewWorker]);
 
   if (!file) return null;
 
-  const filteredData = file.data.filter(row => {
-    if (!searchTerm) return true;
-    return Object.values(row).some(val => 
-      String(val).toLowerCase().includes(searchTerm.toLowerCase())
-    );
-  }).slice(0, 1000); // Limit to 1000 rows for DOM performance
+  const columns = [...pinned.filter(h => file.headers.includes(h)), ...file.headers.filter(h => !pinned.includes(h))];
+  const widthOf = (column: string) => widths[column] ?? DEFAULT_COLUMN_WIDTH;
+  const totalWidth = INDEX_WIDTH + columns.reduce((sum, col) => sum + widthOf(col), 0);
+
+  // Pinned columns stick to the left edge, each after the ones pinned before it
+  const pinOffsets = new Map<string, number>();
+  columns.filter(col => pinned.includes(col)).reduce((left, col) => {
+    pinOffsets.set(col, left);
+    return left + widthOf(col);
+  }, INDEX_WIDTH);
+
+  const viewRows = viewResult?.file === file ? viewResult.rows : null;
+  const rowCount = viewRows ? viewRows.length : file.rowCount;
+  const rowsHeight = rowCount * ROW_HEIGHT;
+  const scrollHeight = Math.min(rowsHeight, MAX_SCROLL_HEIGHT);
+  // Where in the full height of the rows the viewport is; equal to scrollTop unless the rows are too tall
+  const offset = scrollHeight > viewportHeight
+    ? scrollTop * (rowsHeight - viewportHeight) / (scrollHeight - viewportHeight)
+    : scrollTop;
+  const start = Math.max(0, Math.floor(offset / ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(rowCount, Math.ceil((offset + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+  const visibleRows = Array.from({ length: Math.max(0, end - start) }, (_, i) => viewRows ? viewRows[start + i] : start + i);
+
+  const activeFilters = view.filters.filter(isFilterComplete);
+  const isFiltered = isViewFiltered(view);
+  const editingFilter = view.filters.find(f => f.column === editingColumn);
+  const editingType = editingColumn ? getColumnType(file, editingColumn) : undefined;
+
+  const handleClose = () => {
+    worker.cancel();
+    onClose();
+  };
+
+  const updateView = (changes: Partial<GridView>) => {
+    setView(prev => ({ ...prev, ...changes }));
+    scrollRef.current?.scrollTo({ top: 0 });
+  };
+
+  const toggleSort = (column: string) => {
+    const sort = view.sort;
+    if (sort?.column !== column) updateView({ sort: { column, direction: 'asc' } });
+    else if (sort.direction === 'asc') updateView({ sort: { column, direction: 'desc' } });
+    else updateView({ sort: null });
+  };
+
+  const setFilter = (filter: ColumnFilter) => {
+    updateView({ filters: [...view.filters.filter(f => f.column !== filter.column), filter] });
+  };
+
+  const removeFilter = (column: string) => {
+    updateView({ filters: view.filters.filter(f => f.column !== column) });
+    if (editingColumn === column) setEditingColumn(null);
+  };
+
+  const togglePin = (column: string) => {
+    setPinned(pinned.includes(column) ? pinned.filter(c => c !== column) : [...pinned, column]);
+  };
+
+  const startResize = (column: string, e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    const startWidth = widthOf(column);
+    const onMove = (ev: MouseEvent) => {
+      setWidths(prev => ({ ...prev, [column]: Math.max(MIN_COLUMN_WIDTH, startWidth + ev.clientX - startX) }));
+    };
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saveAs = saveName.trim() || getViewFileName(file);
+      const created = await worker.run<ParsedFile>({ type: 'filterView', file, view, saveAs }, setProgress);
+      onSaveFile(created);
+      alert(`Saved ${created.rowCount.toLocaleString()} rows to the workspace as "${saveAs}".`);
+    } catch (err: any) {
+      if (!isCancelledError(err)) setError(err.message || 'Saving the view failed');
+    } finally {
+      setIsSaving(false);
+      setProgress(null);
+    }
+  };
+
+  const pinStyle = (column: string): React.CSSProperties => pinOffsets.has(column)
+    ? { width: widthOf(column), position: 'sticky', left: pinOffsets.get(column) }
+    : { width: widthOf(column) };
+
+  const rangePlaceholder = editingType === ColumnType.DATE ? 'YYYY-MM-DD' : editingType === ColumnType.INTEGER || editingType === ColumnType.DECIMAL ? 'number' : 'text';
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
       {/* Backdrop */}
-      <div 
-        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm transition-opacity" 
-        onClick={onClose}
+      <div
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm transition-opacity"
+        onClick={handleClose}
       />
-      
+
       {/* Modal Content */}
-      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-6xl h-[85vh] flex flex-col animate-fade-in-up">
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-6xl h-[85vh] flex flex-col overflow-hidden animate-fade-in-up">
         {/* Header */}
         <div className="flex items-center justify-between p-6 border-b border-slate-200">
           <div className="flex items-center space-x-3">
@@ -40,8 +222,8 @@ export const FilePreviewModal: React.FC<FilePreviewModalProps> = ({ file, onClos
               <p className="text-sm text-slate-500">{file.rowCount.toLocaleString()} rows • {file.headers.length} columns</p>
             </div>
           </div>
-          <button 
-            onClick={onClose}
+          <button
+            onClick={handleClose}
             className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors"
           >
             <X className="w-6 h-6" />
@@ -49,67 +231,247 @@ export const FilePreviewModal: React.FC<FilePreviewModalProps> = ({ file, onClos
         </div>
 
         {/* Toolbar */}
-        <div className="p-4 bg-slate-50 border-b border-slate-200 flex justify-between items-center">
-          <div className="relative w-full max-w-md">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
-            <input 
-              type="text"
-              placeholder="Search data..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="w-full pl-10 pr-4 py-2 rounded-lg border border-slate-300 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-sm"
-            />
-          </div>
-          <div className="text-xs text-slate-500">
-            Showing {filteredData.length} rows
+        <div className="p-4 bg-slate-50 border-b border-slate-200 space-y-3">
+          <div className="flex justify-between items-center gap-4">
+            <div className="relative w-full max-w-md">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+              <input
+                type="text"
+                placeholder="Search all columns..."
+                value={view.search}
+                onChange={(e) => updateView({ search: e.target.value })}
+                className="w-full pl-10 pr-4 py-2 rounded-lg border border-slate-300 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-sm"
+              />
+            </div>
+            <div className="text-xs text-slate-500 shrink-0">
+              {isFiltering ? 'Filtering...' : `Showing ${rowCount.toLocaleString()} of ${file.rowCount.toLocaleString()} rows`}
+            </div>
           </div>
-        </div>
 
-        {/* Table Container */}
-        <div className="flex-1 overflow-auto custom-scrollbar p-6">
-          <div className="inline-block min-w-full align-middle border rounded-lg overflow-hidden">
-            <table className="min-w-full divide-y divide-slate-200">
-              <thead className="bg-slate-50 sticky top-0 z-10">
-                <tr>
-                  <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider bg-slate-50 border-b border-slate-200 w-16">
-                    #
-                  </th>
-                  {file.headers.map((header, idx) => (
-                    <th key={idx} className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider bg-slate-50 border-b border-slate-200 whitespace-nowrap">
-                      {header}
-                    </th>
-                  ))}
-                </tr>
-              </thead>
-              <tbody className="bg-white divide-y divide-slate-200">
-                {filteredData.map((row, rowIdx) => (
-                  <tr key={rowIdx} className="hover:bg-blue-50/50 transition-colors">
-                    <td className="px-4 py-2 whitespace-nowrap text-xs font-mono text-slate-400 select-none">
-                      {rowIdx + 1}
-                    </td>
-                    {file.headers.map((header, colIdx) => (
-                      <td key={colIdx} className="px-4 py-2 whitespace-nowrap text-sm text-slate-700 max-w-[300px] truncate" title={String(row[header] ?? '')}>
-                        {String(row[header] ?? '')}
-                      </td>
-                    ))}
-                  </tr>
-                ))}
-                {filteredData.length === 0 && (
-                  <tr>
-                    <td colSpan={file.headers.length + 1} className="px-6 py-12 text-center text-slate-500">
-                      No matching records found
-                    </td>
-                  </tr>
+          {(activeFilters.length > 0 || view.sort) && (
+            <div className="flex flex-wrap items-center gap-2">
+              {activeFilters.map(filter => (
+                <span key={filter.column} className="inline-flex items-center px-2 py-1 rounded-full bg-blue-100 text-blue-700 text-xs">
+                  <button onClick={() => setEditingColumn(filter.column)} className="hover:underline">{describeFilter(filter)}</button>
+                  <button onClick={() => removeFilter(filter.column)} className="ml-1 hover:text-blue-900" title="Remove filter">
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+              {view.sort && (
+                <span className="inline-flex items-center px-2 py-1 rounded-full bg-slate-200 text-slate-700 text-xs">
+                  Sorted by {view.sort.column} ({view.sort.direction === 'asc' ? 'ascending' : 'descending'})
+                  <button onClick={() => updateView({ sort: null })} className="ml-1 hover:text-slate-900" title="Clear sort">
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              )}
+              <button
+                onClick={() => { updateView(EMPTY_GRID_VIEW); setEditingColumn(null); }}
+                className="text-xs text-slate-500 hover:text-slate-700 underline"
+              >
+                Clear all
+              </button>
+            </div>
+          )}
+
+          {editingColumn && (
+            <div className="flex flex-wrap items-start gap-2 p-3 rounded-xl border border-blue-200 bg-white">
+              <span className="text-sm font-medium text-slate-800 py-1.5">{editingColumn}</span>
+              <select
+                value={editingFilter?.operator || ''}
+                onChange={(e) => setFilter(createColumnFilter(editingColumn, e.target.value as FilterOperator))}
+                className="px-2 py-1.5 rounded-lg border border-slate-300 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="" disabled>Pick a condition</option>
+                {Object.values(FilterOperator).map(op => <option key={op} value={op}>{FILTER_OPERATOR_LABELS[op]}</option>)}
+              </select>
+              {(editingFilter?.operator === FilterOperator.EQUALS || editingFilter?.operator === FilterOperator.CONTAINS) && (
+                <input
+                  type="text"
+                  autoFocus
+                  value={editingFilter.value || ''}
+                  onChange={(e) => setFilter({ ...editingFilter, value: e.target.value })}
+                  className="px-2 py-1.5 rounded-lg border border-slate-300 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              )}
+              {editingFilter?.operator === FilterOperator.RANGE && (
+                <>
+                  <input
+                    type="text"
+                    autoFocus
+                    value={editingFilter.min || ''}
+                    onChange={(e) => setFilter({ ...editingFilter, min: e.target.value })}
+                    placeholder={`From (${rangePlaceholder})`}
+                    className="w-36 px-2 py-1.5 rounded-lg border border-slate-300 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <input
+                    type="text"
+                    value={editingFilter.max || ''}
+                    onChange={(e) => setFilter({ ...editingFilter, max: e.target.value })}
+                    placeholder={`To (${rangePlaceholder})`}
+                    className="w-36 px-2 py-1.5 rounded-lg border border-slate-300 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </>
+              )}
+              {editingFilter?.operator === FilterOperator.IN_LIST && (
+                <textarea
+                  autoFocus
+                  rows={3}
+                  value={(editingFilter.values || []).join('\n')}
+                  onChange={(e) => setFilter({ ...editingFilter, values: e.target.value.split('\n') })}
+                  placeholder="One value per line"
+                  className="w-56 px-2 py-1.5 rounded-lg border border-slate-300 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              )}
+              <div className="flex gap-2 ml-auto">
+                {editingFilter && (
+                  <button
+                    onClick={() => removeFilter(editingColumn)}
+                    className="px-3 py-1.5 text-xs font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg"
+                  >
+                    Remove Filter
+                  </button>
                 )}
-              </tbody>
-            </table>
+                <button
+                  onClick={() => setEditingColumn(null)}
+                  className="px-3 py-1.5 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg"
+                >
+                  Done
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Grid: only the rows in view are in the DOM, placed inside a block as tall as all the rows */}
+        <div
+          ref={scrollRef}
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+          className="flex-1 overflow-auto custom-scrollbar"
+        >
+          <div style={{ width: totalWidth, minWidth: '100%' }}>
+            <div className="flex sticky top-0 z-20 bg-slate-50 border-b border-slate-200">
+              <div
+                className="sticky left-0 z-10 bg-slate-50 px-4 py-3 text-xs font-medium text-slate-500 uppercase tracking-wider shrink-0"
+                style={{ width: INDEX_WIDTH }}
+              >
+                #
+              </div>
+              {columns.map(column => {
+                const type = getColumnType(file, column);
+                const isPinned = pinned.includes(column);
+                const hasFilter = activeFilters.some(f => f.column === column);
+                return (
+                  <div
+                    key={column}
+                    className={`relative shrink-0 bg-slate-50 px-3 py-2 group ${isPinned ? 'z-10 border-r border-slate-200' : ''}`}
+                    style={pinStyle(column)}
+                  >
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => toggleSort(column)}
+                        className="flex-1 min-w-0 flex items-center text-left text-xs font-medium text-slate-500 uppercase tracking-wider hover:text-slate-800"
+                        title="Sort"
+                      >
+                        <span className="truncate">{column}</span>
+                        {view.sort?.column === column && (view.sort.direction === 'asc'
+                          ? <ArrowUp className="w-3 h-3 ml-1 shrink-0 text-blue-600" />
+                          : <ArrowDown className="w-3 h-3 ml-1 shrink-0 text-blue-600" />)}
+                      </button>
+                      <button
+                        onClick={() => setEditingColumn(editingColumn === column ? null : column)}
+                        className={`p-0.5 rounded ${hasFilter ? 'text-blue-600' : 'text-slate-300 hover:text-slate-600'}`}
+                        title="Filter"
+                      >
+                        <Filter className="w-3 h-3" />
+                      </button>
+                      <button
+                        onClick={() => togglePin(column)}
+                        className={`p-0.5 rounded ${isPinned ? 'text-blue-600' : 'text-slate-300 hover:text-slate-600'}`}
+                        title={isPinned ? 'Unpin column' : 'Pin column to the left'}
+                      >
+                        {isPinned ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+                      </button>
+                    </div>
+                    {type && <span className="block mt-0.5 text-[10px] text-slate-400 truncate">{COLUMN_TYPE_LABELS[type]}</span>}
+                    <div
+                      onMouseDown={(e) => startResize(column, e)}
+                      className="absolute top-0 right-0 h-full w-1.5 cursor-col-resize hover:bg-blue-300"
+                      title="Drag to resize"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="relative" style={{ height: scrollHeight }}>
+              <div className="absolute left-0 right-0" style={{ top: scrollTop + start * ROW_HEIGHT - offset }}>
+                {visibleRows.map((rowIndex, i) => {
+                  const row = file.data[rowIndex];
+                  return (
+                    <div key={rowIndex} className="flex border-b border-slate-100 group" style={{ height: ROW_HEIGHT }}>
+                      <div
+                        className="sticky left-0 z-10 flex items-center px-4 bg-white group-hover:bg-blue-50 text-xs font-mono text-slate-400 select-none shrink-0"
+                        style={{ width: INDEX_WIDTH }}
+                        title={`Row ${rowIndex + 1} of the file`}
+                      >
+                        {start + i + 1}
+                      </div>
+                      {columns.map(column => {
+                        const text = formatValue(row[column], getColumnType(file, column));
+                        return (
+                          <div
+                            key={column}
+                            className={`flex items-center px-3 bg-white group-hover:bg-blue-50 text-sm text-slate-700 shrink-0 ${pinOffsets.has(column) ? 'z-[5] border-r border-slate-200' : ''}`}
+                            style={pinStyle(column)}
+                            title={text}
+                          >
+                            <span className="truncate">{text}</span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {rowCount === 0 && (
+              <div className="px-6 py-12 text-center text-slate-500">
+                No matching records found
+              </div>
+            )}
           </div>
         </div>
-        
-        <div className="p-4 border-t border-slate-200 bg-slate-50 text-xs text-center text-slate-500">
-          Viewing file content • {file.name}
+
+        <div className="p-4 border-t border-slate-200 bg-slate-50 space-y-3">
+          {isSaving && <TaskProgressBar progress={progress} label="Saving view" onCancel={worker.cancel} />}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-xs text-slate-500 truncate">
+              {isFiltered ? 'Save the filtered, sorted rows as a new file' : `Viewing file content • ${file.name}`}
+            </span>
+            <div className="flex items-center gap-2 shrink-0">
+              <input
+                type="text"
+                value={saveName}
+                onChange={(e) => setSaveName(e.target.value)}
+                placeholder={getViewFileName(file)}
+                className="w-56 px-3 py-2 rounded-lg border border-slate-300 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={handleSave}
+                disabled={!isFiltered || isFiltering || rowCount === 0 || isSaving}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg disabled:opacity-50"
+              >
+                <Save className="w-4 h-4 mr-2" />
+                Save to Workspace
+              </button>
+            </div>
+          </div>
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
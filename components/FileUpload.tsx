@@ -1,7 +1,10 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Upload, Loader2, AlertCircle, Database } from 'lucide-react';
-import * as XLSX from 'xlsx';
-import { ParsedFile } from '../types';
+import { ParsedFile, RawWorkbook, HeaderSettings, TaskProgress } from '../types';
+import { withSchema } from '../services/schemaService';
+import { createDataWorker, isCancelledError } from '../services/workerClient';
+import { ImportPreviewModal } from './ImportPreviewModal';
+import { TaskProgressBar } from './TaskProgressBar';
 
 interface FileUploadProps {
   onFilesParsed: (files: ParsedFile[]) => void;
@@ -11,51 +14,13 @@ interface FileUploadProps {
 export const FileUpload: React.FC<FileUploadProps> = ({ onFilesParsed, isAnalyzing }) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Workbooks wait here until the user has picked sheets and confirmed the header rows
+  const [pendingWorkbooks, setPendingWorkbooks] = useState<RawWorkbook[]>([]);
+  const [progress, setProgress] = useState<TaskProgress | null>(null);
 
-  const processFile = (file: File): Promise<ParsedFile> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      
-      reader.onload = (e) => {
-        try {
-          const data = e.target?.result;
-          const workbook = XLSX.read(data, { type: 'binary' });
-          
-          // Assume first sheet
-          const firstSheetName = workbook.SheetNames[0];
-          const worksheet = workbook.Sheets[firstSheetName];
-          
-          // Parse to JSON to get preview and headers
-          const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-          
-          if (jsonData.length === 0) {
-            reject(new Error(`File ${file.name} is empty`));
-            return;
-          }
-
-          const headers = jsonData[0] as string[];
-          // Extract data rows (skip header)
-          const rawData = XLSX.utils.sheet_to_json(worksheet); 
-          const previewData = rawData.slice(0, 10); // Top 10 rows for preview
-
-          resolve({
-            id: Math.random().toString(36).substr(2, 9),
-            name: file.name,
-            size: file.size,
-            headers: headers.filter(h => !!h), // Filter empty headers
-            previewData,
-            data: rawData, // Store full data for joining later
-            rowCount: rawData.length
-          });
-        } catch (err) {
-          reject(new Error(`Failed to parse ${file.name}`));
-        }
-      };
-
-      reader.onerror = () => reject(new Error(`Error reading ${file.name}`));
-      reader.readAsBinaryString(file);
-    });
-  };
+  // Parsing big spreadsheets happens off the main thread so the page keeps responding
+  const worker = useMemo(() => createDataWorker(), []);
+  useEffect(() => () => worker.dispose(), [worker]);
 
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files && event.target.files.length > 0) {
@@ -73,18 +38,37 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFilesParsed, isAnalyzi
       }
 
       try {
-        const parsedFiles = await Promise.all(xlsFiles.map(processFile));
-        onFilesParsed(parsedFiles);
+        const workbooks = await Promise.all(xlsFiles.map(file => worker.run<RawWorkbook>({ type: 'readWorkbook', file }, setProgress)));
+        setPendingWorkbooks(prev => [...prev, ...workbooks]);
       } catch (err: any) {
-        setError(err.message || "Failed to process files");
+        if (!isCancelledError(err)) setError(err.message || "Failed to process files");
       } finally {
         setIsProcessing(false);
+        setProgress(null);
         // Reset input value so same files can be selected again if needed
         event.target.value = '';
       }
     }
   };
 
+  const handleImportConfirmed = async (selections: { sheetName: string; settings: HeaderSettings }[]) => {
+    const workbook = pendingWorkbooks[0];
+    setPendingWorkbooks(prev => prev.slice(1));
+    setIsProcessing(true);
+    try {
+      const parsed: ParsedFile[] = [];
+      for (const { sheetName, settings } of selections) {
+        parsed.push(await worker.run<ParsedFile>({ type: 'parseSheet', workbook, sheetName, settings }, setProgress));
+      }
+      onFilesParsed(parsed);
+    } catch (err: any) {
+      if (!isCancelledError(err)) setError(err.message || "Failed to process sheets");
+    } finally {
+      setIsProcessing(false);
+      setProgress(null);
+    }
+  };
+
   const loadDemoData = () => {
     setIsProcessing(true);
     setTimeout(() => {
@@ -127,13 +111,19 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFilesParsed, isAnalyzi
         }
       ];
 
-      onFilesParsed(demoFiles);
+      onFilesParsed(demoFiles.map(withSchema));
       setIsProcessing(false);
     }, 600);
   };
 
   return (
     <div className="w-full space-y-4">
+      <ImportPreviewModal
+        workbook={pendingWorkbooks[0] || null}
+        onConfirm={handleImportConfirmed}
+        onCancel={() => setPendingWorkbooks(prev => prev.slice(1))}
+      />
+
       <label 
         className={`
           flex flex-col items-center justify-center w-full h-48 
@@ -170,6 +160,10 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFilesParsed, isAnalyzi
         />
       </label>
 
+      {isProcessing && progress && (
+        <TaskProgressBar progress={progress} label="Processing files" onCancel={worker.cancel} />
+      )}
+
       {/* Demo Data Option */}
       {!isAnalyzing && !isProcessing && (
          <div className="flex justify-center">
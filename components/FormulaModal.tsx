@@ -0,0 +1,241 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ParsedFile, TaskProgress } from '../types';
+import { FORMULA_FUNCTIONS, checkFormula, previewFormula, getFormulaColumnError, getNextVersionName } from '../services/formulaService';
+import { formatValue } from '../services/schemaService';
+import { createDataWorker, isCancelledError } from '../services/workerClient';
+import { TaskProgressBar } from './TaskProgressBar';
+import { X, SquareFunction, Save } from 'lucide-react';
+
+interface FormulaModalProps {
+  file: ParsedFile | null;
+  onClose: () => void;
+  onSaveFile: (newFile: ParsedFile) => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+// Bare names only work for simple column names; anything else needs [brackets]
+const toColumnReference = (column: string) => /^[\p{L}_][\p{L}\p{N}_]*$/u.test(column) ? column : `[${column.replace(/]/g, ']]')}]`;
+
+const CATEGORIES = Array.from(new Set(Object.values(FORMULA_FUNCTIONS).map(spec => spec.category)));
+
+export const FormulaModal: React.FC<FormulaModalProps> = ({ file, onClose, onSaveFile }) => {
+  const [columnName, setColumnName] = useState('');
+  const [expression, setExpression] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [progress, setProgress] = useState<TaskProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+
+  const worker = useMemo(() => createDataWorker(), []);
+  useEffect(() => () => worker.dispose(), [worker]);
+
+  // Start over whenever the modal opens on a different file
+  useEffect(() => {
+    setColumnName('');
+    setExpression('');
+    setFileName('');
+    setError(null);
+  }, [file?.id]);
+
+  // Checked on every edit; previews only run on the first few rows
+  const { checked, checkError } = useMemo(() => {
+    if (!file || !expression.trim()) return { checked: null, checkError: null };
+    try {
+      const checked = { ...checkFormula(file, expression), preview: previewFormula(file, expression, PREVIEW_ROWS) };
+      return { checked, checkError: null };
+    } catch (err: any) {
+      return { checked: null, checkError: err.message as string };
+    }
+  }, [file, expression]);
+
+  if (!file) return null;
+
+  const formula = { name: columnName, expression };
+  const formulaError = getFormulaColumnError(file, formula);
+  const outputName = fileName.trim() || getNextVersionName(file.name);
+
+  const handleClose = () => {
+    worker.cancel();
+    onClose();
+  };
+
+  // Inserts text at the cursor so columns and functions can be picked from the lists
+  const insert = (text: string) => {
+    const editor = editorRef.current;
+    const start = editor?.selectionStart ?? expression.length;
+    const end = editor?.selectionEnd ?? expression.length;
+    setExpression(expression.slice(0, start) + text + expression.slice(end));
+    requestAnimationFrame(() => {
+      editor?.focus();
+      editor?.setSelectionRange(start + text.length, start + text.length);
+    });
+  };
+
+  const handleCreate = async () => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      const created = await worker.run<ParsedFile>({ type: 'addColumn', file, formula, saveAs: outputName }, setProgress);
+      onSaveFile(created);
+      onClose();
+    } catch (err: any) {
+      if (!isCancelledError(err)) setError(err.message || 'Computing the column failed');
+    } finally {
+      setIsRunning(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm transition-opacity"
+        onClick={handleClose}
+      />
+
+      {/* Modal Content */}
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden animate-fade-in-up">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div className="flex items-center space-x-3 min-w-0">
+            <div className="p-2 bg-blue-100 text-blue-600 rounded-lg">
+              <SquareFunction className="w-6 h-6" />
+            </div>
+            <div className="min-w-0">
+              <h3 className="text-xl font-bold text-slate-900 truncate">Add Column</h3>
+              <p className="text-sm text-slate-500 truncate">{file.name} • computed by a formula, saved as a new version</p>
+            </div>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-hidden flex flex-col md:flex-row">
+          <div className="flex-1 overflow-auto custom-scrollbar p-6 space-y-6">
+            <div>
+              <h4 className="text-sm font-semibold text-slate-900 mb-3">Column Name</h4>
+              <input
+                type="text"
+                value={columnName}
+                onChange={(e) => setColumnName(e.target.value)}
+                placeholder="e.g. Amount incl. VAT"
+                className="w-full px-3 py-2 rounded-lg border border-slate-300 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            <div>
+              <h4 className="text-sm font-semibold text-slate-900 mb-3">Formula</h4>
+              <textarea
+                ref={editorRef}
+                value={expression}
+                onChange={(e) => setExpression(e.target.value)}
+                rows={3}
+                spellCheck={false}
+                placeholder="Amount * 1.2"
+                className={`w-full px-3 py-2 rounded-lg border bg-white text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 ${checkError ? 'border-red-300' : 'border-slate-300'}`}
+              />
+              {checkError && <p className="mt-1 text-xs text-red-600">{checkError}</p>}
+              {checked && (
+                <p className="mt-1 text-xs text-emerald-600">Result type: {checked.type === 'any' ? 'depends on the data' : checked.type}</p>
+              )}
+              <p className="mt-2 text-xs text-slate-500">
+                Use <code>[Column Name]</code> for names with spaces, <code>'text'</code> for text, <code>&amp;</code> to join text, and <code>AND</code> / <code>OR</code> / <code>NOT</code> in conditions. Blank cells stay blank unless handled with COALESCE or ISBLANK.
+              </p>
+            </div>
+
+            {checked && (
+              <div>
+                <h4 className="text-sm font-semibold text-slate-900 mb-3">Preview</h4>
+                <div className="overflow-x-auto custom-scrollbar border rounded-lg">
+                  <table className="min-w-full divide-y divide-slate-200 text-xs">
+                    <thead className="bg-slate-50">
+                      <tr>
+                        {checked.columns.map(col => <th key={col} className="px-3 py-1.5 text-left font-medium text-slate-500 whitespace-nowrap">{col}</th>)}
+                        <th className="px-3 py-1.5 text-left font-medium text-blue-600 whitespace-nowrap">{columnName.trim() || 'New column'}</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-slate-100">
+                      {checked.preview.map((value, i) => (
+                        <tr key={i}>
+                          {checked.columns.map(col => <td key={col} className="px-3 py-1.5 whitespace-nowrap text-slate-600">{formatValue(file.data[i][col])}</td>)}
+                          <td className="px-3 py-1.5 whitespace-nowrap font-medium text-slate-900">{formatValue(value)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            <div>
+              <h4 className="text-sm font-semibold text-slate-900 mb-3">New File Name</h4>
+              <input
+                type="text"
+                value={fileName}
+                onChange={(e) => setFileName(e.target.value)}
+                placeholder={getNextVersionName(file.name)}
+                className="w-full px-3 py-2 rounded-lg border border-slate-300 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            {isRunning && <TaskProgressBar progress={progress} label="Computing column" onCancel={worker.cancel} />}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+
+          <div className="md:w-64 border-t md:border-t-0 md:border-l border-slate-200 overflow-auto custom-scrollbar p-4 space-y-4 bg-slate-50">
+            <div>
+              <h5 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Columns</h5>
+              <div className="flex flex-wrap gap-1">
+                {file.headers.map(col => (
+                  <button
+                    key={col}
+                    onClick={() => insert(toColumnReference(col))}
+                    className="px-2 py-0.5 rounded border border-slate-200 bg-white text-xs font-mono text-slate-600 hover:bg-blue-50 hover:border-blue-200"
+                  >
+                    {col}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {CATEGORIES.map(category => (
+              <div key={category}>
+                <h5 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">{category}</h5>
+                <div className="space-y-1">
+                  {Object.entries(FORMULA_FUNCTIONS).filter(([, spec]) => spec.category === category).map(([name, spec]) => (
+                    <button
+                      key={name}
+                      onClick={() => insert(`${name}(`)}
+                      className="block w-full text-left px-2 py-1 rounded text-xs hover:bg-white"
+                      title={spec.usage}
+                    >
+                      <span className="font-mono font-medium text-slate-800">{name}</span>
+                      <span className="block font-mono text-[10px] text-slate-400 truncate">{spec.usage}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-200 bg-slate-50 flex items-center justify-between gap-4">
+          <span className="text-xs text-slate-500 truncate">{formulaError || `Adds ${columnName.trim()} to a copy of ${file.name}`}</span>
+          <button
+            onClick={handleCreate}
+            disabled={!!formulaError || isRunning}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg disabled:opacity-50 shrink-0"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            Save to Workspace
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
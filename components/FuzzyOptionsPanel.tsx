@@ -0,0 +1,84 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { JoinCandidate, FuzzyAlgorithm, FuzzyCoverage, ParsedFile } from '../types';
+import { DEFAULT_FUZZY_OPTIONS } from '../services/fuzzyService';
+import { getKeySignature } from '../services/keyService';
+import { createDataWorker, isCancelledError } from '../services/workerClient';
+import { SlidersHorizontal, AlertTriangle } from 'lucide-react';
+
+interface FuzzyOptionsPanelProps {
+  files: ParsedFile[];
+  candidate: JoinCandidate;
+  onChange: (candidate: JoinCandidate) => void;
+}
+
+const ALGORITHMS: { value: FuzzyAlgorithm; label: string; hint: string }[] = [
+  { value: FuzzyAlgorithm.JARO_WINKLER, label: 'Jaro-Winkler', hint: 'Typos and short codes or names (Jon Smith ~ John Smith)' },
+  { value: FuzzyAlgorithm.TOKEN_SET, label: 'Token Set Ratio', hint: 'Word order and extra words (Acme Corp ~ Corp Acme Ltd)' },
+  { value: FuzzyAlgorithm.NGRAM, label: 'Trigram', hint: 'Longer free text with partial overlap' }
+];
+
+export const FuzzyOptionsPanel: React.FC<FuzzyOptionsPanelProps> = ({ files, candidate, onChange }) => {
+  const options = candidate.fuzzy || DEFAULT_FUZZY_OPTIONS;
+  const activeAlgorithm = ALGORITHMS.find(a => a.value === options.algorithm);
+  const [coverage, setCoverage] = useState<FuzzyCoverage | null>(null);
+
+  const worker = useMemo(() => createDataWorker(), []);
+  useEffect(() => () => worker.dispose(), [worker]);
+
+  // Blocking depends only on the keys, not on the algorithm or threshold
+  const keySignature = getKeySignature(candidate);
+  useEffect(() => {
+    setCoverage(null);
+    if (files.length < 2) return;
+    worker.run<FuzzyCoverage>({ type: 'fuzzyCoverage', files, candidate })
+      .then(setCoverage)
+      .catch(err => !isCancelledError(err) && console.error("Fuzzy coverage check failed", err));
+    return () => worker.cancel();
+  }, [files, keySignature, worker]);
+
+  return (
+    <div className="mb-8 animate-fade-in p-4 rounded-xl border-2 border-cyan-100 bg-cyan-50/30">
+      <h4 className="text-sm font-semibold text-cyan-900 mb-3 flex items-center">
+        <SlidersHorizontal className="w-4 h-4 mr-2" />
+        Fuzzy Matching Settings
+      </h4>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-bold text-slate-700 mb-1">Similarity Algorithm</label>
+          <select
+            value={options.algorithm}
+            onChange={(e) => onChange({ ...candidate, fuzzy: { ...options, algorithm: e.target.value as FuzzyAlgorithm } })}
+            className="w-full px-3 py-2 rounded-lg border border-slate-300 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          >
+            {ALGORITHMS.map(a => <option key={a.value} value={a.value}>{a.label}</option>)}
+          </select>
+          <p className="text-xs text-slate-500 mt-1">{activeAlgorithm?.hint}</p>
+        </div>
+        <div>
+          <label className="block text-xs font-bold text-slate-700 mb-1">
+            Match Threshold: <span className="font-mono">{options.threshold}%</span>
+          </label>
+          <input
+            type="range"
+            min={50}
+            max={100}
+            step={1}
+            value={options.threshold}
+            onChange={(e) => onChange({ ...candidate, fuzzy: { ...options, threshold: Number(e.target.value) } })}
+            className="w-full accent-cyan-600"
+          />
+          <p className="text-xs text-slate-500 mt-1">Lower values find more matches but risk pairing different entities.</p>
+        </div>
+      </div>
+      {coverage && coverage.limitedRows > 0 && (
+        <div className="flex items-start gap-2 p-3 mt-4 rounded-lg bg-amber-50 border border-amber-200 text-xs text-amber-800">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          <span>
+            {coverage.limitedRows.toLocaleString()} of {coverage.rows.toLocaleString()} rows have keys too common to compare
+            with every key in the other files, so some of their matches may be missed.
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,222 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ParsedFile, AggregateFunction, AggregateSpec, GroupByConfig, TaskProgress, ColumnType } from '../types';
+import {
+  AGGREGATE_FUNCTION_LABELS,
+  createAggregateSpec,
+  getDefaultAggregateName,
+  getGroupByConfigError,
+  getGroupByFileName,
+  isNumericAggregate
+} from '../services/aggregateService';
+import { getColumnType } from '../services/schemaService';
+import { createDataWorker, isCancelledError } from '../services/workerClient';
+import { TaskProgressBar } from './TaskProgressBar';
+import { X, Sigma, Plus, Trash2, Save } from 'lucide-react';
+
+interface GroupByModalProps {
+  file: ParsedFile | null;
+  onClose: () => void;
+  onSaveFile: (newFile: ParsedFile) => void;
+}
+
+const EMPTY_CONFIG: GroupByConfig = { groupBy: [], aggregates: [] };
+
+export const GroupByModal: React.FC<GroupByModalProps> = ({ file, onClose, onSaveFile }) => {
+  const [config, setConfig] = useState<GroupByConfig>(EMPTY_CONFIG);
+  const [fileName, setFileName] = useState('');
+  const [progress, setProgress] = useState<TaskProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const worker = useMemo(() => createDataWorker(), []);
+  useEffect(() => () => worker.dispose(), [worker]);
+
+  // Start over whenever the modal opens on a different file
+  useEffect(() => {
+    setConfig(EMPTY_CONFIG);
+    setFileName('');
+    setError(null);
+  }, [file?.id]);
+
+  if (!file) return null;
+
+  const configError = getGroupByConfigError(file, config);
+  const outputName = fileName.trim() || getGroupByFileName(file, config);
+
+  const handleClose = () => {
+    worker.cancel();
+    onClose();
+  };
+
+  const toggleGroupBy = (column: string) => {
+    const groupBy = config.groupBy.includes(column) ? config.groupBy.filter(c => c !== column) : [...config.groupBy, column];
+    setConfig({ ...config, groupBy });
+  };
+
+  const updateAggregate = (index: number, patch: Partial<AggregateSpec>) => {
+    setConfig({
+      ...config,
+      aggregates: config.aggregates.map((agg, i) => {
+        if (i !== index) return agg;
+        const next = { ...agg, ...patch };
+        // Keep generated names in step with the column and function; leave typed names alone
+        if (!patch.outputName && agg.outputName === getDefaultAggregateName(agg.column, agg.fn)) {
+          next.outputName = getDefaultAggregateName(next.column, next.fn);
+        }
+        return next;
+      })
+    });
+  };
+
+  const addAggregate = () => {
+    const column = file.headers.find(h => !config.groupBy.includes(h)) || file.headers[0];
+    setConfig({ ...config, aggregates: [...config.aggregates, createAggregateSpec(file, column)] });
+  };
+
+  const handleCreate = async () => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      const result = await worker.run<ParsedFile>({ type: 'groupBy', file, config, saveAs: outputName }, setProgress);
+      onSaveFile(result);
+      onClose();
+    } catch (err: any) {
+      if (!isCancelledError(err)) setError(err.message || 'Aggregation failed');
+    } finally {
+      setIsRunning(false);
+      setProgress(null);
+    }
+  };
+
+  const isTextColumn = (column: string) => {
+    const type = getColumnType(file, column);
+    return type !== undefined && type !== ColumnType.INTEGER && type !== ColumnType.DECIMAL;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm transition-opacity"
+        onClick={handleClose}
+      />
+
+      {/* Modal Content */}
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col overflow-hidden animate-fade-in-up">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div className="flex items-center space-x-3 min-w-0">
+            <div className="p-2 bg-blue-100 text-blue-600 rounded-lg">
+              <Sigma className="w-6 h-6" />
+            </div>
+            <div className="min-w-0">
+              <h3 className="text-xl font-bold text-slate-900 truncate">Group & Aggregate</h3>
+              <p className="text-sm text-slate-500 truncate">{file.name} • one row per group, saved as a new file</p>
+            </div>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto custom-scrollbar p-6 space-y-6">
+          <div>
+            <h4 className="text-sm font-semibold text-slate-900 mb-3">Group By</h4>
+            <div className="flex flex-wrap gap-2">
+              {file.headers.map(col => (
+                <button
+                  key={col}
+                  onClick={() => toggleGroupBy(col)}
+                  className={`px-2 py-1 rounded-lg border text-xs font-mono transition-colors ${config.groupBy.includes(col) ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                >
+                  {config.groupBy.includes(col) && <span className="mr-1 opacity-70">{config.groupBy.indexOf(col) + 1}.</span>}
+                  {col}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-slate-900 mb-3">Aggregates</h4>
+            <div className="space-y-2">
+              {config.aggregates.map((agg, index) => (
+                <div key={index} className="p-3 rounded-xl border border-slate-100 bg-slate-50">
+                  <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                    <select
+                      value={agg.fn}
+                      onChange={(e) => updateAggregate(index, { fn: e.target.value as AggregateFunction })}
+                      className="px-2 py-1 rounded-lg border border-slate-300 bg-white text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {Object.values(AggregateFunction).map(fn => <option key={fn} value={fn}>{AGGREGATE_FUNCTION_LABELS[fn]}</option>)}
+                    </select>
+                    <span className="text-xs text-slate-400">of</span>
+                    <select
+                      value={agg.column}
+                      onChange={(e) => updateAggregate(index, { column: e.target.value })}
+                      className="px-2 py-1 rounded-lg border border-slate-300 bg-white text-xs font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {file.headers.map(col => <option key={col} value={col}>{col}</option>)}
+                    </select>
+                    <span className="text-xs text-slate-400">as</span>
+                    <input
+                      type="text"
+                      value={agg.outputName}
+                      onChange={(e) => updateAggregate(index, { outputName: e.target.value })}
+                      className="px-2 py-1 rounded-lg border border-slate-300 bg-white text-xs font-mono sm:flex-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      title="Output column name"
+                    />
+                    <button
+                      onClick={() => setConfig({ ...config, aggregates: config.aggregates.filter((_, i) => i !== index) })}
+                      className="p-1 text-slate-400 hover:text-red-500"
+                      title="Remove aggregate"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                  {isNumericAggregate(agg.fn) && isTextColumn(agg.column) && (
+                    <p className="mt-2 text-xs text-amber-600">{agg.column} is not a number column; values that aren't numbers are skipped.</p>
+                  )}
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={addAggregate}
+              className="mt-3 inline-flex items-center px-3 py-1.5 text-xs font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg"
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              Add Aggregate
+            </button>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-slate-900 mb-3">New File Name</h4>
+            <input
+              type="text"
+              value={fileName}
+              onChange={(e) => setFileName(e.target.value)}
+              placeholder={getGroupByFileName(file, config)}
+              className="w-full px-3 py-2 rounded-lg border border-slate-300 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          {isRunning && <TaskProgressBar progress={progress} label="Aggregating" onCancel={worker.cancel} />}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 bg-slate-50 flex items-center justify-between gap-4">
+          <span className="text-xs text-slate-500">{configError || `Output: ${[...config.groupBy, ...config.aggregates.map(a => a.outputName)].join(', ')}`}</span>
+          <button
+            onClick={handleCreate}
+            disabled={!!configError || isRunning}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg disabled:opacity-50 shrink-0"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            Save to Workspace
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,216 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { RawWorkbook, HeaderSettings } from '../types';
+import { detectHeaderSettings, buildHeaders } from '../services/importService';
+import { X, Layers, CheckSquare, Square, Rows3 } from 'lucide-react';
+
+interface ImportPreviewModalProps {
+  workbook: RawWorkbook | null;
+  onConfirm: (selections: { sheetName: string; settings: HeaderSettings }[]) => void;
+  onCancel: () => void;
+}
+
+// Raw rows shown in the preview grid
+const PREVIEW_ROWS = 15;
+
+export const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({ workbook, onConfirm, onCancel }) => {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [activeSheetName, setActiveSheetName] = useState<string>('');
+  const [settingsBySheet, setSettingsBySheet] = useState<Record<string, HeaderSettings>>({});
+
+  // Pre-select every non-empty sheet and run header detection whenever a new workbook is shown
+  useEffect(() => {
+    if (workbook) {
+      const nonEmpty = workbook.sheets.filter(s => s.rowCount > 0);
+      setSelected(nonEmpty.map(s => s.name));
+      setActiveSheetName(nonEmpty[0]?.name || workbook.sheets[0]?.name || '');
+      const detected: Record<string, HeaderSettings> = {};
+      nonEmpty.forEach(s => { detected[s.name] = detectHeaderSettings(s); });
+      setSettingsBySheet(detected);
+    }
+  }, [workbook]);
+
+  const activeSheet = workbook?.sheets.find(s => s.name === activeSheetName);
+  const activeSettings = activeSheet ? settingsBySheet[activeSheet.name] : undefined;
+
+  const resultingHeaders = useMemo(() => {
+    if (!activeSheet || !activeSettings) return [];
+    return buildHeaders(activeSheet, activeSettings);
+  }, [activeSheet, activeSettings]);
+
+  if (!workbook) return null;
+
+  const toggleSheet = (name: string) => {
+    setSelected(prev => prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]);
+  };
+
+  const updateActiveSettings = (patch: Partial<HeaderSettings>) => {
+    if (!activeSheet || !activeSettings) return;
+    setSettingsBySheet(prev => ({ ...prev, [activeSheet.name]: { ...activeSettings, ...patch } }));
+  };
+
+  const handleConfirm = () => {
+    onConfirm(workbook.sheets
+      .filter(s => selected.includes(s.name))
+      .map(s => ({ sheetName: s.name, settings: settingsBySheet[s.name] || detectHeaderSettings(s) })));
+  };
+
+  const isHeaderRow = (rowIdx: number) => !!activeSettings &&
+    rowIdx >= activeSettings.headerRowIndex && rowIdx < activeSettings.headerRowIndex + activeSettings.headerRowCount;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm transition-opacity"
+        onClick={onCancel}
+      />
+
+      {/* Modal Content */}
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col overflow-hidden animate-fade-in-up border border-slate-100">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div className="flex items-center space-x-3 min-w-0">
+            <div className="p-2 bg-blue-100 text-blue-600 rounded-lg">
+              <Layers className="w-6 h-6" />
+            </div>
+            <div className="min-w-0">
+              <h3 className="text-lg font-bold text-slate-900 truncate" title={workbook.fileName}>{workbook.fileName}</h3>
+              <p className="text-sm text-slate-500">
+                {workbook.sheets.length} {workbook.sheets.length === 1 ? 'sheet' : 'sheets'} found • review headers before importing
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onCancel}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 overflow-hidden">
+          {/* Sheet List */}
+          <div className="w-64 border-r border-slate-200 bg-slate-50 overflow-y-auto custom-scrollbar p-3 space-y-2 shrink-0">
+            {workbook.sheets.map(sheet => {
+              const isSelected = selected.includes(sheet.name);
+              const isEmpty = sheet.rowCount === 0;
+              return (
+                <div
+                  key={sheet.name}
+                  onClick={() => !isEmpty && setActiveSheetName(sheet.name)}
+                  className={`
+                    flex items-start p-3 rounded-xl border-2 transition-all
+                    ${isEmpty ? 'opacity-50 cursor-not-allowed border-slate-100 bg-white' : 'cursor-pointer'}
+                    ${!isEmpty && sheet.name === activeSheetName ? 'border-blue-500 bg-white shadow-sm' : 'border-slate-100 bg-white hover:border-slate-300'}
+                  `}
+                >
+                  <button
+                    onClick={(e) => { e.stopPropagation(); toggleSheet(sheet.name); }}
+                    disabled={isEmpty}
+                    className="mr-2 mt-0.5 shrink-0"
+                    title={isSelected ? 'Skip this sheet' : 'Import this sheet'}
+                  >
+                    {isSelected
+                      ? <CheckSquare className="w-4 h-4 text-blue-600" />
+                      : <Square className="w-4 h-4 text-slate-300" />}
+                  </button>
+                  <div className="min-w-0">
+                    <p className="font-medium text-slate-800 text-sm truncate" title={sheet.name}>{sheet.name}</p>
+                    <p className="text-[11px] font-mono text-slate-500">
+                      {isEmpty ? 'Empty' : `${sheet.rowCount.toLocaleString()} rows • ${sheet.columnCount} cols`}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Header Preview */}
+          <div className="flex-1 flex flex-col overflow-hidden">
+            {activeSheet && activeSettings && (
+              <>
+                <div className="p-4 bg-slate-50 border-b border-slate-200 flex flex-wrap items-center gap-4 text-sm">
+                  <div className="flex items-center text-slate-700">
+                    <Rows3 className="w-4 h-4 mr-2 text-slate-400" />
+                    Header starts at row
+                    <input
+                      type="number"
+                      min={1}
+                      max={activeSheet.rows.length}
+                      value={activeSettings.headerRowIndex + 1}
+                      onChange={(e) => updateActiveSettings({ headerRowIndex: Math.max(0, Number(e.target.value) - 1) })}
+                      className="ml-2 w-16 px-2 py-1 rounded-lg border border-slate-300 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div className="flex items-center text-slate-700">
+                    spanning
+                    <select
+                      value={activeSettings.headerRowCount}
+                      onChange={(e) => updateActiveSettings({ headerRowCount: Number(e.target.value) })}
+                      className="mx-2 px-2 py-1 rounded-lg border border-slate-300 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {[1, 2, 3].map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                    {activeSettings.headerRowCount === 1 ? 'row' : 'rows'}
+                  </div>
+                  <span className="text-xs text-slate-400">Tip: click a row number to use it as the header.</span>
+                </div>
+
+                <div className="flex-1 overflow-auto custom-scrollbar p-4">
+                  <div className="inline-block min-w-full align-middle border rounded-lg overflow-hidden">
+                    <table className="min-w-full divide-y divide-slate-200 text-xs">
+                      <tbody className="bg-white divide-y divide-slate-100">
+                        {activeSheet.rows.slice(0, Math.max(PREVIEW_ROWS, activeSettings.headerRowIndex + activeSettings.headerRowCount + 5)).map((row, rowIdx) => (
+                          <tr key={rowIdx} className={isHeaderRow(rowIdx) ? 'bg-blue-50 font-semibold text-blue-900' : rowIdx < activeSettings.headerRowIndex ? 'text-slate-300' : 'text-slate-700'}>
+                            <td
+                              onClick={() => updateActiveSettings({ headerRowIndex: rowIdx })}
+                              className="px-3 py-1.5 font-mono text-slate-400 select-none cursor-pointer hover:bg-blue-100 w-10"
+                              title="Use as header row"
+                            >
+                              {rowIdx + 1}
+                            </td>
+                            {Array.from({ length: activeSheet.columnCount }, (_, c) => (
+                              <td key={c} className="px-3 py-1.5 whitespace-nowrap max-w-[200px] truncate" title={String(row[c] ?? '')}>
+                                {String(row[c] ?? '')}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+
+                <div className="p-4 border-t border-slate-200">
+                  <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">Resulting Columns</p>
+                  <div className="flex flex-wrap gap-2 max-h-20 overflow-y-auto custom-scrollbar">
+                    {resultingHeaders.map((h, i) => (
+                      <span key={i} className="px-2 py-0.5 bg-slate-50 border border-slate-200 rounded text-[11px] text-slate-600 font-mono whitespace-nowrap">
+                        {h}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-slate-50 p-4 flex justify-end space-x-3 border-t border-slate-100">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50 transition-colors"
+          >
+            Skip Workbook
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={selected.length === 0}
+            className="px-4 py-2 text-white rounded-lg text-sm font-medium transition-colors shadow-sm bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Import {selected.length} {selected.length === 1 ? 'Sheet' : 'Sheets'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React from 'react';
+import { ParsedFile } from '../types';
+import { ArrowUp, ArrowDown, Anchor, CheckSquare, Square, ListOrdered } from 'lucide-react';
+
+interface JoinFilesPanelProps {
+  files: ParsedFile[]; // All workspace files
+  fileOrder: string[]; // File ids in join order
+  excludedFileIds: string[];
+  onChangeOrder: (fileOrder: string[]) => void;
+  onChangeExcluded: (excludedFileIds: string[]) => void;
+}
+
+export const JoinFilesPanel: React.FC<JoinFilesPanelProps> = ({ files, fileOrder, excludedFileIds, onChangeOrder, onChangeExcluded }) => {
+  const orderedFiles = fileOrder
+    .map(id => files.find(f => f.id === id))
+    .filter((f): f is ParsedFile => !!f);
+  const anchorId = orderedFiles.find(f => !excludedFileIds.includes(f.id))?.id;
+
+  // Swaps a file with its neighbour in the list. fileOrder can hold ids of files that are gone, so
+  // positions are looked up by id rather than taken from the list.
+  const move = (id: string, delta: number) => {
+    const listIndex = orderedFiles.findIndex(f => f.id === id);
+    const neighbour = orderedFiles[listIndex + delta];
+    if (listIndex < 0 || !neighbour) return;
+    const next = [...fileOrder];
+    const from = next.indexOf(id);
+    const to = next.indexOf(neighbour.id);
+    [next[from], next[to]] = [next[to], next[from]];
+    onChangeOrder(next);
+  };
+
+  const makeAnchor = (id: string) => {
+    onChangeOrder([id, ...fileOrder.filter(fid => fid !== id)]);
+    onChangeExcluded(excludedFileIds.filter(fid => fid !== id));
+  };
+
+  const toggleIncluded = (id: string) => {
+    onChangeExcluded(excludedFileIds.includes(id) ? excludedFileIds.filter(fid => fid !== id) : [...excludedFileIds, id]);
+  };
+
+  return (
+    <div className="mb-8">
+      <h4 className="text-sm font-semibold text-slate-900 mb-3 flex items-center">
+        <ListOrdered className="w-4 h-4 mr-2 text-slate-400" />
+        Files in this Join
+        <span className="ml-2 text-xs font-normal text-slate-400">The anchor is the left table for Left, Semi, Anti and Fuzzy joins</span>
+      </h4>
+      <div className="space-y-2">
+        {orderedFiles.map((file, idx) => {
+          const isExcluded = excludedFileIds.includes(file.id);
+          const isAnchor = file.id === anchorId;
+          return (
+            <div
+              key={file.id}
+              className={`flex items-center p-2 pl-3 rounded-xl border transition-colors ${isExcluded ? 'border-slate-100 bg-slate-50 opacity-60' : isAnchor ? 'border-violet-200 bg-violet-50/50' : 'border-slate-100 bg-white'}`}
+            >
+              <button onClick={() => toggleIncluded(file.id)} className="mr-3 shrink-0" title={isExcluded ? 'Include in join' : 'Leave out of join'}>
+                {isExcluded ? <Square className="w-4 h-4 text-slate-300" /> : <CheckSquare className="w-4 h-4 text-blue-600" />}
+              </button>
+              <span className="text-sm text-slate-800 truncate flex-1" title={file.name}>{file.name}</span>
+              {isAnchor ? (
+                <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded bg-violet-100 text-violet-700 text-[10px] uppercase font-bold tracking-wider">
+                  <Anchor className="w-3 h-3 mr-1" />
+                  Anchor
+                </span>
+              ) : (
+                <button
+                  onClick={() => makeAnchor(file.id)}
+                  className="ml-2 px-2 py-0.5 rounded text-[10px] uppercase font-bold tracking-wider text-slate-400 hover:text-violet-700 hover:bg-violet-50"
+                >
+                  Make Anchor
+                </button>
+              )}
+              <div className="flex items-center ml-2">
+                <button
+                  onClick={() => move(file.id, -1)}
+                  disabled={idx === 0}
+                  className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                  title="Move up"
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => move(file.id, 1)}
+                  disabled={idx === orderedFiles.length - 1}
+                  className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30"
+                  title="Move down"
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,163 @@
+import React from 'react';
+import { ParsedFile, JoinGraph, JoinStep, JoinType } from '../types';
+import { CHAIN_JOIN_TYPES, getPipelineFileNames, getJoinStepError } from '../services/joinGraphService';
+import { Workflow, Plus, Trash2, X, AlertTriangle, Lightbulb } from 'lucide-react';
+
+interface JoinGraphBuilderProps {
+  files: ParsedFile[]; // All workspace files
+  graph: JoinGraph;
+  onChange: (graph: JoinGraph) => void;
+}
+
+const JOIN_TYPE_LABELS: Partial<Record<JoinType, string>> = {
+  [JoinType.INNER]: 'Inner (matches only)',
+  [JoinType.LEFT]: 'Left (keep all so far)',
+  [JoinType.RIGHT]: 'Right (keep all new rows)',
+  [JoinType.OUTER]: 'Full outer (keep everything)'
+};
+
+interface KeyColumnListProps {
+  file?: ParsedFile;
+  columns: string[];
+  onChange: (columns: string[]) => void;
+}
+
+const KeyColumnList: React.FC<KeyColumnListProps> = ({ file, columns, onChange }) => {
+  const available = (file?.headers || []).filter(h => !columns.includes(h));
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {columns.map((col, idx) => (
+        <span key={col} className="inline-flex items-center px-2 py-0.5 bg-white border border-blue-200 text-blue-800 rounded text-xs font-mono">
+          {columns.length > 1 && <span className="mr-1 text-blue-400">{idx + 1}.</span>}
+          {col}
+          <button onClick={() => onChange(columns.filter(c => c !== col))} className="ml-1 text-blue-300 hover:text-red-500" title="Remove column from key">
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+      {available.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => e.target.value && onChange([...columns, e.target.value])}
+          className="text-xs px-2 py-1 rounded-lg border border-dashed border-slate-300 bg-white text-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">+ Key column</option>
+          {available.map(h => <option key={h} value={h}>{h}</option>)}
+        </select>
+      )}
+    </div>
+  );
+};
+
+export const JoinGraphBuilder: React.FC<JoinGraphBuilderProps> = ({ files, graph, onChange }) => {
+  const fileByName = (name: string) => files.find(f => f.name === name);
+
+  const updateStep = (index: number, patch: Partial<JoinStep>) => {
+    onChange({ ...graph, steps: graph.steps.map((s, i) => i === index ? { ...s, ...patch } : s) });
+  };
+
+  const addStep = () => {
+    const joined = getPipelineFileNames(graph);
+    const next = files.find(f => !joined.includes(f.name));
+    if (!next) return;
+    onChange({
+      ...graph,
+      steps: [...graph.steps, { leftFileName: joined[joined.length - 1], rightFileName: next.name, leftColumns: [], rightColumns: [], joinType: JoinType.LEFT }]
+    });
+  };
+
+  const allJoined = files.every(f => getPipelineFileNames(graph).includes(f.name));
+
+  return (
+    <div className="mb-8">
+      <h4 className="text-sm font-semibold text-slate-900 mb-3 flex items-center">
+        <Workflow className="w-4 h-4 mr-2 text-slate-400" />
+        Join Pipeline
+        <span className="ml-2 text-xs font-normal text-slate-400">Each step joins one more file to the result so far, on its own key</span>
+      </h4>
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2 mb-3 p-3 rounded-xl border border-violet-200 bg-violet-50/50">
+        <label className="text-xs font-bold text-slate-700 sm:w-32 shrink-0">Start with</label>
+        <select
+          value={graph.baseFileName}
+          onChange={(e) => onChange({ ...graph, baseFileName: e.target.value })}
+          className="flex-1 px-3 py-1.5 rounded-lg border border-slate-300 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {files.map(f => <option key={f.id} value={f.name}>{f.name}</option>)}
+        </select>
+      </div>
+
+      <div className="space-y-2">
+        {graph.steps.map((step, index) => {
+          const available = getPipelineFileNames(graph, index);
+          const error = getJoinStepError(graph, index);
+          return (
+            <div key={index} className={`p-3 rounded-xl border space-y-2 ${error ? 'border-amber-200 bg-amber-50/40' : 'border-slate-100 bg-slate-50'}`}>
+              <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                <span className="text-[10px] uppercase font-bold tracking-wider text-slate-400 shrink-0">Step {index + 1}</span>
+                <select
+                  value={step.leftFileName}
+                  onChange={(e) => updateStep(index, { leftFileName: e.target.value, leftColumns: [] })}
+                  className="flex-1 min-w-0 px-2 py-1 rounded-lg border border-slate-300 bg-white text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  title="File already in the result"
+                >
+                  {!available.includes(step.leftFileName) && <option value={step.leftFileName}>{step.leftFileName}</option>}
+                  {available.map(name => <option key={name} value={name}>{name}</option>)}
+                </select>
+                <select
+                  value={step.joinType}
+                  onChange={(e) => updateStep(index, { joinType: e.target.value as JoinType })}
+                  className="px-2 py-1 rounded-lg border border-slate-300 bg-white text-xs font-medium focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {CHAIN_JOIN_TYPES.map(t => <option key={t} value={t}>{JOIN_TYPE_LABELS[t]}</option>)}
+                </select>
+                <select
+                  value={step.rightFileName}
+                  onChange={(e) => updateStep(index, { rightFileName: e.target.value, rightColumns: [] })}
+                  className="flex-1 min-w-0 px-2 py-1 rounded-lg border border-slate-300 bg-white text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  title="File this step brings in"
+                >
+                  {files.map(f => <option key={f.id} value={f.name} disabled={available.includes(f.name)}>{f.name}</option>)}
+                </select>
+                <button
+                  onClick={() => onChange({ ...graph, steps: graph.steps.filter((_, i) => i !== index) })}
+                  className="p-1 text-slate-400 hover:text-red-500"
+                  title="Remove step"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                <KeyColumnList file={fileByName(step.leftFileName)} columns={step.leftColumns} onChange={(leftColumns) => updateStep(index, { leftColumns })} />
+                <KeyColumnList file={fileByName(step.rightFileName)} columns={step.rightColumns} onChange={(rightColumns) => updateStep(index, { rightColumns })} />
+              </div>
+
+              {step.reasoning && (
+                <p className="flex items-start text-xs text-slate-500">
+                  <Lightbulb className="w-3 h-3 mr-1 mt-0.5 text-amber-500 shrink-0" />
+                  {step.reasoning}
+                </p>
+              )}
+              {error && (
+                <p className="flex items-center text-xs text-amber-700">
+                  <AlertTriangle className="w-3 h-3 mr-1 shrink-0" />
+                  {error}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={addStep}
+        disabled={allJoined}
+        className="mt-3 inline-flex items-center px-3 py-1.5 text-xs font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Plus className="w-3 h-3 mr-1" />
+        Add Step
+      </button>
+    </div>
+  );
+};
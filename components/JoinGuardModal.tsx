@@ -0,0 +1,109 @@
+import React from 'react';
+import { AlertTriangle, X, Eraser, Sigma, Scissors, Play } from 'lucide-react';
+
+// 'limit' stops the join at the row limit; 'full' runs it whatever its size
+export type JoinGuardChoice = 'dedupe' | 'aggregate' | 'limit' | 'full' | 'cancel';
+
+interface JoinGuardModalProps {
+  isOpen: boolean;
+  estimatedRows: number | null; // Null when the join's size can't be estimated up front
+  rowLimit: number;
+  canReduce: boolean; // Offer deduping or aggregating keys first; otherwise offer capping the rows or running in full
+  onChoose: (choice: JoinGuardChoice) => void;
+}
+
+const GUARD_OPTION_CLASS = 'w-full flex items-start p-3 rounded-xl border-2 border-slate-100 hover:border-blue-300 hover:bg-blue-50/50 text-left transition-colors';
+
+export const JoinGuardModal: React.FC<JoinGuardModalProps> = ({ isOpen, estimatedRows, rowLimit, canReduce, onChoose }) => {
+  if (!isOpen) return null;
+  const isUnknown = estimatedRows === null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm transition-opacity"
+        onClick={() => onChoose('cancel')}
+      />
+
+      {/* Modal Content */}
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden animate-fade-in-up border border-slate-100">
+        <button
+          onClick={() => onChoose('cancel')}
+          className="absolute top-4 right-4 p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors"
+        >
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="p-6">
+          <div className="flex items-start space-x-4">
+            <div className="p-3 rounded-xl flex-shrink-0 bg-amber-100 text-amber-600">
+              <AlertTriangle className="w-6 h-6" />
+            </div>
+            <div className="flex-1 pt-1">
+              <h3 className="text-lg font-bold text-slate-900 mb-2">{isUnknown ? 'Join Size Unknown' : 'Large Join Result'}</h3>
+              <p className="text-slate-600 text-sm leading-relaxed">
+                {isUnknown ? (
+                  <>This join's size can't be estimated before it runs, so it may go past your limit of {rowLimit.toLocaleString()} rows. How do you want to continue?</>
+                ) : (
+                  <>
+                    This join would produce about <strong>{estimatedRows.toLocaleString()}</strong> rows, above your limit of {rowLimit.toLocaleString()}.
+                    Repeated keys are multiplying rows. How do you want to continue?
+                  </>
+                )}
+              </p>
+            </div>
+          </div>
+
+          <div className="mt-6 space-y-2">
+            {(isUnknown || !canReduce) && (
+              <>
+                <button onClick={() => onChoose('limit')} className={GUARD_OPTION_CLASS}>
+                  <Scissors className="w-5 h-5 mr-3 text-blue-600 shrink-0" />
+                  <div>
+                    <p className="text-sm font-semibold text-slate-800">Stop at {rowLimit.toLocaleString()} rows</p>
+                    <p className="text-xs text-slate-500">Keep the first rows the join produces and skip the rest.</p>
+                  </div>
+                </button>
+                <button onClick={() => onChoose('full')} className={GUARD_OPTION_CLASS}>
+                  <Play className="w-5 h-5 mr-3 text-blue-600 shrink-0" />
+                  <div>
+                    <p className="text-sm font-semibold text-slate-800">Run the full join</p>
+                    <p className="text-xs text-slate-500">Can take long and use a lot of memory if keys repeat.</p>
+                  </div>
+                </button>
+              </>
+            )}
+            {canReduce && (
+              <>
+                <button onClick={() => onChoose('dedupe')} className={GUARD_OPTION_CLASS}>
+                  <Eraser className="w-5 h-5 mr-3 text-blue-600 shrink-0" />
+                  <div>
+                    <p className="text-sm font-semibold text-slate-800">Dedupe keys</p>
+                    <p className="text-xs text-slate-500">Keep only the first row per key in each file.</p>
+                  </div>
+                </button>
+                <button onClick={() => onChoose('aggregate')} className={GUARD_OPTION_CLASS}>
+                  <Sigma className="w-5 h-5 mr-3 text-blue-600 shrink-0" />
+                  <div>
+                    <p className="text-sm font-semibold text-slate-800">Aggregate repeated keys</p>
+                    <p className="text-xs text-slate-500">Combine rows per key: numbers are summed, text values are listed.</p>
+                  </div>
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-slate-50 p-4 flex justify-end border-t border-slate-100">
+          <button
+            onClick={() => onChoose('cancel')}
+            className="px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50 transition-colors"
+          >
+            Cancel Join
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ParsedFile, JoinCandidate, JoinType, JoinGraph, OutputColumn } from '../types';
+import { getJoinOutputColumns } from '../services/dataService';
+import { getJoinGraphOutputColumns, getJoinStepError } from '../services/joinGraphService';
+import { createDataWorker, isCancelledError } from '../services/workerClient';
+import { DataTask } from '../services/dataTasks';
+import { formatValue } from '../services/schemaService';
+import { COLORS } from './FileCard';
+import { TableProperties, Loader2 } from 'lucide-react';
+
+interface JoinPreviewProps {
+  files: ParsedFile[]; // All workspace files, for colors that match the file cards
+  joinFiles: ParsedFile[]; // Files in the shared-key join, in join order
+  candidate: JoinCandidate;
+  joinType: JoinType;
+  joinGraph: JoinGraph | null; // Set when previewing a chained join
+}
+
+const ROW_OPTIONS = [10, 25, 50];
+
+// Recomputing on every keystroke is wasteful for big files; wait for edits to settle
+const PREVIEW_DELAY_MS = 300;
+
+interface PreviewState {
+  headers: string[];
+  rows: any[];
+  sourceByColumn: Map<string, ParsedFile>;
+  error?: string;
+}
+
+export const JoinPreview: React.FC<JoinPreviewProps> = ({ files, joinFiles, candidate, joinType, joinGraph }) => {
+  const [rowCount, setRowCount] = useState(ROW_OPTIONS[0]);
+  const [preview, setPreview] = useState<PreviewState | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const isAiMerge = !joinGraph && joinType === JoinType.AI_SEMANTIC;
+
+  // The preview gets its own worker so a slow preview never blocks stats or the real join
+  const previewWorker = useMemo(() => createDataWorker(), []);
+  useEffect(() => () => previewWorker.dispose(), [previewWorker]);
+
+  useEffect(() => {
+    if (isAiMerge) return;
+    const isReady = joinGraph
+      ? joinGraph.steps.length > 0 && joinGraph.steps.every((_, i) => !getJoinStepError(joinGraph, i))
+      : joinFiles.length >= 2;
+    if (!isReady) {
+      setPreview(null);
+      return;
+    }
+
+    setIsLoading(true);
+    const timer = setTimeout(() => {
+      const task: DataTask = joinGraph
+        ? { type: 'joinGraph', files, graph: joinGraph, maxRows: rowCount }
+        : { type: 'join', files: joinFiles, candidate, joinType, maxRows: rowCount };
+
+      previewWorker.run<any[]>(task).then(rows => {
+        const columns: OutputColumn[] = joinGraph ? getJoinGraphOutputColumns(files, joinGraph) : getJoinOutputColumns(joinFiles, candidate, joinType);
+        const sourceFiles = joinGraph ? files : joinFiles;
+
+        // Coalesced columns mix several files, so they stay uncolored even if they reuse a source name
+        const coalescedNames = new Set((joinGraph ? [] : candidate.coalesce || []).map(g => g.outputName));
+        const sourceByColumn = new Map<string, ParsedFile>();
+        columns.forEach(col => {
+          if (col.fileIndex !== null && !coalescedNames.has(col.name)) sourceByColumn.set(col.name, sourceFiles[col.fileIndex]);
+        });
+
+        const headers: string[] = [];
+        const seen = new Set<string>();
+        (rows.length > 0 ? rows : [Object.fromEntries(columns.map(c => [c.name, null]))]).forEach(row => Object.keys(row).forEach(col => {
+          if (!seen.has(col)) {
+            seen.add(col);
+            headers.push(col);
+          }
+        }));
+
+        setPreview({ headers, rows, sourceByColumn });
+        setIsLoading(false);
+      }).catch(err => {
+        if (isCancelledError(err)) return;
+        setPreview({ headers: [], rows: [], sourceByColumn: new Map(), error: err?.message || 'Preview failed' });
+        setIsLoading(false);
+      });
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      previewWorker.cancel();
+    };
+  }, [files, joinFiles, candidate, joinType, joinGraph, rowCount, isAiMerge, previewWorker]);
+
+  const colorFor = (file?: ParsedFile) => {
+    if (!file) return 'bg-slate-300';
+    return file.isJoined ? 'bg-indigo-600' : COLORS[Math.max(0, files.findIndex(f => f.id === file.id)) % COLORS.length];
+  };
+
+  const legendFiles = preview ? Array.from(new Set(preview.sourceByColumn.values())) : [];
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-semibold text-slate-900 flex items-center">
+          <TableProperties className="w-4 h-4 mr-2 text-slate-400" />
+          Result Preview
+          {isLoading && <Loader2 className="w-3 h-3 ml-2 animate-spin text-slate-400" />}
+        </h4>
+        {!isAiMerge && (
+          <label className="text-xs text-slate-500 flex items-center">
+            First
+            <select
+              value={rowCount}
+              onChange={(e) => setRowCount(Number(e.target.value))}
+              className="mx-2 px-2 py-1 rounded-lg border border-slate-300 bg-white text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {ROW_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+            rows
+          </label>
+        )}
+      </div>
+
+      {isAiMerge ? (
+        <p className="text-xs text-slate-500 italic p-3 rounded-xl border border-slate-100 bg-slate-50">The AI semantic merge runs remotely, so there is no local preview.</p>
+      ) : preview?.error ? (
+        <p className="text-xs text-red-600 p-3 rounded-xl border border-red-100 bg-red-50">{preview.error}</p>
+      ) : !preview ? (
+        <p className="text-xs text-slate-500 italic p-3 rounded-xl border border-slate-100 bg-slate-50">Finish setting up the join to see a preview.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-3 mb-2">
+            {legendFiles.map(file => (
+              <span key={file.id} className="inline-flex items-center text-xs text-slate-600">
+                <span className={`w-2.5 h-2.5 rounded-full mr-1.5 ${colorFor(file)}`} />
+                {file.name}
+              </span>
+            ))}
+            <span className="inline-flex items-center text-xs text-slate-400">
+              <span className={`w-2.5 h-2.5 rounded-full mr-1.5 ${colorFor()}`} />
+              Key, status or merged
+            </span>
+            <span className="ml-auto text-xs text-slate-400">{preview.headers.length} columns</span>
+          </div>
+          <div className="max-h-80 overflow-auto custom-scrollbar border rounded-lg">
+            <table className="min-w-full divide-y divide-slate-200">
+              <thead className="bg-slate-50 sticky top-0 z-10">
+                <tr>
+                  {preview.headers.map(header => (
+                    <th key={header} className="p-0 text-left text-xs font-medium text-slate-500 bg-slate-50 border-b border-slate-200 whitespace-nowrap">
+                      <div className={`h-1 ${colorFor(preview.sourceByColumn.get(header))}`} />
+                      <div className="px-3 py-2" title={preview.sourceByColumn.get(header)?.name}>{header}</div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-slate-100">
+                {preview.rows.map((row, rowIdx) => (
+                  <tr key={rowIdx} className="hover:bg-blue-50/50">
+                    {preview.headers.map(header => (
+                      <td key={header} className="px-3 py-1.5 whitespace-nowrap text-xs text-slate-700 max-w-[220px] truncate" title={formatValue(row[header])}>
+                        {formatValue(row[header])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+                {preview.rows.length === 0 && (
+                  <tr>
+                    <td colSpan={preview.headers.length || 1} className="px-6 py-8 text-center text-xs text-slate-500">
+                      This join produces no rows
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React from 'react';
+import { JoinCandidate, ParsedFile } from '../types';
+import { getKeyColumnsForFile, getKeyColumnsError } from '../services/keyService';
+import { KeyRound, X, AlertTriangle } from 'lucide-react';
+
+interface KeyColumnsEditorProps {
+  files: ParsedFile[];
+  candidate: JoinCandidate;
+  onChange: (candidate: JoinCandidate) => void;
+}
+
+export const KeyColumnsEditor: React.FC<KeyColumnsEditorProps> = ({ files, candidate, onChange }) => {
+  const setColumnsForFile = (file: ParsedFile, columnNames: string[]) => {
+    const others = candidate.columnMappings.filter(m => m.fileName !== file.name);
+    const columnMappings = columnNames.length === 0
+      ? others
+      : [...others, { fileName: file.name, columnName: columnNames[0], columnNames }];
+    // Keep the mappings in workspace file order
+    columnMappings.sort((a, b) => files.findIndex(f => f.name === a.fileName) - files.findIndex(f => f.name === b.fileName));
+    onChange({ ...candidate, columnMappings });
+  };
+
+  const error = getKeyColumnsError(files, candidate);
+
+  return (
+    <div className="mb-8">
+      <h4 className="text-sm font-semibold text-slate-900 mb-3 flex items-center">
+        <KeyRound className="w-4 h-4 mr-2 text-slate-400" />
+        Key Columns
+        <span className="ml-2 text-xs font-normal text-slate-400">Rows match when every listed column matches, in order</span>
+      </h4>
+      <div className="space-y-2">
+        {files.map(file => {
+          const columns = getKeyColumnsForFile(file, candidate);
+          const available = file.headers.filter(h => !columns.includes(h));
+          return (
+            <div key={file.id} className="flex flex-col sm:flex-row sm:items-center gap-2 p-3 rounded-xl border border-slate-100 bg-slate-50">
+              <span className="text-xs font-semibold text-slate-600 sm:w-48 truncate shrink-0" title={file.name}>{file.name}</span>
+              <div className="flex flex-wrap items-center gap-2 flex-1">
+                {columns.length === 0 && <span className="text-xs text-slate-400 italic">Not included in this key</span>}
+                {columns.map((col, idx) => (
+                  <span key={col} className="inline-flex items-center px-2 py-0.5 bg-white border border-blue-200 text-blue-800 rounded text-xs font-mono">
+                    {columns.length > 1 && <span className="mr-1 text-blue-400">{idx + 1}.</span>}
+                    {col}
+                    <button
+                      onClick={() => setColumnsForFile(file, columns.filter(c => c !== col))}
+                      className="ml-1 text-blue-300 hover:text-red-500"
+                      title="Remove column from key"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+                {available.length > 0 && (
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && setColumnsForFile(file, [...columns, e.target.value])}
+                    className="text-xs px-2 py-1 rounded-lg border border-dashed border-slate-300 bg-white text-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">+ Add column</option>
+                    {available.map(h => <option key={h} value={h}>{h}</option>)}
+                  </select>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {error && (
+        <p className="mt-2 flex items-center text-xs text-red-600">
+          <AlertTriangle className="w-3 h-3 mr-1 shrink-0" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
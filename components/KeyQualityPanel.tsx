@@ -0,0 +1,99 @@
+import React from 'react';
+import { KeyQuality, JoinCandidate, JoinType } from '../types';
+import { isLowOverlap, usesExactKeys } from '../services/keyQualityService';
+import { ShieldCheck, AlertTriangle, Loader2, Info } from 'lucide-react';
+
+interface KeyQualityPanelProps {
+  quality: KeyQuality | null; // Null while the check is still running
+  candidate: JoinCandidate; // Its AI confidence is shown for comparison
+  joinType: JoinType;
+}
+
+const formatPercent = (ratio: number) => `${(ratio * 100).toFixed(ratio > 0 && ratio < 0.01 ? 1 : 0)}%`;
+
+export const KeyQualityPanel: React.FC<KeyQualityPanelProps> = ({ quality, candidate, joinType }) => {
+  const isLow = isLowOverlap(quality, candidate, joinType);
+  const isExact = usesExactKeys(candidate, joinType);
+
+  return (
+    <div className="mb-8">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h4 className="text-sm font-semibold text-slate-900 flex items-center">
+          <ShieldCheck className="w-4 h-4 mr-2 text-slate-400" />
+          Key Quality
+          <span className="ml-2 text-xs font-normal text-slate-400">checked on all rows</span>
+        </h4>
+        <div className="flex items-center gap-2 text-xs">
+          <span className="px-2 py-0.5 rounded bg-fuchsia-50 text-fuchsia-700" title="From the AI, based on a few sample rows">
+            AI confidence {candidate.confidenceScore}%
+          </span>
+          {quality && (
+            <span
+              className={`px-2 py-0.5 rounded ${isLow ? 'bg-red-100 text-red-700' : isExact ? 'bg-emerald-100 text-emerald-700' : 'bg-slate-100 text-slate-600'}`}
+              title="Keys found exactly (after the matching rules) in every file, as a share of the file with the fewest keys"
+            >
+              Exact-match overlap {formatPercent(quality.overlap)} ({quality.sharedKeys.toLocaleString()} keys)
+            </span>
+          )}
+        </div>
+      </div>
+
+      {!quality ? (
+        <p className="text-xs text-slate-500 flex items-center">
+          <Loader2 className="w-3 h-3 mr-2 animate-spin" />
+          Checking the key against the full data…
+        </p>
+      ) : (
+        <>
+          {isLow && (
+            <div className="flex items-start gap-2 p-3 mb-3 rounded-lg bg-red-50 border border-red-200 text-xs text-red-700">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              <span>
+                Almost no key values appear in every file, so this join would match next to nothing.
+                Check the key columns and matching rules, or pick another candidate.
+              </span>
+            </div>
+          )}
+          {!isExact && (
+            <div className="flex items-start gap-2 p-3 mb-3 rounded-lg bg-slate-50 border border-slate-200 text-xs text-slate-600">
+              <Info className="w-4 h-4 shrink-0" />
+              <span>
+                {joinType === JoinType.FUZZY
+                  ? 'Fuzzy matching also pairs similar keys, so it can match far more rows than the exact overlap suggests.'
+                  : 'This join matches on dates alone, so the key overlap does not limit it.'}
+              </span>
+            </div>
+          )}
+          {quality.typeIssues.map(issue => (
+            <div key={issue} className="flex items-start gap-2 p-3 mb-3 rounded-lg bg-amber-50 border border-amber-200 text-xs text-amber-800">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              <span>Key types differ: {issue}</span>
+            </div>
+          ))}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {quality.files.map(f => (
+              <div key={f.fileName} className="p-3 rounded-xl border border-slate-100 bg-slate-50 text-xs">
+                <p className="font-semibold text-slate-700 truncate mb-1" title={f.fileName}>{f.fileName}</p>
+                <div className="grid grid-cols-3 gap-2 text-slate-500">
+                  <span title="Rows whose key is found exactly in at least one other file">
+                    <span className="block text-sm font-medium text-slate-800">{formatPercent(f.matchedRows / Math.max(1, f.rows))}</span>
+                    rows matched
+                  </span>
+                  <span title="Distinct keys per non-blank row; 100% means no key repeats">
+                    <span className="block text-sm font-medium text-slate-800">{formatPercent(f.uniqueness)}</span>
+                    unique
+                  </span>
+                  <span title="Rows with a blank key never match">
+                    <span className={`block text-sm font-medium ${f.blankRows > 0 ? 'text-amber-600' : 'text-slate-800'}`}>{formatPercent(f.blankRows / Math.max(1, f.rows))}</span>
+                    blank
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
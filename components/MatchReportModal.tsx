@@ -0,0 +1,206 @@
+import React, { useState, useMemo } from 'react';
+import { ParsedFile, JoinCandidate, KeyOverlapGroup } from '../types';
+import { calculateKeyOverlap, getRowsForKeyGroup, createJoinedFile } from '../services/dataService';
+import { formatValue } from '../services/schemaService';
+import { X, BarChart3, Save } from 'lucide-react';
+
+interface MatchReportModalProps {
+  isOpen: boolean;
+  files: ParsedFile[]; // Files in the join, in join order
+  candidate: JoinCandidate;
+  onClose: () => void;
+  onSaveFile: (newFile: ParsedFile) => void;
+}
+
+// Rows shown for the selected group; the saved dataset always has all of them
+const MAX_DETAIL_ROWS = 100;
+
+// Tallest bar in pixels, leaving room for the count label above it
+const BAR_MAX_HEIGHT = 140;
+
+interface Selection {
+  fileIndexes: number[] | null; // null selects the rows with a blank key
+  targetIndex: number;
+}
+
+export const MatchReportModal: React.FC<MatchReportModalProps> = ({ isOpen, files, candidate, onClose, onSaveFile }) => {
+  const [selection, setSelection] = useState<Selection | null>(null);
+
+  const report = useMemo(() => isOpen ? calculateKeyOverlap(files, candidate) : null, [isOpen, files, candidate]);
+  const detailRows = useMemo(() => {
+    if (!isOpen || !selection || !files[selection.targetIndex]) return [];
+    return getRowsForKeyGroup(files, candidate, selection.fileIndexes, selection.targetIndex);
+  }, [isOpen, files, candidate, selection]);
+
+  if (!isOpen || !report) return null;
+
+  const handleClose = () => {
+    setSelection(null);
+    onClose();
+  };
+
+  const shortName = (name: string) => name.replace(/\.[^/.]+$/, '');
+  const describeGroup = (fileIndexes: number[] | null) => {
+    if (fileIndexes === null) return 'Blank key';
+    if (fileIndexes.length === files.length) return 'In all files';
+    return `Only in ${fileIndexes.map(i => shortName(files[i].name)).join(' + ')}`;
+  };
+
+  const maxKeys = Math.max(1, ...report.groups.map(g => g.keyCount));
+  const matchedGroup = report.groups.find(g => g.fileIndexes.length === files.length);
+  const isSelected = (group: KeyOverlapGroup) => selection?.fileIndexes?.join(',') === group.fileIndexes.join(',');
+
+  const targetFile = selection ? files[selection.targetIndex] : null;
+  const detailHeaders = targetFile?.headers || [];
+
+  const handleSave = () => {
+    if (!selection || !targetFile) return;
+    const name = `${shortName(targetFile.name)} - ${describeGroup(selection.fileIndexes)} (${candidate.keyName})`;
+    onSaveFile(createJoinedFile(detailRows, name));
+    alert(`Saved ${detailRows.length.toLocaleString()} rows to the workspace as "${name}".`);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm transition-opacity"
+        onClick={handleClose}
+      />
+
+      {/* Modal Content */}
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden animate-fade-in-up">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div className="flex items-center space-x-3 min-w-0">
+            <div className="p-2 bg-blue-100 text-blue-600 rounded-lg">
+              <BarChart3 className="w-6 h-6" />
+            </div>
+            <div className="min-w-0">
+              <h3 className="text-xl font-bold text-slate-900 truncate">Match Report</h3>
+              <p className="text-sm text-slate-500 truncate">Which {candidate.keyName} keys are found in which files</p>
+            </div>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto custom-scrollbar p-6 space-y-6">
+          {/* UpSet chart: one bar per exact combination of files, the dots below say which files */}
+          <div className="overflow-x-auto custom-scrollbar">
+            <table className="border-separate border-spacing-x-1">
+              <tbody>
+                <tr>
+                  <td />
+                  {report.groups.map(group => (
+                    <td key={group.fileIndexes.join(',')} className="align-bottom w-10">
+                      <button
+                        onClick={() => setSelection({ fileIndexes: group.fileIndexes, targetIndex: group.fileIndexes[0] })}
+                        className="w-full h-40 flex flex-col justify-end items-center group"
+                        title={`${describeGroup(group.fileIndexes)}: ${group.keyCount.toLocaleString()} keys`}
+                      >
+                        <span className="text-[10px] font-mono text-slate-500 mb-1">{group.keyCount.toLocaleString()}</span>
+                        <div
+                          className={`w-6 rounded-t transition-colors ${isSelected(group) ? 'bg-blue-600' : group === matchedGroup ? 'bg-emerald-500 group-hover:bg-emerald-600' : 'bg-slate-400 group-hover:bg-slate-500'}`}
+                          style={{ height: `${Math.max(2, Math.round((group.keyCount / maxKeys) * BAR_MAX_HEIGHT))}px` }}
+                        />
+                      </button>
+                    </td>
+                  ))}
+                </tr>
+                {files.map((file, fileIndex) => {
+                  const distinct = report.groups.reduce((acc, g) => acc + (g.fileIndexes.includes(fileIndex) ? g.keyCount : 0), 0);
+                  const unmatchedRows = file.data.length - (matchedGroup?.rowCounts[fileIndex] || 0);
+                  return (
+                    <tr key={file.id}>
+                      <td className="pr-4 py-1 text-xs text-slate-700 whitespace-nowrap">
+                        <span className="font-medium">{file.name}</span>
+                        <span className="ml-2 text-slate-400">{distinct.toLocaleString()} keys • {unmatchedRows.toLocaleString()} unmatched rows</span>
+                      </td>
+                      {report.groups.map(group => (
+                        <td key={group.fileIndexes.join(',')} className="text-center py-1">
+                          <span className={`inline-block w-3 h-3 rounded-full ${group.fileIndexes.includes(fileIndex) ? 'bg-slate-800' : 'bg-slate-200'}`} />
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {report.blankKeyRows.some(n => n > 0) && (
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <span className="text-slate-500">Rows with a blank key:</span>
+              {report.blankKeyRows.map((count, fileIndex) => count > 0 && (
+                <button
+                  key={fileIndex}
+                  onClick={() => setSelection({ fileIndexes: null, targetIndex: fileIndex })}
+                  className={`px-2 py-0.5 rounded border ${selection?.fileIndexes === null && selection.targetIndex === fileIndex ? 'border-blue-400 bg-blue-50 text-blue-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                >
+                  {files[fileIndex].name}: {count.toLocaleString()}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Click-through to the rows behind a bar */}
+          {selection && targetFile ? (
+            <div>
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-semibold text-slate-900">{describeGroup(selection.fileIndexes)}</span>
+                  {(selection.fileIndexes || [selection.targetIndex]).map(i => (
+                    <button
+                      key={i}
+                      onClick={() => setSelection({ ...selection, targetIndex: i })}
+                      className={`px-2 py-0.5 rounded-lg text-xs font-medium ${i === selection.targetIndex ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                    >
+                      {files[i].name}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={handleSave}
+                  disabled={detailRows.length === 0}
+                  className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg disabled:opacity-50"
+                >
+                  <Save className="w-3 h-3 mr-1" />
+                  Save {detailRows.length.toLocaleString()} Rows to Workspace
+                </button>
+              </div>
+              <div className="max-h-72 overflow-auto custom-scrollbar border rounded-lg">
+                <table className="min-w-full divide-y divide-slate-200">
+                  <thead className="bg-slate-50 sticky top-0">
+                    <tr>
+                      {detailHeaders.map(h => (
+                        <th key={h} className="px-3 py-2 text-left text-xs font-medium text-slate-500 whitespace-nowrap">{h}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-slate-100">
+                    {detailRows.slice(0, MAX_DETAIL_ROWS).map((row, rowIdx) => (
+                      <tr key={rowIdx}>
+                        {detailHeaders.map(h => (
+                          <td key={h} className="px-3 py-1.5 whitespace-nowrap text-xs text-slate-700 max-w-[220px] truncate">{formatValue(row[h])}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {detailRows.length > MAX_DETAIL_ROWS && (
+                <p className="text-xs text-slate-400 mt-2">Showing the first {MAX_DETAIL_ROWS} of {detailRows.length.toLocaleString()} rows.</p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-slate-500 text-center">Click a bar to see the rows behind it.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { JoinCandidate, ParsedFile, KeyNormalizationOption, NormalizationImpact } from '../types';
+import { NORMALIZATION_OPTIONS, NORMALIZATION_OPTION_LABELS, getKeySignature } from '../services/keyService';
+import { createDataWorker, isCancelledError } from '../services/workerClient';
+import { Wand2, Loader2 } from 'lucide-react';
+
+interface NormalizationPanelProps {
+  files: ParsedFile[];
+  candidate: JoinCandidate;
+  onChange: (candidate: JoinCandidate) => void;
+}
+
+export const NormalizationPanel: React.FC<NormalizationPanelProps> = ({ files, candidate, onChange }) => {
+  const [impact, setImpact] = useState<NormalizationImpact | null>(null);
+
+  const worker = useMemo(() => createDataWorker(), []);
+  useEffect(() => () => worker.dispose(), [worker]);
+
+  // Testing every rule takes a pass over the data per rule, so only key and rule edits re-run it
+  const ruleSignature = getKeySignature(candidate);
+  useEffect(() => {
+    setImpact(null);
+    if (files.length < 2) return;
+    worker.run<NormalizationImpact>({ type: 'normalizationImpact', files, candidate })
+      .then(setImpact)
+      .catch(err => !isCancelledError(err) && console.error("Normalization impact failed", err));
+    return () => worker.cancel();
+  }, [files, ruleSignature, worker]);
+
+  const toggle = (option: KeyNormalizationOption) => {
+    onChange({
+      ...candidate,
+      normalization: { ...candidate.normalization, [option]: !candidate.normalization?.[option] }
+    });
+  };
+
+  return (
+    <div className="mb-8">
+      <h4 className="text-sm font-semibold text-slate-900 mb-3 flex items-center">
+        <Wand2 className="w-4 h-4 mr-2 text-slate-400" />
+        Key Matching Rules
+        <span className="ml-2 text-xs font-normal text-slate-400">Badges show how inner-join matches would change</span>
+        {!impact && files.length >= 2 && <Loader2 className="w-3 h-3 ml-2 text-slate-400 animate-spin" />}
+      </h4>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {NORMALIZATION_OPTIONS.map(option => {
+          const isOn = !!candidate.normalization?.[option];
+          const toggledCount = impact?.toggled[option];
+          const delta = (impact && toggledCount !== undefined) ? toggledCount - impact.innerRows : undefined;
+          return (
+            <label
+              key={option}
+              className={`flex items-start p-3 rounded-xl border cursor-pointer transition-colors ${isOn ? 'border-blue-300 bg-blue-50/50' : 'border-slate-100 bg-white hover:bg-slate-50'}`}
+            >
+              <input
+                type="checkbox"
+                checked={isOn}
+                onChange={() => toggle(option)}
+                className="mt-0.5 mr-3 accent-blue-600"
+              />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-slate-800">{NORMALIZATION_OPTION_LABELS[option].title}</span>
+                  {delta !== undefined && delta !== 0 && (
+                    <span className={`text-[10px] font-mono px-1.5 py-0.5 rounded ${delta > 0 ? 'bg-emerald-100 text-emerald-700' : 'bg-red-100 text-red-700'}`}>
+                      {isOn ? 'off' : 'on'}: {delta > 0 ? '+' : ''}{delta.toLocaleString()}
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-slate-500 font-mono truncate">{NORMALIZATION_OPTION_LABELS[option].example}</p>
+              </div>
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { JoinCandidate, ParsedFile, JoinType, ColumnCollisionPolicy, FileOutputConfig, JoinOutputConfig } from '../types';
+import { getKeyColumnsForFile } from '../services/keyService';
+import { getJoinOutputColumns, getCleanFileName } from '../services/dataService';
+import { Columns3, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface OutputColumnsPanelProps {
+  files: ParsedFile[]; // Files in the join, in join order
+  candidate: JoinCandidate;
+  joinType: JoinType;
+  onChange: (candidate: JoinCandidate) => void;
+}
+
+const POLICIES: { value: ColumnCollisionPolicy; label: string; example: string }[] = [
+  { value: ColumnCollisionPolicy.PREFIX_ALWAYS, label: 'Always prefix', example: 'CRM - Phone, CRM - Email' },
+  { value: ColumnCollisionPolicy.PREFIX_ON_CONFLICT, label: 'Prefix on conflict', example: 'CRM - Phone, Email' },
+  { value: ColumnCollisionPolicy.SUFFIX_ON_CONFLICT, label: 'Suffix on conflict', example: 'Phone (CRM), Email' }
+];
+
+export const OutputColumnsPanel: React.FC<OutputColumnsPanelProps> = ({ files, candidate, joinType, onChange }) => {
+  const [expandedFileId, setExpandedFileId] = useState<string | null>(null);
+
+  const output: JoinOutputConfig = candidate.output || { collisionPolicy: ColumnCollisionPolicy.PREFIX_ALWAYS, files: [] };
+  const outputColumns = getJoinOutputColumns(files, candidate, joinType);
+  const ignoresPolicy = joinType === JoinType.SEMI || joinType === JoinType.ANTI;
+
+  const updateFileConfig = (file: ParsedFile, patch: Partial<FileOutputConfig>) => {
+    const existing = output.files.find(f => f.fileName === file.name) || { fileName: file.name };
+    onChange({
+      ...candidate,
+      output: {
+        ...output,
+        files: [...output.files.filter(f => f.fileName !== file.name), { ...existing, ...patch }]
+      }
+    });
+  };
+
+  const toggleColumn = (file: ParsedFile, col: string, selectable: string[], selected: string[]) => {
+    const next = selected.includes(col) ? selected.filter(c => c !== col) : [...selected, col];
+    // Store undefined when everything is selected so columns added to the file later are included
+    const columns = next.length === selectable.length ? undefined : selectable.filter(c => next.includes(c));
+    updateFileConfig(file, { columns });
+  };
+
+  const setRename = (file: ParsedFile, col: string, name: string, renames: Record<string, string>) => {
+    const next = { ...renames };
+    if (name.trim()) next[col] = name;
+    else delete next[col];
+    updateFileConfig(file, { renames: next });
+  };
+
+  return (
+    <div className="mb-8">
+      <h4 className="text-sm font-semibold text-slate-900 mb-3 flex items-center">
+        <Columns3 className="w-4 h-4 mr-2 text-slate-400" />
+        Output Columns
+        <span className="ml-2 text-xs font-normal text-slate-400">{outputColumns.length} columns in the result</span>
+      </h4>
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2 mb-3">
+        <label className="text-xs font-bold text-slate-700 sm:w-48 shrink-0">Column Name Collisions</label>
+        <select
+          value={output.collisionPolicy}
+          disabled={ignoresPolicy}
+          onChange={(e) => onChange({ ...candidate, output: { ...output, collisionPolicy: e.target.value as ColumnCollisionPolicy } })}
+          className="px-3 py-1.5 rounded-lg border border-slate-300 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        >
+          {POLICIES.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+        </select>
+        <span className="text-xs text-slate-400 font-mono">
+          {ignoresPolicy ? 'Semi and anti joins keep the anchor\'s own column names' : POLICIES.find(p => p.value === output.collisionPolicy)?.example}
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        {files.map((file, fileIndex) => {
+          if (ignoresPolicy && fileIndex > 0) return null;
+          const config = output.files.find(f => f.fileName === file.name);
+          const keyCols = getKeyColumnsForFile(file, candidate);
+          const selectable = file.headers.filter(h => !keyCols.includes(h));
+          const selected = config?.columns ? selectable.filter(c => config.columns!.includes(c)) : selectable;
+          const renames = config?.renames || {};
+          const isExpanded = expandedFileId === file.id;
+
+          return (
+            <div key={file.id} className="rounded-xl border border-slate-100 bg-slate-50">
+              <div className="flex flex-col sm:flex-row sm:items-center gap-2 p-3">
+                <button
+                  onClick={() => setExpandedFileId(isExpanded ? null : file.id)}
+                  className="flex items-center text-xs font-semibold text-slate-600 sm:w-48 truncate shrink-0 text-left hover:text-slate-900"
+                  title={file.name}
+                >
+                  {isExpanded ? <ChevronDown className="w-3 h-3 mr-1 shrink-0" /> : <ChevronRight className="w-3 h-3 mr-1 shrink-0" />}
+                  <span className="truncate">{file.name}</span>
+                </button>
+                {!ignoresPolicy && (
+                  <input
+                    type="text"
+                    value={config?.alias || ''}
+                    placeholder={getCleanFileName(file.name)}
+                    onChange={(e) => updateFileConfig(file, { alias: e.target.value || undefined })}
+                    className="px-2 py-1 rounded-lg border border-slate-300 bg-white text-xs font-mono w-40 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    title="Alias used as the column prefix or suffix"
+                  />
+                )}
+                <span className="text-xs text-slate-500 sm:ml-auto">{selected.length} of {selectable.length} columns</span>
+              </div>
+
+              {isExpanded && (
+                <div className="border-t border-slate-100 p-3 space-y-1.5 max-h-72 overflow-y-auto custom-scrollbar">
+                  <div className="flex gap-3 mb-2 text-xs">
+                    <button onClick={() => updateFileConfig(file, { columns: undefined })} className="text-blue-600 hover:underline">Select all</button>
+                    <button onClick={() => updateFileConfig(file, { columns: [] })} className="text-slate-500 hover:underline">Select none</button>
+                  </div>
+                  {selectable.map(col => {
+                    const isSelected = selected.includes(col);
+                    const resolved = outputColumns.find(c => c.fileIndex === fileIndex && c.sourceColumn === col)?.name;
+                    return (
+                      <div key={col} className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={isSelected}
+                          onChange={() => toggleColumn(file, col, selectable, selected)}
+                          className="accent-blue-600"
+                        />
+                        <span className={`text-xs w-40 truncate ${isSelected ? 'text-slate-800' : 'text-slate-400 line-through'}`} title={col}>{col}</span>
+                        <input
+                          type="text"
+                          value={renames[col] || ''}
+                          placeholder={resolved || col}
+                          disabled={!isSelected}
+                          onChange={(e) => setRename(file, col, e.target.value, renames)}
+                          className="flex-1 min-w-0 px-2 py-0.5 rounded border border-slate-200 bg-white text-xs font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-40"
+                          title="Rename in output"
+                        />
+                      </div>
+                    );
+                  })}
+                  {selectable.length === 0 && <p className="text-xs text-slate-400 italic">Only key columns in this file</p>}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
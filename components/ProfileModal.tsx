@@ -0,0 +1,221 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ParsedFile, ColumnProfile, TaskProgress } from '../types';
+import { isUniqueColumn } from '../services/profileService';
+import { COLUMN_TYPE_LABELS } from '../services/schemaService';
+import { createDataWorker, isCancelledError } from '../services/workerClient';
+import { TaskProgressBar } from './TaskProgressBar';
+import { X, BarChart3, AlertTriangle, KeyRound } from 'lucide-react';
+
+interface ProfileModalProps {
+  file: ParsedFile | null;
+  onClose: () => void;
+}
+
+const formatPercent = (ratio: number) => `${(ratio * 100).toFixed(ratio > 0 && ratio < 0.001 ? 2 : 1)}%`;
+
+const formatStat = (val: number | string | null) => {
+  if (val === null) return '—';
+  if (typeof val === 'string') return val;
+  return val.toLocaleString(undefined, { maximumFractionDigits: 2 });
+};
+
+export const ProfileModal: React.FC<ProfileModalProps> = ({ file, onClose }) => {
+  const [profiles, setProfiles] = useState<ColumnProfile[] | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [progress, setProgress] = useState<TaskProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const worker = useMemo(() => createDataWorker(), []);
+  useEffect(() => () => worker.dispose(), [worker]);
+
+  // Profiles are computed over the full data as soon as the modal opens
+  useEffect(() => {
+    setProfiles(null);
+    setSelected(null);
+    setError(null);
+    if (!file) return;
+    let isCurrent = true;
+    worker.run<ColumnProfile[]>({ type: 'profile', file }, setProgress)
+      .then(result => {
+        if (!isCurrent) return;
+        setProfiles(result);
+        setSelected(result[0]?.name || null);
+      })
+      .catch((err: any) => {
+        if (isCurrent && !isCancelledError(err)) setError(err.message || 'Profiling failed');
+      })
+      .finally(() => isCurrent && setProgress(null));
+    return () => {
+      isCurrent = false;
+      worker.cancel();
+    };
+  }, [file?.id]);
+
+  if (!file) return null;
+
+  const rowCount = file.data.length;
+  const profile = profiles?.find(p => p.name === selected) || null;
+  const maxTopCount = Math.max(1, ...(profile?.topValues.map(v => v.count) || []));
+  const maxBucketCount = Math.max(1, ...(profile?.lengthHistogram.map(b => b.count) || []));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm transition-opacity"
+        onClick={onClose}
+      />
+
+      {/* Modal Content */}
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-6xl h-[85vh] flex flex-col overflow-hidden animate-fade-in-up">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div className="flex items-center space-x-3 min-w-0">
+            <div className="p-2 bg-blue-100 text-blue-600 rounded-lg">
+              <BarChart3 className="w-6 h-6" />
+            </div>
+            <div className="min-w-0">
+              <h3 className="text-xl font-bold text-slate-900 truncate">Column Profile</h3>
+              <p className="text-sm text-slate-500 truncate">{file.name} • {rowCount.toLocaleString()} rows, computed locally</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {!profiles ? (
+          <div className="flex-1 p-6">
+            {error
+              ? <p className="text-sm text-red-600">{error}</p>
+              : <TaskProgressBar progress={progress} label="Profiling columns" onCancel={onClose} />}
+          </div>
+        ) : (
+          <div className="flex-1 overflow-hidden flex flex-col md:flex-row">
+            <div className="flex-1 overflow-auto custom-scrollbar">
+              <table className="min-w-full divide-y divide-slate-200 text-sm">
+                <thead className="bg-slate-50 sticky top-0 z-10">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Column</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Empty</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">Distinct</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-slate-500 uppercase tracking-wider">Unique</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase tracking-wider">Top Pattern</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-slate-100">
+                  {profiles.map(p => (
+                    <tr
+                      key={p.name}
+                      onClick={() => setSelected(p.name)}
+                      className={`cursor-pointer transition-colors ${p.name === selected ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+                    >
+                      <td className="px-4 py-2">
+                        <div className="flex items-center gap-1.5 min-w-0">
+                          <span className="font-medium text-slate-800 truncate max-w-[220px]" title={p.name}>{p.name}</span>
+                          {isUniqueColumn(p) && <span title="Every row has a different value"><KeyRound className="w-3.5 h-3.5 text-emerald-600 shrink-0" /></span>}
+                          {p.mixedTypeWarning && <span title={p.mixedTypeWarning}><AlertTriangle className="w-3.5 h-3.5 text-amber-500 shrink-0" /></span>}
+                        </div>
+                        {p.type && <span className="text-[10px] text-slate-400">{COLUMN_TYPE_LABELS[p.type]}</span>}
+                      </td>
+                      <td className="px-4 py-2">
+                        <div className="flex items-center gap-2">
+                          <div className="w-16 h-1.5 rounded-full bg-slate-100 overflow-hidden">
+                            <div className="h-full bg-rose-400" style={{ width: `${(p.nullCount / Math.max(1, rowCount)) * 100}%` }} />
+                          </div>
+                          <span className="text-xs text-slate-600">{formatPercent(p.nullCount / Math.max(1, rowCount))}</span>
+                        </div>
+                      </td>
+                      <td className="px-4 py-2 text-right text-slate-700">{p.distinctCount.toLocaleString()}</td>
+                      <td className="px-4 py-2 text-right text-slate-700">{formatPercent(p.uniqueness)}</td>
+                      <td className="px-4 py-2 font-mono text-xs text-slate-500 whitespace-nowrap">{p.patterns[0]?.value || '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {profile && (
+              <div className="md:w-96 border-t md:border-t-0 md:border-l border-slate-200 overflow-auto custom-scrollbar p-5 space-y-6 bg-slate-50">
+                <div>
+                  <h4 className="text-lg font-semibold text-slate-900 break-all">{profile.name}</h4>
+                  <p className="text-xs text-slate-500">
+                    {(rowCount - profile.nullCount).toLocaleString()} filled • {profile.nullCount.toLocaleString()} empty
+                    {isUniqueColumn(profile) && <span className="text-emerald-600"> • unique, a good key candidate</span>}
+                  </p>
+                </div>
+
+                {profile.mixedTypeWarning && (
+                  <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-50 border border-amber-200 text-xs text-amber-800">
+                    <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+                    <span>{profile.mixedTypeWarning}</span>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-3 gap-2">
+                  {[['Min', profile.min], ['Max', profile.max], ['Mean', profile.mean]].map(([label, val]) => (
+                    <div key={label as string} className="p-2 rounded-lg bg-white border border-slate-200">
+                      <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{label}</p>
+                      <p className="text-sm font-medium text-slate-800 truncate" title={formatStat(val)}>{formatStat(val)}</p>
+                    </div>
+                  ))}
+                </div>
+
+                <div>
+                  <h5 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Top Values</h5>
+                  <div className="space-y-1">
+                    {profile.topValues.map(({ value, count }) => (
+                      <div key={value} className="flex items-center gap-2 text-xs">
+                        <span className="w-32 truncate text-slate-700" title={value}>{value}</span>
+                        <div className="flex-1 h-2 rounded-full bg-slate-200 overflow-hidden">
+                          <div className="h-full bg-blue-500" style={{ width: `${(count / maxTopCount) * 100}%` }} />
+                        </div>
+                        <span className="w-14 text-right text-slate-500">{count.toLocaleString()}</span>
+                      </div>
+                    ))}
+                    {profile.topValues.length === 0 && <p className="text-xs text-slate-400">No values</p>}
+                  </div>
+                </div>
+
+                <div>
+                  <h5 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Value Length</h5>
+                  <div className="flex items-end gap-1 h-20">
+                    {profile.lengthHistogram.map(bucket => (
+                      <div
+                        key={bucket.min}
+                        className="flex-1 bg-violet-400 rounded-t"
+                        style={{ height: `${Math.max(2, (bucket.count / maxBucketCount) * 100)}%` }}
+                        title={`${bucket.min === bucket.max ? bucket.min : `${bucket.min}–${bucket.max}`} characters: ${bucket.count.toLocaleString()} values`}
+                      />
+                    ))}
+                  </div>
+                  {profile.lengthHistogram.length > 0 && (
+                    <div className="flex justify-between text-[10px] text-slate-400 mt-1">
+                      <span>{profile.lengthHistogram[0].min} chars</span>
+                      <span>{profile.lengthHistogram[profile.lengthHistogram.length - 1].max} chars</span>
+                    </div>
+                  )}
+                </div>
+
+                <div>
+                  <h5 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Patterns</h5>
+                  <div className="space-y-1">
+                    {profile.patterns.map(({ value, count }) => (
+                      <div key={value} className="flex justify-between gap-2 text-xs">
+                        <span className="font-mono text-slate-700 truncate" title={value}>{value}</span>
+                        <span className="text-slate-500 shrink-0">{formatPercent(count / Math.max(1, rowCount - profile.nullCount))}</span>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="mt-2 text-[10px] text-slate-400">Letters are shown as A and digits as 9.</p>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
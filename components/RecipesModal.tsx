@@ -0,0 +1,245 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ParsedFile, Recipe, TaskProgress, JoinSizeCheck } from '../types';
+import {
+  describeRecipe,
+  getRecipeFileName,
+  getRecipeInputError,
+  matchRecipeInputs,
+  parseRecipe,
+  PREPARATION_STEP_LABELS
+} from '../services/recipeService';
+import { DEFAULT_ROW_LIMIT } from '../services/dataService';
+import { createDataWorker, isCancelledError } from '../services/workerClient';
+import { TaskProgressBar } from './TaskProgressBar';
+import { JoinGuardModal, JoinGuardChoice } from './JoinGuardModal';
+import { X, ScrollText, Upload, Download, Trash2, Play } from 'lucide-react';
+
+interface RecipesModalProps {
+  isOpen: boolean;
+  recipes: Recipe[];
+  files: ParsedFile[];
+  onClose: () => void;
+  onAddRecipe: (recipe: Recipe) => void;
+  onDeleteRecipe: (name: string) => void;
+  onSaveFile: (newFile: ParsedFile) => void;
+}
+
+export const RecipesModal: React.FC<RecipesModalProps> = ({ isOpen, recipes, files, onClose, onAddRecipe, onDeleteRecipe, onSaveFile }) => {
+  const [selectedName, setSelectedName] = useState<string | null>(null);
+  const [assignments, setAssignments] = useState<string[]>([]); // File id per recipe input, '' for none
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<TaskProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Set while the user decides how to run a join that may go past the row limit
+  const [sizeCheck, setSizeCheck] = useState<JoinSizeCheck | null>(null);
+
+  const worker = useMemo(() => createDataWorker(), []);
+  useEffect(() => () => worker.dispose(), [worker]);
+
+  const recipe = recipes.find(r => r.name === selectedName) || null;
+
+  // Match the recipe's inputs to the workspace again whenever either changes
+  useEffect(() => {
+    setAssignments(recipe ? matchRecipeInputs(recipe, files).map(f => f?.id || '') : []);
+    setError(null);
+  }, [recipe, files]);
+
+  if (!isOpen) return null;
+
+  const assignedFiles = assignments.map(id => files.find(f => f.id === id) || null);
+  const inputErrors = recipe ? recipe.inputs.map((input, i) => getRecipeInputError(input, assignedFiles[i])) : [];
+  const isReused = assignments.some((id, i) => id && assignments.indexOf(id) !== i);
+
+  const handleClose = () => {
+    worker.cancel();
+    onClose();
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (ev) => {
+      try {
+        const imported = parseRecipe(JSON.parse(ev.target?.result as string));
+        onAddRecipe(imported);
+        setSelectedName(imported.name);
+      } catch (err: any) {
+        setError(err instanceof SyntaxError ? 'Failed to parse JSON' : err.message);
+      }
+    };
+    reader.readAsText(file);
+    e.target.value = ''; // Reset input
+  };
+
+  const handleDownload = (r: Recipe) => {
+    const blob = new Blob([JSON.stringify(r, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = getRecipeFileName(r);
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // The first run checks the join's size against the row limit, like interactive joins; the guard's
+  // answer then reruns it capped at the limit or in full
+  const handleRun = async (limits: { rowLimit?: number; maxRows?: number } = { rowLimit: DEFAULT_ROW_LIMIT }) => {
+    if (!recipe) return;
+    setIsRunning(true);
+    setError(null);
+    try {
+      const saveAs = `${recipe.name} (${new Date().toISOString().slice(0, 10)})`;
+      const result = await worker.run<ParsedFile | JoinSizeCheck>({ type: 'runRecipe', recipe, files: assignedFiles, saveAs, ...limits }, setProgress);
+      if ('estimatedRows' in result) {
+        setSizeCheck(result);
+        return;
+      }
+      onSaveFile(result);
+      alert(`Recipe finished: saved ${result.rowCount.toLocaleString()} rows to the workspace as "${saveAs}".`);
+    } catch (err: any) {
+      if (!isCancelledError(err)) setError(err.message || 'Recipe failed');
+    } finally {
+      setIsRunning(false);
+      setProgress(null);
+    }
+  };
+
+  const handleGuardChoice = (choice: JoinGuardChoice) => {
+    setSizeCheck(null);
+    if (choice === 'limit') handleRun({ maxRows: DEFAULT_ROW_LIMIT });
+    else if (choice === 'full') handleRun({});
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <JoinGuardModal
+        isOpen={sizeCheck !== null}
+        estimatedRows={sizeCheck?.estimatedRows ?? null}
+        rowLimit={DEFAULT_ROW_LIMIT}
+        canReduce={false}
+        onChoose={handleGuardChoice}
+      />
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm transition-opacity"
+        onClick={handleClose}
+      />
+
+      {/* Modal Content */}
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[85vh] flex flex-col overflow-hidden animate-fade-in-up">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div className="flex items-center space-x-3 min-w-0">
+            <div className="p-2 bg-blue-100 text-blue-600 rounded-lg">
+              <ScrollText className="w-6 h-6" />
+            </div>
+            <div className="min-w-0">
+              <h3 className="text-xl font-bold text-slate-900 truncate">Recipes</h3>
+              <p className="text-sm text-slate-500 truncate">Replay a recorded join on newly uploaded files</p>
+            </div>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-hidden flex flex-col sm:flex-row">
+          <div className="sm:w-72 border-b sm:border-b-0 sm:border-r border-slate-200 flex flex-col">
+            <div className="flex-1 overflow-auto custom-scrollbar p-3 space-y-2">
+              {recipes.map(r => (
+                <div
+                  key={r.name}
+                  onClick={() => setSelectedName(r.name)}
+                  className={`p-3 rounded-xl border cursor-pointer transition-colors ${r.name === selectedName ? 'border-blue-300 bg-blue-50/50' : 'border-slate-100 hover:bg-slate-50'}`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <span className="text-sm font-medium text-slate-800 break-all">{r.name}</span>
+                    <div className="flex shrink-0">
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleDownload(r); }}
+                        className="p-1 text-slate-400 hover:text-blue-600"
+                        title="Download recipe JSON"
+                      >
+                        <Download className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); onDeleteRecipe(r.name); }}
+                        className="p-1 text-slate-400 hover:text-red-500"
+                        title="Delete recipe"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                  <p className="text-xs text-slate-500">{describeRecipe(r)}</p>
+                  <p className="text-[10px] text-slate-400">Recorded {new Date(r.createdAt).toLocaleDateString()}</p>
+                </div>
+              ))}
+              {recipes.length === 0 && (
+                <p className="text-sm text-slate-500 p-3">
+                  No recipes yet. Run a join, then click "Save as Recipe", or import a recipe file.
+                </p>
+              )}
+            </div>
+            <label className="m-3 cursor-pointer inline-flex items-center justify-center px-3 py-2 text-xs font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg">
+              <Upload className="w-3 h-3 mr-1" />
+              Import Recipe
+              <input type="file" accept=".json" onChange={handleImport} className="hidden" />
+            </label>
+          </div>
+
+          <div className="flex-1 overflow-auto custom-scrollbar p-6 space-y-4">
+            {recipe ? (
+              <>
+                <h4 className="text-sm font-semibold text-slate-900">Input Files</h4>
+                {recipe.inputs.map((input, i) => (
+                  <div key={input.joinName} className="p-3 rounded-xl border border-slate-100 bg-slate-50">
+                    <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                      <div className="sm:w-48 min-w-0">
+                        <p className="text-sm font-medium text-slate-800 truncate" title={input.sourceName}>{input.sourceName}</p>
+                        <p className="text-xs text-slate-400 font-mono truncate" title={input.namePattern}>{input.namePattern}</p>
+                      </div>
+                      <select
+                        value={assignments[i] || ''}
+                        onChange={(e) => setAssignments(assignments.map((id, j) => j === i ? e.target.value : id))}
+                        className="sm:flex-1 px-2 py-1.5 rounded-lg border border-slate-300 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="">Pick a file</option>
+                        {files.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+                      </select>
+                    </div>
+                    {input.steps.length > 0 && (
+                      <p className="mt-2 text-xs text-slate-500">Then: {input.steps.map(step => PREPARATION_STEP_LABELS[step.type]).join(' → ')}</p>
+                    )}
+                    {inputErrors[i] && <p className="mt-1 text-xs text-red-600">{inputErrors[i]}</p>}
+                  </div>
+                ))}
+                {isReused && <p className="text-xs text-amber-600">The same file is picked for more than one input.</p>}
+
+                {isRunning && <TaskProgressBar progress={progress} label="Running recipe" onCancel={worker.cancel} />}
+                {error && <p className="text-sm text-red-600">{error}</p>}
+
+                <button
+                  onClick={() => handleRun()}
+                  disabled={isRunning || inputErrors.some(Boolean)}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg disabled:opacity-50"
+                >
+                  <Play className="w-4 h-4 mr-2" />
+                  Run Recipe
+                </button>
+              </>
+            ) : (
+              <>
+                <p className="text-sm text-slate-500">Select a recipe to match it to the files in your workspace.</p>
+                {error && <p className="text-sm text-red-600">{error}</p>}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
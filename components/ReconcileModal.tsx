@@ -0,0 +1,314 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ParsedFile, JoinCandidate, ReconcileField, ReconcileReport, TaskProgress } from '../types';
+import {
+  suggestReconcileFields,
+  getReconcileFieldError,
+  getReconcileMatchColumn,
+  DIFFERENCES_COLUMN
+} from '../services/reconcileService';
+import { downloadCSV, createJoinedFile } from '../services/dataService';
+import { formatValue } from '../services/schemaService';
+import { createDataWorker, isCancelledError } from '../services/workerClient';
+import { TaskProgressBar } from './TaskProgressBar';
+import { X, Scale, Plus, Trash2, Sparkles, Play, Download, Save } from 'lucide-react';
+
+interface ReconcileModalProps {
+  isOpen: boolean;
+  files: ParsedFile[]; // Files in the join, in join order
+  candidate: JoinCandidate;
+  onUpdateCandidate: (candidate: JoinCandidate) => void;
+  onClose: () => void;
+  onSaveFile: (newFile: ParsedFile) => void;
+}
+
+// Rows shown in the detail table; exports always have all of them
+const MAX_DETAIL_ROWS = 100;
+
+export const ReconcileModal: React.FC<ReconcileModalProps> = ({ isOpen, files, candidate, onUpdateCandidate, onClose, onSaveFile }) => {
+  const [report, setReport] = useState<ReconcileReport | null>(null);
+  const [onlyDifferences, setOnlyDifferences] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<TaskProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const worker = useMemo(() => createDataWorker(), []);
+  useEffect(() => () => worker.dispose(), [worker]);
+
+  // A report no longer describes the data once the key, files or field mapping change
+  useEffect(() => setReport(null), [files, candidate]);
+
+  const fields = candidate.reconcile || [];
+  const detailRows = useMemo(() => {
+    if (!report) return [];
+    return onlyDifferences ? report.rows.filter(r => r[DIFFERENCES_COLUMN]) : report.rows;
+  }, [report, onlyDifferences]);
+
+  if (!isOpen) return null;
+
+  const setFields = (next: ReconcileField[]) => onUpdateCandidate({ ...candidate, reconcile: next });
+  const updateField = (index: number, patch: Partial<ReconcileField>) => setFields(fields.map((f, i) => i === index ? { ...f, ...patch } : f));
+
+  const handleSuggest = () => {
+    const existing = new Set(fields.map(f => f.name));
+    setFields([...fields, ...suggestReconcileFields(files, candidate).filter(f => !existing.has(f.name))]);
+  };
+
+  const handleClose = () => {
+    worker.cancel();
+    onClose();
+  };
+
+  const handleCompare = async () => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      setReport(await worker.run<ReconcileReport>({ type: 'reconcile', files, candidate }, setProgress));
+    } catch (err: any) {
+      if (!isCancelledError(err)) setError(err.message || 'Comparison failed');
+    } finally {
+      setIsRunning(false);
+      setProgress(null);
+    }
+  };
+
+  const exportName = `reconciliation_${candidate.keyName.replace(/\s+/g, '_')}${onlyDifferences ? '_differences' : ''}`;
+  const detailHeaders = detailRows.length > 0 ? Object.keys(detailRows[0]) : [];
+  const readyFields = fields.filter(f => !getReconcileFieldError(files, f));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm transition-opacity"
+        onClick={handleClose}
+      />
+
+      {/* Modal Content */}
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden animate-fade-in-up">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div className="flex items-center space-x-3 min-w-0">
+            <div className="p-2 bg-blue-100 text-blue-600 rounded-lg">
+              <Scale className="w-6 h-6" />
+            </div>
+            <div className="min-w-0">
+              <h3 className="text-xl font-bold text-slate-900 truncate">Reconcile Values</h3>
+              <p className="text-sm text-slate-500 truncate">Compare fields for every {candidate.keyName} found in all files</p>
+            </div>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto custom-scrollbar p-6 space-y-6">
+          <div>
+            <h4 className="text-sm font-semibold text-slate-900 mb-3">Compared Fields</h4>
+            <div className="overflow-x-auto custom-scrollbar border rounded-lg">
+              <table className="min-w-full divide-y divide-slate-200 text-xs">
+                <thead className="bg-slate-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-slate-500">Field</th>
+                    {files.map(file => (
+                      <th key={file.id} className="px-3 py-2 text-left font-medium text-slate-500 whitespace-nowrap">{file.name}</th>
+                    ))}
+                    <th className="px-3 py-2 text-left font-medium text-slate-500 whitespace-nowrap">Number tolerance</th>
+                    <th className="px-3 py-2 text-left font-medium text-slate-500 whitespace-nowrap">Ignore case</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-slate-100">
+                  {fields.map((field, index) => {
+                    const fieldError = getReconcileFieldError(files, field);
+                    return (
+                      <tr key={index}>
+                        <td className="px-3 py-1.5">
+                          <input
+                            type="text"
+                            value={field.name}
+                            onChange={(e) => updateField(index, { name: e.target.value })}
+                            className={`w-36 px-2 py-1 rounded-lg border bg-white font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 ${fieldError ? 'border-red-300' : 'border-slate-300'}`}
+                            title={fieldError || undefined}
+                          />
+                        </td>
+                        {files.map(file => (
+                          <td key={file.id} className="px-3 py-1.5">
+                            <select
+                              value={field.columns[file.name] || ''}
+                              onChange={(e) => updateField(index, { columns: { ...field.columns, [file.name]: e.target.value || null } })}
+                              className="px-2 py-1 rounded-lg border border-slate-300 bg-white font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                              <option value="">Pick a column</option>
+                              {file.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                            </select>
+                          </td>
+                        ))}
+                        <td className="px-3 py-1.5">
+                          <input
+                            type="number"
+                            min={0}
+                            step="any"
+                            value={field.tolerance ?? ''}
+                            onChange={(e) => updateField(index, { tolerance: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) })}
+                            placeholder="0"
+                            className="w-20 px-2 py-1 rounded-lg border border-slate-300 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </td>
+                        <td className="px-3 py-1.5 text-center">
+                          <input
+                            type="checkbox"
+                            checked={!!field.ignoreCase}
+                            onChange={(e) => updateField(index, { ignoreCase: e.target.checked })}
+                            className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                          />
+                        </td>
+                        <td className="px-2 py-1.5 text-right">
+                          <button
+                            onClick={() => setFields(fields.filter((_, i) => i !== index))}
+                            className="p-1 text-slate-400 hover:text-red-500"
+                            title="Remove field"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                  {fields.length === 0 && (
+                    <tr>
+                      <td colSpan={files.length + 4} className="px-3 py-6 text-center text-slate-500">
+                        Map the columns that should agree, e.g. Amount in one file and Total in another.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex flex-wrap gap-3 mt-3">
+              <button
+                onClick={handleSuggest}
+                className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-lg"
+              >
+                <Sparkles className="w-3 h-3 mr-1" />
+                Suggest Fields
+              </button>
+              <button
+                onClick={() => setFields([...fields, { name: '', columns: {} }])}
+                className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg"
+              >
+                <Plus className="w-3 h-3 mr-1" />
+                Add Field
+              </button>
+              <button
+                onClick={handleCompare}
+                disabled={isRunning || readyFields.length === 0}
+                className="sm:ml-auto inline-flex items-center px-4 py-1.5 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg disabled:opacity-50"
+              >
+                <Play className="w-3 h-3 mr-1" />
+                Compare {readyFields.length} Fields
+              </button>
+            </div>
+          </div>
+
+          {isRunning && <TaskProgressBar progress={progress} label="Comparing values" onCancel={worker.cancel} />}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {report && (
+            <>
+              <div>
+                <h4 className="text-sm font-semibold text-slate-900 mb-1">Summary</h4>
+                <p className="text-xs text-slate-500 mb-3">
+                  {report.matchedKeys.toLocaleString()} matched keys • {report.keysWithDifferences.toLocaleString()} with at least one difference
+                  {report.repeatedKeys > 0 && ` • ${report.repeatedKeys.toLocaleString()} repeat in some file (first row compared)`}
+                </p>
+                <div className="space-y-2">
+                  {report.fields.map(summary => {
+                    const rate = summary.compared > 0 ? summary.mismatched / summary.compared : 0;
+                    return (
+                      <div key={summary.name} className="flex items-center gap-3 text-xs">
+                        <span className="w-40 truncate font-mono text-slate-700" title={summary.name}>{summary.name}</span>
+                        <div className="flex-1 h-2 bg-emerald-100 rounded-full overflow-hidden">
+                          <div className="h-full bg-red-500" style={{ width: `${Math.round(rate * 100)}%` }} />
+                        </div>
+                        <span className="w-48 text-right font-mono text-slate-500">
+                          {summary.mismatched.toLocaleString()} / {summary.compared.toLocaleString()} differ ({(rate * 100).toFixed(1)}%)
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div>
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-3">
+                  <label className="flex items-center text-sm text-slate-700">
+                    <input
+                      type="checkbox"
+                      checked={onlyDifferences}
+                      onChange={(e) => setOnlyDifferences(e.target.checked)}
+                      className="mr-2 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    Only keys with differences ({detailRows.length.toLocaleString()})
+                  </label>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => downloadCSV(detailRows, `${exportName}.csv`)}
+                      disabled={detailRows.length === 0}
+                      className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-white bg-slate-800 hover:bg-slate-900 rounded-lg disabled:opacity-50"
+                    >
+                      <Download className="w-3 h-3 mr-1" />
+                      Export CSV
+                    </button>
+                    <button
+                      onClick={() => {
+                        onSaveFile(createJoinedFile(detailRows, exportName));
+                        alert(`Saved ${detailRows.length.toLocaleString()} rows to the workspace as "${exportName}".`);
+                      }}
+                      disabled={detailRows.length === 0}
+                      className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg disabled:opacity-50"
+                    >
+                      <Save className="w-3 h-3 mr-1" />
+                      Save to Workspace
+                    </button>
+                  </div>
+                </div>
+                <div className="max-h-72 overflow-auto custom-scrollbar border rounded-lg">
+                  <table className="min-w-full divide-y divide-slate-200">
+                    <thead className="bg-slate-50 sticky top-0">
+                      <tr>
+                        {detailHeaders.map(h => (
+                          <th key={h} className="px-3 py-2 text-left text-xs font-medium text-slate-500 whitespace-nowrap">{h}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-slate-100">
+                      {detailRows.slice(0, MAX_DETAIL_ROWS).map((row, rowIdx) => (
+                        <tr key={rowIdx}>
+                          {detailHeaders.map(h => {
+                            // Highlight the values of fields that disagree on this row
+                            const field = report.fields.find(f => h.startsWith(`${f.name} (`));
+                            const differs = field && row[getReconcileMatchColumn(field.name)] === 'FALSE';
+                            return (
+                              <td key={h} className={`px-3 py-1.5 whitespace-nowrap text-xs max-w-[220px] truncate ${differs ? 'bg-red-50 text-red-700 font-medium' : 'text-slate-700'}`}>
+                                {formatValue(row[h])}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {detailRows.length > MAX_DETAIL_ROWS && (
+                  <p className="text-xs text-slate-400 mt-2">Showing the first {MAX_DETAIL_ROWS} of {detailRows.length.toLocaleString()} rows.</p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
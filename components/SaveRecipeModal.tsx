@@ -0,0 +1,119 @@
+import React, { useState, useEffect } from 'react';
+import { Recipe } from '../types';
+import { describeRecipe, matchesNamePattern, PREPARATION_STEP_LABELS } from '../services/recipeService';
+import { X, ScrollText, Save } from 'lucide-react';
+
+interface SaveRecipeModalProps {
+  recipe: Recipe | null; // Draft recorded from the last join run
+  onClose: () => void;
+  onSave: (recipe: Recipe) => void;
+}
+
+export const SaveRecipeModal: React.FC<SaveRecipeModalProps> = ({ recipe, onClose, onSave }) => {
+  const [name, setName] = useState('');
+  const [patterns, setPatterns] = useState<string[]>([]);
+
+  useEffect(() => {
+    setName(recipe?.name || '');
+    setPatterns(recipe?.inputs.map(input => input.namePattern) || []);
+  }, [recipe]);
+
+  if (!recipe) return null;
+
+  const handleSave = () => {
+    onSave({
+      ...recipe,
+      name: name.trim(),
+      inputs: recipe.inputs.map((input, i) => ({ ...input, namePattern: patterns[i]?.trim() || '*' }))
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm transition-opacity"
+        onClick={onClose}
+      />
+
+      {/* Modal Content */}
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col overflow-hidden animate-fade-in-up">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div className="flex items-center space-x-3 min-w-0">
+            <div className="p-2 bg-blue-100 text-blue-600 rounded-lg">
+              <ScrollText className="w-6 h-6" />
+            </div>
+            <div className="min-w-0">
+              <h3 className="text-xl font-bold text-slate-900 truncate">Save as Recipe</h3>
+              <p className="text-sm text-slate-500 truncate">{describeRecipe(recipe)} • replay it on next month's files</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto custom-scrollbar p-6 space-y-6">
+          <div>
+            <h4 className="text-sm font-semibold text-slate-900 mb-3">Recipe Name</h4>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 rounded-lg border border-slate-300 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-slate-900 mb-1">Input Files</h4>
+            <p className="text-xs text-slate-500 mb-3">
+              On replay each input takes the file whose name fits its pattern (<code>*</code> matches anything), or else the file with the closest columns.
+            </p>
+            <div className="space-y-3">
+              {recipe.inputs.map((input, i) => (
+                <div key={input.joinName} className="p-3 rounded-xl border border-slate-100 bg-slate-50">
+                  <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                    <span className="text-sm font-medium text-slate-800 truncate sm:w-48" title={input.sourceName}>{input.sourceName}</span>
+                    <input
+                      type="text"
+                      value={patterns[i] ?? ''}
+                      onChange={(e) => setPatterns(patterns.map((p, j) => j === i ? e.target.value : p))}
+                      className="sm:flex-1 px-2 py-1 rounded-lg border border-slate-300 bg-white text-xs font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      title="File name pattern"
+                    />
+                  </div>
+                  {patterns[i] && !matchesNamePattern(input.sourceName, patterns[i]) && (
+                    <p className="mt-1 text-xs text-amber-600">This pattern doesn't match {input.sourceName} itself.</p>
+                  )}
+                  <p className="mt-2 text-xs text-slate-500">
+                    Needs: <span className="font-mono">{input.requiredColumns.join(', ') || 'no specific columns'}</span>
+                  </p>
+                  {input.steps.length > 0 && (
+                    <p className="mt-1 text-xs text-slate-500">
+                      Then: {input.steps.map(step => PREPARATION_STEP_LABELS[step.type]).join(' → ')}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-200 bg-slate-50 flex justify-end">
+          <button
+            onClick={handleSave}
+            disabled={!name.trim()}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg disabled:opacity-50"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            Save Recipe
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
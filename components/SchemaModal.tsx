@@ -0,0 +1,91 @@
+import React from 'react';
+import { ParsedFile, ColumnType } from '../types';
+import { overrideColumnType, inferSchema, COLUMN_TYPE_LABELS } from '../services/schemaService';
+import { X, Columns3 } from 'lucide-react';
+
+interface SchemaModalProps {
+  file: ParsedFile | null;
+  onClose: () => void;
+  onUpdateFile: (updatedFile: ParsedFile) => void;
+}
+
+export const SchemaModal: React.FC<SchemaModalProps> = ({ file, onClose, onUpdateFile }) => {
+  if (!file) return null;
+
+  const schema = file.schema || inferSchema(file.headers, file.data);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm transition-opacity"
+        onClick={onClose}
+      />
+
+      {/* Modal Content */}
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col overflow-hidden animate-fade-in-up">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div className="flex items-center space-x-3 min-w-0">
+            <div className="p-2 bg-blue-100 text-blue-600 rounded-lg">
+              <Columns3 className="w-6 h-6" />
+            </div>
+            <div className="min-w-0">
+              <h3 className="text-xl font-bold text-slate-900 truncate">Column Types</h3>
+              <p className="text-sm text-slate-500 truncate">{file.name} • inferred from all {file.rowCount.toLocaleString()} rows</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto custom-scrollbar p-6">
+          <table className="min-w-full divide-y divide-slate-200 text-sm">
+            <thead>
+              <tr className="text-left text-xs font-medium text-slate-500 uppercase tracking-wider">
+                <th className="px-3 py-2">Column</th>
+                <th className="px-3 py-2">Type</th>
+                <th className="px-3 py-2">Nullable</th>
+                <th className="px-3 py-2">Examples</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {schema.map(col => (
+                <tr key={col.name}>
+                  <td className="px-3 py-2 font-medium text-slate-800 whitespace-nowrap">{col.name}</td>
+                  <td className="px-3 py-2">
+                    <select
+                      value={col.type}
+                      onChange={(e) => onUpdateFile(overrideColumnType(file, col.name, e.target.value as ColumnType))}
+                      className={`px-2 py-1 rounded-lg border text-xs bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 ${col.isOverridden ? 'border-amber-300' : 'border-slate-300'}`}
+                    >
+                      {Object.values(ColumnType).map(type => (
+                        <option key={type} value={type}>{COLUMN_TYPE_LABELS[type]}</option>
+                      ))}
+                    </select>
+                    {col.isOverridden && (
+                      <span className="ml-2 text-[10px] uppercase font-bold text-amber-600" title={col.inferredType ? `Detected as ${COLUMN_TYPE_LABELS[col.inferredType]}` : undefined}>
+                        Manual
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-xs text-slate-500">{col.nullable ? 'Yes' : 'No'}</td>
+                  <td className="px-3 py-2 text-xs font-mono text-slate-500 max-w-[260px] truncate" title={col.examples.join(', ')}>
+                    {col.examples.join(', ')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="p-4 border-t border-slate-200 bg-slate-50 text-xs text-center text-slate-500">
+          Changing a type converts the column's original values. Picking the detected type again restores them as they were.
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React from 'react';
+import { TaskProgress } from '../types';
+import { Loader2, XCircle } from 'lucide-react';
+
+interface TaskProgressBarProps {
+  progress: TaskProgress | null; // null while the task is starting up
+  label: string;
+  onCancel?: () => void;
+}
+
+export const TaskProgressBar: React.FC<TaskProgressBarProps> = ({ progress, label, onCancel }) => {
+  const percent = progress && progress.total > 0 ? Math.min(100, Math.round((progress.done / progress.total) * 100)) : 0;
+
+  return (
+    <div className="w-full p-4 rounded-xl border border-blue-100 bg-blue-50/50">
+      <div className="flex items-center justify-between mb-2">
+        <span className="flex items-center text-sm font-medium text-slate-800">
+          <Loader2 className="w-4 h-4 mr-2 animate-spin text-blue-600" />
+          {progress?.phase || label}
+        </span>
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="inline-flex items-center px-3 py-1 text-xs font-medium text-slate-600 bg-white border border-slate-200 hover:bg-red-50 hover:text-red-600 hover:border-red-200 rounded-lg transition-colors"
+          >
+            <XCircle className="w-3 h-3 mr-1" />
+            Cancel
+          </button>
+        )}
+      </div>
+      <div className="h-2 bg-blue-100 rounded-full overflow-hidden">
+        <div className="h-full bg-blue-600 transition-all duration-200" style={{ width: `${percent}%` }} />
+      </div>
+      {progress && (
+        <p className="mt-2 text-xs font-mono text-slate-500">
+          {progress.done.toLocaleString()} / {progress.total.toLocaleString()} {progress.unit}
+          {progress.rows !== undefined && ` • ${progress.rows.toLocaleString()} rows so far`}
+        </p>
+      )}
+    </div>
+  );
+};
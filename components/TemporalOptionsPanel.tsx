@@ -0,0 +1,114 @@
+import React from 'react';
+import { JoinCandidate, ParsedFile, JoinType, AsOfDirection, TemporalJoinOptions, TemporalFileConfig } from '../types';
+import { getTemporalOptions, getTemporalConfigError, getDateColumnChoices } from '../services/temporalService';
+import { CalendarClock } from 'lucide-react';
+
+interface TemporalOptionsPanelProps {
+  files: ParsedFile[]; // Files in the join, in join order; the first one is matched against the rest
+  candidate: JoinCandidate;
+  joinType: JoinType; // ASOF or RANGE
+  onChange: (candidate: JoinCandidate) => void;
+}
+
+const DIRECTIONS: { value: AsOfDirection; label: string }[] = [
+  { value: AsOfDirection.BACKWARD, label: 'Latest on or before' },
+  { value: AsOfDirection.FORWARD, label: 'Earliest on or after' },
+  { value: AsOfDirection.NEAREST, label: 'Nearest either way' }
+];
+
+const selectClass = 'w-full px-3 py-2 rounded-lg border border-slate-300 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-sky-500';
+
+export const TemporalOptionsPanel: React.FC<TemporalOptionsPanelProps> = ({ files, candidate, joinType, onChange }) => {
+  const options = getTemporalOptions(files, candidate);
+  const error = getTemporalConfigError(files, options, joinType);
+  const isAsOf = joinType === JoinType.ASOF;
+
+  const update = (patch: Partial<TemporalJoinOptions>) => onChange({ ...candidate, temporal: { ...options, ...patch } });
+  const updateFile = (fileName: string, patch: Partial<TemporalFileConfig>) => update({
+    files: options.files.map(f => f.fileName === fileName ? { ...f, ...patch } : f)
+  });
+
+  const columnSelect = (file: ParsedFile, value: string | undefined, onSelect: (col: string | undefined) => void, emptyLabel: string) => (
+    <select value={value || ''} onChange={(e) => onSelect(e.target.value || undefined)} className={selectClass}>
+      <option value="">{emptyLabel}</option>
+      {getDateColumnChoices(file).map(col => <option key={col} value={col}>{col}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="mb-8 animate-fade-in p-4 rounded-xl border-2 border-sky-100 bg-sky-50/30">
+      <h4 className="text-sm font-semibold text-sky-900 mb-3 flex items-center">
+        <CalendarClock className="w-4 h-4 mr-2" />
+        {isAsOf ? 'As-of Join Settings' : 'Date Range Join Settings'}
+      </h4>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-bold text-slate-700 mb-1">Date in {files[0]?.name}</label>
+          {files[0] && columnSelect(files[0], options.anchorDateColumn, col => update({ anchorDateColumn: col || '' }), 'Pick a column')}
+        </div>
+        {files.slice(1).map(file => {
+          const config = options.files.find(f => f.fileName === file.name);
+          return isAsOf ? (
+            <div key={file.id}>
+              <label className="block text-xs font-bold text-slate-700 mb-1">Date in {file.name}</label>
+              {columnSelect(file, config?.dateColumn, col => updateFile(file.name, { dateColumn: col }), 'Pick a column')}
+            </div>
+          ) : (
+            <div key={file.id} className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs font-bold text-slate-700 mb-1 truncate" title={file.name}>Valid from ({file.name})</label>
+                {columnSelect(file, config?.fromColumn, col => updateFile(file.name, { fromColumn: col }), 'Pick a column')}
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-slate-700 mb-1">Valid to</label>
+                {columnSelect(file, config?.toColumn, col => updateFile(file.name, { toColumn: col }), 'No end (open)')}
+              </div>
+            </div>
+          );
+        })}
+
+        {isAsOf && (
+          <div>
+            <label className="block text-xs font-bold text-slate-700 mb-1">Direction</label>
+            <select
+              value={options.direction}
+              onChange={(e) => update({ direction: e.target.value as AsOfDirection })}
+              className={selectClass}
+            >
+              {DIRECTIONS.map(d => <option key={d.value} value={d.value}>{d.label}</option>)}
+            </select>
+          </div>
+        )}
+        <div>
+          <label className="block text-xs font-bold text-slate-700 mb-1">
+            {isAsOf ? 'Tolerance (max days apart)' : 'Tolerance (days added to both ends)'}
+          </label>
+          <input
+            type="number"
+            min={0}
+            value={options.toleranceDays ?? ''}
+            onChange={(e) => update({ toleranceDays: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) })}
+            placeholder={isAsOf ? 'Any gap' : '0'}
+            className={selectClass}
+          />
+        </div>
+      </div>
+
+      <label className="flex items-center mt-4 text-sm text-slate-700">
+        <input
+          type="checkbox"
+          checked={options.matchKey}
+          onChange={(e) => update({ matchKey: e.target.checked })}
+          className="mr-2 rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+        />
+        Also require the same {candidate.keyName}
+      </label>
+      <p className="text-xs text-slate-500 mt-1">
+        Turn this off to match on dates alone, e.g. a daily exchange rate table with no shared key.
+        Rows of {files[0]?.name} without a match are kept with empty columns.
+      </p>
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,292 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ParsedFile, UnionColumn, ColumnMatchSource, TaskProgress } from '../types';
+import {
+  alignColumns,
+  getUnusedColumns,
+  getUnionConfigError,
+  COLUMN_MATCH_LABELS,
+  SOURCE_FILE_COLUMN
+} from '../services/unionService';
+import { suggestUnionAlignment } from '../services/geminiService';
+import { createDataWorker, isCancelledError } from '../services/workerClient';
+import { TaskProgressBar } from './TaskProgressBar';
+import { X, Layers, Plus, Trash2, Save, Sparkles, Loader2 } from 'lucide-react';
+
+interface UnionModalProps {
+  isOpen: boolean;
+  files: ParsedFile[];
+  onClose: () => void;
+  onSaveFile: (newFile: ParsedFile) => void;
+}
+
+const MATCH_BADGE_STYLES: Record<ColumnMatchSource, string> = {
+  [ColumnMatchSource.NAME]: 'bg-slate-100 text-slate-600',
+  [ColumnMatchSource.SYNONYM]: 'bg-amber-100 text-amber-700',
+  [ColumnMatchSource.AI]: 'bg-violet-100 text-violet-700',
+  [ColumnMatchSource.MANUAL]: 'bg-blue-100 text-blue-700'
+};
+
+export const UnionModal: React.FC<UnionModalProps> = ({ isOpen, files, onClose, onSaveFile }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [columns, setColumns] = useState<UnionColumn[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [isAligning, setIsAligning] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<TaskProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const worker = useMemo(() => createDataWorker(), []);
+  useEffect(() => () => worker.dispose(), [worker]);
+
+  const unionFilesList = files.filter(f => selectedIds.includes(f.id));
+
+  // Every workspace file starts selected, lined up by name
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelectedIds(files.map(f => f.id));
+    setColumns(alignColumns(files, false));
+    setFileName('');
+    setError(null);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const configError = getUnionConfigError(unionFilesList, columns);
+  const unused = getUnusedColumns(unionFilesList, columns);
+  const totalRows = unionFilesList.reduce((acc, f) => acc + f.rowCount, 0);
+  const outputName = fileName.trim() || `Appended (${unionFilesList.length} files)`;
+
+  const handleClose = () => {
+    worker.cancel();
+    onClose();
+  };
+
+  const toggleFile = (id: string) => {
+    const nextIds = selectedIds.includes(id) ? selectedIds.filter(x => x !== id) : [...selectedIds, id];
+    setSelectedIds(nextIds);
+    setColumns(alignColumns(files.filter(f => nextIds.includes(f.id)), false));
+  };
+
+  const handleAiAlign = async () => {
+    setIsAligning(true);
+    setError(null);
+    try {
+      setColumns(await suggestUnionAlignment(unionFilesList));
+    } catch (err) {
+      setError('The AI could not suggest an alignment. Please check your API key or map the columns manually.');
+    } finally {
+      setIsAligning(false);
+    }
+  };
+
+  const updateColumn = (index: number, patch: Partial<UnionColumn>) => {
+    setColumns(columns.map((c, i) => i === index ? { ...c, ...patch } : c));
+  };
+
+  const setSource = (index: number, sourceFile: string, columnName: string) => {
+    updateColumn(index, { sources: { ...columns[index].sources, [sourceFile]: columnName || null }, matchedBy: ColumnMatchSource.MANUAL });
+  };
+
+  const handleSave = async () => {
+    setIsRunning(true);
+    setError(null);
+    try {
+      const result = await worker.run<ParsedFile>({ type: 'union', files: unionFilesList, columns, saveAs: outputName }, setProgress);
+      onSaveFile(result);
+      onClose();
+    } catch (err: any) {
+      if (!isCancelledError(err)) setError(err.message || 'Append failed');
+    } finally {
+      setIsRunning(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm transition-opacity"
+        onClick={handleClose}
+      />
+
+      {/* Modal Content */}
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden animate-fade-in-up">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200">
+          <div className="flex items-center space-x-3 min-w-0">
+            <div className="p-2 bg-blue-100 text-blue-600 rounded-lg">
+              <Layers className="w-6 h-6" />
+            </div>
+            <div className="min-w-0">
+              <h3 className="text-xl font-bold text-slate-900 truncate">Append Files</h3>
+              <p className="text-sm text-slate-500 truncate">Stack rows from files with the same (or drifting) columns</p>
+            </div>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto custom-scrollbar p-6 space-y-6">
+          <div>
+            <h4 className="text-sm font-semibold text-slate-900 mb-3">Files</h4>
+            <div className="flex flex-wrap gap-2">
+              {files.map(file => (
+                <label key={file.id} className={`inline-flex items-center px-3 py-1.5 rounded-lg border text-xs cursor-pointer ${selectedIds.includes(file.id) ? 'border-blue-300 bg-blue-50 text-blue-800' : 'border-slate-200 text-slate-500'}`}>
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(file.id)}
+                    onChange={() => toggleFile(file.id)}
+                    className="mr-2 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  {file.name}
+                  <span className="ml-2 text-slate-400">{file.rowCount.toLocaleString()} rows</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+              <h4 className="text-sm font-semibold text-slate-900">Column Alignment</h4>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setColumns(alignColumns(unionFilesList, false))}
+                  className="px-3 py-1.5 text-xs font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg"
+                >
+                  By Name
+                </button>
+                <button
+                  onClick={() => setColumns(alignColumns(unionFilesList, true))}
+                  className="px-3 py-1.5 text-xs font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg"
+                >
+                  By Name + Synonyms
+                </button>
+                <button
+                  onClick={handleAiAlign}
+                  disabled={isAligning || unionFilesList.length < 2}
+                  className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-violet-700 bg-violet-50 hover:bg-violet-100 rounded-lg disabled:opacity-50"
+                >
+                  {isAligning ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Sparkles className="w-3 h-3 mr-1" />}
+                  Ask AI
+                </button>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto custom-scrollbar border rounded-lg">
+              <table className="min-w-full divide-y divide-slate-200 text-xs">
+                <thead className="bg-slate-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-slate-500">Output Column</th>
+                    {unionFilesList.map(file => (
+                      <th key={file.id} className="px-3 py-2 text-left font-medium text-slate-500 whitespace-nowrap">{file.name}</th>
+                    ))}
+                    <th />
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-slate-100">
+                  {columns.map((col, index) => (
+                    <tr key={index}>
+                      <td className="px-3 py-1.5 whitespace-nowrap">
+                        <input
+                          type="text"
+                          value={col.outputName}
+                          onChange={(e) => updateColumn(index, { outputName: e.target.value })}
+                          className="w-40 px-2 py-1 rounded-lg border border-slate-300 bg-white font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <span className={`ml-2 px-1.5 py-0.5 rounded text-[10px] font-bold uppercase ${MATCH_BADGE_STYLES[col.matchedBy]}`}>
+                          {COLUMN_MATCH_LABELS[col.matchedBy]}
+                        </span>
+                      </td>
+                      {unionFilesList.map(file => (
+                        <td key={file.id} className="px-3 py-1.5">
+                          <select
+                            value={col.sources[file.name] || ''}
+                            onChange={(e) => setSource(index, file.name, e.target.value)}
+                            className={`px-2 py-1 rounded-lg border bg-white font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 ${col.sources[file.name] ? 'border-slate-300 text-slate-700' : 'border-dashed border-slate-200 text-slate-400'}`}
+                          >
+                            <option value="">(empty)</option>
+                            {file.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                          </select>
+                        </td>
+                      ))}
+                      <td className="px-2 py-1.5 text-right">
+                        <button
+                          onClick={() => setColumns(columns.filter((_, i) => i !== index))}
+                          className="p-1 text-slate-400 hover:text-red-500"
+                          title="Remove column"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="bg-slate-50/50">
+                    <td className="px-3 py-1.5 font-mono text-slate-400" colSpan={unionFilesList.length + 2}>
+                      {SOURCE_FILE_COLUMN} <span className="font-sans">is added with the name of each row's file</span>
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            <button
+              onClick={() => setColumns([...columns, { outputName: '', sources: {}, matchedBy: ColumnMatchSource.MANUAL }])}
+              className="mt-3 inline-flex items-center px-3 py-1.5 text-xs font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg"
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              Add Column
+            </button>
+
+            {unused.length > 0 && (
+              <div className="mt-4 flex flex-wrap items-center gap-2 text-xs">
+                <span className="text-slate-500">Not included (click to add):</span>
+                {unused.map(({ fileName: source, columnName }) => (
+                  <button
+                    key={`${source}/${columnName}`}
+                    onClick={() => setColumns([...columns, { outputName: columnName, sources: { [source]: columnName }, matchedBy: ColumnMatchSource.MANUAL }])}
+                    className="px-2 py-0.5 rounded border border-slate-200 text-slate-600 hover:bg-slate-50 font-mono"
+                    title={source}
+                  >
+                    {columnName}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-slate-900 mb-3">New File Name</h4>
+            <input
+              type="text"
+              value={fileName}
+              onChange={(e) => setFileName(e.target.value)}
+              placeholder={outputName}
+              className="w-full px-3 py-2 rounded-lg border border-slate-300 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          {isRunning && <TaskProgressBar progress={progress} label="Appending files" onCancel={worker.cancel} />}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="p-4 border-t border-slate-200 bg-slate-50 flex items-center justify-between gap-4">
+          <span className="text-xs text-slate-500">
+            {configError || `${totalRows.toLocaleString()} rows • ${columns.length + 1} columns`}
+          </span>
+          <button
+            onClick={handleSave}
+            disabled={!!configError || isRunning}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg disabled:opacity-50 shrink-0"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            Save to Workspace
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { AggregateFunction, GroupByConfig, ParsedFile } from '../types';
+import { groupByAggregate, getGroupByConfigError, getDefaultAggregateName } from './aggregateService';
+import { withSchema } from './schemaService';
+
+const makeFile = (name: string, data: any[]): ParsedFile => withSchema({
+  id: name,
+  name,
+  size: 0,
+  headers: Object.keys(data[0]),
+  previewData: [],
+  data,
+  rowCount: data.length
+});
+
+const sales = makeFile('sales.csv', [
+  { region: 'North', rep: 'Ann', amount: '10', placed: '2024-03-01' },
+  { region: 'North', rep: 'Bob', amount: '30', placed: '2024-01-05' },
+  { region: '', rep: 'Cy', amount: '5', placed: '' },
+  { region: 'South', rep: 'Ann', amount: '', placed: '2024-02-02' },
+  { region: ' ', rep: 'Dee', amount: '1', placed: '2024-04-04' }
+]);
+
+const rollUp = (column: string, fn: AggregateFunction) =>
+  groupByAggregate(sales, { groupBy: ['region'], aggregates: [{ column, fn, outputName: 'out' }] }, 'sales by region').data.map(r => r.out);
+
+describe('groupByAggregate', () => {
+  it('applies each function to the non-empty values of a group', () => {
+    expect(rollUp('amount', AggregateFunction.SUM)).toEqual([40, 6, null]);
+    expect(rollUp('amount', AggregateFunction.AVG)).toEqual([20, 3, null]);
+    expect(rollUp('amount', AggregateFunction.COUNT)).toEqual([2, 2, 0]);
+    expect(rollUp('amount', AggregateFunction.MIN)).toEqual([10, 1, null]);
+    expect(rollUp('amount', AggregateFunction.MAX)).toEqual([30, 5, null]);
+    expect(rollUp('placed', AggregateFunction.MIN)).toEqual(['2024-01-05', '2024-04-04', '2024-02-02']);
+    expect(rollUp('rep', AggregateFunction.FIRST)).toEqual(['Ann', 'Cy', 'Ann']);
+    expect(rollUp('rep', AggregateFunction.LAST)).toEqual(['Bob', 'Dee', 'Ann']);
+    expect(rollUp('rep', AggregateFunction.COUNT_DISTINCT)).toEqual([2, 2, 1]);
+    expect(rollUp('rep', AggregateFunction.CONCAT)).toEqual(['Ann | Bob', 'Cy | Dee', 'Ann']);
+  });
+
+  it('keeps rows with blank group values together as their own group', () => {
+    const result = groupByAggregate(sales, { groupBy: ['region'], aggregates: [] }, 'regions');
+    expect(result.data).toEqual([{ region: 'North' }, { region: null }, { region: 'South' }]);
+  });
+
+  it('names columns after the group-by columns and trimmed output names, as a derived file', () => {
+    const config: GroupByConfig = {
+      groupBy: ['region', 'rep'],
+      aggregates: [{ column: 'amount', fn: AggregateFunction.SUM, outputName: ` ${getDefaultAggregateName('amount', AggregateFunction.SUM)} ` }]
+    };
+    const result = groupByAggregate(sales, config, 'sales by region, rep');
+    expect(result.headers).toEqual(['region', 'rep', 'amount (sum)']);
+    expect(result.name).toBe('sales by region, rep');
+    expect(result.rowCount).toBe(5);
+    expect(result.isDerived).toBe(true);
+    expect(result.isJoined).toBe(false);
+    expect(result.lineage).toEqual({ sourceFileId: 'sales.csv', step: { type: 'groupBy', config } });
+  });
+});
+
+describe('getGroupByConfigError', () => {
+  it('explains configs that cannot run', () => {
+    const sum = { column: 'amount', fn: AggregateFunction.SUM, outputName: 'total' };
+    expect(getGroupByConfigError(sales, { groupBy: [], aggregates: [sum] })).toBe('Pick at least one column to group by');
+    expect(getGroupByConfigError(sales, { groupBy: ['city'], aggregates: [sum] })).toBe('Column city is not in sales.csv');
+    expect(getGroupByConfigError(sales, { groupBy: ['region'], aggregates: [{ ...sum, outputName: ' ' }] })).toBe('Every aggregate needs an output name');
+    expect(getGroupByConfigError(sales, { groupBy: ['region'], aggregates: [{ ...sum, outputName: 'region' }] })).toBe('The output name region is used more than once');
+    expect(() => groupByAggregate(sales, { groupBy: [], aggregates: [] }, 'x')).toThrow('Pick at least one column');
+  });
+});
@@ -0,0 +1,124 @@
+import { ParsedFile, AggregateFunction, AggregateSpec, GroupByConfig, ColumnType, ProgressCallback } from '../types';
+import { createJoinedFile, toDerivedFile, getCleanFileName } from './dataService';
+import { getColumnType, getOverriddenColumns } from './schemaService';
+
+export const AGGREGATE_FUNCTION_LABELS: Record<AggregateFunction, string> = {
+  [AggregateFunction.SUM]: 'Sum',
+  [AggregateFunction.COUNT]: 'Count',
+  [AggregateFunction.MIN]: 'Min',
+  [AggregateFunction.MAX]: 'Max',
+  [AggregateFunction.AVG]: 'Average',
+  [AggregateFunction.FIRST]: 'First',
+  [AggregateFunction.LAST]: 'Last',
+  [AggregateFunction.COUNT_DISTINCT]: 'Distinct count',
+  [AggregateFunction.CONCAT]: 'Concatenate'
+};
+
+const NUMERIC_FUNCTIONS = [AggregateFunction.SUM, AggregateFunction.AVG];
+const NUMERIC_TYPES = [ColumnType.INTEGER, ColumnType.DECIMAL];
+
+const PROGRESS_INTERVAL = 5000;
+
+const isEmpty = (val: any) => val === null || val === undefined || (typeof val === 'string' && val.trim() === '');
+
+const toNumber = (val: any): number | null => {
+  if (typeof val === 'number') return isFinite(val) ? val : null;
+  const num = Number(String(val).replace(/,/g, '').trim());
+  return isFinite(num) ? num : null;
+};
+
+export const getDefaultAggregateName = (column: string, fn: AggregateFunction) => `${column} (${AGGREGATE_FUNCTION_LABELS[fn].toLowerCase()})`;
+
+/**
+ * A starting aggregate for a column: sum for numbers, distinct count for anything else
+ */
+export const createAggregateSpec = (file: ParsedFile, column: string): AggregateSpec => {
+  const type = getColumnType(file, column);
+  const fn = type && NUMERIC_TYPES.includes(type) ? AggregateFunction.SUM : AggregateFunction.COUNT_DISTINCT;
+  return { column, fn, outputName: getDefaultAggregateName(column, fn) };
+};
+
+/**
+ * Explains why the config can't run yet, or returns null when it is ready
+ */
+export const getGroupByConfigError = (file: ParsedFile, config: GroupByConfig): string | null => {
+  if (config.groupBy.length === 0) return 'Pick at least one column to group by';
+  const missing = [...config.groupBy, ...config.aggregates.map(a => a.column)].find(col => !file.headers.includes(col));
+  if (missing) return `Column ${missing} is not in ${file.name}`;
+  const names = [...config.groupBy, ...config.aggregates.map(a => a.outputName.trim())];
+  if (names.some(name => name === '')) return 'Every aggregate needs an output name';
+  const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+  if (duplicate) return `The output name ${duplicate} is used more than once`;
+  return null;
+};
+
+const compareValues = (a: any, b: any) => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  // ISO dates and mixed text compare correctly as strings; numeric collation keeps "9" before "10"
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+};
+
+const aggregateValues = (values: any[], fn: AggregateFunction): any => {
+  const present = values.filter(v => !isEmpty(v));
+  switch (fn) {
+    case AggregateFunction.COUNT:
+      return present.length;
+    case AggregateFunction.COUNT_DISTINCT:
+      return new Set(present.map(v => String(v))).size;
+    case AggregateFunction.FIRST:
+      return present.length > 0 ? present[0] : null;
+    case AggregateFunction.LAST:
+      return present.length > 0 ? present[present.length - 1] : null;
+    case AggregateFunction.MIN:
+    case AggregateFunction.MAX: {
+      if (present.length === 0) return null;
+      const sign = fn === AggregateFunction.MIN ? 1 : -1;
+      return present.reduce((best, v) => sign * compareValues(v, best) < 0 ? v : best);
+    }
+    case AggregateFunction.CONCAT:
+      return present.length > 0 ? Array.from(new Set(present.map(v => String(v)))).join(' | ') : null;
+    case AggregateFunction.SUM:
+    case AggregateFunction.AVG: {
+      const numbers = present.map(toNumber).filter((n): n is number => n !== null);
+      if (numbers.length === 0) return null;
+      const sum = numbers.reduce((acc, n) => acc + n, 0);
+      return fn === AggregateFunction.SUM ? sum : sum / numbers.length;
+    }
+  }
+};
+
+/**
+ * True when the function only makes sense for numbers, so the UI can warn on text columns
+ */
+export const isNumericAggregate = (fn: AggregateFunction) => NUMERIC_FUNCTIONS.includes(fn);
+
+/**
+ * Rolls a file up to one row per combination of the group-by values, in order of first appearance.
+ * Rows with blank group-by values form their own group rather than being dropped.
+ */
+export const groupByAggregate = (file: ParsedFile, config: GroupByConfig, name: string, onProgress?: ProgressCallback): ParsedFile => {
+  const error = getGroupByConfigError(file, config);
+  if (error) throw new Error(error);
+
+  const groups = new Map<string, any[]>();
+  file.data.forEach((row, index) => {
+    const key = JSON.stringify(config.groupBy.map(col => isEmpty(row[col]) ? null : String(row[col]).trim()));
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(row);
+    if ((index + 1) % PROGRESS_INTERVAL === 0) onProgress?.({ phase: 'Grouping rows', done: index + 1, total: file.data.length, unit: 'rows' });
+  });
+
+  const data: any[] = [];
+  groups.forEach(rows => {
+    const out: any = {};
+    config.groupBy.forEach(col => out[col] = rows[0][col] ?? null);
+    config.aggregates.forEach(agg => out[agg.outputName.trim()] = aggregateValues(rows.map(r => r[agg.column]), agg.fn));
+    data.push(out);
+  });
+
+  const groupColumns = config.groupBy.map(col => ({ name: col, fileIndex: 0, sourceColumn: col }));
+  return toDerivedFile(createJoinedFile(data, name, getOverriddenColumns([file], groupColumns)), file, { type: 'groupBy', config });
+};
+
+export const getGroupByFileName = (file: ParsedFile, config: GroupByConfig) =>
+  `${getCleanFileName(file.name)} by ${config.groupBy.join(', ')}`;
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { CoalesceGroup, CoalesceRule } from '../types';
+import { coalesceColumns, getCoalesceNameClash, suggestCoalesceGroups, CONFLICTS_COLUMN } from './coalesceService';
+
+const phoneGroup = (rule: CoalesceRule): CoalesceGroup => ({
+  outputName: 'Phone',
+  sources: [
+    { column: 'crm - phone', dateColumn: 'crm - updated' },
+    { column: 'shop - cell', dateColumn: 'shop - updated' },
+    { column: 'billing - mobile', dateColumn: 'billing - updated' }
+  ],
+  rule
+});
+
+const row = (phones: [any, any, any], dates: [any, any, any] = [null, null, null]) => ({
+  id: '1',
+  'crm - phone': phones[0],
+  'crm - updated': dates[0],
+  'shop - cell': phones[1],
+  'shop - updated': dates[1],
+  'billing - mobile': phones[2],
+  'billing - updated': dates[2]
+});
+
+const merge = (rule: CoalesceRule, phones: [any, any, any], dates?: [any, any, any]) =>
+  coalesceColumns([row(phones, dates)], [phoneGroup(rule)])[0];
+
+describe('coalesceColumns', () => {
+  it('puts the merged column where its first source was', () => {
+    const [out] = coalesceColumns([row(['555', null, ' 555 '])], [phoneGroup(CoalesceRule.FIRST_BY_PRIORITY)]);
+    expect(Object.keys(out)).toEqual(['id', 'Phone', 'crm - updated', 'shop - updated', 'billing - updated', CONFLICTS_COLUMN]);
+    expect(out.Phone).toBe('555');
+    expect(out[CONFLICTS_COLUMN]).toBeNull();
+  });
+
+  it('takes the first non-empty value by priority', () => {
+    const out = merge(CoalesceRule.FIRST_BY_PRIORITY, ['', '111', '222']);
+    expect(out.Phone).toBe('111');
+    expect(out[CONFLICTS_COLUMN]).toBe('Phone: 111 | 222 → 111');
+  });
+
+  it('takes the most frequent value, ties going to priority', () => {
+    expect(merge(CoalesceRule.MOST_FREQUENT, ['111', '222', ' 222']).Phone).toBe('222');
+    expect(merge(CoalesceRule.MOST_FREQUENT, ['111', '222', null]).Phone).toBe('111');
+  });
+
+  it('takes the longest value', () => {
+    expect(merge(CoalesceRule.LONGEST, ['555', '+1 555 0100', '5550100']).Phone).toBe('+1 555 0100');
+  });
+
+  it('takes the value with the newest date, undated values losing', () => {
+    expect(merge(CoalesceRule.NEWEST_BY_DATE, ['111', '222', '333'], ['2024-01-01', '2024-06-01', null]).Phone).toBe('222');
+    expect(merge(CoalesceRule.NEWEST_BY_DATE, ['111', '222', null]).Phone).toBe('111');
+  });
+
+  it('leaves flagged conflicts empty and says so', () => {
+    const out = merge(CoalesceRule.FLAG, ['111', '222', null]);
+    expect(out.Phone).toBeNull();
+    expect(out[CONFLICTS_COLUMN]).toBe('Phone: 111 | 222 (unresolved)');
+  });
+
+  it('skips groups whose name clashes with another column', () => {
+    const rows = [row(['111', null, null])];
+    expect(coalesceColumns(rows, [{ ...phoneGroup(CoalesceRule.FIRST_BY_PRIORITY), outputName: 'id' }])).toBe(rows);
+  });
+});
+
+describe('getCoalesceNameClash', () => {
+  const group = phoneGroup(CoalesceRule.FIRST_BY_PRIORITY);
+  const columns = ['id', 'crm - phone', 'shop - cell', 'billing - mobile'];
+
+  it('accepts new names and the name of a source column', () => {
+    expect(getCoalesceNameClash(group, columns)).toBeNull();
+    expect(getCoalesceNameClash({ ...group, outputName: 'crm - phone' }, columns)).toBeNull();
+  });
+
+  it('rejects empty, reserved and taken names', () => {
+    expect(getCoalesceNameClash({ ...group, outputName: ' ' }, columns)).toBe('Output name is empty');
+    expect(getCoalesceNameClash({ ...group, outputName: CONFLICTS_COLUMN }, columns)).toContain('reserved');
+    expect(getCoalesceNameClash({ ...group, outputName: 'id' }, columns)).toBe('"id" is already a column in the result');
+  });
+});
+
+describe('suggestCoalesceGroups', () => {
+  it('groups synonyms from different files only', () => {
+    const groups = suggestCoalesceGroups([
+      { name: 'crm - Phone', fileIndex: 0, sourceColumn: 'Phone' },
+      { name: 'crm - Mobile', fileIndex: 0, sourceColumn: 'Mobile' },
+      { name: 'shop - Cell', fileIndex: 1, sourceColumn: 'Cell' },
+      { name: 'shop - City', fileIndex: 1, sourceColumn: 'City' }
+    ]);
+    expect(groups).toEqual([{
+      outputName: 'Phone',
+      sources: [{ column: 'crm - Phone' }, { column: 'crm - Mobile' }, { column: 'shop - Cell' }],
+      rule: CoalesceRule.FIRST_BY_PRIORITY
+    }]);
+  });
+});
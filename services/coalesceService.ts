@@ -0,0 +1,183 @@
+import { CoalesceGroup, CoalesceRule, OutputColumn } from '../types';
+import { parseDateValue } from './schemaService';
+
+export const CONFLICTS_COLUMN = '_Conflicts';
+
+export const COALESCE_RULE_LABELS: Record<CoalesceRule, string> = {
+  [CoalesceRule.FIRST_BY_PRIORITY]: 'First non-empty (by priority)',
+  [CoalesceRule.MOST_FREQUENT]: 'Most frequent',
+  [CoalesceRule.LONGEST]: 'Longest',
+  [CoalesceRule.NEWEST_BY_DATE]: 'Newest by date column',
+  [CoalesceRule.FLAG]: 'Flag conflict (leave empty)'
+};
+
+// Column names that mean the same thing; anything not listed only groups with identical names
+const SYNONYMS: string[][] = [
+  ['phone', 'phonenumber', 'telephone', 'tel', 'cell', 'cellphone', 'mobile', 'mobilephone', 'mobilenumber', 'contactnumber'],
+  ['email', 'emailaddress', 'mail', 'contactemail'],
+  ['name', 'fullname', 'contactname', 'customername'],
+  ['address', 'streetaddress', 'street', 'addr', 'address1'],
+  ['city', 'town'],
+  ['zip', 'zipcode', 'postcode', 'postalcode'],
+  ['country', 'countrycode', 'nation'],
+  ['company', 'companyname', 'organization', 'organisation', 'employer']
+];
+
+const isEmpty = (val: any) => val === null || val === undefined || (typeof val === 'string' && val.trim() === '');
+
+// Values that differ only in case or spacing are not treated as conflicts
+const comparable = (val: any) => String(val).trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Lower-case alphanumeric form of a column name, mapped to the first entry of its synonym group
+ */
+export const canonicalColumnName = (name: string) => {
+  const compact = name.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return SYNONYMS.find(group => group.includes(compact))?.[0] || compact;
+};
+
+/**
+ * Proposes groups of synonymous columns coming from different files,
+ * e.g. "CRM - Phone", "Orders - Cell" and "Billing - Mobile" -> "Phone".
+ */
+export const suggestCoalesceGroups = (columns: OutputColumn[]): CoalesceGroup[] => {
+  const byName = new Map<string, OutputColumn[]>();
+  columns.forEach(col => {
+    if (col.fileIndex === null || !col.sourceColumn) return;
+    const canonical = canonicalColumnName(col.sourceColumn);
+    if (!canonical) return;
+    if (!byName.has(canonical)) byName.set(canonical, []);
+    byName.get(canonical)!.push(col);
+  });
+
+  const groups: CoalesceGroup[] = [];
+  byName.forEach(cols => {
+    if (new Set(cols.map(c => c.fileIndex)).size < 2) return;
+    groups.push({
+      outputName: cols[0].sourceColumn!,
+      sources: cols.map(c => ({ column: c.name })),
+      rule: CoalesceRule.FIRST_BY_PRIORITY
+    });
+  });
+  return groups;
+};
+
+/**
+ * Explains why a group's output name can't be used, or returns null when it is fine
+ */
+export const getCoalesceNameClash = (group: CoalesceGroup, columnNames: string[]): string | null => {
+  if (!group.outputName.trim()) return 'Output name is empty';
+  if (group.outputName === CONFLICTS_COLUMN) return `${CONFLICTS_COLUMN} is reserved`;
+  const isSource = group.sources.some(s => s.column === group.outputName);
+  if (!isSource && columnNames.includes(group.outputName)) return `"${group.outputName}" is already a column in the result`;
+  return null;
+};
+
+// Picks the index of the winning value among the non-empty candidates, or -1 when left unresolved
+const pickValue = (rule: CoalesceRule, values: any[], dates: (string | null)[]): number => {
+  switch (rule) {
+    case CoalesceRule.FIRST_BY_PRIORITY:
+      return 0;
+    case CoalesceRule.MOST_FREQUENT: {
+      const counts = new Map<string, number>();
+      values.forEach(v => counts.set(comparable(v), (counts.get(comparable(v)) || 0) + 1));
+      // Ties go to the higher-priority source
+      let best = 0;
+      values.forEach((v, i) => {
+        if (counts.get(comparable(v))! > counts.get(comparable(values[best]))!) best = i;
+      });
+      return best;
+    }
+    case CoalesceRule.LONGEST: {
+      let best = 0;
+      values.forEach((v, i) => {
+        if (String(v).trim().length > String(values[best]).trim().length) best = i;
+      });
+      return best;
+    }
+    case CoalesceRule.NEWEST_BY_DATE: {
+      // Values without a readable date lose to any dated value; all undated falls back to priority
+      let best = 0;
+      dates.forEach((d, i) => {
+        if (d && (!dates[best] || d > dates[best]!)) best = i;
+      });
+      return best;
+    }
+    case CoalesceRule.FLAG:
+      return -1;
+  }
+};
+
+/**
+ * Merges each group's source columns into a single column placed where the first source column was.
+ * Rows where the sources disagree get a note in the _Conflicts column describing the values and the outcome.
+ */
+export const coalesceColumns = (rows: any[], groups: CoalesceGroup[]): any[] => {
+  if (groups.length === 0 || rows.length === 0) return rows;
+
+  // Rows from outer joins can be missing columns, so settle one column order for every row
+  const allColumns: string[] = [];
+  const seen = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(col => {
+    if (!seen.has(col)) {
+      seen.add(col);
+      allColumns.push(col);
+    }
+  }));
+
+  // A group can't take the name of a column it doesn't consume, or that column would be overwritten
+  const active = groups.filter(g => g.sources.length > 0 && !getCoalesceNameClash(g, allColumns));
+  if (active.length === 0) return rows;
+
+  const groupBySource = new Map<string, CoalesceGroup>();
+  active.forEach(g => g.sources.forEach(s => {
+    if (!groupBySource.has(s.column)) groupBySource.set(s.column, g);
+  }));
+
+  // Each group takes the slot of its first source column; groups with no matching column go last
+  const layout: (string | CoalesceGroup)[] = [];
+  const placed = new Set<CoalesceGroup>();
+  allColumns.forEach(col => {
+    const group = groupBySource.get(col);
+    if (!group) {
+      layout.push(col);
+      return;
+    }
+    if (!placed.has(group)) {
+      placed.add(group);
+      layout.push(group);
+    }
+  });
+  active.forEach(g => !placed.has(g) && layout.push(g));
+
+  return rows.map(row => {
+    const out: any = {};
+    const conflicts: string[] = [];
+
+    layout.forEach(entry => {
+      if (typeof entry === 'string') {
+        out[entry] = row[entry] ?? null;
+        return;
+      }
+      const present = entry.sources.filter(s => !isEmpty(row[s.column]));
+      const values = present.map(s => row[s.column]);
+      const distinct = new Set(values.map(comparable));
+
+      if (distinct.size <= 1) {
+        out[entry.outputName] = values.length > 0 ? values[0] : null;
+        return;
+      }
+
+      const dates = present.map(s => s.dateColumn ? parseDateValue(row[s.dateColumn], true) : null);
+      const winner = pickValue(entry.rule, values, dates);
+      out[entry.outputName] = winner >= 0 ? values[winner] : null;
+      const listed = Array.from(new Set(values.map(v => String(v).trim()))).join(' | ');
+      conflicts.push(winner >= 0
+        ? `${entry.outputName}: ${listed} → ${String(values[winner]).trim()}`
+        : `${entry.outputName}: ${listed} (unresolved)`);
+    });
+
+    out[CONFLICTS_COLUMN] = conflicts.length > 0 ? conflicts.join('; ') : null;
+    return out;
+  });
+};
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { ColumnType, JoinCandidate, JoinType, ParsedFile } from '../types';
+import { joinDatasets, createJoinedFile, getJoinOutputColumns, calculateJoinStats, calculateNormalizationImpact, getEstimatedRows } from './dataService';
+import { withSchema, overrideColumnType, getOverriddenColumns, getColumnType } from './schemaService';
+
+const makeFile = (name: string, data: any[]): ParsedFile => withSchema({
+  id: name,
+  name,
+  size: 0,
+  headers: Object.keys(data[0]),
+  previewData: [],
+  data,
+  rowCount: data.length
+});
+
+const candidate = (mappings: [string, string][]): JoinCandidate => ({
+  keyName: 'Key',
+  confidenceScore: 90,
+  reasoning: '',
+  columnMappings: mappings.map(([fileName, columnName]) => ({ fileName, columnName }))
+});
+
+describe('createJoinedFile', () => {
+  it('keeps types the user picked on source columns', () => {
+    const customers = overrideColumnType(makeFile('customers.csv', [{ id: '1', zip: '10001' }, { id: '2', zip: '20002' }]), 'zip', ColumnType.STRING);
+    const orders = makeFile('orders.csv', [{ cust: '1', amount: '5' }, { cust: '2', amount: '7' }]);
+    const files = [customers, orders];
+    const joinCandidate = candidate([['customers.csv', 'id'], ['orders.csv', 'cust']]);
+
+    const rows = joinDatasets(files, joinCandidate, JoinType.INNER);
+    const overrides = getOverriddenColumns(files, getJoinOutputColumns(files, joinCandidate, JoinType.INNER));
+    const joined = createJoinedFile(rows, 'joined', overrides);
+
+    expect(getColumnType(joined, 'customers - zip')).toBe(ColumnType.STRING);
+    expect(joined.data.map(r => r['customers - zip'])).toEqual(['10001', '20002']);
+    expect(getColumnType(joined, 'orders - amount')).toBe(ColumnType.INTEGER);
+  });
+});
+
+describe('joinDatasets', () => {
+  const customers = makeFile('customers.csv', [{ id: '1', name: 'Ann' }, { id: '2', name: 'Bob' }, { id: '', name: 'Nobody' }, { id: '4', name: 'Dee' }]);
+  const orders = makeFile('orders.csv', [{ cust: '1', oid: 'A' }, { cust: '1', oid: 'B' }, { cust: '3', oid: 'C' }]);
+  const files = [customers, orders];
+  const key = candidate([['customers.csv', 'id'], ['orders.csv', 'cust']]);
+  const stats = calculateJoinStats(files, key);
+
+  it('keeps every row of the last file in a right join', () => {
+    const rows = joinDatasets(files, key, JoinType.RIGHT);
+    expect(rows.map(r => [r['customers - name'] ?? null, r['orders - oid']])).toEqual([['Ann', 'A'], ['Ann', 'B'], [null, 'C']]);
+    expect(stats[JoinType.RIGHT]).toBe(rows.length);
+  });
+
+  it('keeps first-file rows matched everywhere in a semi join, without fan-out or other files\' columns', () => {
+    const rows = joinDatasets(files, key, JoinType.SEMI);
+    expect(rows).toEqual([{ id: 1, name: 'Ann' }]);
+    expect(stats[JoinType.SEMI]).toBe(1);
+  });
+
+  it('keeps the rest of the first file in an anti join, blank keys included', () => {
+    const rows = joinDatasets(files, key, JoinType.ANTI);
+    expect(rows.map(r => r.name)).toEqual(['Bob', 'Nobody', 'Dee']);
+    expect(stats[JoinType.ANTI]).toBe(3);
+    expect(stats[JoinType.SEMI] + stats[JoinType.ANTI]).toBe(customers.rowCount);
+  });
+});
+
+describe('calculateNormalizationImpact', () => {
+  it('counts inner join rows with each rule flipped', () => {
+    const left = makeFile('left.csv', [{ code: 'ab-1' }, { code: 'CD-2' }]);
+    const right = makeFile('right.csv', [{ ref: 'AB-1' }, { ref: 'cd-2' }]);
+    const joinCandidate = candidate([['left.csv', 'code'], ['right.csv', 'ref']]);
+    const impact = calculateNormalizationImpact([left, right], joinCandidate);
+    expect(impact.innerRows).toBe(0);
+    expect(impact.toggled.caseInsensitive).toBe(2);
+    expect(impact.toggled.stripLeadingZeros).toBe(0);
+  });
+});
+
+describe('calculateJoinStats', () => {
+  it('estimates every key-based join type', () => {
+    const left = makeFile('left.csv', [{ id: '1' }, { id: '2' }, { id: '2' }]);
+    const right = makeFile('right.csv', [{ id: '2' }, { id: '3' }]);
+    const stats = calculateJoinStats([left, right], candidate([['left.csv', 'id'], ['right.csv', 'id']]));
+    expect(stats).toMatchObject({ [JoinType.INNER]: 2, [JoinType.LEFT]: 3, [JoinType.RIGHT]: 3, [JoinType.OUTER]: 4, [JoinType.SEMI]: 2, [JoinType.ANTI]: 1, relationship: '1:N' });
+  });
+
+  it('leaves fuzzy and date joins without an estimate', () => {
+    const left = makeFile('left.csv', [{ id: '1' }, { id: '2' }]);
+    const right = makeFile('right.csv', [{ id: '2' }]);
+    const stats = calculateJoinStats([left, right], candidate([['left.csv', 'id'], ['right.csv', 'id']]));
+    expect(getEstimatedRows(stats, JoinType.INNER)).toBe(1);
+    expect(getEstimatedRows(stats, JoinType.FUZZY)).toBeNull();
+    expect(getEstimatedRows(stats, JoinType.RANGE)).toBeNull();
+    expect(getEstimatedRows(null, JoinType.INNER)).toBeNull();
+  });
+});
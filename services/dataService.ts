@@ -1,22 +1,17 @@
 import * as XLSX from 'xlsx';
-import { ParsedFile, JoinCandidate, JoinType, JoinStats } from '../types';
-
-const normalizeKey = (val: any) => (val === null || val === undefined) ? '' : String(val).trim();
-
-// Helper to get the column name for a specific file
-const getKeyColumnForFile = (file: ParsedFile, candidate: JoinCandidate): string | undefined => {
-  return candidate.columnMappings.find(m => m.fileName === file.name)?.columnName;
-};
+import { ParsedFile, JoinCandidate, JoinType, JoinStats, ColumnSchema, ColumnType, NormalizationImpact, FuzzyCoverage, FileKeyCardinality, FanOutKey, KeyRelationship, KeyOverlapReport, KeyOverlapGroup, ProgressCallback, ColumnCollisionPolicy, FileOutputConfig, OutputColumn, PreparationStep } from '../types';
+import { inferSchema, withSchema, formatValue } from './schemaService';
+import { createKeyExtractor, getKeyColumnsForFile, getKeyColumnsError, isCompositeKey, splitKey, formatKey, NORMALIZATION_OPTIONS } from './keyService';
+import { matchKeysFuzzy, findLimitedKeys, DEFAULT_FUZZY_OPTIONS } from './fuzzyService';
+import { getTemporalOptions, getTemporalConfigError, buildTimelines, buildPeriods, findAsOfMatch, findRangeMatches, toTimestamp, formatTimestamp } from './temporalService';
 
 // Helper to extract keys and their occurrence counts from a file
 const getKeyCountsFromFile = (file: ParsedFile, candidate: JoinCandidate): Map<string, number> => {
-  const keyCol = getKeyColumnForFile(file, candidate);
   const counts = new Map<string, number>();
-  if (!keyCol) return counts;
+  const getKey = createKeyExtractor(file, candidate);
 
   file.data.forEach(row => {
-    const rawVal = row[keyCol];
-    const val = normalizeKey(rawVal);
+    const val = getKey(row);
     if (val !== '') {
       counts.set(val, (counts.get(val) || 0) + 1);
     }
@@ -24,17 +19,54 @@ const getKeyCountsFromFile = (file: ParsedFile, candidate: JoinCandidate): Map<s
   return counts;
 };
 
+// Inner join row count: sum over shared keys of the product of per-file occurrences
+const countInnerRows = (files: ParsedFile[], candidate: JoinCandidate): number => {
+  const fileKeyCounts = files.map(f => getKeyCountsFromFile(f, candidate));
+  if (fileKeyCounts.length === 0) return 0;
+  let total = 0;
+  fileKeyCounts[0].forEach((count, key) => {
+    total += fileKeyCounts.slice(1).reduce((acc, map) => acc * (map.get(key) || 0), count);
+  });
+  return total;
+};
+
+/**
+ * Inner join row counts with each normalization option flipped, so the UI can show what toggling it would do.
+ * Takes a pass over the data per option, so it only runs when the key or its rules change.
+ */
+export const calculateNormalizationImpact = (files: ParsedFile[], candidate: JoinCandidate, onProgress?: ProgressCallback): NormalizationImpact => {
+  const toggled: NormalizationImpact['toggled'] = {};
+  NORMALIZATION_OPTIONS.forEach((option, i) => {
+    onProgress?.({ phase: 'Testing key matching rules', done: i, total: NORMALIZATION_OPTIONS.length, unit: 'rules' });
+    const normalization = { ...candidate.normalization, [option]: !candidate.normalization?.[option] };
+    toggled[option] = countInnerRows(files, { ...candidate, normalization });
+  });
+  return { innerRows: countInnerRows(files, candidate), toggled };
+};
+
+// How many fan-out keys calculateJoinStats reports
+const TOP_FAN_OUT_KEYS = 10;
+
+// Long loops report progress every this many keys
+const PROGRESS_INTERVAL = 5000;
+
 /**
  * Calculates the estimated number of records for each join type
  */
-export const calculateJoinStats = (files: ParsedFile[], candidate: JoinCandidate): JoinStats => {
-  const fileKeyCounts = files.map(f => getKeyCountsFromFile(f, candidate));
+export const calculateJoinStats = (files: ParsedFile[], candidate: JoinCandidate, onProgress?: ProgressCallback): JoinStats => {
+  const fileKeyCounts = files.map((f, i) => {
+    onProgress?.({ phase: 'Counting keys', done: i, total: files.length, unit: 'files' });
+    return getKeyCountsFromFile(f, candidate);
+  });
 
   if (fileKeyCounts.length === 0) {
     return { 
       [JoinType.INNER]: 0, 
       [JoinType.OUTER]: 0, 
       [JoinType.LEFT]: 0, 
+      [JoinType.RIGHT]: 0,
+      [JoinType.SEMI]: 0,
+      [JoinType.ANTI]: 0,
       [JoinType.ADDITIVE]: 0,
       [JoinType.AI_SEMANTIC]: 0
     };
@@ -51,8 +83,14 @@ export const calculateJoinStats = (files: ParsedFile[], candidate: JoinCandidate
   let innerCount = 0;
   let outerCount = 0;
   let leftCount = 0;
+  let rightCount = 0;
+  let semiCount = 0;
+  const lastIndex = fileKeyCounts.length - 1;
+  const fanOutKeys: FanOutKey[] = [];
+  let keysDone = 0;
 
   allKeys.forEach(key => {
+    if (++keysDone % PROGRESS_INTERVAL === 0) onProgress?.({ phase: 'Estimating row counts', done: keysDone, total: allKeys.size, unit: 'keys' });
     // Get counts for this key in each file
     const counts = fileKeyCounts.map(map => map.get(key) || 0);
 
@@ -63,36 +101,206 @@ export const calculateJoinStats = (files: ParsedFile[], candidate: JoinCandidate
     // Outer/Additive: Product of (count > 0 ? count : 1).
     const outerProduct = counts.reduce((acc, c) => acc * (c === 0 ? 1 : c), 1);
     outerCount += outerProduct;
+    if (outerProduct > 1) {
+      fanOutKeys.push({ key: formatKey(key), rowsPerFile: counts, outputRows: outerProduct });
+    }
 
     // Left: Only consider if present in first file (index 0).
     if (counts[0] > 0) {
       const leftProduct = counts.slice(1).reduce((acc, c) => acc * (c === 0 ? 1 : c), 1);
       leftCount += (counts[0] * leftProduct);
     }
+
+    // Right: Mirror of left, anchored on the last file.
+    if (counts[lastIndex] > 0) {
+      const rightProduct = counts.slice(0, lastIndex).reduce((acc, c) => acc * (c === 0 ? 1 : c), 1);
+      rightCount += (counts[lastIndex] * rightProduct);
+    }
+
+    // Semi: First file's rows whose key exists in every other file (no fan-out, other columns are dropped).
+    if (counts.every(c => c > 0)) {
+      semiCount += counts[0];
+    }
   });
 
+  // Anti: Everything in the first file that semi does not keep, including rows with a blank key.
+  const antiCount = files[0].data.length - semiCount;
+
+  const keyCardinality: FileKeyCardinality[] = fileKeyCounts.map((map, i) => {
+    const occurrences = [...map.values()];
+    return {
+      fileName: files[i].name,
+      distinctKeys: map.size,
+      duplicateKeys: occurrences.filter(c => c > 1).length,
+      maxRowsPerKey: Math.max(0, ...occurrences)
+    };
+  });
+  const manySides = keyCardinality.filter(c => c.duplicateKeys > 0).length;
+  const relationship: KeyRelationship = manySides === 0 ? '1:1' : manySides === 1 ? '1:N' : 'N:M';
+
   return {
     [JoinType.OUTER]: outerCount,
     [JoinType.INNER]: innerCount,
     [JoinType.LEFT]: leftCount,
+    [JoinType.RIGHT]: rightCount,
+    [JoinType.SEMI]: semiCount,
+    [JoinType.ANTI]: antiCount,
     [JoinType.ADDITIVE]: outerCount,
-    [JoinType.AI_SEMANTIC]: 0 // Calculated on demand via API
+    [JoinType.AI_SEMANTIC]: 0, // Calculated on demand via API
+    keyCardinality,
+    relationship,
+    topFanOutKeys: fanOutKeys.sort((a, b) => b.outputRows - a.outputRows).slice(0, TOP_FAN_OUT_KEYS)
   };
 };
 
+// Joins estimated above this many rows ask for confirmation first (editable in the join settings)
+export const DEFAULT_ROW_LIMIT = 100000;
+
+// Join types calculateJoinStats counts up front; the others depend on scoring or date settings
+const ESTIMATED_JOIN_TYPES = [JoinType.INNER, JoinType.OUTER, JoinType.LEFT, JoinType.RIGHT, JoinType.SEMI, JoinType.ANTI, JoinType.ADDITIVE] as const;
+
+export const isEstimatedJoinType = (joinType: JoinType) => ESTIMATED_JOIN_TYPES.some(t => t === joinType);
+
 /**
- * Performs the join based on the selected type
+ * Estimated output rows of a join type, or null when its size can't be known before running it
  */
-export const joinDatasets = (files: ParsedFile[], candidate: JoinCandidate, joinType: JoinType = JoinType.OUTER): any[] => {
-  
-  // 1. Build maps of Key -> Array of Rows
-  const fileDataMaps = files.map((file) => {
+export const getEstimatedRows = (stats: JoinStats | null, joinType: JoinType): number | null => {
+  const estimated = ESTIMATED_JOIN_TYPES.find(t => t === joinType);
+  return stats && estimated ? stats[estimated] : null;
+};
+
+// Which files each key appears in, as a sorted list of file indexes joined with ","
+const getKeyMemberships = (fileKeyCounts: Map<string, number>[]): Map<string, string> => {
+  const memberships = new Map<string, string>();
+  fileKeyCounts.forEach((map, fileIndex) => {
+    map.forEach((_, key) => {
+      const existing = memberships.get(key);
+      memberships.set(key, existing === undefined ? String(fileIndex) : `${existing},${fileIndex}`);
+    });
+  });
+  return memberships;
+};
+
+/**
+ * Counts the keys found in each exact combination of files: only in one file, in a pair, ..., in all files
+ */
+export const calculateKeyOverlap = (files: ParsedFile[], candidate: JoinCandidate): KeyOverlapReport => {
+  const fileKeyCounts = files.map(f => getKeyCountsFromFile(f, candidate));
+  const groups = new Map<string, KeyOverlapGroup>();
+
+  getKeyMemberships(fileKeyCounts).forEach((membership, key) => {
+    if (!groups.has(membership)) {
+      groups.set(membership, {
+        fileIndexes: membership.split(',').map(Number),
+        keyCount: 0,
+        rowCounts: files.map(() => 0)
+      });
+    }
+    const group = groups.get(membership)!;
+    group.keyCount++;
+    group.fileIndexes.forEach(i => group.rowCounts[i] += fileKeyCounts[i].get(key)!);
+  });
+
+  return {
+    fileNames: files.map(f => f.name),
+    groups: [...groups.values()].sort((a, b) => b.keyCount - a.keyCount),
+    blankKeyRows: files.map(f => {
+      const getKey = createKeyExtractor(f, candidate);
+      return f.data.filter(row => getKey(row) === '').length;
+    })
+  };
+};
+
+/**
+ * Rows of one file whose key is found in exactly the given files. Pass null for rows with a blank key.
+ */
+export const getRowsForKeyGroup = (files: ParsedFile[], candidate: JoinCandidate, fileIndexes: number[] | null, targetIndex: number): any[] => {
+  const getKey = createKeyExtractor(files[targetIndex], candidate);
+  if (fileIndexes === null) return files[targetIndex].data.filter(row => getKey(row) === '');
+
+  const memberships = getKeyMemberships(files.map(f => getKeyCountsFromFile(f, candidate)));
+  const wanted = fileIndexes.join(',');
+  return files[targetIndex].data.filter(row => {
+    const key = getKey(row);
+    return key !== '' && memberships.get(key) === wanted;
+  });
+};
+
+// "Sales Orders.csv" -> "Sales_Orders", used to prefix joined columns
+export const getCleanFileName = (name: string) => name.replace(/\.[^/.]+$/, "").replace(/[^a-zA-Z0-9]/g, "_");
+
+const getFileOutputConfig = (file: ParsedFile, candidate: JoinCandidate): FileOutputConfig | undefined => {
+  return candidate.output?.files.find(f => f.fileName === file.name);
+};
+
+// Label used to prefix or suffix a file's columns: its alias, or the cleaned file name
+export const getFileLabel = (file: ParsedFile, candidate: JoinCandidate) => {
+  return getFileOutputConfig(file, candidate)?.alias?.trim() || getCleanFileName(file.name);
+};
+
+// Columns a file contributes to the output: the selected ones (or all), minus its key columns
+export const getContributedColumns = (file: ParsedFile, candidate: JoinCandidate): string[] => {
+  const keyCols = getKeyColumnsForFile(file, candidate);
+  const selected = getFileOutputConfig(file, candidate)?.columns;
+  return file.headers.filter(col => !keyCols.includes(col) && (!selected || selected.includes(col)));
+};
+
+/**
+ * Works out the output name of every contributed column, applying renames and the collision policy.
+ * Returns one Map (source column -> output name) per file.
+ */
+const resolveColumnNames = (files: ParsedFile[], candidate: JoinCandidate, reservedNames: string[]): Map<string, string>[] => {
+  const policy = candidate.output?.collisionPolicy || ColumnCollisionPolicy.PREFIX_ALWAYS;
+  const contributed = files.map(f => getContributedColumns(f, candidate));
+
+  // How many files want each plain column name (explicit renames don't count)
+  const nameCounts = new Map<string, number>();
+  reservedNames.forEach(name => nameCounts.set(name, (nameCounts.get(name) || 0) + 1));
+  contributed.forEach((cols, i) => {
+    const renames = getFileOutputConfig(files[i], candidate)?.renames || {};
+    cols.filter(col => !renames[col]).forEach(col => nameCounts.set(col, (nameCounts.get(col) || 0) + 1));
+  });
+
+  const used = new Set<string>(reservedNames);
+  return contributed.map((cols, i) => {
+    const label = getFileLabel(files[i], candidate);
+    const renames = getFileOutputConfig(files[i], candidate)?.renames || {};
+    const mapping = new Map<string, string>();
+    cols.forEach(col => {
+      let name: string;
+      if (renames[col]) {
+        name = renames[col];
+      } else if (policy === ColumnCollisionPolicy.PREFIX_ALWAYS || (nameCounts.get(col) || 0) > 1) {
+        name = policy === ColumnCollisionPolicy.SUFFIX_ON_CONFLICT ? `${col} (${label})` : `${label} - ${col}`;
+      } else {
+        name = col;
+      }
+      // Two aliases or renames can still land on the same name; number the later ones
+      let unique = name;
+      let n = 2;
+      while (used.has(unique)) unique = `${name} (${n++})`;
+      used.add(unique);
+      mapping.set(col, unique);
+    });
+    return mapping;
+  });
+};
+
+// Helper for Cartesian Product
+const cartesian = (arrays: any[][]) => {
+  return arrays.reduce((acc, curr) => {
+    return acc.flatMap(a => curr.map(c => [...a, c]));
+  }, [[]] as any[]);
+};
+
+// Helper to group each file's rows by normalized key
+const buildKeyRowMaps = (files: ParsedFile[], candidate: JoinCandidate): Map<string, any[]>[] => {
+  return files.map((file) => {
     const map = new Map<string, any[]>();
-    const keyCol = getKeyColumnForFile(file, candidate);
-    if (!keyCol) return map;
+    const getKey = createKeyExtractor(file, candidate);
 
     file.data.forEach(row => {
-      const val = normalizeKey(row[keyCol]);
+      const val = getKey(row);
       if (val !== '') {
         if (!map.has(val)) map.set(val, []);
         map.get(val)!.push(row);
@@ -100,6 +308,224 @@ export const joinDatasets = (files: ParsedFile[], candidate: JoinCandidate, join
     });
     return map;
   });
+};
+
+// Composite keys are written back as one column per key part, named after the first mapped file's columns
+const getKeyPartNames = (files: ParsedFile[], candidate: JoinCandidate): string[] => {
+  const keyFile = files.find(f => getKeyColumnsForFile(f, candidate).length > 0);
+  return isCompositeKey(candidate) && keyFile
+    ? getKeyColumnsForFile(keyFile, candidate)
+    : [candidate.keyName];
+};
+
+const writeKeyColumns = (joinedRow: any, key: string, keyPartNames: string[], candidate: JoinCandidate) => {
+  splitKey(key).forEach((part, i) => { joinedRow[keyPartNames[i] || `${candidate.keyName} ${i + 1}`] = part; });
+};
+
+// Copies a source row's contributed columns into the joined row under their resolved output names
+const appendFileColumns = (joinedRow: any, row: any, columnNames: Map<string, string>) => {
+  columnNames.forEach((outputName, col) => {
+    if (row[col] !== undefined) joinedRow[outputName] = row[col];
+  });
+};
+
+/**
+ * The columns a join will produce, in order, with the file each one comes from.
+ * Used to preview the output shape without running the join.
+ */
+export const getJoinOutputColumns = (files: ParsedFile[], candidate: JoinCandidate, joinType: JoinType): OutputColumn[] => {
+  if (files.length === 0) return [];
+  if (joinType === JoinType.SEMI || joinType === JoinType.ANTI) {
+    const renames = getFileOutputConfig(files[0], candidate)?.renames || {};
+    const selected = getFileOutputConfig(files[0], candidate)?.columns;
+    return files[0].headers
+      .filter(col => !selected || selected.includes(col) || getKeyColumnsForFile(files[0], candidate).includes(col))
+      .map(col => ({ name: renames[col] || col, fileIndex: 0, sourceColumn: col }));
+  }
+
+  const keyPartNames = getKeyPartNames(files, candidate);
+  const columnNames = resolveColumnNames(files, candidate, keyPartNames);
+  const columns: OutputColumn[] = keyPartNames.map(name => ({ name, fileIndex: null }));
+  columnNames.forEach((mapping, fileIndex) => {
+    mapping.forEach((name, sourceColumn) => columns.push({ name, fileIndex, sourceColumn }));
+  });
+
+  if (joinType === JoinType.FUZZY) {
+    columns.push({ name: '_Match_Score', fileIndex: null });
+    files.forEach(f => columns.push({ name: `_Matched_Key_${getFileLabel(f, candidate)}`, fileIndex: null }));
+  }
+  if (joinType === JoinType.ASOF || joinType === JoinType.RANGE) {
+    files.slice(1).forEach(f => columns.push({ name: getTemporalMatchColumn(f, candidate, joinType), fileIndex: null }));
+  }
+  if (joinType === JoinType.ADDITIVE) {
+    columns.push({ name: '_Join_Status', fileIndex: null });
+    files.forEach(f => columns.push({ name: `_Found_In_${getFileLabel(f, candidate)}`, fileIndex: null }));
+  }
+  return columns;
+};
+
+/**
+ * Fuzzy join: every row of the first file is paired with the rows of the most similar key in each other
+ * file. Only rows that clear the threshold in all files are kept.
+ */
+const fuzzyJoin = (files: ParsedFile[], candidate: JoinCandidate, fileDataMaps: Map<string, any[]>[], maxRows: number): any[] => {
+  const options = candidate.fuzzy || DEFAULT_FUZZY_OPTIONS;
+  const keyPartNames = getKeyPartNames(files, candidate);
+  const columnNames = resolveColumnNames(files, candidate, keyPartNames);
+  const anchorKeys = [...fileDataMaps[0].keys()];
+  const matchesPerFile = fileDataMaps.slice(1).map(map => matchKeysFuzzy(anchorKeys, [...map.keys()], options));
+  const result: any[] = [];
+
+  for (const anchorKey of anchorKeys) {
+    if (result.length >= maxRows) break;
+    const matches = matchesPerFile.map(m => m.get(anchorKey));
+    if (matches.some(m => !m)) continue;
+
+    const rowsPerFile = [
+      fileDataMaps[0].get(anchorKey)!,
+      ...matches.map((m, i) => fileDataMaps[i + 1].get(m!.key)!)
+    ];
+    const score = Math.min(...matches.map(m => m!.score));
+
+    cartesian(rowsPerFile).forEach(combo => {
+      const joinedRow: any = {};
+      writeKeyColumns(joinedRow, anchorKey, keyPartNames, candidate);
+      combo.forEach((row: any, fileIndex: number) => appendFileColumns(joinedRow, row, columnNames[fileIndex]));
+      joinedRow['_Match_Score'] = score;
+      files.forEach((f, fileIndex) => {
+        const matchedKey = fileIndex === 0 ? anchorKey : matches[fileIndex - 1]!.key;
+        joinedRow[`_Matched_Key_${getFileLabel(f, candidate)}`] = formatKey(matchedKey);
+      });
+      result.push(joinedRow);
+    });
+  }
+
+  return result.length > maxRows ? result.slice(0, maxRows) : result;
+};
+
+/**
+ * How many rows of the first file a fuzzy join may leave unmatched because their key sits in a block
+ * too common to compare in full
+ */
+export const calculateFuzzyCoverage = (files: ParsedFile[], candidate: JoinCandidate): FuzzyCoverage => {
+  const fileDataMaps = buildKeyRowMaps(files, candidate);
+  if (fileDataMaps.length === 0) return { rows: 0, limitedRows: 0 };
+  const anchorKeys = [...fileDataMaps[0].keys()];
+  const limited = new Set(fileDataMaps.slice(1).flatMap(map => findLimitedKeys(anchorKeys, [...map.keys()])));
+  let rows = 0;
+  let limitedRows = 0;
+  fileDataMaps[0].forEach((keyRows, key) => {
+    rows += keyRows.length;
+    if (limited.has(key)) limitedRows += keyRows.length;
+  });
+  return { rows, limitedRows };
+};
+
+// Records which date (as-of) or period (range) each non-anchor file was matched on
+const getTemporalMatchColumn = (file: ParsedFile, candidate: JoinCandidate, joinType: JoinType) =>
+  `${joinType === JoinType.ASOF ? '_Matched_Date_' : '_Matched_Period_'}${getFileLabel(file, candidate)}`;
+
+/**
+ * Temporal join: every row of the first file is paired, in each other file, with the row dated closest
+ * to it (as-of) or the rows whose validity period contains its date (range), optionally on the same key.
+ * First-file rows without a match keep empty columns for that file, like a left join.
+ */
+const temporalJoin = (files: ParsedFile[], candidate: JoinCandidate, joinType: JoinType, maxRows: number, onProgress?: ProgressCallback): any[] => {
+  const options = getTemporalOptions(files, candidate);
+  const error = getTemporalConfigError(files, options, joinType);
+  if (error) throw new Error(error);
+
+  const keyPartNames = getKeyPartNames(files, candidate);
+  const columnNames = resolveColumnNames(files, candidate, keyPartNames);
+  const getAnchorKey = createKeyExtractor(files[0], candidate);
+  const others = files.slice(1).map(file => {
+    const config = options.files.find(f => f.fileName === file.name)!;
+    const getKey = options.matchKey ? createKeyExtractor(file, candidate) : null;
+    return {
+      matchColumn: getTemporalMatchColumn(file, candidate, joinType),
+      timelines: joinType === JoinType.ASOF ? buildTimelines(file.data, getKey, config.dateColumn!) : null,
+      periods: joinType === JoinType.RANGE ? buildPeriods(file.data, getKey, config.fromColumn!, config.toColumn) : null
+    };
+  });
+
+  const result: any[] = [];
+  for (let i = 0; i < files[0].data.length && result.length < maxRows; i++) {
+    if ((i + 1) % PROGRESS_INTERVAL === 0) onProgress?.({ phase: 'Matching dates', done: i + 1, total: files[0].data.length, unit: 'rows', rows: result.length });
+    const anchorRow = files[0].data[i];
+    const key = getAnchorKey(anchorRow);
+    const time = toTimestamp(anchorRow[options.anchorDateColumn]);
+    const lookupKey = options.matchKey ? key : '';
+    const canMatch = time !== null && (!options.matchKey || key !== '');
+
+    // One entry per file: the matched rows (or [null]) and how each one was matched
+    const matchesPerFile = others.map(other => {
+      if (!canMatch) return [{ row: null, label: null }];
+      if (other.timelines) {
+        const match = findAsOfMatch(other.timelines.get(lookupKey), time!, options.direction, options.toleranceDays);
+        return [match ? { row: match.row, label: formatTimestamp(match.time) } : { row: null, label: null }];
+      }
+      const matches = findRangeMatches(other.periods!.get(lookupKey), time!, options.toleranceDays);
+      return matches.length > 0
+        ? matches.map(m => ({ row: m.row, label: `${formatTimestamp(m.from)} – ${formatTimestamp(m.to)}` }))
+        : [{ row: null, label: null }];
+    });
+
+    cartesian(matchesPerFile).forEach(combo => {
+      const joinedRow: any = {};
+      if (key !== '') writeKeyColumns(joinedRow, key, keyPartNames, candidate);
+      else keyPartNames.forEach(name => joinedRow[name] = null);
+      appendFileColumns(joinedRow, anchorRow, columnNames[0]);
+      combo.forEach((match: { row: any; label: string | null }, j: number) => {
+        if (match.row) appendFileColumns(joinedRow, match.row, columnNames[j + 1]);
+        joinedRow[others[j].matchColumn] = match.label;
+      });
+      result.push(joinedRow);
+    });
+  }
+
+  return result.length > maxRows ? result.slice(0, maxRows) : result;
+};
+
+/**
+ * Performs the join based on the selected type. maxRows stops early, e.g. for previews.
+ */
+export const joinDatasets = (files: ParsedFile[], candidate: JoinCandidate, joinType: JoinType = JoinType.OUTER, maxRows = Infinity, onProgress?: ProgressCallback): any[] => {
+  const keyError = getKeyColumnsError(files, candidate);
+  if (keyError) throw new Error(keyError);
+
+  // Temporal joins look rows up by date, not by key alone
+  if (joinType === JoinType.ASOF || joinType === JoinType.RANGE) {
+    return files.length > 0 ? temporalJoin(files, candidate, joinType, maxRows, onProgress) : [];
+  }
+
+  // 1. Build maps of Key -> Array of Rows
+  const fileDataMaps = buildKeyRowMaps(files, candidate);
+
+  if (joinType === JoinType.FUZZY) {
+    onProgress?.({ phase: 'Fuzzy matching keys', done: 0, total: fileDataMaps[0]?.size || 0, unit: 'keys' });
+    return files.length > 0 ? fuzzyJoin(files, candidate, fileDataMaps, maxRows) : [];
+  }
+
+  // Semi / Anti filter the first file's rows as-is instead of combining columns
+  if (joinType === JoinType.SEMI || joinType === JoinType.ANTI) {
+    if (files.length === 0) return [];
+    const getKey = createKeyExtractor(files[0], candidate);
+    const outputColumns = getJoinOutputColumns(files, candidate, joinType);
+    return files[0].data
+      .filter(row => {
+        const key = getKey(row);
+        const matchedEverywhere = key !== '' && fileDataMaps.slice(1).every(map => map.has(key));
+        return joinType === JoinType.SEMI ? matchedEverywhere : !matchedEverywhere;
+      })
+      .slice(0, maxRows)
+      .map(row => {
+        const outRow: any = {};
+        outputColumns.forEach(col => {
+          if (row[col.sourceColumn!] !== undefined) outRow[col.name] = row[col.sourceColumn!];
+        });
+        return outRow;
+      });
+  }
 
   // 2. Identify Target Keys
   const allKeys = new Set<string>();
@@ -110,15 +536,13 @@ export const joinDatasets = (files: ParsedFile[], candidate: JoinCandidate, join
   });
 
   const result: any[] = [];
+  const keyPartNames = getKeyPartNames(files, candidate);
+  const columnNames = resolveColumnNames(files, candidate, keyPartNames);
 
-  // Helper for Cartesian Product
-  const cartesian = (arrays: any[][]) => {
-    return arrays.reduce((acc, curr) => {
-      return acc.flatMap(a => curr.map(c => [...a, c]));
-    }, [[]] as any[]);
-  };
-
-  allKeys.forEach(key => {
+  let keysDone = 0;
+  for (const key of allKeys) {
+    if (result.length >= maxRows) break;
+    if (++keysDone % PROGRESS_INTERVAL === 0) onProgress?.({ phase: 'Joining', done: keysDone, total: allKeys.size, unit: 'keys', rows: result.length });
     const rowsPerFile = files.map((_, index) => {
       const rows = fileDataMaps[index].get(key);
       if (rows && rows.length > 0) return rows;
@@ -129,32 +553,28 @@ export const joinDatasets = (files: ParsedFile[], candidate: JoinCandidate, join
     
     // Join Type Filtering
     if (joinType === JoinType.INNER) {
-      if (hasDataInFile.some(hasData => !hasData)) return;
+      if (hasDataInFile.some(hasData => !hasData)) continue;
     }
     if (joinType === JoinType.LEFT) {
-      if (!hasDataInFile[0]) return;
+      if (!hasDataInFile[0]) continue;
+    }
+    if (joinType === JoinType.RIGHT) {
+      if (!hasDataInFile[hasDataInFile.length - 1]) continue;
     }
 
     const combinations = cartesian(rowsPerFile);
 
     combinations.forEach(combo => {
-       const joinedRow: any = { [candidate.keyName]: key };
+       const joinedRow: any = {};
+       writeKeyColumns(joinedRow, key, keyPartNames, candidate);
        const foundInFiles: string[] = [];
        const missingInFiles: string[] = [];
        
-       combo.forEach((row, fileIndex) => {
+       combo.forEach((row: any, fileIndex: number) => {
            const file = files[fileIndex];
            if (row) {
                foundInFiles.push(file.name);
-               // Add columns
-               const keyCol = getKeyColumnForFile(file, candidate);
-               Object.entries(row).forEach(([col, val]) => {
-                  if (col === keyCol) return; // Skip original key
-                  
-                  const cleanFileName = file.name.replace(/\.[^/.]+$/, "").replace(/[^a-zA-Z0-9]/g, "_");
-                  const newColName = `${cleanFileName} - ${col}`;
-                  joinedRow[newColName] = val;
-               });
+               appendFileColumns(joinedRow, row, columnNames[fileIndex]);
            } else {
                missingInFiles.push(file.name);
            }
@@ -171,19 +591,88 @@ export const joinDatasets = (files: ParsedFile[], candidate: JoinCandidate, join
           }
 
           files.forEach(f => {
-            const cleanName = f.name.replace(/\.[^/.]+$/, "").replace(/[^a-zA-Z0-9]/g, "_");
-            joinedRow[`_Found_In_${cleanName}`] = foundInFiles.includes(f.name) ? 'TRUE' : 'FALSE';
+            joinedRow[`_Found_In_${getFileLabel(f, candidate)}`] = foundInFiles.includes(f.name) ? 'TRUE' : 'FALSE';
           });
        }
        
        result.push(joinedRow);
     });
+  }
+
+  return result.length > maxRows ? result.slice(0, maxRows) : result;
+};
+
+/**
+ * Keeps only the first row for each key, so the file contributes at most one row per key to a join
+ */
+export const dedupeByKey = (file: ParsedFile, candidate: JoinCandidate): ParsedFile => {
+  const getKey = createKeyExtractor(file, candidate);
+  const seen = new Set<string>();
+  const data = file.data.filter(row => {
+    const key = getKey(row);
+    if (key === '') return true;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return { ...file, data, previewData: data.slice(0, 10), rowCount: data.length };
+};
+
+/**
+ * Collapses all rows sharing a key into one: numeric columns are summed, other columns keep their
+ * distinct values joined with " | ". _Aggregated_Rows records how many rows were combined.
+ */
+export const aggregateByKey = (file: ParsedFile, candidate: JoinCandidate): ParsedFile => {
+  const getKey = createKeyExtractor(file, candidate);
+  const keyCols = getKeyColumnsForFile(file, candidate);
+  const groups = new Map<string, any[]>();
+  const data: any[] = [];
+  let anyMerged = false;
+
+  file.data.forEach(row => {
+    const key = getKey(row);
+    if (key === '') {
+      data.push(row);
+      return;
+    }
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(row);
+  });
+
+  groups.forEach(rows => {
+    if (rows.length === 1) {
+      data.push(rows[0]);
+      return;
+    }
+    anyMerged = true;
+    const merged: any = {};
+    file.headers.forEach(col => {
+      const values = rows.map(r => r[col]).filter(v => v !== null && v !== undefined && v !== '');
+      if (keyCols.includes(col)) {
+        merged[col] = rows[0][col];
+      } else if (values.length > 0 && values.every(v => typeof v === 'number')) {
+        merged[col] = values.reduce((sum, v) => sum + v, 0);
+      } else if (values.length > 0) {
+        merged[col] = Array.from(new Set(values.map(v => String(v)))).join(' | ');
+      }
+    });
+    merged['_Aggregated_Rows'] = rows.length;
+    data.push(merged);
   });
 
-  return result;
+  const addsCountColumn = anyMerged && !file.headers.includes('_Aggregated_Rows');
+  const headers = addsCountColumn ? [...file.headers, '_Aggregated_Rows'] : file.headers;
+  const schema = addsCountColumn && file.schema
+    ? [...file.schema, ...inferSchema(['_Aggregated_Rows'], data)]
+    : file.schema;
+  return { ...file, headers, schema, data, previewData: data.slice(0, 10), rowCount: data.length };
 };
 
-export const createJoinedFile = (data: any[], name: string): ParsedFile => {
+/**
+ * Wraps derived rows as a workspace file with an inferred schema. overrides are the user-picked types
+ * of the source columns (see getOverriddenColumns); those columns keep them and are converted to match.
+ */
+export const createJoinedFile = (data: any[], name: string, overrides: ColumnSchema[] = []): ParsedFile => {
   // Sanitize data: Ensure all values are primitives for display purposes
   // This catches cases where manual joins might slip objects through, though joinDatasets handles it well.
   // This is primarily for AI generated data consistency.
@@ -208,11 +697,12 @@ export const createJoinedFile = (data: any[], name: string): ParsedFile => {
   });
 
   const headers = sanitizedData.length > 0 ? Object.keys(sanitizedData[0]) : [];
-  return {
+  return withSchema({
     id: 'joined-' + Math.random().toString(36).substr(2, 9),
     name: name,
     size: new Blob([JSON.stringify(sanitizedData)]).size,
     headers: headers,
+    schema: inferSchema(headers, sanitizedData, overrides),
     previewData: sanitizedData.slice(0, 10),
     data: sanitizedData,
     rowCount: sanitizedData.length,
@@ -220,10 +710,24 @@ export const createJoinedFile = (data: any[], name: string): ParsedFile => {
     aiContext: {
       chatHistory: []
     }
-  };
+  });
 };
 
-export const downloadCSV = (data: any[], filename: string) => {
+/**
+ * Marks a file made from a single workspace file (grouped, deduped, filtered or with a computed
+ * column). It joins like any upload, so unlike join results it isn't flagged as joined.
+ */
+export const toDerivedFile = (file: ParsedFile, source: ParsedFile, step: PreparationStep): ParsedFile => ({
+  ...file,
+  id: 'derived-' + Math.random().toString(36).substr(2, 9),
+  isJoined: false,
+  isDerived: true,
+  lineage: { sourceFileId: source.id, step }
+});
+
+export const downloadCSV = (data: any[], filename: string, schema?: ColumnSchema[]) => {
+  const columnTypes = new Map((schema || inferSchema(data.length > 0 ? Object.keys(data[0]) : [], data)).map(col => [col.name, col.type]));
+
   // Ensure data is flat
   const flatData = data.map(row => {
      const newRow: any = {};
@@ -237,8 +741,11 @@ export const downloadCSV = (data: any[], filename: string) => {
           } else {
              newRow[k] = JSON.stringify(val);
           }
-       } else {
+       } else if (typeof val === 'number' && columnTypes.get(k) !== ColumnType.DATE) {
          newRow[k] = val;
+       } else {
+         // Text keeps IDs like "00123" intact; dates and booleans use their canonical text form
+         newRow[k] = formatValue(val, columnTypes.get(k));
        }
      });
      return newRow;
@@ -0,0 +1,157 @@
+import { ParsedFile, JoinCandidate, JoinType, JoinGraph, RawWorkbook, HeaderSettings, GroupByConfig, UnionColumn, DedupeConfig, FormulaColumn, GridView, Recipe, ColumnSchema, JoinSizeCheck, ProgressCallback } from '../types';
+import { calculateJoinStats, calculateNormalizationImpact, calculateFuzzyCoverage, getEstimatedRows, isEstimatedJoinType, joinDatasets, dedupeByKey, aggregateByKey, createJoinedFile, getJoinOutputColumns } from './dataService';
+import { coalesceColumns } from './coalesceService';
+import { runJoinGraph, getJoinGraphOutputColumns } from './joinGraphService';
+import { groupByAggregate } from './aggregateService';
+import { unionFiles, getUnionOutputColumns } from './unionService';
+import { getOverriddenColumns } from './schemaService';
+import { reconcileFiles } from './reconcileService';
+import { findDuplicates, dedupeFile } from './dedupeService';
+import { prepareRecipeFiles } from './recipeService';
+import { addFormulaColumn } from './formulaService';
+import { filterFile, getViewRowIndexes } from './gridService';
+import { profileFile } from './profileService';
+import { assessCandidates } from './keyQualityService';
+import { parseWorkbookData, parseSheet } from './importService';
+
+// Work that can run off the main thread. Every task is plain data so it can be posted to a worker.
+export type DataTask =
+  | { type: 'readWorkbook'; file: File }
+  | { type: 'parseSheet'; workbook: RawWorkbook; sheetName: string; settings: HeaderSettings }
+  | { type: 'joinStats'; files: ParsedFile[]; candidate: JoinCandidate }
+  | { type: 'normalizationImpact'; files: ParsedFile[]; candidate: JoinCandidate }
+  | { type: 'fuzzyCoverage'; files: ParsedFile[]; candidate: JoinCandidate }
+  | { type: 'keyQuality'; files: ParsedFile[]; candidates: JoinCandidate[] }
+  | {
+      type: 'join';
+      files: ParsedFile[];
+      candidate: JoinCandidate;
+      joinType: JoinType;
+      reduce?: 'dedupe' | 'aggregate'; // Collapse repeated keys in each file first (fan-out guard)
+      maxRows?: number;
+      saveAs?: string; // Return a workspace file with this name instead of bare rows
+    }
+  | { type: 'joinGraph'; files: ParsedFile[]; graph: JoinGraph; maxRows?: number; saveAs?: string }
+  | { type: 'groupBy'; file: ParsedFile; config: GroupByConfig; saveAs: string }
+  | { type: 'union'; files: ParsedFile[]; columns: UnionColumn[]; saveAs: string }
+  | { type: 'reconcile'; files: ParsedFile[]; candidate: JoinCandidate }
+  | { type: 'findDuplicates'; file: ParsedFile; config: DedupeConfig }
+  | { type: 'dedupe'; file: ParsedFile; config: DedupeConfig; saveAs: string }
+  | { type: 'addColumn'; file: ParsedFile; formula: FormulaColumn; saveAs: string }
+  | { type: 'viewRows'; file: ParsedFile; view: GridView }
+  | { type: 'filterView'; file: ParsedFile; view: GridView; saveAs: string }
+  | { type: 'profile'; file: ParsedFile }
+  | {
+      type: 'runRecipe';
+      recipe: Recipe;
+      files: (ParsedFile | null)[]; // Line up with recipe.inputs
+      saveAs: string;
+      rowLimit?: number; // Return a JoinSizeCheck instead of joining when the join may go past this
+      maxRows?: number;
+    };
+
+/**
+ * Runs a task to completion. Used inside the worker, and directly when workers are unavailable.
+ */
+export const executeDataTask = async (task: DataTask, onProgress?: ProgressCallback): Promise<any> => {
+  switch (task.type) {
+    case 'readWorkbook': {
+      onProgress?.({ phase: `Reading ${task.file.name}`, done: 0, total: 1, unit: 'files' });
+      const buffer = await task.file.arrayBuffer();
+      return parseWorkbookData(new Uint8Array(buffer), task.file.name, task.file.size, onProgress);
+    }
+    case 'parseSheet': {
+      const sheet = task.workbook.sheets.find(s => s.name === task.sheetName);
+      if (!sheet) throw new Error(`Sheet ${task.sheetName} not found in ${task.workbook.fileName}`);
+      onProgress?.({ phase: `Typing columns of ${sheet.name}`, done: 0, total: sheet.rowCount, unit: 'rows' });
+      return parseSheet(task.workbook, sheet, task.settings);
+    }
+    case 'joinStats':
+      return calculateJoinStats(task.files, task.candidate, onProgress);
+    case 'normalizationImpact':
+      return calculateNormalizationImpact(task.files, task.candidate, onProgress);
+    case 'fuzzyCoverage':
+      return calculateFuzzyCoverage(task.files, task.candidate);
+    case 'keyQuality':
+      return assessCandidates(task.files, task.candidates, onProgress);
+    case 'join': {
+      const rows = runSharedJoin(task.files, task.candidate, task.joinType, task.reduce, task.maxRows, onProgress);
+      const overrides = getOverriddenColumns(task.files, getJoinOutputColumns(task.files, task.candidate, task.joinType));
+      return task.saveAs ? toSavedFile(rows, task.saveAs, onProgress, overrides) : rows;
+    }
+    case 'joinGraph': {
+      const rows = runJoinGraph(task.files, task.graph, task.maxRows, onProgress);
+      const overrides = getOverriddenColumns(task.files, getJoinGraphOutputColumns(task.files, task.graph));
+      return task.saveAs ? toSavedFile(rows, task.saveAs, onProgress, overrides) : rows;
+    }
+    case 'groupBy':
+      return groupByAggregate(task.file, task.config, task.saveAs, onProgress);
+    case 'union':
+      return toSavedFile(unionFiles(task.files, task.columns, onProgress), task.saveAs, onProgress, getOverriddenColumns(task.files, getUnionOutputColumns(task.files, task.columns)));
+    case 'reconcile':
+      return reconcileFiles(task.files, task.candidate, onProgress);
+    case 'findDuplicates':
+      return findDuplicates(task.file, task.config, onProgress);
+    case 'dedupe':
+      return dedupeFile(task.file, task.config, task.saveAs, onProgress);
+    case 'addColumn':
+      return addFormulaColumn(task.file, task.formula, task.saveAs, onProgress);
+    case 'viewRows':
+      return getViewRowIndexes(task.file, task.view, onProgress);
+    case 'filterView':
+      return filterFile(task.file, task.view, task.saveAs, onProgress);
+    case 'profile':
+      return profileFile(task.file, onProgress);
+    case 'runRecipe': {
+      const { recipe } = task;
+      const canEstimate = !recipe.joinGraph && isEstimatedJoinType(recipe.joinType!);
+      if (task.rowLimit !== undefined && !canEstimate) return { estimatedRows: null } satisfies JoinSizeCheck;
+      const files = prepareRecipeFiles(recipe, task.files, onProgress);
+      if (task.rowLimit !== undefined) {
+        const stats = calculateJoinStats(reduceFiles(files, recipe.candidate!, recipe.reduce), recipe.candidate!, onProgress);
+        const estimatedRows = getEstimatedRows(stats, recipe.joinType!);
+        if (estimatedRows !== null && estimatedRows > task.rowLimit) return { estimatedRows } satisfies JoinSizeCheck;
+      }
+      const rows = recipe.joinGraph
+        ? runJoinGraph(files, recipe.joinGraph, task.maxRows, onProgress)
+        : runSharedJoin(files, recipe.candidate!, recipe.joinType!, recipe.reduce, task.maxRows, onProgress);
+      const outputColumns = recipe.joinGraph
+        ? getJoinGraphOutputColumns(files, recipe.joinGraph)
+        : getJoinOutputColumns(files, recipe.candidate!, recipe.joinType!);
+      return toSavedFile(rows, task.saveAs, onProgress, getOverriddenColumns(files, outputColumns));
+    }
+  }
+};
+
+// Collapses repeated keys in each file first when the fan-out guard asked for it
+const reduceFiles = (files: ParsedFile[], candidate: JoinCandidate, reduce?: 'dedupe' | 'aggregate') => {
+  const reduceFile = reduce === 'dedupe' ? dedupeByKey : reduce === 'aggregate' ? aggregateByKey : null;
+  return reduceFile ? files.map(f => reduceFile(f, candidate)) : files;
+};
+
+const runSharedJoin = (
+  files: ParsedFile[],
+  candidate: JoinCandidate,
+  joinType: JoinType,
+  reduce?: 'dedupe' | 'aggregate',
+  maxRows?: number,
+  onProgress?: ProgressCallback
+) => {
+  const joined = joinDatasets(reduceFiles(files, candidate, reduce), candidate, joinType, maxRows, onProgress);
+  return coalesceColumns(joined, candidate.coalesce || []);
+};
+
+const toSavedFile = (rows: any[], name: string, onProgress?: ProgressCallback, overrides?: ColumnSchema[]) => {
+  onProgress?.({ phase: 'Typing columns', done: rows.length, total: rows.length, unit: 'rows', rows: rows.length });
+  return createJoinedFile(rows, name, overrides);
+};
+
+/**
+ * Swaps the workspace files a task reads for whatever `map` returns. The worker client uses it to send
+ * each file once and refer to it by key in later tasks.
+ */
+export const mapTaskFiles = (task: DataTask, map: (file: any) => any): DataTask => {
+  if ('files' in task) return { ...task, files: (task.files as (ParsedFile | null)[]).map(f => f && map(f)) } as DataTask;
+  if ('file' in task && task.type !== 'readWorkbook') return { ...task, file: map(task.file) };
+  return task;
+};
@@ -0,0 +1,45 @@
+import { executeDataTask, mapTaskFiles, DataTask } from './dataTasks';
+import { packValue, unpackValue, ResidentFileRef } from './transferService';
+import { ParsedFile, TaskProgress } from '../types';
+
+// Progress messages are throttled so a fast loop doesn't flood the main thread
+const PROGRESS_THROTTLE_MS = 100;
+
+const worker = self as unknown as Worker;
+
+// Files kept from earlier tasks, by the key the client gave them, so repeated checks don't resend them
+const residentFiles = new Map<string, ParsedFile>();
+
+const resolveFiles = (task: DataTask): DataTask => {
+  const keys = new Set<string>();
+  const resolved = mapTaskFiles(task, (ref: ResidentFileRef) => {
+    keys.add(ref.key);
+    if (ref.packed) residentFiles.set(ref.key, unpackValue(ref.packed));
+    const file = residentFiles.get(ref.key);
+    if (!file) throw new Error('The worker lost a file it was holding. Please try again.');
+    return file;
+  });
+  // Only this task's files stay, so an idle worker holds one task's data at most
+  residentFiles.forEach((_, key) => !keys.has(key) && residentFiles.delete(key));
+  return resolved;
+};
+
+worker.onmessage = async (event: MessageEvent<{ id: number; task: DataTask }>) => {
+  const { id } = event.data;
+  let lastProgressAt = 0;
+  const onProgress = (progress: TaskProgress) => {
+    const now = Date.now();
+    if (now - lastProgressAt < PROGRESS_THROTTLE_MS) return;
+    lastProgressAt = now;
+    worker.postMessage({ id, type: 'progress', progress });
+  };
+
+  try {
+    const task = resolveFiles(event.data.task);
+    const transfer: Transferable[] = [];
+    const result = packValue(await executeDataTask(task, onProgress), transfer);
+    worker.postMessage({ id, type: 'result', result }, transfer);
+  } catch (err: any) {
+    worker.postMessage({ id, type: 'error', message: err?.message || 'Task failed' });
+  }
+};
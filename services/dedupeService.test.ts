@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { ColumnType, DedupeStrategy, ParsedFile } from '../types';
+import { findDuplicates, dedupeFile } from './dedupeService';
+import { withSchema, overrideColumnType, getColumnType } from './schemaService';
+
+const makeFile = (data: any[]): ParsedFile => withSchema({
+  id: 'people',
+  name: 'people.csv',
+  size: 0,
+  headers: Object.keys(data[0]),
+  previewData: [],
+  data,
+  rowCount: data.length
+});
+
+const people = makeFile([
+  { name: 'Ann Lee', zip: '10001' },
+  { name: 'ann lee ', zip: '10001' },
+  { name: 'Bob Ray', zip: '20002' }
+]);
+
+describe('dedupeFile', () => {
+  it('groups rows that match after normalization', () => {
+    const report = findDuplicates(people, { columns: ['name'], normalization: { caseInsensitive: true, collapseWhitespace: true }, strategy: DedupeStrategy.KEEP_FIRST });
+    expect(report.groups.map(g => g.rowIndexes)).toEqual([[0, 1]]);
+  });
+
+  it('keeps type overrides and converts the values to match', () => {
+    const retyped = overrideColumnType(people, 'zip', ColumnType.STRING);
+    const result = dedupeFile(retyped, { columns: ['zip'], strategy: DedupeStrategy.KEEP_FIRST }, 'deduped');
+    expect(getColumnType(result, 'zip')).toBe(ColumnType.STRING);
+    expect(result.schema!.find(c => c.name === 'zip')!.isOverridden).toBe(true);
+    expect(result.data.map(r => r.zip)).toEqual(['10001', '20002']);
+  });
+});
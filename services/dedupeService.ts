@@ -0,0 +1,116 @@
+import { ParsedFile, DedupeConfig, DedupeStrategy, DuplicateGroup, DuplicateReport, ProgressCallback } from '../types';
+import { normalizeKey, applyKeyNormalization, KEY_PART_SEPARATOR } from './keyService';
+import { getColumnType } from './schemaService';
+import { createJoinedFile, toDerivedFile, getCleanFileName } from './dataService';
+
+export const DEDUPE_STRATEGY_LABELS: Record<DedupeStrategy, { title: string; description: string }> = {
+  [DedupeStrategy.KEEP_FIRST]: { title: 'Keep first', description: 'The earliest row in the file' },
+  [DedupeStrategy.KEEP_LAST]: { title: 'Keep last', description: 'The latest row in the file, e.g. the newest extract' },
+  [DedupeStrategy.MOST_COMPLETE]: { title: 'Keep most complete', description: 'The row with the most filled-in values' },
+  [DedupeStrategy.MERGE]: { title: 'Merge group', description: 'First non-empty value of each column; adds _Merged_Rows' }
+};
+
+// Added to every row by DedupeStrategy.MERGE: how many input rows each output row stands for
+export const MERGED_ROWS_COLUMN = '_Merged_Rows';
+
+const PROGRESS_INTERVAL = 5000;
+
+const isEmpty = (val: any) => val === null || val === undefined || (typeof val === 'string' && val.trim() === '');
+
+/**
+ * Explains why the config can't run yet, or returns null when it is ready
+ */
+export const getDedupeConfigError = (file: ParsedFile, config: DedupeConfig): string | null => {
+  if (config.columns.length === 0) return 'Pick at least one column to compare';
+  const missing = config.columns.find(col => !file.headers.includes(col));
+  if (missing) return `Column ${missing} is not in ${file.name}`;
+  return null;
+};
+
+/**
+ * Groups the rows that share the dedupe columns after type and key normalization, in file order
+ */
+export const findDuplicates = (file: ParsedFile, config: DedupeConfig, onProgress?: ProgressCallback): DuplicateReport => {
+  const error = getDedupeConfigError(file, config);
+  if (error) throw new Error(error);
+
+  const types = config.columns.map(col => getColumnType(file, col));
+  const byKey = new Map<string, number[]>();
+  let blankRows = 0;
+
+  file.data.forEach((row, index) => {
+    if ((index + 1) % PROGRESS_INTERVAL === 0) onProgress?.({ phase: 'Finding duplicates', done: index + 1, total: file.data.length, unit: 'rows' });
+    const parts = config.columns.map((col, i) => applyKeyNormalization(normalizeKey(row[col], types[i]), config.normalization));
+    if (parts.every(part => part === '')) {
+      blankRows++;
+      return;
+    }
+    const key = parts.join(KEY_PART_SEPARATOR);
+    const indexes = byKey.get(key);
+    if (indexes) indexes.push(index);
+    else byKey.set(key, [index]);
+  });
+
+  const groups: DuplicateGroup[] = [];
+  byKey.forEach((rowIndexes, key) => {
+    if (rowIndexes.length > 1) groups.push({ key, rowIndexes });
+  });
+  return { groups, duplicateRows: groups.reduce((sum, g) => sum + g.rowIndexes.length - 1, 0), blankRows };
+};
+
+const countFilled = (row: any) => Object.values(row).filter(v => !isEmpty(v)).length;
+
+/**
+ * The position in file.data of the row a strategy keeps from a group, or null when the group is merged
+ */
+export const getKeptRowIndex = (file: ParsedFile, group: DuplicateGroup, strategy: DedupeStrategy): number | null => {
+  const { rowIndexes } = group;
+  switch (strategy) {
+    case DedupeStrategy.KEEP_FIRST:
+      return rowIndexes[0];
+    case DedupeStrategy.KEEP_LAST:
+      return rowIndexes[rowIndexes.length - 1];
+    case DedupeStrategy.MOST_COMPLETE:
+      // Ties go to the earliest row
+      return rowIndexes.reduce((best, i) => countFilled(file.data[i]) > countFilled(file.data[best]) ? i : best);
+    case DedupeStrategy.MERGE:
+      return null;
+  }
+};
+
+const mergeRows = (headers: string[], rows: any[]) => {
+  const merged: any = {};
+  headers.forEach(col => {
+    const value = rows.find(r => !isEmpty(r[col]))?.[col];
+    merged[col] = value ?? null;
+  });
+  merged[MERGED_ROWS_COLUMN] = rows.length;
+  return merged;
+};
+
+/**
+ * A copy of the file with one row per duplicate group, placed where the group first appears.
+ * Column types picked by hand on the source file carry over to the result.
+ */
+export const dedupeFile = (file: ParsedFile, config: DedupeConfig, name: string, onProgress?: ProgressCallback): ParsedFile => {
+  const report = findDuplicates(file, config, onProgress);
+  const groupByRow = new Map<number, DuplicateGroup>();
+  report.groups.forEach(group => group.rowIndexes.forEach(i => groupByRow.set(i, group)));
+  const isMerge = config.strategy === DedupeStrategy.MERGE;
+
+  const data: any[] = [];
+  file.data.forEach((row, index) => {
+    const group = groupByRow.get(index);
+    if (!group) {
+      data.push(isMerge ? { ...row, [MERGED_ROWS_COLUMN]: 1 } : row);
+    } else if (index === group.rowIndexes[0]) {
+      const kept = getKeptRowIndex(file, group, config.strategy);
+      data.push(kept === null ? mergeRows(file.headers, group.rowIndexes.map(i => file.data[i])) : file.data[kept]);
+    }
+  });
+
+  // Columns keep their names, so the user's type overrides apply as they are
+  return toDerivedFile(createJoinedFile(data, name, file.schema?.filter(col => col.isOverridden)), file, { type: 'dedupe', config });
+};
+
+export const getDedupeFileName = (file: ParsedFile) => `${getCleanFileName(file.name)} deduplicated`;
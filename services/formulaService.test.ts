@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { ColumnType, ParsedFile } from '../types';
+import { checkFormula, previewFormula, addFormulaColumn, getFormulaColumns, getFormulaColumnError, getNextVersionName } from './formulaService';
+import { withSchema, getColumnType } from './schemaService';
+
+const makeFile = (name: string, data: any[]): ParsedFile => withSchema({
+  id: name,
+  name,
+  size: 0,
+  headers: Object.keys(data[0]),
+  previewData: [],
+  data,
+  rowCount: data.length
+});
+
+const orders = makeFile('orders.csv', [
+  { 'Order ID': 'A1', Amount: '1200', Qty: '4', Ordered: '2024-01-10', Shipped: '2024-01-15', Note: 'rush' },
+  { 'Order ID': 'B2', Amount: '', Qty: '0', Ordered: '2024-02-01', Shipped: '', Note: '' }
+]);
+
+describe('checkFormula', () => {
+  it('types the result and resolves bare names regardless of case', () => {
+    expect(checkFormula(orders, 'round(amount * 1.2)')).toEqual({ type: 'number', columns: ['Amount'] });
+    expect(checkFormula(orders, "[Order ID] & '-' & Note")).toEqual({ type: 'text', columns: ['Order ID', 'Note'] });
+    expect(checkFormula(orders, 'DATEDIFF(Shipped, Ordered) > 3').type).toBe('boolean');
+  });
+
+  it('explains the first problem', () => {
+    expect(() => checkFormula(orders, 'Note + 1')).toThrow('use & or CONCAT() to join text');
+    expect(() => checkFormula(orders, 'Amount * round')).toThrow('Unknown column round (did you mean ROUND(...)?)');
+    expect(() => checkFormula(orders, 'LEFT(Note)')).toThrow('LEFT() takes 2 arguments');
+    expect(() => checkFormula(orders, 'Amount = Note')).toThrow("Can't compare number with text");
+    expect(() => checkFormula(orders, 'Price * 2')).toThrow('Unknown column Price');
+  });
+});
+
+describe('previewFormula', () => {
+  it('computes each row, leaving blanks and division by zero empty', () => {
+    expect(previewFormula(orders, 'Amount / Qty')).toEqual([300, null]);
+    expect(previewFormula(orders, "IF(ISBLANK(Shipped), 'open', 'shipped')")).toEqual(['shipped', 'open']);
+    expect(previewFormula(orders, 'DATEDIFF(Shipped, Ordered)')).toEqual([5, null]);
+    expect(previewFormula(orders, "COALESCE(Note, 'none')")).toEqual(['rush', 'none']);
+  });
+});
+
+describe('addFormulaColumn', () => {
+  it('adds a typed column to a new version of the file', () => {
+    const file = addFormulaColumn(orders, { name: 'Unit', expression: 'ROUND(Amount / Qty, 1)' }, getNextVersionName('orders'));
+    expect(file.name).toBe('orders (v2)');
+    expect(file.headers).toEqual([...orders.headers, 'Unit']);
+    expect(file.data.map(r => r.Unit)).toEqual([300, null]);
+    expect(getColumnType(file, 'Unit')).toBe(ColumnType.INTEGER);
+    expect(file.lineage).toEqual({ sourceFileId: 'orders.csv', step: { type: 'formula', config: { name: 'Unit', expression: 'ROUND(Amount / Qty, 1)', columns: ['Amount', 'Qty'] } } });
+    expect(orders.headers).not.toContain('Unit');
+  });
+
+  it('refuses names already taken', () => {
+    expect(getFormulaColumnError(orders, { name: 'Amount', expression: '1' })).toContain('already has a column named Amount');
+    expect(() => addFormulaColumn(orders, { name: ' ', expression: '1' }, 'x')).toThrow('Name the new column');
+  });
+});
+
+describe('getFormulaColumns', () => {
+  it('lists columns without a file, and nothing for broken formulas', () => {
+    expect(getFormulaColumns('CONCAT([First Name], Last) & First Name')).toEqual([]);
+    expect(getFormulaColumns('CONCAT([First Name], Last)')).toEqual(['First Name', 'Last']);
+  });
+});
@@ -0,0 +1,643 @@
+import { ParsedFile, FormulaColumn, ColumnType, ProgressCallback } from '../types';
+import { getColumnType, inferSchema } from './schemaService';
+import { toTimestamp, formatTimestamp } from './temporalService';
+import { toDerivedFile } from './dataService';
+
+// Formulas are parsed into a tree and interpreted row by row. Nothing is ever passed to eval or
+// new Function, and only the functions listed below can be called.
+
+export type FormulaType = 'number' | 'text' | 'date' | 'boolean' | 'any'; // 'any': unknown until run, e.g. NULL
+
+type Node =
+  | { kind: 'literal'; value: any; type: FormulaType }
+  | { kind: 'column'; name: string }
+  | { kind: 'unary'; op: string; operand: Node }
+  | { kind: 'binary'; op: string; left: Node; right: Node; compareAs?: FormulaType } // compareAs is set by the type check
+  | { kind: 'call'; name: string; args: Node[] };
+
+interface Token {
+  kind: 'number' | 'text' | 'name' | 'column' | 'op' | 'end';
+  value: string;
+  pos: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PROGRESS_INTERVAL = 5000;
+
+const OPERATORS = ['<=', '>=', '<>', '!=', '==', '&&', '||', '+', '-', '*', '/', '%', '^', '&', '=', '<', '>', '(', ')', ','];
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < expression.length) {
+    const ch = expression[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    const start = i;
+    if (/\d/.test(ch) || (ch === '.' && /\d/.test(expression[i + 1] || ''))) {
+      const match = expression.slice(i).match(/^\d*\.?\d+(e[+-]?\d+)?/i)!;
+      tokens.push({ kind: 'number', value: match[0], pos: start });
+      i += match[0].length;
+    } else if (ch === '"' || ch === "'") {
+      // Doubling the quote inside a string escapes it, as in spreadsheets: 'It''s'
+      let value = '';
+      i++;
+      while (true) {
+        if (i >= expression.length) throw new Error(`Text starting at position ${start + 1} is missing its closing ${ch}`);
+        if (expression[i] === ch && expression[i + 1] === ch) {
+          value += ch;
+          i += 2;
+        } else if (expression[i] === ch) {
+          i++;
+          break;
+        } else {
+          value += expression[i++];
+        }
+      }
+      tokens.push({ kind: 'text', value, pos: start });
+    } else if (ch === '[') {
+      // [Column Name] refers to columns with spaces or symbols; ]] inside stands for ]
+      let value = '';
+      i++;
+      while (true) {
+        if (i >= expression.length) throw new Error(`Column name starting at position ${start + 1} is missing its closing ]`);
+        if (expression[i] === ']' && expression[i + 1] === ']') {
+          value += ']';
+          i += 2;
+        } else if (expression[i] === ']') {
+          i++;
+          break;
+        } else {
+          value += expression[i++];
+        }
+      }
+      tokens.push({ kind: 'column', value, pos: start });
+    } else if (/[\p{L}_]/u.test(ch)) {
+      const match = expression.slice(i).match(/^[\p{L}_][\p{L}\p{N}_.]*/u)!;
+      tokens.push({ kind: 'name', value: match[0], pos: start });
+      i += match[0].length;
+    } else {
+      const op = OPERATORS.find(o => expression.startsWith(o, i));
+      if (!op) throw new Error(`Unexpected "${ch}" at position ${start + 1}`);
+      tokens.push({ kind: 'op', value: op, pos: start });
+      i += op.length;
+    }
+  }
+  tokens.push({ kind: 'end', value: '', pos: expression.length });
+  return tokens;
+};
+
+const COMPARISONS = ['=', '==', '!=', '<>', '<', '<=', '>', '>='];
+
+const parse = (expression: string): Node => {
+  const tokens = tokenize(expression);
+  let index = 0;
+  const peek = () => tokens[index];
+  const describe = (token: Token) => token.kind === 'end' ? 'end of formula' : `"${token.value}" at position ${token.pos + 1}`;
+  const isOp = (...ops: string[]) => peek().kind === 'op' && ops.includes(peek().value);
+  const isWord = (word: string) => peek().kind === 'name' && peek().value.toUpperCase() === word;
+  const expect = (op: string) => {
+    if (!isOp(op)) throw new Error(`Expected "${op}" but found ${describe(peek())}`);
+    index++;
+  };
+
+  const parseOr = (): Node => {
+    let node = parseAnd();
+    while (isOp('||') || isWord('OR')) {
+      index++;
+      node = { kind: 'binary', op: 'OR', left: node, right: parseAnd() };
+    }
+    return node;
+  };
+  const parseAnd = (): Node => {
+    let node = parseNot();
+    while (isOp('&&') || isWord('AND')) {
+      index++;
+      node = { kind: 'binary', op: 'AND', left: node, right: parseNot() };
+    }
+    return node;
+  };
+  const parseNot = (): Node => {
+    if (isWord('NOT')) {
+      index++;
+      return { kind: 'unary', op: 'NOT', operand: parseNot() };
+    }
+    return parseComparison();
+  };
+  const parseComparison = (): Node => {
+    const node = parseConcat();
+    if (isOp(...COMPARISONS)) {
+      const op = tokens[index++].value;
+      return { kind: 'binary', op: op === '==' ? '=' : op === '<>' ? '!=' : op, left: node, right: parseConcat() };
+    }
+    return node;
+  };
+  const parseConcat = (): Node => {
+    let node = parseAdditive();
+    while (isOp('&')) {
+      index++;
+      node = { kind: 'binary', op: '&', left: node, right: parseAdditive() };
+    }
+    return node;
+  };
+  const parseAdditive = (): Node => {
+    let node = parseMultiplicative();
+    while (isOp('+', '-')) {
+      const op = tokens[index++].value;
+      node = { kind: 'binary', op, left: node, right: parseMultiplicative() };
+    }
+    return node;
+  };
+  const parseMultiplicative = (): Node => {
+    let node = parseUnary();
+    while (isOp('*', '/', '%')) {
+      const op = tokens[index++].value;
+      node = { kind: 'binary', op, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+  const parseUnary = (): Node => {
+    if (isOp('-')) {
+      index++;
+      return { kind: 'unary', op: '-', operand: parseUnary() };
+    }
+    const base = parsePrimary();
+    if (isOp('^')) {
+      index++;
+      return { kind: 'binary', op: '^', left: base, right: parseUnary() };
+    }
+    return base;
+  };
+  const parsePrimary = (): Node => {
+    const token = tokens[index++];
+    if (token.kind === 'number') return { kind: 'literal', value: Number(token.value), type: 'number' };
+    if (token.kind === 'text') return { kind: 'literal', value: token.value, type: 'text' };
+    if (token.kind === 'column') return { kind: 'column', name: token.value };
+    if (token.kind === 'name') {
+      const upper = token.value.toUpperCase();
+      if (isOp('(')) {
+        index++;
+        const args: Node[] = [];
+        if (!isOp(')')) {
+          args.push(parseOr());
+          while (isOp(',')) {
+            index++;
+            args.push(parseOr());
+          }
+        }
+        expect(')');
+        return { kind: 'call', name: upper, args };
+      }
+      if (upper === 'TRUE' || upper === 'FALSE') return { kind: 'literal', value: upper === 'TRUE', type: 'boolean' };
+      if (upper === 'NULL') return { kind: 'literal', value: null, type: 'any' };
+      return { kind: 'column', name: token.value };
+    }
+    if (token.kind === 'op' && token.value === '(') {
+      const node = parseOr();
+      expect(')');
+      return node;
+    }
+    throw new Error(`Unexpected ${describe(token)}`);
+  };
+
+  if (peek().kind === 'end') throw new Error('Enter a formula');
+  const root = parseOr();
+  if (peek().kind !== 'end') throw new Error(`Unexpected ${describe(peek())}`);
+  return root;
+};
+
+// Runtime conversions. Blank values become null and flow through to the result.
+
+const isBlank = (val: any) => val === null || val === undefined || (typeof val === 'string' && val.trim() === '');
+
+const toNumber = (val: any): number | null => {
+  if (typeof val === 'number') return isFinite(val) ? val : null;
+  if (typeof val === 'boolean' || isBlank(val)) return null;
+  const num = Number(String(val).replace(/,/g, '').trim());
+  return isFinite(num) ? num : null;
+};
+
+// Whitespace is kept: blank cells are already null by now, and ' ' in CONCAT(First, ' ', Last) matters
+const toText = (val: any): string | null => {
+  if (val === null || val === undefined) return null;
+  if (typeof val === 'boolean') return val ? 'TRUE' : 'FALSE';
+  return String(val);
+};
+
+const toBoolean = (val: any): boolean | null => {
+  if (typeof val === 'boolean') return val;
+  if (isBlank(val)) return null;
+  const text = String(val).trim().toLowerCase();
+  if (['true', 'yes', '1'].includes(text)) return true;
+  if (['false', 'no', '0'].includes(text)) return false;
+  return null;
+};
+
+const toDate = (val: any): number | null => isBlank(val) ? null : toTimestamp(val);
+const fromDate = (time: number | null) => time === null || !isFinite(time) ? null : formatTimestamp(time);
+
+const compare = (a: any, b: any, type: FormulaType): number | null => {
+  if (isBlank(a) || isBlank(b)) return null;
+  if (type === 'number') {
+    const x = toNumber(a);
+    const y = toNumber(b);
+    return x === null || y === null ? null : x - y;
+  }
+  if (type === 'date') {
+    const x = toDate(a);
+    const y = toDate(b);
+    return x === null || y === null ? null : x - y;
+  }
+  return String(toText(a)).localeCompare(String(toText(b)));
+};
+
+interface FunctionSpec {
+  params: FormulaType[]; // Types of the fixed parameters; 'any' takes anything
+  optional?: number; // How many of the trailing params may be left out
+  variadic?: FormulaType; // Type of any further arguments
+  returns: FormulaType | ((argTypes: FormulaType[]) => FormulaType);
+  run: (args: any[]) => any;
+  category: 'Number' | 'Text' | 'Date' | 'Logic' | 'Blanks';
+  usage: string;
+}
+
+// The common type of several branches (IF, COALESCE); mixing numbers and text is an error
+const unify = (types: FormulaType[], fnName: string): FormulaType => {
+  const known = Array.from(new Set(types.filter(t => t !== 'any')));
+  if (known.length === 0) return 'any';
+  if (known.length === 1) return known[0];
+  if (known.every(t => t === 'date' || t === 'text')) return 'text';
+  throw new Error(`${fnName} mixes ${known.join(' and ')} values; convert them with TEXT() or NUMBER() first`);
+};
+
+const numeric = (fn: (...nums: number[]) => number) => (args: any[]) => {
+  const nums = args.map(toNumber);
+  return nums.some(n => n === null) ? null : fn(...(nums as number[]));
+};
+
+const textual = (fn: (text: string, ...rest: any[]) => any) => (args: any[]) => {
+  const text = toText(args[0]);
+  return text === null ? null : fn(text, ...args.slice(1));
+};
+
+export const FORMULA_FUNCTIONS: Record<string, FunctionSpec> = {
+  ROUND: {
+    params: ['number', 'number'], optional: 1, returns: 'number', category: 'Number', usage: 'ROUND(Amount, 2)',
+    run: ([value, digits]) => {
+      const num = toNumber(value);
+      const places = digits === undefined ? 0 : toNumber(digits);
+      if (num === null || places === null) return null;
+      const factor = Math.pow(10, places);
+      return Math.round(num * factor) / factor;
+    }
+  },
+  ABS: { params: ['number'], returns: 'number', category: 'Number', usage: 'ABS(Balance)', run: numeric(Math.abs) },
+  FLOOR: { params: ['number'], returns: 'number', category: 'Number', usage: 'FLOOR(Price)', run: numeric(Math.floor) },
+  CEIL: { params: ['number'], returns: 'number', category: 'Number', usage: 'CEIL(Price)', run: numeric(Math.ceil) },
+  MIN: {
+    params: ['number'], variadic: 'number', returns: 'number', category: 'Number', usage: 'MIN(Q1, Q2, Q3)',
+    run: args => {
+      const nums = args.map(toNumber).filter((n): n is number => n !== null);
+      return nums.length > 0 ? Math.min(...nums) : null;
+    }
+  },
+  MAX: {
+    params: ['number'], variadic: 'number', returns: 'number', category: 'Number', usage: 'MAX(Q1, Q2, Q3)',
+    run: args => {
+      const nums = args.map(toNumber).filter((n): n is number => n !== null);
+      return nums.length > 0 ? Math.max(...nums) : null;
+    }
+  },
+  NUMBER: { params: ['any'], returns: 'number', category: 'Number', usage: "NUMBER('1,200')", run: ([v]) => toNumber(v) },
+  CONCAT: {
+    params: [], variadic: 'any', returns: 'text', category: 'Text', usage: "CONCAT(First, ' ', Last)",
+    run: args => args.map(v => toText(v) ?? '').join('')
+  },
+  UPPER: { params: ['text'], returns: 'text', category: 'Text', usage: 'UPPER(Country)', run: textual(t => t.toUpperCase()) },
+  LOWER: { params: ['text'], returns: 'text', category: 'Text', usage: 'LOWER(Email)', run: textual(t => t.toLowerCase()) },
+  TRIM: { params: ['text'], returns: 'text', category: 'Text', usage: 'TRIM(Name)', run: textual(t => t.trim().replace(/\s+/g, ' ')) },
+  LEN: { params: ['text'], returns: 'number', category: 'Text', usage: 'LEN(Code)', run: textual(t => t.length) },
+  LEFT: {
+    params: ['text', 'number'], returns: 'text', category: 'Text', usage: 'LEFT(Postcode, 3)',
+    run: textual((t, n) => toNumber(n) === null ? null : t.slice(0, Math.max(0, toNumber(n)!)))
+  },
+  RIGHT: {
+    params: ['text', 'number'], returns: 'text', category: 'Text', usage: 'RIGHT(Account, 4)',
+    run: textual((t, n) => toNumber(n) === null ? null : (toNumber(n)! <= 0 ? '' : t.slice(-toNumber(n)!)))
+  },
+  SUBSTR: {
+    params: ['text', 'number', 'number'], optional: 1, returns: 'text', category: 'Text', usage: 'SUBSTR(Code, 2, 3)',
+    run: textual((t, start, length) => {
+      const from = toNumber(start);
+      if (from === null) return null;
+      const begin = Math.max(0, from - 1); // 1-based, as in spreadsheets
+      return length === undefined ? t.slice(begin) : t.slice(begin, begin + Math.max(0, toNumber(length) ?? 0));
+    })
+  },
+  REPLACE: {
+    params: ['text', 'text', 'text'], returns: 'text', category: 'Text', usage: "REPLACE(Phone, '-', '')",
+    run: textual((t, find, replacement) => isBlank(find) ? t : t.split(String(find)).join(toText(replacement) ?? ''))
+  },
+  CONTAINS: {
+    params: ['text', 'text'], returns: 'boolean', category: 'Text', usage: "CONTAINS(Notes, 'urgent')",
+    run: textual((t, find) => t.toLowerCase().includes((toText(find) ?? '').toLowerCase()))
+  },
+  TEXT: { params: ['any'], returns: 'text', category: 'Text', usage: 'TEXT(OrderID)', run: ([v]) => toText(v) },
+  DATEDIFF: {
+    params: ['date', 'date'], returns: 'number', category: 'Date', usage: 'DATEDIFF(Shipped, Ordered)',
+    run: ([end, start]) => {
+      const a = toDate(end);
+      const b = toDate(start);
+      return a === null || b === null ? null : Math.round((a - b) / DAY_MS);
+    }
+  },
+  DATEADD: {
+    params: ['date', 'number'], returns: 'date', category: 'Date', usage: 'DATEADD(Ordered, 30)',
+    run: ([date, days]) => {
+      const time = toDate(date);
+      const n = toNumber(days);
+      return time === null || n === null ? null : fromDate(time + n * DAY_MS);
+    }
+  },
+  DATE: {
+    params: ['number', 'number', 'number'], returns: 'date', category: 'Date', usage: 'DATE(Year, Month, 1)',
+    run: args => {
+      const [y, m, d] = args.map(toNumber);
+      return y === null || m === null || d === null ? null : fromDate(Date.UTC(y, m - 1, d));
+    }
+  },
+  YEAR: { params: ['date'], returns: 'number', category: 'Date', usage: 'YEAR(Ordered)', run: ([d]) => toDate(d) === null ? null : new Date(toDate(d)!).getUTCFullYear() },
+  MONTH: { params: ['date'], returns: 'number', category: 'Date', usage: 'MONTH(Ordered)', run: ([d]) => toDate(d) === null ? null : new Date(toDate(d)!).getUTCMonth() + 1 },
+  DAY: { params: ['date'], returns: 'number', category: 'Date', usage: 'DAY(Ordered)', run: ([d]) => toDate(d) === null ? null : new Date(toDate(d)!).getUTCDate() },
+  TODAY: {
+    params: [], returns: 'date', category: 'Date', usage: 'DATEDIFF(TODAY(), Due)',
+    run: () => {
+      const now = new Date();
+      return fromDate(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()));
+    }
+  },
+  IF: {
+    params: ['boolean', 'any', 'any'], optional: 1, returns: types => unify([types[1], types[2] ?? 'any'], 'IF'), category: 'Logic',
+    usage: "IF(Amount > 1000, 'Large', 'Small')",
+    run: ([cond, yes, no]) => toBoolean(cond) ? yes : (no ?? null)
+  },
+  COALESCE: {
+    params: ['any'], variadic: 'any', returns: types => unify(types, 'COALESCE'), category: 'Blanks', usage: "COALESCE(Mobile, Phone, 'n/a')",
+    run: args => args.find(v => !isBlank(v)) ?? null
+  },
+  ISBLANK: { params: ['any'], returns: 'boolean', category: 'Blanks', usage: 'ISBLANK(Email)', run: ([v]) => isBlank(v) }
+};
+
+const COLUMN_FORMULA_TYPES: Record<ColumnType, FormulaType> = {
+  [ColumnType.INTEGER]: 'number',
+  [ColumnType.DECIMAL]: 'number',
+  [ColumnType.DATE]: 'date',
+  [ColumnType.BOOLEAN]: 'boolean',
+  [ColumnType.EMAIL]: 'text',
+  [ColumnType.ID]: 'text',
+  [ColumnType.STRING]: 'text'
+};
+
+// Text is accepted where dates are expected, so '2024-01-31' and text date columns work
+const accepts = (expected: FormulaType, actual: FormulaType) =>
+  expected === 'any' || actual === 'any' || expected === actual || (expected === 'date' && actual === 'text');
+
+const describeNode = (node: Node): string => {
+  if (node.kind === 'column') return `column ${node.name}`;
+  if (node.kind === 'call') return `${node.name}()`;
+  if (node.kind === 'literal') return node.value === null ? 'NULL' : JSON.stringify(node.value);
+  return 'this part';
+};
+
+interface CheckedFormula {
+  root: Node;
+  type: FormulaType;
+  columns: string[]; // Columns the formula reads
+}
+
+const check = (root: Node, headers: string[], columnTypes: Record<string, FormulaType>): CheckedFormula => {
+  const columns = new Set<string>();
+
+  const visit = (node: Node): FormulaType => {
+    switch (node.kind) {
+      case 'literal':
+        return node.type;
+      case 'column': {
+        // Bare names may differ in case from the header; brackets are needed for spaces and symbols
+        const header = headers.includes(node.name) ? node.name : headers.find(h => h.toLowerCase() === node.name.toLowerCase());
+        if (!header) throw new Error(`Unknown column ${node.name}${FORMULA_FUNCTIONS[node.name.toUpperCase()] ? ` (did you mean ${node.name.toUpperCase()}(...)?)` : ''}`);
+        node.name = header;
+        columns.add(header);
+        return columnTypes[header] || 'any';
+      }
+      case 'unary': {
+        const type = visit(node.operand);
+        const expected = node.op === 'NOT' ? 'boolean' : 'number';
+        if (!accepts(expected, type)) throw new Error(`${node.op} needs a ${expected}, but ${describeNode(node.operand)} is ${type}`);
+        return expected;
+      }
+      case 'binary': {
+        const left = visit(node.left);
+        const right = visit(node.right);
+        if (node.op === '&') return 'text';
+        if (node.op === 'AND' || node.op === 'OR') {
+          [[node.left, left], [node.right, right]].forEach(([side, type]) => {
+            if (!accepts('boolean', type as FormulaType)) throw new Error(`${node.op} needs true/false values, but ${describeNode(side as Node)} is ${type}`);
+          });
+          return 'boolean';
+        }
+        if (COMPARISONS.includes(node.op)) {
+          const known = [left, right].filter(t => t !== 'any');
+          if (known.length === 2 && known[0] !== known[1] && !known.every(t => t === 'date' || t === 'text')) {
+            throw new Error(`Can't compare ${left} with ${right}: ${describeNode(node.left)} ${node.op} ${describeNode(node.right)}`);
+          }
+          node.compareAs = known.length === 0 ? 'any' : known.includes('date') ? 'date' : known[0];
+          return 'boolean';
+        }
+        [[node.left, left], [node.right, right]].forEach(([side, type]) => {
+          if (!accepts('number', type as FormulaType)) {
+            const hint = type === 'text' && node.op === '+' ? '; use & or CONCAT() to join text' : '';
+            throw new Error(`${node.op} needs numbers, but ${describeNode(side as Node)} is ${type}${hint}`);
+          }
+        });
+        return 'number';
+      }
+      case 'call': {
+        const spec = FORMULA_FUNCTIONS[node.name];
+        if (!spec) throw new Error(`Unknown function ${node.name}()`);
+        const min = spec.params.length - (spec.optional || 0);
+        const max = spec.variadic ? Infinity : spec.params.length;
+        if (node.args.length < min || node.args.length > max) {
+          const count = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min} to ${max}`;
+          throw new Error(`${node.name}() takes ${count} argument${max === 1 ? '' : 's'}, e.g. ${spec.usage}`);
+        }
+        const types = node.args.map((arg, i) => {
+          const type = visit(arg);
+          const expected = spec.params[i] ?? spec.variadic!;
+          if (!accepts(expected, type)) throw new Error(`${node.name}() expects a ${expected} as argument ${i + 1}, but ${describeNode(arg)} is ${type}`);
+          return type;
+        });
+        return typeof spec.returns === 'function' ? spec.returns(types) : spec.returns;
+      }
+    }
+  };
+
+  const type = visit(root);
+  return { root, type, columns: Array.from(columns) };
+};
+
+const getColumnTypes = (file: ParsedFile): Record<string, FormulaType> => {
+  const types: Record<string, FormulaType> = {};
+  file.headers.forEach(h => {
+    const type = getColumnType(file, h);
+    types[h] = type ? COLUMN_FORMULA_TYPES[type] : 'any';
+  });
+  return types;
+};
+
+/**
+ * Parses and type-checks a formula against a file's columns. Throws an Error describing the first problem.
+ */
+export const checkFormula = (file: ParsedFile, expression: string): { type: FormulaType; columns: string[] } => {
+  const { type, columns } = check(parse(expression), file.headers, getColumnTypes(file));
+  return { type, columns };
+};
+
+/**
+ * The columns a formula reads, without checking it against a file. Empty if it doesn't parse.
+ */
+export const getFormulaColumns = (expression: string): string[] => {
+  try {
+    const columns: string[] = [];
+    const walk = (node: Node) => {
+      if (node.kind === 'column') columns.push(node.name);
+      if (node.kind === 'unary') walk(node.operand);
+      if (node.kind === 'binary') [node.left, node.right].forEach(walk);
+      if (node.kind === 'call') node.args.forEach(walk);
+    };
+    walk(parse(expression));
+    return Array.from(new Set(columns));
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Explains why the computed column can't be added, or returns null when it is ready
+ */
+export const getFormulaColumnError = (file: ParsedFile, formula: FormulaColumn): string | null => {
+  const name = formula.name.trim();
+  if (!name) return 'Name the new column';
+  if (file.headers.includes(name)) return `${file.name} already has a column named ${name}`;
+  try {
+    checkFormula(file, formula.expression);
+    return null;
+  } catch (err: any) {
+    return err.message;
+  }
+};
+
+const evaluate = (node: Node, row: any): any => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'column':
+      return isBlank(row[node.name]) ? null : row[node.name];
+    case 'unary': {
+      if (node.op === 'NOT') {
+        const value = toBoolean(evaluate(node.operand, row));
+        return value === null ? null : !value;
+      }
+      const num = toNumber(evaluate(node.operand, row));
+      return num === null ? null : -num;
+    }
+    case 'binary': {
+      if (node.op === 'AND' || node.op === 'OR') {
+        // Short-circuits like spreadsheet logic; a blank counts as false
+        const left = toBoolean(evaluate(node.left, row)) === true;
+        if (node.op === 'AND' ? !left : left) return left;
+        return toBoolean(evaluate(node.right, row)) === true;
+      }
+      const left = evaluate(node.left, row);
+      const right = evaluate(node.right, row);
+      if (node.op === '&') return (toText(left) ?? '') + (toText(right) ?? '');
+      if (COMPARISONS.includes(node.op)) {
+        // Values of unknown type compare as numbers when both are numeric
+        const type = node.compareAs && node.compareAs !== 'any' ? node.compareAs
+          : toNumber(left) !== null && toNumber(right) !== null ? 'number' : 'text';
+        const diff = compare(left, right, type);
+        if (diff === null) return null;
+        switch (node.op) {
+          case '=': return diff === 0;
+          case '!=': return diff !== 0;
+          case '<': return diff < 0;
+          case '<=': return diff <= 0;
+          case '>': return diff > 0;
+          default: return diff >= 0;
+        }
+      }
+      const a = toNumber(left);
+      const b = toNumber(right);
+      if (a === null || b === null) return null;
+      switch (node.op) {
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return b === 0 ? null : a / b;
+        case '%': return b === 0 ? null : a % b;
+        default: {
+          const result = Math.pow(a, b);
+          return isFinite(result) ? result : null;
+        }
+      }
+    }
+    case 'call': {
+      return FORMULA_FUNCTIONS[node.name].run(node.args.map(arg => evaluate(arg, row)));
+    }
+  }
+};
+
+/**
+ * Computes the formula for a few rows, for previews. Throws like checkFormula if the formula is invalid.
+ */
+export const previewFormula = (file: ParsedFile, expression: string, rows = 5): any[] => {
+  const { root } = check(parse(expression), file.headers, getColumnTypes(file));
+  return file.data.slice(0, rows).map(row => evaluate(root, row));
+};
+
+/**
+ * "Orders" -> "Orders (v2)", "Orders (v2)" -> "Orders (v3)"
+ */
+export const getNextVersionName = (name: string) => {
+  const match = name.match(/^(.*) \(v(\d+)\)$/);
+  return match ? `${match[1]} (v${Number(match[2]) + 1})` : `${name} (v2)`;
+};
+
+/**
+ * A new version of the file with the computed column appended. The original file is left as it is.
+ */
+export const addFormulaColumn = (file: ParsedFile, formula: FormulaColumn, name: string, onProgress?: ProgressCallback): ParsedFile => {
+  const error = getFormulaColumnError(file, formula);
+  if (error) throw new Error(error);
+  const column = formula.name.trim();
+  const { root, columns } = check(parse(formula.expression), file.headers, getColumnTypes(file));
+
+  const data = file.data.map((row, index) => {
+    if ((index + 1) % PROGRESS_INTERVAL === 0) onProgress?.({ phase: `Computing ${column}`, done: index + 1, total: file.data.length, unit: 'rows' });
+    const value = evaluate(root, row);
+    return { ...row, [column]: typeof value === 'number' && !isFinite(value) ? null : value };
+  });
+
+  return toDerivedFile({
+    ...file,
+    name,
+    headers: [...file.headers, column],
+    schema: file.schema ? [...file.schema, ...inferSchema([column], data)] : undefined,
+    data,
+    previewData: data.slice(0, 10),
+    rowCount: data.length,
+    aiContext: { chatHistory: [] }
+  }, file, { type: 'formula', config: { name: column, expression: formula.expression, columns } });
+};
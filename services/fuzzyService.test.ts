@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { FuzzyAlgorithm } from '../types';
+import { scoreSimilarity, matchKeysFuzzy, findLimitedKeys, DEFAULT_FUZZY_OPTIONS } from './fuzzyService';
+
+const range = (count: number, toKey: (i: number) => string) => Array.from({ length: count }, (_, i) => toKey(i));
+
+describe('scoreSimilarity', () => {
+  it('scores identical keys 100 with every algorithm', () => {
+    Object.values(FuzzyAlgorithm).forEach(algorithm => {
+      expect(scoreSimilarity('Acme Corp', 'acme corp', algorithm)).toBe(100);
+    });
+  });
+
+  it('ignores word order with token set ratio', () => {
+    expect(scoreSimilarity('Acme Corp', 'Corp Acme', FuzzyAlgorithm.TOKEN_SET)).toBe(100);
+    expect(scoreSimilarity('Acme Corp', 'Corp Acme', FuzzyAlgorithm.JARO_WINKLER)).toBeLessThan(85);
+  });
+
+  it('rates small typos above unrelated keys', () => {
+    expect(scoreSimilarity('Jon Smith', 'John Smith', FuzzyAlgorithm.JARO_WINKLER)).toBeGreaterThanOrEqual(85);
+    expect(scoreSimilarity('Jon Smith', 'Mary Jones', FuzzyAlgorithm.JARO_WINKLER)).toBeLessThan(85);
+    expect(scoreSimilarity('international', 'internationl', FuzzyAlgorithm.NGRAM)).toBeGreaterThan(80);
+  });
+});
+
+describe('matchKeysFuzzy', () => {
+  it('short-circuits exact matches and skips keys below the threshold', () => {
+    const matches = matchKeysFuzzy(['acme', 'globex', 'zzz'], ['acme', 'globexx', 'initech'], DEFAULT_FUZZY_OPTIONS);
+    expect(matches.get('acme')).toEqual({ key: 'acme', score: 100 });
+    expect(matches.get('globex')?.key).toBe('globexx');
+    expect(matches.has('zzz')).toBe(false);
+  });
+
+  it('finds single-word keys with typos at both ends through their sorted neighbours', () => {
+    const targets = [...range(50, i => `filler${i}`), 'widgets'];
+    const matches = matchKeysFuzzy(['wodgetz'], targets, { algorithm: FuzzyAlgorithm.JARO_WINKLER, threshold: 70 });
+    expect(matches.get('wodgetz')?.key).toBe('widgets');
+  });
+
+  it('narrows oversized blocks instead of skipping them', () => {
+    const targets = range(2500, i => `abc${1000 + i}`);
+    const matches = matchKeysFuzzy(['abc1234x'], targets, DEFAULT_FUZZY_OPTIONS);
+    expect(matches.get('abc1234x')?.key).toBe('abc1234');
+    expect(findLimitedKeys(['abc1234x'], targets)).toEqual([]);
+  });
+});
+
+describe('findLimitedKeys', () => {
+  it('reports keys whose blocks stay too big after narrowing', () => {
+    const targets = range(2500, i => `abcdef${i}`);
+    expect(findLimitedKeys(['abcdefx', 'abcdef7', 'other'], targets)).toEqual(['abcdefx']);
+  });
+});
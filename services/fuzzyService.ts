@@ -0,0 +1,271 @@
+import { FuzzyAlgorithm, FuzzyMatchOptions } from '../types';
+import { KEY_PART_SEPARATOR } from './keyService';
+
+export const DEFAULT_FUZZY_OPTIONS: FuzzyMatchOptions = {
+  algorithm: FuzzyAlgorithm.JARO_WINKLER,
+  threshold: 85
+};
+
+// Blocks shared by more keys than this carry little signal. They are narrowed to longer prefixes and
+// suffixes, and left out (keeping matching near-linear) only if still this big.
+const MAX_BLOCK_SIZE = 2000;
+const BLOCK_PREFIX_LENGTH = 3;
+const NARROW_BLOCK_PREFIX_LENGTH = 6;
+// Keys compared on each side of a key's place in sorted order, forwards and backwards. Catches typos
+// inside both the prefix and the suffix of single-word keys, which share no block.
+const NEIGHBOURHOOD_SIZE = 5;
+
+export interface FuzzyKeyMatch {
+  key: string; // Matched key in the target file
+  score: number; // Similarity from 0 to 100
+}
+
+// Scoring always ignores case, accents and spacing, whatever the candidate's normalization rules are
+const prepareForScoring = (key: string) => key
+  .split(KEY_PART_SEPARATOR).join(' ')
+  .normalize('NFKD').replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/[^\p{L}\p{N}]+/gu, ' ')
+  .trim();
+
+export const jaroWinkler = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+
+  const matchWindow = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatches = new Array(a.length).fill(false);
+  const bMatches = new Array(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - matchWindow);
+    const end = Math.min(i + matchWindow + 1, b.length);
+    for (let j = start; j < end; j++) {
+      if (bMatches[j] || a[i] !== b[j]) continue;
+      aMatches[i] = true;
+      bMatches[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatches[i]) continue;
+    while (!bMatches[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+const levenshteinRatio = (a: string, b: string): number => {
+  const total = a.length + b.length;
+  return total === 0 ? 1 : (total - levenshtein(a, b)) / total;
+};
+
+/**
+ * Token set ratio: word order and repeated or extra words don't matter ("Acme Corp" vs "Corp Acme Ltd")
+ */
+export const tokenSetRatio = (a: string, b: string): number => {
+  const tokensA = new Set(a.split(' ').filter(Boolean));
+  const tokensB = new Set(b.split(' ').filter(Boolean));
+  const common = [...tokensA].filter(t => tokensB.has(t)).sort().join(' ');
+  const onlyA = [...tokensA].filter(t => !tokensB.has(t)).sort().join(' ');
+  const onlyB = [...tokensB].filter(t => !tokensA.has(t)).sort().join(' ');
+  const withA = [common, onlyA].filter(Boolean).join(' ');
+  const withB = [common, onlyB].filter(Boolean).join(' ');
+  return Math.max(
+    common ? levenshteinRatio(common, withA) : 0,
+    common ? levenshteinRatio(common, withB) : 0,
+    levenshteinRatio(withA, withB)
+  );
+};
+
+const trigrams = (text: string): Set<string> => {
+  const padded = `  ${text} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) grams.add(padded.slice(i, i + 3));
+  return grams;
+};
+
+/**
+ * Dice coefficient over character trigrams
+ */
+export const ngramSimilarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  const gramsA = trigrams(a);
+  const gramsB = trigrams(b);
+  let shared = 0;
+  gramsA.forEach(g => { if (gramsB.has(g)) shared++; });
+  return (2 * shared) / (gramsA.size + gramsB.size);
+};
+
+/**
+ * Similarity of two keys from 0 to 100 using the chosen algorithm
+ */
+export const scoreSimilarity = (a: string, b: string, algorithm: FuzzyAlgorithm): number => {
+  const left = prepareForScoring(a);
+  const right = prepareForScoring(b);
+  let score: number;
+  switch (algorithm) {
+    case FuzzyAlgorithm.TOKEN_SET:
+      score = tokenSetRatio(left, right);
+      break;
+    case FuzzyAlgorithm.NGRAM:
+      score = ngramSimilarity(left, right);
+      break;
+    case FuzzyAlgorithm.JARO_WINKLER:
+    default:
+      score = jaroWinkler(left, right);
+  }
+  return Math.round(score * 1000) / 10;
+};
+
+// A word's first (^) or last ($) few characters
+const blockKey = (token: string, side: '^' | '$', length: number) =>
+  `${side}${length}:${side === '^' ? token.slice(0, length) : token.slice(-length)}`;
+
+const getTokens = (prepared: string) => prepared.split(' ').filter(Boolean);
+
+const reverseText = (text: string) => [...text].reverse().join('');
+
+interface SortedKey {
+  text: string; // Prepared key, reversed in the backwards order
+  key: string;
+}
+
+interface BlockIndex {
+  blocks: Map<string, string[]>;
+  forwards: SortedKey[];
+  backwards: SortedKey[];
+}
+
+const compareText = (a: SortedKey, b: SortedKey) => a.text < b.text ? -1 : a.text > b.text ? 1 : 0;
+
+const buildBlockIndex = (targetKeys: string[]): BlockIndex => {
+  const blocks = new Map<string, string[]>();
+  const forwards: SortedKey[] = [];
+  const backwards: SortedKey[] = [];
+  targetKeys.forEach(key => {
+    const prepared = prepareForScoring(key);
+    const keyBlocks = new Set<string>();
+    getTokens(prepared).forEach(token => {
+      [BLOCK_PREFIX_LENGTH, NARROW_BLOCK_PREFIX_LENGTH].forEach(length => {
+        keyBlocks.add(blockKey(token, '^', length));
+        keyBlocks.add(blockKey(token, '$', length));
+      });
+    });
+    keyBlocks.forEach(block => {
+      if (!blocks.has(block)) blocks.set(block, []);
+      blocks.get(block)!.push(key);
+    });
+    forwards.push({ text: prepared, key });
+    backwards.push({ text: reverseText(prepared), key });
+  });
+  forwards.sort(compareText);
+  backwards.sort(compareText);
+  return { blocks, forwards, backwards };
+};
+
+// Position of the first entry not before text
+const lowerBound = (sorted: SortedKey[], text: string) => {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid].text < text) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+/**
+ * Target keys worth scoring against a source key: those sharing a block with it, plus its neighbours
+ * in sorted order. isLimited is set when a block was too big to use even after narrowing.
+ */
+const findCandidates = (index: BlockIndex, source: string): { candidates: Set<string>; isLimited: boolean } => {
+  const prepared = prepareForScoring(source);
+  const candidates = new Set<string>();
+  let isLimited = false;
+
+  getTokens(prepared).forEach(token => {
+    (['^', '$'] as const).forEach(side => {
+      const wide = index.blocks.get(blockKey(token, side, BLOCK_PREFIX_LENGTH));
+      if (!wide) return;
+      const members = wide.length <= MAX_BLOCK_SIZE ? wide : index.blocks.get(blockKey(token, side, NARROW_BLOCK_PREFIX_LENGTH));
+      if (members && members.length > MAX_BLOCK_SIZE) isLimited = true;
+      else members?.forEach(m => candidates.add(m));
+    });
+  });
+
+  [[index.forwards, prepared], [index.backwards, reverseText(prepared)]].forEach(([sorted, text]) => {
+    const list = sorted as SortedKey[];
+    const at = lowerBound(list, text as string);
+    const end = Math.min(list.length, at + NEIGHBOURHOOD_SIZE);
+    for (let i = Math.max(0, at - NEIGHBOURHOOD_SIZE); i < end; i++) candidates.add(list[i].key);
+  });
+
+  return { candidates, isLimited };
+};
+
+/**
+ * Source keys that could only be compared with part of the target keys, because a block they are in
+ * stayed too big after narrowing. Their best match may be missed.
+ */
+export const findLimitedKeys = (sourceKeys: string[], targetKeys: string[]): string[] => {
+  const targetSet = new Set(targetKeys);
+  const index = buildBlockIndex(targetKeys);
+  return sourceKeys.filter(source => !targetSet.has(source) && findCandidates(index, source).isLimited);
+};
+
+/**
+ * Finds the best matching target key for every source key, scoring only keys that share a block or sit
+ * next to it in sorted order. Exact matches short-circuit with a score of 100.
+ */
+export const matchKeysFuzzy = (sourceKeys: string[], targetKeys: string[], options: FuzzyMatchOptions): Map<string, FuzzyKeyMatch> => {
+  const targetSet = new Set(targetKeys);
+  const index = buildBlockIndex(targetKeys);
+
+  const matches = new Map<string, FuzzyKeyMatch>();
+  sourceKeys.forEach(source => {
+    if (targetSet.has(source)) {
+      matches.set(source, { key: source, score: 100 });
+      return;
+    }
+
+    const { candidates } = findCandidates(index, source);
+    let best: FuzzyKeyMatch | null = null;
+    candidates.forEach(target => {
+      const score = scoreSimilarity(source, target, options.algorithm);
+      if (score >= options.threshold && (!best || score > best.score)) {
+        best = { key: target, score };
+      }
+    });
+    if (best) matches.set(source, best);
+  });
+
+  return matches;
+};
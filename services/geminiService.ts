@@ -1,11 +1,16 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { ParsedFile, JoinCandidate, AIContext } from '../types';
+import { ParsedFile, JoinCandidate, AIContext, JoinAnalysis, UnionColumn } from '../types';
+import { normalizeCandidateMappings } from './keyService';
+import { buildJoinGraphFromPairs } from './joinGraphService';
+import { buildUnionColumnsFromGroups } from './unionService';
 
 // Helper to sanitize data for the prompt to avoid token limits with massive files
 const prepareFileSummary = (file: ParsedFile) => {
   return {
     fileName: file.name,
     headers: file.headers,
+    // Locally inferred types are more reliable than guessing from three rows
+    columnTypes: Object.fromEntries((file.schema || []).map(col => [col.name, col.type])),
     // Take a small sample of unique values for each header to help with type/content inference
     sampleData: file.previewData.slice(0, 3).map(row => {
       // Create a simplified row object matching headers to values
@@ -18,7 +23,7 @@ const prepareFileSummary = (file: ParsedFile) => {
   };
 };
 
-export const analyzeFilesForJoin = async (files: ParsedFile[]): Promise<JoinCandidate[]> => {
+export const analyzeFilesForJoin = async (files: ParsedFile[]): Promise<JoinAnalysis> => {
   try {
     const apiKey = process.env.API_KEY;
     if (!apiKey) {
@@ -34,12 +39,19 @@ export const analyzeFilesForJoin = async (files: ParsedFile[]): Promise<JoinCand
       
       Consider:
       1. Column names (fuzzy matching, synonyms like 'id', 'user_id', 'userId').
-      2. Data content samples (do they look like keys? e.g., emails, UUIDs, integer IDs).
+      2. Data content samples and the provided columnTypes (do they look like keys? e.g., emails, UUIDs, integer IDs).
+         Columns of different types (e.g. ID with leading zeros vs INTEGER) may need normalization to match.
       3. Uniqueness and potential nulls.
+      4. Composite keys: if no single column identifies a row, propose an ordered combination of columns
+         (e.g. StoreID + Date, or FirstName + LastName + DOB). List the columns in the same order for every file.
       
       Return a JSON object containing a list of 'candidates'. 
       Each candidate represents a potential join key strategy.
       Order candidates by confidence score (highest first).
+
+      Files often link through different keys (e.g. Customers -> Orders on CustomerID, then Orders -> Shipments on OrderID).
+      When there are more than two files, also return 'pairKeys': the best key for each pair of files that should be joined
+      directly, forming a chain or tree that connects as many files as possible. Leave it empty if one shared key fits all files.
       
       Datasets:
       ${JSON.stringify(fileSummaries, null, 2)}
@@ -76,7 +88,15 @@ export const analyzeFilesForJoin = async (files: ParsedFile[]): Promise<JoinCand
                       type: Type.OBJECT,
                       properties: {
                         fileName: { type: Type.STRING },
-                        columnName: { type: Type.STRING }
+                        columnName: {
+                          type: Type.STRING,
+                          description: "The key column in this file (the first column for composite keys)."
+                        },
+                        columnNames: {
+                          type: Type.ARRAY,
+                          items: { type: Type.STRING },
+                          description: "Ordered list of key columns in this file. Use more than one only for composite keys."
+                        }
                       }
                     }
                   },
@@ -88,6 +108,28 @@ export const analyzeFilesForJoin = async (files: ParsedFile[]): Promise<JoinCand
                 },
                 required: ["keyName", "confidenceScore", "reasoning", "columnMappings"]
               }
+            },
+            pairKeys: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  leftFileName: { type: Type.STRING },
+                  rightFileName: { type: Type.STRING },
+                  leftColumns: {
+                    type: Type.ARRAY,
+                    items: { type: Type.STRING },
+                    description: "Ordered key columns in the left file."
+                  },
+                  rightColumns: {
+                    type: Type.ARRAY,
+                    items: { type: Type.STRING },
+                    description: "Matching key columns in the right file, in the same order."
+                  },
+                  reasoning: { type: Type.STRING }
+                },
+                required: ["leftFileName", "rightFileName", "leftColumns", "rightColumns"]
+              }
             }
           }
         }
@@ -99,7 +141,10 @@ export const analyzeFilesForJoin = async (files: ParsedFile[]): Promise<JoinCand
     }
 
     const result = JSON.parse(response.text);
-    return result.candidates as JoinCandidate[];
+    return {
+      candidates: (result.candidates as JoinCandidate[]).map(normalizeCandidateMappings),
+      joinGraph: buildJoinGraphFromPairs(result.pairKeys || [], files)
+    };
 
   } catch (error) {
     console.error("Gemini Analysis Error:", error);
@@ -107,6 +152,73 @@ export const analyzeFilesForJoin = async (files: ParsedFile[]): Promise<JoinCand
   }
 };
 
+export const suggestUnionAlignment = async (files: ParsedFile[]): Promise<UnionColumn[]> => {
+  try {
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) throw new Error("API Key not found");
+    const ai = new GoogleGenAI({ apiKey });
+    const summaries = files.map(prepareFileSummary);
+
+    const prompt = `
+      You are a data integration expert. The following ${files.length} datasets are extracts of the same kind of data
+      (e.g. monthly exports) whose columns have drifted over time. Their rows will be stacked into one table.
+
+      Group the columns that hold the same information across files, even when the headers differ
+      (e.g. 'Cust ID' and 'CustomerID', 'Amount' and 'Total (USD)'). Use the sample data and columnTypes to decide.
+      Give each group a clear output column name. Each column of a file can be in at most one group,
+      and a group has at most one column per file. Columns with no counterpart form a group on their own.
+
+      Datasets:
+      ${JSON.stringify(summaries, null, 2)}
+    `;
+
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            columns: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  outputName: { type: Type.STRING },
+                  sources: {
+                    type: Type.ARRAY,
+                    items: {
+                      type: Type.OBJECT,
+                      properties: {
+                        fileName: { type: Type.STRING },
+                        columnName: { type: Type.STRING }
+                      },
+                      required: ["fileName", "columnName"]
+                    }
+                  }
+                },
+                required: ["outputName", "sources"]
+              }
+            }
+          }
+        }
+      }
+    });
+
+    if (!response.text) {
+      throw new Error("No response from Gemini");
+    }
+
+    const result = JSON.parse(response.text);
+    return buildUnionColumnsFromGroups(files, result.columns || []);
+
+  } catch (error) {
+    console.error("Union Alignment Error:", error);
+    throw error;
+  }
+};
+
 export const generateMergePlan = async (files: ParsedFile[], candidate: JoinCandidate): Promise<string> => {
   try {
     const apiKey = process.env.API_KEY;
@@ -257,7 +369,7 @@ export const chatWithDataset = async (
       
       Dataset Metadata:
       - Name: ${file.name}
-      - Columns: ${file.headers.join(', ')}
+      - Columns: ${(file.schema || file.headers.map(name => ({ name, type: 'UNKNOWN' }))).map(col => `${col.name} (${col.type})`).join(', ')}
       - Row Count: ${file.rowCount}
       - Sample Data: ${JSON.stringify(summary.sampleData)}
 
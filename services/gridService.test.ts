@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { FilterOperator, GridView, ParsedFile } from '../types';
+import { EMPTY_GRID_VIEW, createColumnFilter, getViewRowIndexes, filterFile, isViewFiltered } from './gridService';
+import { withSchema } from './schemaService';
+
+const makeFile = (name: string, data: any[]): ParsedFile => withSchema({
+  id: name,
+  name,
+  size: 0,
+  headers: Object.keys(data[0]),
+  previewData: [],
+  data,
+  rowCount: data.length
+});
+
+const orders = makeFile('orders.csv', [
+  { id: 'A', amount: '100', placed: '2024-03-05', note: 'Rush' },
+  { id: 'B', amount: '9', placed: '2024-01-20', note: '' },
+  { id: 'C', amount: '', placed: '2024-02-11', note: 'rush order' },
+  { id: 'D', amount: '10', placed: '2023-12-31', note: 'normal' }
+]);
+
+const view = (changes: Partial<GridView>): GridView => ({ ...EMPTY_GRID_VIEW, ...changes });
+
+describe('getViewRowIndexes', () => {
+  it('sorts numbers as numbers, with blanks last both ways', () => {
+    expect(getViewRowIndexes(orders, view({ sort: { column: 'amount', direction: 'asc' } }))).toEqual([1, 3, 0, 2]);
+    expect(getViewRowIndexes(orders, view({ sort: { column: 'amount', direction: 'desc' } }))).toEqual([0, 3, 1, 2]);
+  });
+
+  it('filters date ranges and searches every column ignoring case', () => {
+    const range = { ...createColumnFilter('placed', FilterOperator.RANGE), min: '2024-01-01', max: '2024-02-29' };
+    expect(getViewRowIndexes(orders, view({ filters: [range] }))).toEqual([1, 2]);
+    expect(getViewRowIndexes(orders, view({ search: ' RUSH ' }))).toEqual([0, 2]);
+  });
+
+  it('ignores filters that are still being filled in', () => {
+    const blank = createColumnFilter('note', FilterOperator.EQUALS);
+    expect(isViewFiltered(view({ filters: [blank], search: '  ' }))).toBe(false);
+    expect(getViewRowIndexes(orders, view({ filters: [blank] }))).toEqual([0, 1, 2, 3]);
+    expect(getViewRowIndexes(orders, view({ filters: [createColumnFilter('note', FilterOperator.EMPTY)] }))).toEqual([1]);
+  });
+});
+
+describe('filterFile', () => {
+  it('keeps the view rows in order and records only complete filters', () => {
+    const filters = [{ ...createColumnFilter('amount', FilterOperator.IN_LIST), values: ['9', '10', ''] }, createColumnFilter('note')];
+    const saved = filterFile(orders, view({ filters, sort: { column: 'placed', direction: 'asc' } }), 'small orders');
+    expect(saved.data.map(r => r.id)).toEqual(['D', 'B']);
+    expect(saved.rowCount).toBe(2);
+    expect(saved.lineage).toEqual({
+      sourceFileId: 'orders.csv',
+      step: { type: 'filter', config: { search: '', filters: [filters[0]], sort: { column: 'placed', direction: 'asc' } } }
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { ParsedFile, ColumnType, ColumnFilter, FilterOperator, GridView, ProgressCallback } from '../types';
+import { formatValue, getColumnType } from './schemaService';
+import { toTimestamp } from './temporalService';
+import { getCleanFileName, toDerivedFile } from './dataService';
+
+export const FILTER_OPERATOR_LABELS: Record<FilterOperator, string> = {
+  [FilterOperator.EQUALS]: 'Equals',
+  [FilterOperator.CONTAINS]: 'Contains',
+  [FilterOperator.RANGE]: 'Between',
+  [FilterOperator.EMPTY]: 'Is empty',
+  [FilterOperator.NOT_EMPTY]: 'Is not empty',
+  [FilterOperator.IN_LIST]: 'In list'
+};
+
+export const EMPTY_GRID_VIEW: GridView = { search: '', filters: [], sort: null };
+
+const PROGRESS_INTERVAL = 5000;
+
+const isEmpty = (val: any) => val === null || val === undefined || (typeof val === 'string' && val.trim() === '');
+
+const toNumber = (val: any): number | null => {
+  if (typeof val === 'number') return isFinite(val) ? val : null;
+  const num = Number(String(val).replace(/,/g, '').trim());
+  return isFinite(num) ? num : null;
+};
+
+type Comparable = number | string | null;
+
+// Numbers and dates compare as numbers; anything that doesn't parse falls back to case-insensitive text
+const toComparable = (val: any, type?: ColumnType): Comparable => {
+  if (isEmpty(val)) return null;
+  if (type === ColumnType.BOOLEAN) {
+    const text = String(val).trim().toLowerCase();
+    if (text === 'true' || text === 'false') return text === 'true' ? 1 : 0;
+  }
+  if (type === ColumnType.INTEGER || type === ColumnType.DECIMAL) {
+    const num = toNumber(val);
+    if (num !== null) return num;
+  }
+  if (type === ColumnType.DATE) {
+    const time = toTimestamp(val);
+    if (time !== null) return time;
+  }
+  return formatValue(val, type).trim().toLowerCase();
+};
+
+const compareComparable = (a: Comparable, b: Comparable) => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+};
+
+/**
+ * A filter on the column with the fields its operator needs, left blank
+ */
+export const createColumnFilter = (column: string, operator: FilterOperator = FilterOperator.CONTAINS): ColumnFilter => {
+  switch (operator) {
+    case FilterOperator.RANGE:
+      return { column, operator, min: '', max: '' };
+    case FilterOperator.IN_LIST:
+      return { column, operator, values: [] };
+    case FilterOperator.EMPTY:
+    case FilterOperator.NOT_EMPTY:
+      return { column, operator };
+    default:
+      return { column, operator, value: '' };
+  }
+};
+
+/**
+ * False while the filter is still being filled in; such filters don't hide any rows
+ */
+export const isFilterComplete = (filter: ColumnFilter) => {
+  switch (filter.operator) {
+    case FilterOperator.EQUALS:
+    case FilterOperator.CONTAINS:
+      return !!filter.value?.trim();
+    case FilterOperator.RANGE:
+      return !!filter.min?.trim() || !!filter.max?.trim();
+    case FilterOperator.IN_LIST:
+      return (filter.values || []).some(v => v.trim());
+    default:
+      return true;
+  }
+};
+
+// Short label for filter chips, e.g. "Amount between 10 and 20"
+export const describeFilter = (filter: ColumnFilter) => {
+  switch (filter.operator) {
+    case FilterOperator.EQUALS:
+      return `${filter.column} = ${filter.value}`;
+    case FilterOperator.CONTAINS:
+      return `${filter.column} contains "${filter.value}"`;
+    case FilterOperator.RANGE:
+      if (!filter.max?.trim()) return `${filter.column} ≥ ${filter.min}`;
+      if (!filter.min?.trim()) return `${filter.column} ≤ ${filter.max}`;
+      return `${filter.column} between ${filter.min} and ${filter.max}`;
+    case FilterOperator.EMPTY:
+      return `${filter.column} is empty`;
+    case FilterOperator.NOT_EMPTY:
+      return `${filter.column} is not empty`;
+    case FilterOperator.IN_LIST:
+      return `${filter.column} in (${(filter.values || []).filter(v => v.trim()).join(', ')})`;
+  }
+};
+
+// Parses the filter's text once so each row only does comparisons
+const compileFilter = (file: ParsedFile, filter: ColumnFilter): ((row: any) => boolean) => {
+  const type = getColumnType(file, filter.column);
+  const cell = (row: any) => row[filter.column];
+  switch (filter.operator) {
+    case FilterOperator.EMPTY:
+      return row => isEmpty(cell(row));
+    case FilterOperator.NOT_EMPTY:
+      return row => !isEmpty(cell(row));
+    case FilterOperator.CONTAINS: {
+      const needle = filter.value!.trim().toLowerCase();
+      return row => formatValue(cell(row), type).toLowerCase().includes(needle);
+    }
+    case FilterOperator.EQUALS:
+    case FilterOperator.IN_LIST: {
+      const targets = (filter.operator === FilterOperator.EQUALS ? [filter.value!] : filter.values!).filter(v => v.trim());
+      const set = new Set(targets.map(v => toComparable(v, type)));
+      return row => set.has(toComparable(cell(row), type));
+    }
+    case FilterOperator.RANGE: {
+      const min = filter.min?.trim() ? toComparable(filter.min, type) : null;
+      const max = filter.max?.trim() ? toComparable(filter.max, type) : null;
+      return row => {
+        const val = toComparable(cell(row), type);
+        if (val === null) return false;
+        return (min === null || compareComparable(val, min) >= 0) && (max === null || compareComparable(val, max) <= 0);
+      };
+    }
+  }
+};
+
+// Whether the view changes which rows show or their order; an unfiltered view shows the file as is
+export const isViewFiltered = (view: GridView) => view.filters.some(isFilterComplete) || !!view.search.trim() || !!view.sort;
+
+/**
+ * Positions in file.data of the rows the view shows, in display order. Blank values sort last
+ * in both directions; ties keep file order.
+ */
+export const getViewRowIndexes = (file: ParsedFile, view: GridView, onProgress?: ProgressCallback): number[] => {
+  const tests = view.filters.filter(isFilterComplete).map(f => compileFilter(file, f));
+  const search = view.search.trim().toLowerCase();
+  const types = file.headers.map(h => getColumnType(file, h));
+
+  const indexes: number[] = [];
+  file.data.forEach((row, index) => {
+    if ((index + 1) % PROGRESS_INTERVAL === 0) onProgress?.({ phase: 'Filtering', done: index + 1, total: file.data.length, unit: 'rows' });
+    if (!tests.every(test => test(row))) return;
+    if (search && !file.headers.some((h, i) => formatValue(row[h], types[i]).toLowerCase().includes(search))) return;
+    indexes.push(index);
+  });
+
+  const { sort } = view;
+  if (!sort) return indexes;
+  const type = getColumnType(file, sort.column);
+  const keys: Comparable[] = new Array(file.data.length);
+  indexes.forEach(i => { keys[i] = toComparable(file.data[i][sort.column], type); });
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  return indexes.sort((a, b) => {
+    const ka = keys[a];
+    const kb = keys[b];
+    if (ka === null || kb === null) return ka === kb ? a - b : ka === null ? 1 : -1;
+    return sign * compareComparable(ka, kb) || a - b;
+  });
+};
+
+/**
+ * A new workspace file holding only the rows of the view, in its order. Column types,
+ * including ones picked by hand, stay as they are on the source file.
+ */
+export const filterFile = (file: ParsedFile, view: GridView, name: string, onProgress?: ProgressCallback): ParsedFile => {
+  const rowIndexes = getViewRowIndexes(file, view, onProgress);
+  const data = rowIndexes.map(i => file.data[i]);
+  // Keep the pre-override values of the kept rows so retyped columns can still be undone
+  const originalColumns = file.originalColumns && Object.fromEntries(
+    Object.entries(file.originalColumns).map(([column, values]) => [column, rowIndexes.map(i => values[i])])
+  );
+  return toDerivedFile({
+    ...file,
+    originalColumns,
+    name,
+    data,
+    previewData: data.slice(0, 10),
+    rowCount: data.length,
+    aiContext: { chatHistory: [] }
+  }, file, { type: 'filter', config: { ...view, filters: view.filters.filter(isFilterComplete) } });
+};
+
+export const getViewFileName = (file: ParsedFile) => `${getCleanFileName(file.name)} filtered`;
+
+// Columns a view reads; search looks at every column, so it needs none in particular
+export const getViewColumns = (view: GridView) => [
+  ...view.filters.map(f => f.column),
+  ...(view.sort ? [view.sort.column] : [])
+];
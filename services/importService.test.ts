@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import { ColumnType } from '../types';
+import { parseWorkbookData, parseSheet } from './importService';
+import { getColumnType } from './schemaService';
+
+const toXlsx = (rows: any[][]) => {
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  const book = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(book, sheet, 'Sheet1');
+  return new Uint8Array(XLSX.write(book, { type: 'array', bookType: 'xlsx' }));
+};
+
+describe('parseWorkbookData', () => {
+  it('reads date-formatted cells as dates and leaves plain numbers alone', () => {
+    const data = toXlsx([
+      ['Order Date', 'Shipped Day', 'Amount'],
+      [new Date(2024, 0, 5), 45000, 10],
+      [new Date(2024, 0, 6, 10, 30), 45001, 12.5]
+    ]);
+    const workbook = parseWorkbookData(data, 'orders.xlsx', data.length);
+    const file = parseSheet(workbook, workbook.sheets[0]);
+    expect(getColumnType(file, 'Order Date')).toBe(ColumnType.DATE);
+    expect(file.data.map(r => r['Order Date'])).toEqual(['2024-01-05', '2024-01-06T10:30:00']);
+    expect(getColumnType(file, 'Shipped Day')).toBe(ColumnType.INTEGER);
+    expect(getColumnType(file, 'Amount')).toBe(ColumnType.DECIMAL);
+  });
+
+  it('keeps CSV cells as text until schema inference', () => {
+    const workbook = parseWorkbookData('id,when\n00123,2024-01-05\n00456,2024-01-06', 'ids.csv', 40);
+    const file = parseSheet(workbook, workbook.sheets[0]);
+    expect(getColumnType(file, 'id')).toBe(ColumnType.ID);
+    expect(file.data[0]).toEqual({ id: '00123', when: '2024-01-05' });
+  });
+});
+
+describe('merged header cells', () => {
+  it('line up with the rows when the sheet does not start at A1', () => {
+    const sheet = XLSX.utils.sheet_add_aoa(XLSX.utils.aoa_to_sheet([]), [
+      ['Q3', null, 'Q4', null],
+      ['Revenue', 'Cost', 'Revenue', 'Cost'],
+      [1, 2, 3, 4]
+    ], { origin: 'C3' });
+    sheet['!ref'] = 'C3:F5'; // As saved by tools that trim the used range
+    sheet['!merges'] = [XLSX.utils.decode_range('C3:D3'), XLSX.utils.decode_range('E3:F3')];
+    const book = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(book, sheet, 'Sheet1');
+    const data = new Uint8Array(XLSX.write(book, { type: 'array', bookType: 'xlsx' }));
+
+    const workbook = parseWorkbookData(data, 'quarters.xlsx', data.length);
+    expect(workbook.sheets[0].merges).toEqual([{ s: { r: 0, c: 0 }, e: { r: 0, c: 1 } }, { s: { r: 0, c: 2 }, e: { r: 0, c: 3 } }]);
+    const file = parseSheet(workbook, workbook.sheets[0]);
+    expect(file.headers).toEqual(['Q3 / Revenue', 'Q3 / Cost', 'Q4 / Revenue', 'Q4 / Cost']);
+  });
+});
@@ -0,0 +1,200 @@
+import * as XLSX from 'xlsx';
+import { ParsedFile, RawSheet, RawWorkbook, HeaderSettings, ProgressCallback } from '../types';
+import { withSchema, parseDateValue } from './schemaService';
+
+// How many rows from the top of a sheet are inspected when looking for the header
+const HEADER_SCAN_ROWS = 30;
+
+const isBlankCell = (cell: any) => cell === null || cell === undefined || String(cell).trim() === '';
+const isBlankRow = (row: any[]) => row.every(isBlankCell);
+const isTextCell = (cell: any) => typeof cell === 'string' && cell.trim() !== '' && isNaN(Number(cell));
+
+/**
+ * Extracts every sheet of a workbook (binary string or byte array) as a grid of raw cell values
+ */
+export const parseWorkbookData = (data: string | Uint8Array, fileName: string, size: number, onProgress?: ProgressCallback): RawWorkbook => {
+  let workbook: XLSX.WorkBook;
+  try {
+    // raw: keep CSV cells as text so values like "00123" survive until schema inference.
+    // cellDates: cells with a date number format come back as dates instead of serial numbers.
+    workbook = XLSX.read(data, { type: typeof data === 'string' ? 'binary' : 'array', raw: true, cellDates: true });
+  } catch (err) {
+    throw new Error(`Failed to parse ${fileName}`);
+  }
+
+  const sheets: RawSheet[] = workbook.SheetNames.map((sheetName, index) => {
+    onProgress?.({ phase: `Reading sheet ${sheetName}`, done: index, total: workbook.SheetNames.length, unit: 'sheets' });
+    const worksheet = workbook.Sheets[sheetName];
+    // Date cells become ISO text here, read in local time like Excel shows them
+    const rows = XLSX.utils.sheet_to_json<any[]>(worksheet, { header: 1, defval: null, blankrows: true })
+      .map(row => row.map(cell => cell instanceof Date ? parseDateValue(cell) : cell));
+    const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+    // rows start at the top-left of the used range, which isn't always A1; merges use sheet coordinates
+    const origin = worksheet['!ref'] ? XLSX.utils.decode_range(worksheet['!ref']).s : { r: 0, c: 0 };
+    const toRowCell = (cell: XLSX.CellAddress) => ({ r: cell.r - origin.r, c: cell.c - origin.c });
+    return {
+      name: sheetName,
+      rows,
+      rowCount: rows.filter(row => !isBlankRow(row)).length,
+      columnCount,
+      merges: (worksheet['!merges'] || []).map(m => ({ s: toRowCell(m.s), e: toRowCell(m.e) }))
+    };
+  });
+
+  if (sheets.every(sheet => sheet.rowCount === 0)) {
+    throw new Error(`File ${fileName} is empty`);
+  }
+
+  return { fileName, size, sheets };
+};
+
+/**
+ * Display name for a sheet. Single-sheet workbooks keep the plain file name.
+ */
+export const getSheetFileName = (workbook: RawWorkbook, sheet: RawSheet) => {
+  return workbook.sheets.length > 1 ? `${workbook.fileName} › ${sheet.name}` : workbook.fileName;
+};
+
+const rowHasMerge = (sheet: RawSheet, rowIndex: number) =>
+  (sheet.merges || []).some(m => m.s.r <= rowIndex && m.e.r >= rowIndex && m.e.c > m.s.c);
+
+/**
+ * Guesses where the real header is: skips title rows and blank spacer rows, and
+ * detects a second stacked header row when group labels are merged or repeated.
+ */
+export const detectHeaderSettings = (sheet: RawSheet): HeaderSettings => {
+  const scanRows = sheet.rows.slice(0, HEADER_SCAN_ROWS);
+  const fills = scanRows.map(row => row.filter(cell => !isBlankCell(cell)).length);
+  const maxFill = Math.max(0, ...fills);
+
+  let headerRowIndex = scanRows.findIndex((row, idx) => {
+    const filled = row.filter(cell => !isBlankCell(cell));
+    if (filled.length < Math.max(1, Math.ceil(maxFill * 0.5))) return false;
+    const textRatio = filled.filter(isTextCell).length / filled.length;
+    return textRatio >= 0.7;
+  });
+  if (headerRowIndex === -1) {
+    headerRowIndex = Math.max(0, fills.findIndex(f => f > 0));
+  }
+
+  // A sparse, all-text row directly above with two or more distinct labels is a group header ("Q3", "Q4")
+  const above = headerRowIndex > 0 ? sheet.rows[headerRowIndex - 1] || [] : [];
+  const aboveLabels = new Set(above.filter(cell => !isBlankCell(cell)).map(cell => String(cell).trim()));
+  if (aboveLabels.size >= 2 && above.every(cell => isBlankCell(cell) || isTextCell(cell))) {
+    return { headerRowIndex: headerRowIndex - 1, headerRowCount: 2 };
+  }
+
+  // The detected row itself holds group labels (merged, repeated or sparser than the row below) and the row below is all text
+  const headerRow = sheet.rows[headerRowIndex] || [];
+  const headerLabels = headerRow.filter(cell => !isBlankCell(cell)).map(cell => String(cell).trim());
+  const hasRepeatedLabels = new Set(headerLabels).size < headerLabels.length;
+  const below = sheet.rows[headerRowIndex + 1] || [];
+  const belowFilled = below.filter(cell => !isBlankCell(cell));
+  const looksGrouped = hasRepeatedLabels || rowHasMerge(sheet, headerRowIndex) || belowFilled.length > headerLabels.length;
+  if (looksGrouped && belowFilled.length > 0 && belowFilled.every(isTextCell)) {
+    return { headerRowIndex, headerRowCount: 2 };
+  }
+
+  return { headerRowIndex, headerRowCount: 1 };
+};
+
+/**
+ * Makes header names unique: blanks become "Column N", repeats become "Name (2)", "Name (3)"...
+ */
+export const makeUniqueHeaders = (names: string[]): string[] => {
+  const used = new Set<string>();
+  return names.map((name, idx) => {
+    const base = name.trim() || `Column ${idx + 1}`;
+    let candidate = base;
+    let n = 2;
+    while (used.has(candidate)) candidate = `${base} (${n++})`;
+    used.add(candidate);
+    return candidate;
+  });
+};
+
+/**
+ * Flattens the header rows described by settings into one name per column, e.g. "Q3 / Revenue"
+ */
+export const buildHeaders = (sheet: RawSheet, settings: HeaderSettings): string[] => {
+  const { headerRowIndex, headerRowCount } = settings;
+  const headerRows = Array.from({ length: headerRowCount }, (_, i) => {
+    const row = sheet.rows[headerRowIndex + i] || [];
+    return Array.from({ length: sheet.columnCount }, (_, c) => isBlankCell(row[c]) ? '' : String(row[c]).trim());
+  });
+
+  // Spread merged header cells across every column they cover
+  (sheet.merges || []).forEach(m => {
+    for (let r = Math.max(m.s.r, headerRowIndex); r <= Math.min(m.e.r, headerRowIndex + headerRowCount - 1); r++) {
+      const label = sheet.rows[m.s.r]?.[m.s.c];
+      if (isBlankCell(label)) continue;
+      for (let c = m.s.c; c <= m.e.c; c++) {
+        headerRows[r - headerRowIndex][c] = String(label).trim();
+      }
+    }
+  });
+
+  // Without merge info (e.g. CSV), group labels in upper rows apply until the next label
+  // for as long as the bottom header row still has sub-labels
+  if (!sheet.merges || sheet.merges.length === 0) {
+    const bottomRow = headerRows[headerRows.length - 1];
+    headerRows.slice(0, -1).forEach(row => {
+      for (let c = 1; c < row.length; c++) {
+        if (!row[c] && row[c - 1] && bottomRow[c]) row[c] = row[c - 1];
+      }
+    });
+  }
+
+  const names = Array.from({ length: sheet.columnCount }, (_, c) => {
+    const parts: string[] = [];
+    headerRows.forEach(row => {
+      const part = row[c];
+      if (part && parts[parts.length - 1] !== part) parts.push(part);
+    });
+    return parts.join(' / ');
+  });
+
+  return makeUniqueHeaders(names);
+};
+
+/**
+ * Converts a single sheet of a workbook into a ParsedFile using the given (or detected) header rows
+ */
+export const parseSheet = (workbook: RawWorkbook, sheet: RawSheet, settings: HeaderSettings = detectHeaderSettings(sheet)): ParsedFile => {
+  if (sheet.rowCount === 0) {
+    throw new Error(`Sheet ${sheet.name} in ${workbook.fileName} is empty`);
+  }
+
+  const allHeaders = buildHeaders(sheet, settings);
+  const bodyRows = sheet.rows.slice(settings.headerRowIndex + settings.headerRowCount).filter(row => !isBlankRow(row));
+
+  // Keep every column that has a header or at least one value, so headers and data stay aligned
+  const headerRows = sheet.rows.slice(settings.headerRowIndex, settings.headerRowIndex + settings.headerRowCount);
+  const keptColumns = allHeaders
+    .map((_, c) => c)
+    .filter(c => headerRows.some(row => !isBlankCell(row[c])) || bodyRows.some(row => !isBlankCell(row[c])));
+  const headers = keptColumns.map(c => allHeaders[c]);
+
+  const data = bodyRows.map(row => {
+    const record: any = {};
+    keptColumns.forEach((c, i) => {
+      const val = row[c];
+      if (val !== null && val !== undefined) record[headers[i]] = val;
+    });
+    return record;
+  });
+
+  // Size is apportioned by row count so multi-sheet workbooks don't report the whole file per sheet
+  const totalRows = workbook.sheets.reduce((sum, s) => sum + s.rowCount, 0) || 1;
+
+  // Typing the columns converts numbers, booleans and text dates in place
+  return withSchema({
+    id: Math.random().toString(36).substr(2, 9),
+    name: getSheetFileName(workbook, sheet),
+    size: Math.round(workbook.size * (sheet.rowCount / totalRows)),
+    headers,
+    previewData: data.slice(0, 10), // Top 10 rows for preview
+    data, // Store full data for joining later
+    rowCount: data.length
+  });
+};
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { JoinGraph, JoinType, ParsedFile } from '../types';
+import { runJoinGraph, buildJoinGraphFromPairs, getJoinStepError } from './joinGraphService';
+import { withSchema } from './schemaService';
+
+const makeFile = (name: string, data: any[]): ParsedFile => withSchema({
+  id: name,
+  name,
+  size: 0,
+  headers: Object.keys(data[0]),
+  previewData: [],
+  data,
+  rowCount: data.length
+});
+
+const customers = makeFile('customers.csv', [{ cid: '1', name: 'Ann' }, { cid: '2', name: 'Bob' }]);
+const orders = makeFile('orders.csv', [{ oid: 'A', cid: '1' }, { oid: 'B', cid: '1' }, { oid: 'C', cid: '9' }]);
+const shipments = makeFile('shipments.csv', [{ oid: 'B', carrier: 'UPS' }, { oid: 'Z', carrier: 'DHL' }]);
+
+const chain = (first: JoinType, second: JoinType): JoinGraph => ({
+  baseFileName: 'customers.csv',
+  steps: [
+    { leftFileName: 'customers.csv', rightFileName: 'orders.csv', leftColumns: ['cid'], rightColumns: ['cid'], joinType: first },
+    { leftFileName: 'orders.csv', rightFileName: 'shipments.csv', leftColumns: ['oid'], rightColumns: ['oid'], joinType: second }
+  ]
+});
+
+describe('runJoinGraph', () => {
+  it('joins each step on its own key', () => {
+    const rows = runJoinGraph([customers, orders, shipments], chain(JoinType.LEFT, JoinType.LEFT));
+    expect(rows.map(r => [r['customers - name'], r['orders - oid'], r['shipments - carrier']])).toEqual([
+      ['Ann', 'A', null],
+      ['Ann', 'B', 'UPS'],
+      ['Bob', null, null]
+    ]);
+  });
+
+  it('adds unmatched right rows after the rows that reached their step', () => {
+    const rows = runJoinGraph([customers, orders, shipments], chain(JoinType.OUTER, JoinType.OUTER));
+    expect(rows.map(r => [r['customers - name'], r['orders - oid'], r['shipments - oid']])).toEqual([
+      ['Ann', 'A', null],
+      ['Ann', 'B', 'B'],
+      ['Bob', null, null],
+      [null, 'C', null],
+      [null, null, 'Z']
+    ]);
+  });
+
+  it('stops once maxRows rows are out', () => {
+    const many = (name: string) => makeFile(name, Array.from({ length: 1000 }, (_, i) => ({ k: '1', n: i })));
+    const graph: JoinGraph = {
+      baseFileName: 'a.csv',
+      steps: [
+        { leftFileName: 'a.csv', rightFileName: 'b.csv', leftColumns: ['k'], rightColumns: ['k'], joinType: JoinType.INNER },
+        { leftFileName: 'b.csv', rightFileName: 'c.csv', leftColumns: ['k'], rightColumns: ['k'], joinType: JoinType.INNER }
+      ]
+    };
+    const rows = runJoinGraph([many('a.csv'), many('b.csv'), many('c.csv')], graph, 5);
+    expect(rows.map(r => [r['a - n'], r['b - n'], r['c - n']])).toEqual([[0, 0, 0], [0, 0, 1], [0, 0, 2], [0, 0, 3], [0, 0, 4]]);
+  });
+
+  it('refuses steps whose left file is not joined yet', () => {
+    const graph = chain(JoinType.LEFT, JoinType.LEFT);
+    const reversed = { ...graph, steps: [graph.steps[1], graph.steps[0]] };
+    expect(getJoinStepError(reversed, 0)).toContain('orders.csv');
+    expect(() => runJoinGraph([customers, orders, shipments], reversed)).toThrow('Step 1');
+  });
+});
+
+describe('buildJoinGraphFromPairs', () => {
+  it('orders and flips pairs so every step starts from a joined file', () => {
+    const graph = buildJoinGraphFromPairs([
+      { leftFileName: 'customers.csv', rightFileName: 'orders.csv', leftColumns: ['cid'], rightColumns: ['cid'] },
+      { leftFileName: 'shipments.csv', rightFileName: 'orders.csv', leftColumns: ['oid'], rightColumns: ['oid'] }
+    ], [customers, orders, shipments]);
+    expect(graph?.steps.map(s => [s.leftFileName, s.rightFileName])).toEqual([
+      ['customers.csv', 'orders.csv'],
+      ['orders.csv', 'shipments.csv']
+    ]);
+  });
+});
@@ -0,0 +1,213 @@
+import { ParsedFile, JoinCandidate, JoinType, JoinGraph, JoinStep, OutputColumn, ProgressCallback } from '../types';
+import { createKeyExtractor, getKeyColumnsForFile } from './keyService';
+import { getCleanFileName } from './dataService';
+
+export const CHAIN_JOIN_TYPES: JoinType[] = [JoinType.INNER, JoinType.LEFT, JoinType.RIGHT, JoinType.OUTER];
+
+/**
+ * Names of the files that are part of the result after the first `stepCount` steps
+ */
+export const getPipelineFileNames = (graph: JoinGraph, stepCount = graph.steps.length): string[] => {
+  return [graph.baseFileName, ...graph.steps.slice(0, stepCount).map(s => s.rightFileName)];
+};
+
+/**
+ * Starting point for the builder: the first file joined to each other file,
+ * reusing the columns of a shared-key candidate where it maps both files.
+ */
+export const createDefaultJoinGraph = (files: ParsedFile[], candidate?: JoinCandidate): JoinGraph => {
+  const [base, ...rest] = files;
+  return {
+    baseFileName: base?.name || '',
+    steps: rest.map(file => ({
+      leftFileName: base.name,
+      rightFileName: file.name,
+      leftColumns: candidate ? getKeyColumnsForFile(base, candidate) : [],
+      rightColumns: candidate ? getKeyColumnsForFile(file, candidate) : [],
+      joinType: JoinType.LEFT,
+      normalization: candidate?.normalization
+    }))
+  };
+};
+
+/**
+ * Orders AI-suggested pairs into a runnable chain: each step's left file must already be joined.
+ * Pairs are flipped when only their right file is in the chain so far; unreachable pairs are dropped.
+ */
+export const buildJoinGraphFromPairs = (pairs: Omit<JoinStep, 'joinType'>[], files: ParsedFile[]): JoinGraph | undefined => {
+  const known = new Set(files.map(f => f.name));
+  const valid = pairs.filter(p => known.has(p.leftFileName) && known.has(p.rightFileName) && p.leftFileName !== p.rightFileName);
+  if (valid.length === 0) return undefined;
+
+  const joined = new Set([valid[0].leftFileName]);
+  const remaining = [...valid];
+  const steps: JoinStep[] = [];
+  let progress = true;
+  while (remaining.length > 0 && progress) {
+    progress = false;
+    for (let i = 0; i < remaining.length; i++) {
+      const pair = remaining[i];
+      const leftIn = joined.has(pair.leftFileName);
+      const rightIn = joined.has(pair.rightFileName);
+      if (leftIn === rightIn) {
+        // Both already joined (a cycle) or neither yet (try again later)
+        if (leftIn) remaining.splice(i--, 1);
+        continue;
+      }
+      const step: JoinStep = leftIn
+        ? { ...pair, joinType: JoinType.LEFT }
+        : { ...pair, leftFileName: pair.rightFileName, rightFileName: pair.leftFileName, leftColumns: pair.rightColumns, rightColumns: pair.leftColumns, joinType: JoinType.LEFT };
+      steps.push(step);
+      joined.add(step.rightFileName);
+      remaining.splice(i--, 1);
+      progress = true;
+    }
+  }
+  return { baseFileName: valid[0].leftFileName, steps };
+};
+
+/**
+ * Explains why a step can't run yet, or returns null when it is ready
+ */
+export const getJoinStepError = (graph: JoinGraph, stepIndex: number): string | null => {
+  const step = graph.steps[stepIndex];
+  const available = getPipelineFileNames(graph, stepIndex);
+  if (!available.includes(step.leftFileName)) return `${step.leftFileName} is not joined before this step`;
+  if (available.includes(step.rightFileName)) return `${step.rightFileName} is already part of the result`;
+  if (step.leftColumns.length === 0 || step.rightColumns.length === 0) return 'Pick key columns on both sides';
+  if (step.leftColumns.length !== step.rightColumns.length) return 'Both sides need the same number of key columns';
+  return null;
+};
+
+// A two-file candidate so the pair can reuse the shared-key extractors (typing, normalization, composites)
+const toPairCandidate = (step: JoinStep): JoinCandidate => ({
+  keyName: step.leftColumns.join(' + '),
+  confidenceScore: 100,
+  reasoning: step.reasoning || '',
+  columnMappings: [
+    { fileName: step.leftFileName, columnName: step.leftColumns[0], columnNames: step.leftColumns },
+    { fileName: step.rightFileName, columnName: step.rightColumns[0], columnNames: step.rightColumns }
+  ],
+  normalization: step.normalization
+});
+
+/**
+ * The columns the chain produces, in order. fileIndex refers to the given files array.
+ */
+export const getJoinGraphOutputColumns = (files: ParsedFile[], graph: JoinGraph): OutputColumn[] => {
+  return getPipelineFileNames(graph).flatMap(name => {
+    const fileIndex = files.findIndex(f => f.name === name);
+    if (fileIndex < 0) return [];
+    const prefix = getCleanFileName(name);
+    return files[fileIndex].headers.map(col => ({ name: `${prefix} - ${col}`, fileIndex, sourceColumn: col }));
+  });
+};
+
+const prefixRow = (row: any, file: ParsedFile, prefix: string) => {
+  const out: any = {};
+  file.headers.forEach(col => out[`${prefix} - ${col}`] = row[col] ?? null);
+  return out;
+};
+
+const emptyRow = (columns: string[]) => Object.fromEntries(columns.map(col => [col, null]));
+
+// Long chains report progress every this many base rows
+const PROGRESS_INTERVAL = 5000;
+
+/**
+ * Runs the chain, joining each new file to the result so far on that step's own key, and stops once
+ * maxRows rows are out. Rows are pushed through every step one at a time instead of building each
+ * step's full result, in the same order a step-by-step run would give.
+ * Every column is prefixed with its file name, since each file keeps its own key columns. Chains
+ * therefore keep all columns: the output-column and coalesce settings of a shared key are per-candidate
+ * and have no counterpart on the steps, and prefixed names never collide.
+ */
+export const runJoinGraph = (files: ParsedFile[], graph: JoinGraph, maxRows = Infinity, onProgress?: ProgressCallback): any[] => {
+  const fileByName = new Map(files.map(f => [f.name, f]));
+  const base = fileByName.get(graph.baseFileName);
+  if (!base) throw new Error(`File not found: ${graph.baseFileName}`);
+
+  let columns = base.headers.map(col => `${getCleanFileName(base.name)} - ${col}`);
+  const stages = graph.steps.map((step, index) => {
+    const error = getJoinStepError(graph, index);
+    if (error) throw new Error(`Step ${index + 1}: ${error}`);
+    const left = fileByName.get(step.leftFileName)!;
+    const right = fileByName.get(step.rightFileName);
+    if (!right) throw new Error(`File not found: ${step.rightFileName}`);
+
+    onProgress?.({ phase: `Step ${index + 1}: indexing ${step.rightFileName}`, done: index, total: graph.steps.length, unit: 'steps' });
+    const pairCandidate = toPairCandidate(step);
+    const leftPrefix = getCleanFileName(left.name);
+    const rightPrefix = getCleanFileName(right.name);
+    const rightColumns = right.headers.map(col => `${rightPrefix} - ${col}`);
+
+    // The left key is read from the prefixed columns already in the result
+    const getLeftKey = createKeyExtractor(left, pairCandidate);
+    const readLeftKey = (row: any) => getLeftKey(Object.fromEntries(step.leftColumns.map(col => [col, row[`${leftPrefix} - ${col}`]])));
+    const getRightKey = createKeyExtractor(right, pairCandidate);
+
+    const rightByKey = new Map<string, any[]>();
+    right.data.forEach(row => {
+      const key = getRightKey(row);
+      if (key === '') return;
+      if (!rightByKey.has(key)) rightByKey.set(key, []);
+      rightByKey.get(key)!.push(row);
+    });
+
+    const stage = {
+      right,
+      rightPrefix,
+      rightColumns,
+      columnsBefore: columns,
+      readLeftKey,
+      getRightKey,
+      rightByKey,
+      keepUnmatchedLeft: step.joinType === JoinType.LEFT || step.joinType === JoinType.OUTER,
+      keepUnmatchedRight: step.joinType === JoinType.RIGHT || step.joinType === JoinType.OUTER,
+      matchedRightKeys: new Set<string>()
+    };
+    columns = [...columns, ...rightColumns];
+    return stage;
+  });
+
+  const result: any[] = [];
+  // Takes a row that has been through the steps before `from` through the rest of the chain
+  const pushThrough = (row: any, from: number) => {
+    if (result.length >= maxRows) return;
+    if (from === stages.length) {
+      result.push(row);
+      return;
+    }
+    const stage = stages[from];
+    const key = stage.readLeftKey(row);
+    const matches = key !== '' ? stage.rightByKey.get(key) : undefined;
+    if (matches) {
+      stage.matchedRightKeys.add(key);
+      for (const match of matches) {
+        if (result.length >= maxRows) return;
+        pushThrough({ ...row, ...prefixRow(match, stage.right, stage.rightPrefix) }, from + 1);
+      }
+    } else if (stage.keepUnmatchedLeft) {
+      pushThrough({ ...row, ...emptyRow(stage.rightColumns) }, from + 1);
+    }
+  };
+
+  const basePrefix = getCleanFileName(base.name);
+  for (let i = 0; i < base.data.length && result.length < maxRows; i++) {
+    if ((i + 1) % PROGRESS_INTERVAL === 0) onProgress?.({ phase: 'Joining the chain', done: i + 1, total: base.data.length, unit: 'rows', rows: result.length });
+    pushThrough(prefixRow(base.data[i], base, basePrefix), 0);
+  }
+
+  // Unmatched right rows come after every row that reached their step, so each step's set of matched
+  // keys is complete by the time they are added
+  stages.forEach((stage, index) => {
+    if (!stage.keepUnmatchedRight) return;
+    for (const row of stage.right.data) {
+      if (result.length >= maxRows) return;
+      if (stage.matchedRightKeys.has(stage.getRightKey(row))) continue;
+      pushThrough({ ...emptyRow(stage.columnsBefore), ...prefixRow(row, stage.right, stage.rightPrefix) }, index + 1);
+    }
+  });
+
+  return result;
+};
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { AsOfDirection, JoinCandidate, JoinType, KeyQuality, ParsedFile } from '../types';
+import { assessKeyQuality, isLowOverlap, rankCandidates } from './keyQualityService';
+import { withSchema } from './schemaService';
+
+const makeFile = (name: string, data: any[]): ParsedFile => withSchema({
+  id: name,
+  name,
+  size: 0,
+  headers: Object.keys(data[0]),
+  previewData: [],
+  data,
+  rowCount: data.length
+});
+
+const candidate = (mappings: [string, string][], extra: Partial<JoinCandidate> = {}): JoinCandidate => ({
+  keyName: 'Key',
+  confidenceScore: 90,
+  reasoning: '',
+  columnMappings: mappings.map(([fileName, columnName]) => ({ fileName, columnName })),
+  ...extra
+});
+
+const quality = (overlap: number): KeyQuality => ({ files: [], sharedKeys: 0, overlap, typeIssues: [] });
+
+describe('assessKeyQuality', () => {
+  const customers = makeFile('customers.csv', [{ id: 'A1' }, { id: 'B2' }, { id: 'C3' }, { id: '' }]);
+  const orders = makeFile('orders.csv', [{ cust: 'a1' }, { cust: 'a1' }, { cust: 'B2' }, { cust: 'Z9' }]);
+  const key = candidate([['customers.csv', 'id'], ['orders.csv', 'cust']]);
+
+  it('measures blanks, uniqueness and matched rows per file', () => {
+    const result = assessKeyQuality([customers, orders], key);
+    expect(result.files[0]).toMatchObject({ rows: 4, blankRows: 1, distinctKeys: 3, uniqueness: 1, matchedRows: 1 });
+    expect(result.files[1]).toMatchObject({ rows: 4, blankRows: 0, distinctKeys: 3, uniqueness: 0.75, matchedRows: 1 });
+    expect(result.sharedKeys).toBe(1);
+    expect(result.overlap).toBeCloseTo(1 / 3);
+  });
+
+  it('applies the candidate matching rules', () => {
+    const result = assessKeyQuality([customers, orders], { ...key, normalization: { caseInsensitive: true } });
+    expect(result.sharedKeys).toBe(2);
+    expect(result.files[1].matchedRows).toBe(3);
+  });
+
+  it('flags key columns of different types', () => {
+    const counts = makeFile('counts.csv', [{ n: '1' }, { n: '2' }]);
+    const labels = makeFile('labels.csv', [{ n: 'one' }, { n: 'two' }]);
+    const [issue] = assessKeyQuality([counts, labels], candidate([['counts.csv', 'n'], ['labels.csv', 'n']])).typeIssues;
+    expect(issue).toContain('counts.csv');
+    expect(issue).toContain('labels.csv');
+  });
+});
+
+describe('rankCandidates', () => {
+  const candidates = [candidate([]), candidate([]), candidate([])];
+  const qualities = [quality(0), quality(0.5), quality(0.9)];
+
+  it('moves keys the files barely share to the end', () => {
+    expect(rankCandidates(candidates, qualities, JoinType.INNER)).toEqual([1, 2, 0]);
+  });
+
+  it('keeps the order for joins that do not need exact key matches', () => {
+    expect(rankCandidates(candidates, qualities, JoinType.FUZZY)).toEqual([0, 1, 2]);
+    expect(isLowOverlap(qualities[0], candidate([], { temporal: { anchorDateColumn: 'd', direction: AsOfDirection.BACKWARD, matchKey: false, files: [] } }), JoinType.ASOF)).toBe(false);
+    expect(isLowOverlap(qualities[0], candidates[0], JoinType.ASOF)).toBe(true);
+  });
+});
@@ -0,0 +1,108 @@
+import { ParsedFile, JoinCandidate, JoinType, ColumnType, KeyQuality, FileKeyQuality, ProgressCallback } from '../types';
+import { createKeyExtractor, getKeyColumnsForFile } from './keyService';
+import { getColumnType, COLUMN_TYPE_LABELS } from './schemaService';
+
+// Candidates sharing fewer keys than this would match next to nothing, whatever the AI's confidence
+export const LOW_OVERLAP_THRESHOLD = 0.01;
+
+// Integers and decimals normalize to the same key text, so mixing them is not a problem
+const getTypeFamily = (type?: ColumnType) => type === ColumnType.DECIMAL ? ColumnType.INTEGER : type;
+
+const findTypeIssues = (files: ParsedFile[], candidate: JoinCandidate): string[] => {
+  const columnsPerFile = files.map(f => getKeyColumnsForFile(f, candidate));
+  const issues = files.filter((_, i) => columnsPerFile[i].length === 0).map(f => `${f.name} has no key column`);
+  const parts = Math.max(0, ...columnsPerFile.map(cols => cols.length));
+  for (let part = 0; part < parts; part++) {
+    const typed = files
+      .map((file, i) => ({ file, column: columnsPerFile[i][part] }))
+      .filter(t => t.column)
+      .map(t => ({ ...t, type: getColumnType(t.file, t.column) }))
+      .filter(t => t.type);
+    if (new Set(typed.map(t => getTypeFamily(t.type))).size > 1) {
+      issues.push(typed.map(t => `${t.column} is ${COLUMN_TYPE_LABELS[t.type!]} in ${t.file.name}`).join(', '));
+    }
+  }
+  return issues;
+};
+
+/**
+ * Measures a candidate key on every row of the files: blank keys, how unique the key is in each
+ * file, and how many keys the files actually share after the candidate's normalization rules
+ */
+export const assessKeyQuality = (files: ParsedFile[], candidate: JoinCandidate): KeyQuality => {
+  const keyCounts = files.map(file => {
+    const getKey = createKeyExtractor(file, candidate);
+    const counts = new Map<string, number>();
+    file.data.forEach(row => {
+      const key = getKey(row);
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+    return counts;
+  });
+
+  const fileQualities: FileKeyQuality[] = files.map((file, i) => {
+    const counts = keyCounts[i];
+    const blankRows = counts.get('') || 0;
+    const distinctKeys = counts.size - (counts.has('') ? 1 : 0);
+    let matchedRows = 0;
+    counts.forEach((count, key) => {
+      if (key !== '' && keyCounts.some((other, j) => j !== i && other.has(key))) matchedRows += count;
+    });
+    return {
+      fileName: file.name,
+      rows: file.data.length,
+      blankRows,
+      distinctKeys,
+      uniqueness: distinctKeys / Math.max(1, file.data.length - blankRows),
+      matchedRows
+    };
+  });
+
+  // Count shared keys from the file with the fewest, the cheapest side to iterate
+  const smallest = keyCounts.reduce((min, counts) => counts.size < min.size ? counts : min, keyCounts[0] || new Map());
+  let sharedKeys = 0;
+  smallest.forEach((_, key) => {
+    if (key !== '' && keyCounts.every(counts => counts.has(key))) sharedKeys++;
+  });
+  const fewestKeys = Math.min(...fileQualities.map(f => f.distinctKeys));
+
+  return {
+    files: fileQualities,
+    sharedKeys,
+    overlap: fewestKeys > 0 ? sharedKeys / fewestKeys : 0,
+    typeIssues: findTypeIssues(files, candidate)
+  };
+};
+
+/**
+ * Quality of every candidate, in the same order
+ */
+export const assessCandidates = (files: ParsedFile[], candidates: JoinCandidate[], onProgress?: ProgressCallback): KeyQuality[] => {
+  return candidates.map((candidate, i) => {
+    onProgress?.({ phase: `Checking ${candidate.keyName}`, done: i, total: candidates.length, unit: 'keys' });
+    return assessKeyQuality(files, candidate);
+  });
+};
+
+/**
+ * Whether the join only pairs identical keys, so exact overlap predicts what it matches. Fuzzy joins
+ * also pair similar keys, and date joins that ignore the key don't look at it at all.
+ */
+export const usesExactKeys = (candidate: JoinCandidate, joinType: JoinType) => {
+  if (joinType === JoinType.FUZZY) return false;
+  if (joinType === JoinType.ASOF || joinType === JoinType.RANGE) return candidate.temporal?.matchKey ?? true;
+  return true;
+};
+
+export const isLowOverlap = (quality: KeyQuality | null | undefined, candidate: JoinCandidate, joinType: JoinType) =>
+  !!quality && usesExactKeys(candidate, joinType) && quality.overlap < LOW_OVERLAP_THRESHOLD;
+
+/**
+ * Candidate positions in display order: the AI's order, except that keys the files barely share
+ * move to the end (unless the join type doesn't need exact key matches)
+ */
+export const rankCandidates = (candidates: JoinCandidate[], qualities: (KeyQuality | null | undefined)[], joinType: JoinType): number[] => {
+  const isLow = candidates.map((candidate, i) => isLowOverlap(qualities[i], candidate, joinType));
+  const order = candidates.map((_, i) => i);
+  return [...order.filter(i => !isLow[i]), ...order.filter(i => isLow[i])];
+};
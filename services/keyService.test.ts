@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { ColumnType, JoinCandidate, ParsedFile } from '../types';
+import { normalizeKey, applyKeyNormalization, createKeyExtractor, getKeyColumnsError, splitKey, KEY_PART_SEPARATOR } from './keyService';
+import { withSchema } from './schemaService';
+
+const makeFile = (name: string, data: any[]): ParsedFile => withSchema({
+  id: name,
+  name,
+  size: 0,
+  headers: Object.keys(data[0]),
+  previewData: [],
+  data,
+  rowCount: data.length
+});
+
+describe('normalizeKey', () => {
+  it('brings typed values to one text form', () => {
+    expect(normalizeKey(101, ColumnType.INTEGER)).toBe('101');
+    expect(normalizeKey('101.0', ColumnType.DECIMAL)).toBe('101');
+    expect(normalizeKey('03/05/2024', ColumnType.DATE)).toBe('2024-03-05');
+    expect(normalizeKey('  A1 ')).toBe('A1');
+    expect(normalizeKey(null)).toBe('');
+  });
+});
+
+describe('applyKeyNormalization', () => {
+  it('applies each cleaning rule', () => {
+    expect(applyKeyNormalization('ABC', { caseInsensitive: true })).toBe('abc');
+    expect(applyKeyNormalization('00042', { stripLeadingZeros: true })).toBe('42');
+    expect(applyKeyNormalization('New  York ', { collapseWhitespace: true })).toBe('New York');
+    expect(applyKeyNormalization('A.B-1', { stripPunctuation: true })).toBe('AB1');
+    expect(applyKeyNormalization('Café', { foldAccents: true })).toBe('Cafe');
+    expect(applyKeyNormalization('Jo+news@X.com', { normalizeEmails: true })).toBe('jo@x.com');
+    expect(applyKeyNormalization('(555) 010-9999', { normalizePhones: true })).toBe('5550109999');
+  });
+
+  it('writes numbers canonically when stripping leading zeros', () => {
+    expect(applyKeyNormalization('101.50', { stripLeadingZeros: true })).toBe('101.5');
+    expect(applyKeyNormalization('101.0', { stripLeadingZeros: true })).toBe('101');
+    expect(applyKeyNormalization('000.50', { stripLeadingZeros: true })).toBe('0.5');
+    expect(applyKeyNormalization('1000', { stripLeadingZeros: true })).toBe('1000');
+  });
+
+  it('leaves plain digit strings alone when normalizing phones', () => {
+    expect(applyKeyNormalization('123456789012', { normalizePhones: true })).toBe('123456789012');
+  });
+});
+
+describe('composite keys', () => {
+  const orders = makeFile('orders.csv', [{ customer: 'C1', day: '2024-01-03', total: '5' }, { customer: 'C1', day: '', total: '2' }]);
+  const visits = makeFile('visits.csv', [{ cust: 'C1', date: '2024-01-03' }]);
+  const candidate: JoinCandidate = {
+    keyName: 'Customer + Day',
+    confidenceScore: 80,
+    reasoning: '',
+    columnMappings: [
+      { fileName: 'orders.csv', columnName: 'customer', columnNames: ['customer', 'day'] },
+      { fileName: 'visits.csv', columnName: 'cust', columnNames: ['cust', 'date'] }
+    ]
+  };
+
+  it('join their parts with a control character', () => {
+    expect(KEY_PART_SEPARATOR).toBe('\u001F');
+    const key = createKeyExtractor(orders, candidate)(orders.data[0]);
+    expect(splitKey(key)).toEqual(['C1', '2024-01-03']);
+    expect(createKeyExtractor(visits, candidate)(visits.data[0])).toBe(key);
+  });
+
+  it('are blank when any part is blank', () => {
+    expect(createKeyExtractor(orders, candidate)(orders.data[1])).toBe('');
+  });
+
+  it('need the same number of columns in every file', () => {
+    expect(getKeyColumnsError([orders, visits], candidate)).toBeNull();
+    const uneven = { ...candidate, columnMappings: [candidate.columnMappings[0], { fileName: 'visits.csv', columnName: 'cust', columnNames: ['cust'] }] };
+    expect(getKeyColumnsError([orders, visits], uneven)).toBe('Every file needs the same number of key columns (orders.csv has 2, visits.csv has 1)');
+  });
+});
@@ -0,0 +1,149 @@
+import { ParsedFile, JoinCandidate, ColumnType, KeyNormalizationOptions, KeyNormalizationOption } from '../types';
+import { parseDateValue, getColumnType } from './schemaService';
+
+// Joins the parts of a composite key: the ASCII unit separator, a control character that spreadsheet text doesn't contain
+export const KEY_PART_SEPARATOR = '\u001F';
+
+// Keys are compared as text, so typed columns are first brought to a canonical form (101.0 -> "101")
+export const normalizeKey = (val: any, type?: ColumnType) => {
+  if (val === null || val === undefined) return '';
+  if (type === ColumnType.INTEGER || type === ColumnType.DECIMAL) {
+    const num = typeof val === 'number' ? val : Number(String(val).trim());
+    if (String(val).trim() !== '' && !isNaN(num)) return String(num);
+  }
+  if (type === ColumnType.DATE) {
+    return parseDateValue(val, true) ?? String(val).trim();
+  }
+  return String(val).trim();
+};
+
+export const NORMALIZATION_OPTIONS: KeyNormalizationOption[] = [
+  'caseInsensitive',
+  'stripLeadingZeros',
+  'collapseWhitespace',
+  'stripPunctuation',
+  'foldAccents',
+  'normalizeEmails',
+  'normalizePhones'
+];
+
+export const NORMALIZATION_OPTION_LABELS: Record<KeyNormalizationOption, { title: string; example: string }> = {
+  caseInsensitive: { title: 'Ignore case', example: 'ABC = abc' },
+  stripLeadingZeros: { title: 'Strip leading zeros', example: '00042 = 42, 101.50 = 101.5' },
+  collapseWhitespace: { title: 'Collapse whitespace', example: '"New  York " = "New York"' },
+  stripPunctuation: { title: 'Remove punctuation', example: 'A.B-1 = AB1' },
+  foldAccents: { title: 'Fold accents', example: 'Café = Cafe' },
+  normalizeEmails: { title: 'Normalize emails', example: 'Jo+news@X.com = jo@x.com' },
+  normalizePhones: { title: 'Normalize phones', example: '(555) 010-9999 = 5550109999' }
+};
+
+const EMAIL_LIKE = /^[^\s@]+@[^\s@]+$/;
+const PHONE_LIKE = /^[+(]?[\d\s().\-/]{7,}$/;
+const PHONE_SEPARATOR = /[\s().\-+/]/;
+const ISO_DATE_LIKE = /^\d{4}-\d{2}-\d{2}/;
+// Phone numbers are compared on their last 10 digits, which drops country codes like +1 or 0044
+const PHONE_DIGITS = 10;
+
+/**
+ * Everything key extraction depends on, so checks keyed on it skip edits to unrelated settings
+ */
+export const getKeySignature = (candidate: JoinCandidate) => JSON.stringify([candidate.columnMappings, candidate.normalization || {}]);
+
+/**
+ * Applies the selected cleaning rules to a single (already type-normalized) key part
+ */
+export const applyKeyNormalization = (value: string, options?: KeyNormalizationOptions): string => {
+  if (!options || value === '') return value;
+  let text = value;
+
+  if (options.foldAccents) {
+    text = text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+  }
+  if (options.normalizeEmails && EMAIL_LIKE.test(text.trim())) {
+    const [local, domain] = text.trim().toLowerCase().split('@');
+    text = `${local.split('+')[0]}@${domain}`;
+  }
+  // Plain digit strings are left alone so long numeric IDs are never truncated
+  const looksLikePhone = PHONE_LIKE.test(text.trim()) && PHONE_SEPARATOR.test(text.trim()) && !ISO_DATE_LIKE.test(text.trim());
+  if (options.normalizePhones && looksLikePhone) {
+    const digits = text.replace(/\D/g, '');
+    if (digits.length >= 7) text = digits.slice(-PHONE_DIGITS);
+  }
+  if (options.caseInsensitive) {
+    text = text.toLowerCase();
+  }
+  if (options.stripPunctuation) {
+    text = text.replace(/[\p{P}\p{S}]/gu, '');
+  }
+  if (options.collapseWhitespace || options.stripPunctuation) {
+    text = text.replace(/\s+/g, ' ').trim();
+  }
+  // Numbers are written canonically: no leading zeros and no trailing zeros after the decimal point
+  if (options.stripLeadingZeros && /^\d+(\.\d+)?$/.test(text)) {
+    text = text.replace(/^0+(?=\d)/, '').replace(/(\.\d*?)0+$/, '$1').replace(/\.$/, '');
+  }
+  return text;
+};
+
+/**
+ * The ordered key columns a candidate uses for a file (one for simple keys, several for composite keys)
+ */
+export const getKeyColumnsForFile = (file: ParsedFile, candidate: JoinCandidate): string[] => {
+  const mapping = candidate.columnMappings.find(m => m.fileName === file.name);
+  if (!mapping) return [];
+  return mapping.columnNames && mapping.columnNames.length > 0 ? mapping.columnNames : [mapping.columnName];
+};
+
+export const isCompositeKey = (candidate: JoinCandidate) => {
+  return candidate.columnMappings.some(m => (m.columnNames?.length || 0) > 1);
+};
+
+/**
+ * Explains why a candidate's key columns can't be compared, or returns null when they can.
+ * Composite keys are matched part by part, so every mapped file needs the same number of columns.
+ */
+export const getKeyColumnsError = (files: ParsedFile[], candidate: JoinCandidate): string | null => {
+  const counts = files
+    .map(file => ({ name: file.name, count: getKeyColumnsForFile(file, candidate).length }))
+    .filter(f => f.count > 0);
+  if (new Set(counts.map(f => f.count)).size <= 1) return null;
+  return `Every file needs the same number of key columns (${counts.map(f => `${f.name} has ${f.count}`).join(', ')})`;
+};
+
+/**
+ * Returns a function that builds the normalized key of a row. Rows with any blank key part get ''
+ * so they never match anything.
+ */
+export const createKeyExtractor = (file: ParsedFile, candidate: JoinCandidate): ((row: any) => string) => {
+  const columns = getKeyColumnsForFile(file, candidate);
+  if (columns.length === 0) return () => '';
+  const types = columns.map(col => getColumnType(file, col));
+
+  return (row: any) => {
+    const parts: string[] = [];
+    for (let i = 0; i < columns.length; i++) {
+      const part = applyKeyNormalization(normalizeKey(row[columns[i]], types[i]), candidate.normalization);
+      if (part === '') return '';
+      parts.push(part);
+    }
+    return parts.join(KEY_PART_SEPARATOR);
+  };
+};
+
+export const splitKey = (key: string) => key.split(KEY_PART_SEPARATOR);
+
+/**
+ * Human readable form of a (possibly composite) key, e.g. "101 | 2024-01-03"
+ */
+export const formatKey = (key: string) => splitKey(key).join(' | ');
+
+/**
+ * Normalizes AI or user supplied mappings so columnName is always the first of columnNames
+ */
+export const normalizeCandidateMappings = (candidate: JoinCandidate): JoinCandidate => ({
+  ...candidate,
+  columnMappings: candidate.columnMappings.map(m => {
+    const columnNames = (m.columnNames && m.columnNames.length > 0 ? m.columnNames : [m.columnName]).filter(Boolean);
+    return { ...m, columnName: columnNames[0] || m.columnName, columnNames };
+  })
+});
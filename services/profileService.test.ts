@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { ParsedFile } from '../types';
+import { profileColumn, profileFile, isUniqueColumn } from './profileService';
+import { withSchema } from './schemaService';
+
+const makeFile = (name: string, data: any[]): ParsedFile => withSchema({
+  id: name,
+  name,
+  size: 0,
+  headers: Object.keys(data[0]),
+  previewData: [],
+  data,
+  rowCount: data.length
+});
+
+const orders = makeFile('orders.csv', [
+  { id: 'ORD-0001', amount: '10', placed: '2024-03-05', status: 'open' },
+  { id: 'ORD-0002', amount: '1,000', placed: '2024-01-20', status: 'open' },
+  { id: 'ORD-0003', amount: '  ', placed: '2024-02-11', status: 'closed' },
+  { id: 'ORD-0004', amount: '50', placed: '', status: 'open' }
+]);
+
+describe('profileColumn', () => {
+  it('counts blanks and distinct values, and spots identifier columns', () => {
+    const id = profileColumn(orders, 'id');
+    expect(id).toMatchObject({ nullCount: 0, distinctCount: 4, uniqueness: 1 });
+    expect(id.patterns).toEqual([{ value: 'AAA-9999', count: 4 }]);
+    expect(isUniqueColumn(id)).toBe(true);
+
+    const status = profileColumn(orders, 'status');
+    expect(status.topValues).toEqual([{ value: 'open', count: 3 }, { value: 'closed', count: 1 }]);
+    expect(isUniqueColumn(status)).toBe(false);
+  });
+
+  it('measures numeric and date ranges', () => {
+    expect(profileColumn(orders, 'amount')).toMatchObject({ nullCount: 1, min: 10, max: 1000, mean: 1060 / 3 });
+    expect(profileColumn(orders, 'placed')).toMatchObject({ nullCount: 1, min: '2024-01-20', max: '2024-03-05', mean: null });
+  });
+
+  it('warns about columns that mix kinds of values', () => {
+    const file = makeFile('prices.csv', [{ price: '1' }, { price: '2' }, { price: '3' }, { price: 'N/A' }]);
+    const price = profileColumn(file, 'price');
+    expect(price.kinds).toEqual({ number: 3, text: 1 });
+    expect(price.mixedTypeWarning).toBe('Mostly numbers (75.0%), but also 1 text values (e.g. "N/A")');
+    expect(price.min).toBe(1);
+  });
+
+  it('buckets text lengths', () => {
+    const file = makeFile('codes.csv', [{ code: 'a' }, { code: 'bb' }, { code: 'c'.repeat(21) }]);
+    const buckets = profileColumn(file, 'code').lengthHistogram;
+    expect(buckets[0]).toEqual({ min: 1, max: 3, count: 2 });
+    expect(buckets[buckets.length - 1]).toEqual({ min: 19, max: 21, count: 1 });
+    expect(buckets.reduce((sum, b) => sum + b.count, 0)).toBe(3);
+  });
+});
+
+describe('profileFile', () => {
+  it('profiles every column in order', () => {
+    expect(profileFile(orders).map(p => p.name)).toEqual(orders.headers);
+  });
+});
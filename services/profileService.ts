@@ -0,0 +1,145 @@
+import { ParsedFile, ColumnProfile, ColumnType, LengthBucket, ValueCount, ValueKind, ProgressCallback } from '../types';
+import { formatValue, getColumnType, getValueKind } from './schemaService';
+import { toTimestamp, formatTimestamp } from './temporalService';
+
+export const VALUE_KIND_LABELS: Record<ValueKind, string> = {
+  number: 'numbers',
+  date: 'dates',
+  boolean: 'true/false values',
+  text: 'text values'
+};
+
+const TOP_VALUE_COUNT = 10;
+const PATTERN_COUNT = 5;
+const HISTOGRAM_BUCKETS = 10;
+const MAX_PATTERN_LENGTH = 24;
+
+const isEmpty = (val: any) => val === null || val === undefined || (typeof val === 'string' && val.trim() === '');
+
+const toNumber = (val: any): number | null => {
+  if (typeof val === 'number') return isFinite(val) ? val : null;
+  if (typeof val !== 'string') return null;
+  const num = Number(val.replace(/,/g, '').trim());
+  return isFinite(num) ? num : null;
+};
+
+/**
+ * The shape of a value: letters become A and digits 9, so "ORD-0042" gives "AAA-9999"
+ */
+const toPattern = (text: string) => {
+  const shape = text.replace(/\p{L}/gu, 'A').replace(/\p{N}/gu, '9');
+  return shape.length > MAX_PATTERN_LENGTH ? `${shape.slice(0, MAX_PATTERN_LENGTH)}…` : shape;
+};
+
+const increment = (counts: Map<string, number>, key: string) => counts.set(key, (counts.get(key) || 0) + 1);
+
+// Most frequent first; ties keep the order values first appeared in
+const topCounts = (counts: Map<string, number>, limit: number): ValueCount[] => {
+  return Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+};
+
+const buildHistogram = (lengths: Map<number, number>): LengthBucket[] => {
+  if (lengths.size === 0) return [];
+  const keys = Array.from(lengths.keys());
+  const shortest = Math.min(...keys);
+  const longest = Math.max(...keys);
+  const width = Math.max(1, Math.ceil((longest - shortest + 1) / HISTOGRAM_BUCKETS));
+  const buckets: LengthBucket[] = [];
+  for (let min = shortest; min <= longest; min += width) buckets.push({ min, max: min + width - 1, count: 0 });
+  lengths.forEach((count, length) => { buckets[Math.floor((length - shortest) / width)].count += count; });
+  return buckets;
+};
+
+const describeMixedKinds = (kinds: Partial<Record<ValueKind, number>>, examples: Partial<Record<ValueKind, string>>, total: number) => {
+  const ranked = (Object.keys(kinds) as ValueKind[]).sort((a, b) => kinds[b]! - kinds[a]!);
+  if (ranked.length < 2) return null;
+  const [main, ...others] = ranked;
+  const share = ((kinds[main]! / total) * 100).toFixed(1);
+  const rest = others.map(kind => `${kinds[kind]!.toLocaleString()} ${VALUE_KIND_LABELS[kind]} (e.g. "${examples[kind]}")`).join(', ');
+  return `Mostly ${VALUE_KIND_LABELS[main]} (${share}%), but also ${rest}`;
+};
+
+/**
+ * Profiles one column over every row. Min, max and mean follow the column's type; text columns
+ * (and files without a schema) use the kind most of their values have, so "N/A" in an amount
+ * column doesn't hide its range.
+ */
+export const profileColumn = (file: ParsedFile, column: string): ColumnProfile => {
+  const type = getColumnType(file, column);
+  const values = new Map<string, number>();
+  const patterns = new Map<string, number>();
+  const lengths = new Map<number, number>();
+  const kinds: Partial<Record<ValueKind, number>> = {};
+  const examples: Partial<Record<ValueKind, string>> = {};
+  let nullCount = 0;
+  let numbers = 0, sum = 0, minNumber = Infinity, maxNumber = -Infinity;
+  let minTime = Infinity, maxTime = -Infinity;
+
+  file.data.forEach(row => {
+    const val = row[column];
+    if (isEmpty(val)) {
+      nullCount++;
+      return;
+    }
+    const text = formatValue(val, type);
+    increment(values, text);
+    increment(patterns, toPattern(text));
+    lengths.set(text.length, (lengths.get(text.length) || 0) + 1);
+
+    const kind = getValueKind(val);
+    kinds[kind] = (kinds[kind] || 0) + 1;
+    if (examples[kind] === undefined) examples[kind] = text;
+
+    const num = toNumber(val);
+    if (num !== null) {
+      numbers++;
+      sum += num;
+      minNumber = Math.min(minNumber, num);
+      maxNumber = Math.max(maxNumber, num);
+    }
+    const time = toTimestamp(val);
+    if (time !== null) {
+      minTime = Math.min(minTime, time);
+      maxTime = Math.max(maxTime, time);
+    }
+  });
+
+  const present = file.data.length - nullCount;
+  const dominant = (Object.keys(kinds) as ValueKind[]).sort((a, b) => kinds[b]! - kinds[a]!)[0];
+  const isLoose = !type || type === ColumnType.STRING;
+  const isNumeric = type === ColumnType.INTEGER || type === ColumnType.DECIMAL || (isLoose && dominant === 'number');
+  const isDate = type === ColumnType.DATE || (isLoose && dominant === 'date');
+  const hasNumbers = isNumeric && numbers > 0;
+  const hasDates = isDate && isFinite(minTime);
+
+  return {
+    name: column,
+    type,
+    nullCount,
+    distinctCount: values.size,
+    uniqueness: present > 0 ? values.size / present : 0,
+    min: hasNumbers ? minNumber : hasDates ? formatTimestamp(minTime) : null,
+    max: hasNumbers ? maxNumber : hasDates ? formatTimestamp(maxTime) : null,
+    mean: hasNumbers ? sum / numbers : null,
+    topValues: topCounts(values, TOP_VALUE_COUNT),
+    lengthHistogram: buildHistogram(lengths),
+    patterns: topCounts(patterns, PATTERN_COUNT),
+    kinds,
+    mixedTypeWarning: describeMixedKinds(kinds, examples, present)
+  };
+};
+
+/**
+ * Profiles every column of the file, one column at a time to keep memory flat
+ */
+export const profileFile = (file: ParsedFile, onProgress?: ProgressCallback): ColumnProfile[] => {
+  return file.headers.map((column, i) => {
+    onProgress?.({ phase: `Profiling ${column}`, done: i, total: file.headers.length, unit: 'columns' });
+    return profileColumn(file, column);
+  });
+};
+
+// Every row has a value and no value repeats: the column can identify rows on its own
+export const isUniqueColumn = (profile: ColumnProfile) => profile.nullCount === 0 && profile.distinctCount > 0 && profile.uniqueness === 1;
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { ColumnType, DedupeStrategy, JoinCandidate, JoinType, ParsedFile, Recipe } from '../types';
+import { createRecipe, parseRecipe, prepareRecipeFiles, matchRecipeInputs, getDefaultNamePattern, matchesNamePattern } from './recipeService';
+import { executeDataTask } from './dataTasks';
+import { dedupeFile } from './dedupeService';
+import { withSchema, overrideColumnType, getColumnType } from './schemaService';
+import { addFormulaColumn } from './formulaService';
+
+const makeFile = (name: string, data: any[]): ParsedFile => withSchema({
+  id: name,
+  name,
+  size: 0,
+  headers: Object.keys(data[0]),
+  previewData: [],
+  data,
+  rowCount: data.length
+});
+
+const candidate = (mappings: [string, string][]): JoinCandidate => ({
+  keyName: 'Key',
+  confidenceScore: 90,
+  reasoning: '',
+  columnMappings: mappings.map(([fileName, columnName]) => ({ fileName, columnName }))
+});
+
+const customers = makeFile('customers_2024_01.csv', [{ id: '1', zip: '10001' }, { id: '2', zip: '20002' }]);
+const orders = makeFile('orders_2024_01.csv', [{ cust: '1', amount: '5' }, { cust: '1', amount: '7' }, { cust: '2', amount: '9' }]);
+const key = candidate([['customers_2024_01.csv', 'id'], ['orders_2024_01.csv', 'cust']]);
+
+const innerRecipe = () => createRecipe('Monthly', { candidate: key, joinType: JoinType.INNER }, [customers, orders], [customers, orders]);
+
+describe('name patterns', () => {
+  it('match next month\'s files', () => {
+    expect(getDefaultNamePattern('sales_2024_01.xlsx')).toBe('sales_*_*.xlsx');
+    expect(matchesNamePattern('SALES_2024_02.xlsx', 'sales_*_*.xlsx')).toBe(true);
+    expect(matchesNamePattern('sales_2024_02.csv', 'sales_*_*.xlsx')).toBe(false);
+  });
+});
+
+describe('createRecipe', () => {
+  it('records type overrides as a step, once per file that made them', () => {
+    const typed = overrideColumnType(customers, 'zip', ColumnType.STRING);
+    const deduped = { ...dedupeFile(typed, { columns: ['id'], strategy: DedupeStrategy.KEEP_FIRST }, 'customers (deduped)'), id: 'deduped' };
+    const retyped = overrideColumnType(deduped, 'id', ColumnType.STRING);
+    const joinKey = candidate([['customers (deduped)', 'id'], ['orders_2024_01.csv', 'cust']]);
+    const recipe = createRecipe('Typed', { candidate: joinKey, joinType: JoinType.INNER }, [retyped, orders], [typed, retyped, orders]);
+
+    expect(recipe.inputs[0].sourceName).toBe('customers_2024_01.csv');
+    expect(recipe.inputs[0].steps).toEqual([
+      { type: 'schema', config: [{ name: 'zip', type: ColumnType.STRING }] },
+      { type: 'dedupe', config: { columns: ['id'], strategy: DedupeStrategy.KEEP_FIRST } },
+      { type: 'schema', config: [{ name: 'id', type: ColumnType.STRING }] }
+    ]);
+  });
+});
+
+describe('prepareRecipeFiles', () => {
+  it('replays type overrides on the new files', () => {
+    const typed = overrideColumnType(customers, 'zip', ColumnType.STRING);
+    const recipe = createRecipe('Typed', { candidate: key, joinType: JoinType.INNER }, [typed, orders], [typed, orders]);
+    const next = makeFile('customers_2024_02.csv', [{ id: '3', zip: '30003' }]);
+    const [prepared] = prepareRecipeFiles(recipe, [next, orders]);
+    expect(prepared.name).toBe('customers_2024_01.csv');
+    expect(getColumnType(prepared, 'zip')).toBe(ColumnType.STRING);
+    expect(prepared.data[0].zip).toBe('30003');
+  });
+
+  it('matches formula columns typed in another case than the header', () => {
+    const withTotal = { ...addFormulaColumn(orders, { name: 'Total', expression: 'AMOUNT * 2' }, 'orders_2024_01.csv'), id: 'with-total' };
+    const recipe = createRecipe('Formula', { candidate: key, joinType: JoinType.INNER }, [customers, withTotal], [customers, orders, withTotal]);
+    expect(recipe.inputs[1].requiredColumns).toEqual(['cust', 'amount']);
+    const next = makeFile('orders_2024_02.csv', [{ cust: '2', amount: '4' }]);
+    expect(matchRecipeInputs(recipe, [customers, next])).toEqual([customers, next]);
+    expect(prepareRecipeFiles(recipe, [customers, next])[1].data[0].Total).toBe(8);
+  });
+
+  it('reports a missing required column by name', () => {
+    const wrong = makeFile('customers_2024_02.csv', [{ zip: '1' }]);
+    expect(matchRecipeInputs(innerRecipe(), [wrong, orders])).toEqual([null, orders]);
+    expect(() => prepareRecipeFiles(innerRecipe(), [wrong, orders])).toThrow('missing required column: id');
+  });
+});
+
+describe('parseRecipe', () => {
+  const saved = () => JSON.parse(JSON.stringify(innerRecipe()));
+
+  it('reads back a saved recipe', () => {
+    const recipe = saved();
+    expect(parseRecipe(recipe)).toEqual(recipe);
+  });
+
+  it('rejects malformed inputs with the field at fault', () => {
+    const noHeaders = saved();
+    delete noHeaders.inputs[1].headers;
+    expect(() => parseRecipe(noHeaders)).toThrow('Input 2 of this recipe has no valid headers');
+
+    const badStep = saved();
+    badStep.inputs[0].steps = [{ type: 'explode', config: {} }];
+    expect(() => parseRecipe(badStep)).toThrow('Input 1 of this recipe has an unknown step "explode"');
+
+    const badTypes = saved();
+    badTypes.inputs[0].steps = [{ type: 'schema', config: [{ name: 'zip', type: 'BIGNUM' }] }];
+    expect(() => parseRecipe(badTypes)).toThrow('has an invalid "Set column types" step');
+  });
+
+  it('rejects recipes that are not recipes or are too new', () => {
+    expect(() => parseRecipe({ files: [] })).toThrow('not a DataLink recipe');
+    expect(() => parseRecipe({ ...saved(), version: 99 })).toThrow('version 99');
+    expect(() => parseRecipe({ ...saved(), joinType: 'SIDEWAYS' })).toThrow('join type');
+  });
+});
+
+describe('runRecipe task', () => {
+  const run = (recipe: Recipe, limits: { rowLimit?: number; maxRows?: number }) =>
+    executeDataTask({ type: 'runRecipe', recipe, files: [customers, orders], saveAs: 'out', ...limits });
+
+  it('returns the estimate instead of joining past the row limit', async () => {
+    expect(await run(innerRecipe(), { rowLimit: 2 })).toEqual({ estimatedRows: 3 });
+    expect((await run(innerRecipe(), { rowLimit: 3 })).rowCount).toBe(3);
+  });
+
+  it('asks before joins whose size is unknown, and can stop at the limit', async () => {
+    const fuzzy = createRecipe('Fuzzy', { candidate: key, joinType: JoinType.FUZZY }, [customers, orders], [customers, orders]);
+    expect(await run(fuzzy, { rowLimit: 100 })).toEqual({ estimatedRows: null });
+    expect((await run(fuzzy, { maxRows: 2 })).rowCount).toBe(2);
+  });
+});
@@ -0,0 +1,250 @@
+import { ParsedFile, JoinCandidate, JoinType, JoinGraph, ColumnType, Recipe, RecipeInput, PreparationStep, ProgressCallback } from '../types';
+import { getKeyColumnsForFile } from './keyService';
+import { getTemporalOptions } from './temporalService';
+import { dedupeFile } from './dedupeService';
+import { groupByAggregate } from './aggregateService';
+import { addFormulaColumn, getFormulaColumns } from './formulaService';
+import { filterFile, getViewColumns } from './gridService';
+import { overrideColumnType } from './schemaService';
+
+export const RECIPE_FORMAT = 'datalink-recipe';
+// Bump when the saved shape changes, and teach parseRecipe to upgrade the older versions
+export const RECIPE_VERSION = 1;
+
+export const PREPARATION_STEP_LABELS: Record<PreparationStep['type'], string> = {
+  dedupe: 'Remove duplicates',
+  groupBy: 'Group & aggregate',
+  formula: 'Add column',
+  filter: 'Filter rows',
+  schema: 'Set column types'
+};
+
+interface RecipeRun {
+  candidate?: JoinCandidate;
+  joinType?: JoinType;
+  reduce?: 'dedupe' | 'aggregate';
+  joinGraph?: JoinGraph;
+}
+
+/**
+ * A glob that matches next month's version of a file name: every run of digits becomes *,
+ * so "sales_2024_01.xlsx" gives "sales_*_*.xlsx"
+ */
+export const getDefaultNamePattern = (fileName: string) => fileName.replace(/\d+/g, '*').replace(/\*+/g, '*');
+
+export const matchesNamePattern = (fileName: string, pattern: string) => {
+  const regex = pattern.trim().split('').map(ch => ch === '*' ? '.*' : ch === '?' ? '.' : ch.replace(/[.+^${}()|[\]\\]/g, '\\$&')).join('');
+  return new RegExp(`^${regex}$`, 'i').test(fileName);
+};
+
+// Columns of the named file that the join itself reads: keys, date settings and selected output columns
+const getJoinColumns = (fileName: string, run: RecipeRun, files: ParsedFile[]): string[] => {
+  const columns: string[] = [];
+  if (run.joinGraph) {
+    run.joinGraph.steps.forEach(step => {
+      if (step.leftFileName === fileName) columns.push(...step.leftColumns);
+      if (step.rightFileName === fileName) columns.push(...step.rightColumns);
+    });
+    return columns;
+  }
+  const candidate = run.candidate!;
+  const file = files.find(f => f.name === fileName)!;
+  columns.push(...getKeyColumnsForFile(file, candidate));
+  if (run.joinType === JoinType.ASOF || run.joinType === JoinType.RANGE) {
+    const temporal = getTemporalOptions(files, candidate);
+    if (files[0]?.name === fileName) columns.push(temporal.anchorDateColumn);
+    const config = temporal.files.find(f => f.fileName === fileName);
+    [config?.dateColumn, config?.fromColumn, config?.toColumn].forEach(col => col && columns.push(col));
+  }
+  const output = candidate.output?.files.find(f => f.fileName === fileName);
+  if (output?.columns) columns.push(...output.columns);
+  return columns;
+};
+
+// Walks back from what the join reads to what the source file must have, one step at a time
+const getSourceColumns = (joinColumns: string[], steps: PreparationStep[]) => {
+  return steps.reduceRight((required, step) => {
+    switch (step.type) {
+      case 'groupBy':
+        return [...step.config.groupBy, ...step.config.aggregates.map(a => a.column)];
+      case 'dedupe':
+        return [...required, ...step.config.columns];
+      case 'formula':
+        // Bare names in the expression may differ in case from the headers; the recorded columns don't
+        return [...required.filter(col => col !== step.config.name), ...(step.config.columns || getFormulaColumns(step.config.expression))];
+      case 'filter':
+        return [...required, ...getViewColumns(step.config)];
+      case 'schema':
+        return required;
+    }
+  }, joinColumns);
+};
+
+// Type overrides change a file in place, so they are read from its schema rather than its lineage.
+// Derived files inherit their parent's overrides; only the ones new to this file become a step.
+const getSchemaSteps = (file: ParsedFile, parent?: ParsedFile): PreparationStep[] => {
+  const inherited = parent?.schema?.filter(col => col.isOverridden) || [];
+  const config = (file.schema || [])
+    .filter(col => col.isOverridden && !inherited.some(p => p.name === col.name && p.type === col.type))
+    .map(col => ({ name: col.name, type: col.type }));
+  return config.length > 0 ? [{ type: 'schema', config }] : [];
+};
+
+const buildInput = (file: ParsedFile, run: RecipeRun, joinFiles: ParsedFile[], workspace: ParsedFile[]): RecipeInput => {
+  const steps: PreparationStep[] = [];
+  let source = file;
+  while (source.lineage) {
+    const parent = workspace.find(f => f.id === source.lineage!.sourceFileId);
+    // A removed parent ends the chain: the recipe then starts from this file
+    if (!parent) break;
+    steps.unshift(source.lineage.step, ...getSchemaSteps(source, parent));
+    source = parent;
+  }
+  steps.unshift(...getSchemaSteps(source));
+  return {
+    joinName: file.name,
+    sourceName: source.name,
+    namePattern: getDefaultNamePattern(source.name),
+    headers: source.headers,
+    requiredColumns: Array.from(new Set(getSourceColumns(getJoinColumns(file.name, run, joinFiles), steps))),
+    steps
+  };
+};
+
+/**
+ * Records a finished join as a recipe. joinFiles are the files the join ran on, in order;
+ * workspace is used to trace cleaned files back to the uploads they came from.
+ */
+export const createRecipe = (name: string, run: RecipeRun, joinFiles: ParsedFile[], workspace: ParsedFile[]): Recipe => {
+  const files = run.joinGraph
+    ? [run.joinGraph.baseFileName, ...run.joinGraph.steps.map(s => s.rightFileName)].map(n => joinFiles.find(f => f.name === n)!).filter(Boolean)
+    : joinFiles;
+  return {
+    format: RECIPE_FORMAT,
+    version: RECIPE_VERSION,
+    name,
+    createdAt: new Date().toISOString(),
+    inputs: files.map(file => buildInput(file, run, files, workspace)),
+    ...run
+  };
+};
+
+const isText = (value: any) => typeof value === 'string' && value !== '';
+const isTextList = (value: any) => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+const getPreparationStepError = (step: any): string | null => {
+  if (!step || !Object.hasOwn(PREPARATION_STEP_LABELS, step.type)) return `an unknown step${isText(step?.type) ? ` "${step.type}"` : ''}`;
+  const isConfigValid = step.type === 'schema'
+    ? Array.isArray(step.config) && step.config.every((col: any) => isText(col?.name) && Object.values(ColumnType).includes(col?.type))
+    : !!step.config && typeof step.config === 'object' && (step.type !== 'formula' || step.config.columns === undefined || isTextList(step.config.columns));
+  return isConfigValid ? null : `an invalid "${PREPARATION_STEP_LABELS[step.type as PreparationStep['type']]}" step`;
+};
+
+const getSavedInputError = (input: any): string | null => {
+  if (!input || typeof input !== 'object') return 'is not an object';
+  const missing = ['joinName', 'sourceName', 'namePattern'].find(field => !isText(input[field]))
+    || ['headers', 'requiredColumns'].find(field => !isTextList(input[field]));
+  if (missing) return `has no valid ${missing}`;
+  if (!Array.isArray(input.steps)) return 'has no valid steps';
+  const stepError = input.steps.map(getPreparationStepError).find(Boolean);
+  return stepError ? `has ${stepError}` : null;
+};
+
+// Explains what is wrong with a saved recipe, or returns null when it can be used
+const getRecipeError = (json: any): string | null => {
+  if (!json || json.format !== RECIPE_FORMAT) return 'This file is not a DataLink recipe';
+  if (typeof json.version !== 'number' || json.version > RECIPE_VERSION) {
+    return `This recipe uses format version ${json.version}, but this app only reads up to version ${RECIPE_VERSION}`;
+  }
+  if (!isText(json.name)) return 'This recipe has no name';
+  if (!Array.isArray(json.inputs) || json.inputs.length === 0 || (!json.candidate && !json.joinGraph)) return 'This recipe is incomplete';
+  for (let i = 0; i < json.inputs.length; i++) {
+    const error = getSavedInputError(json.inputs[i]);
+    if (error) return `Input ${i + 1} of this recipe ${error}`;
+  }
+  if (json.joinGraph) {
+    if (!isText(json.joinGraph.baseFileName) || !Array.isArray(json.joinGraph.steps)) return 'The chained join of this recipe is incomplete';
+  } else if (!Array.isArray(json.candidate.columnMappings) || !Object.values(JoinType).includes(json.joinType)) {
+    return 'The join key or join type of this recipe is missing';
+  }
+  return null;
+};
+
+/**
+ * Reads a saved recipe, rejecting files that aren't recipes, are malformed or come from a newer
+ * version of the app
+ */
+export const parseRecipe = (json: any): Recipe => {
+  const error = getRecipeError(json);
+  if (error) throw new Error(error);
+  return json as Recipe;
+};
+
+export const getRecipeFileName = (recipe: Recipe) => `${recipe.name.replace(/[^a-zA-Z0-9]+/g, '_')}.recipe.json`;
+
+/**
+ * Explains why a file can't stand in for a recipe input, or returns null when it fits
+ */
+export const getRecipeInputError = (input: RecipeInput, file: ParsedFile | null | undefined): string | null => {
+  if (!file) return `Pick a file for ${input.sourceName}`;
+  const missing = input.requiredColumns.filter(col => !file.headers.includes(col));
+  if (missing.length > 0) return `${file.name} is missing required column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`;
+  return null;
+};
+
+const headerOverlap = (a: string[], b: string[]) => {
+  const set = new Set(b);
+  return a.filter(h => set.has(h)).length / Math.max(1, new Set([...a, ...b]).size);
+};
+
+/**
+ * Picks a workspace file for every input: the first one whose name fits the pattern and that has
+ * the required columns, otherwise the closest schema. Each file is used at most once.
+ */
+export const matchRecipeInputs = (recipe: Recipe, files: ParsedFile[]): (ParsedFile | null)[] => {
+  const used = new Set<string>();
+  return recipe.inputs.map(input => {
+    const fits = files.filter(f => !used.has(f.id) && !getRecipeInputError(input, f));
+    const match = fits.find(f => matchesNamePattern(f.name, input.namePattern))
+      || fits.sort((a, b) => headerOverlap(b.headers, input.headers) - headerOverlap(a.headers, input.headers))[0]
+      || null;
+    if (match) used.add(match.id);
+    return match;
+  });
+};
+
+const applyStep = (file: ParsedFile, step: PreparationStep): ParsedFile => {
+  switch (step.type) {
+    case 'dedupe':
+      return dedupeFile(file, step.config, file.name);
+    case 'groupBy':
+      return groupByAggregate(file, step.config, file.name);
+    case 'formula':
+      return addFormulaColumn(file, step.config, file.name);
+    case 'filter':
+      return filterFile(file, step.config, file.name);
+    case 'schema':
+      return step.config.reduce((typed, col) => typed.headers.includes(col.name) ? overrideColumnType(typed, col.name, col.type) : typed, file);
+  }
+};
+
+/**
+ * Repeats each input's cleaning steps on the chosen files and names the results the way the
+ * recorded join expects, so the stored candidate or join graph applies unchanged
+ */
+export const prepareRecipeFiles = (recipe: Recipe, sources: (ParsedFile | null)[], onProgress?: ProgressCallback): ParsedFile[] => {
+  return recipe.inputs.map((input, i) => {
+    const error = getRecipeInputError(input, sources[i]);
+    if (error) throw new Error(error);
+    onProgress?.({ phase: `Preparing ${sources[i]!.name}`, done: i, total: recipe.inputs.length, unit: 'files' });
+    const prepared = input.steps.reduce(applyStep, sources[i]!);
+    return { ...prepared, name: input.joinName };
+  });
+};
+
+// One-line summary for recipe lists, e.g. "Inner join on CustomerID"
+export const describeRecipe = (recipe: Recipe) => {
+  if (recipe.joinGraph) return `Chained join of ${recipe.inputs.length} files`;
+  const type = recipe.joinType === JoinType.ASOF ? 'as-of' : recipe.joinType === JoinType.RANGE ? 'date range' : recipe.joinType!.toLowerCase();
+  return `${type.charAt(0).toUpperCase()}${type.slice(1)} join on ${recipe.candidate!.keyName}`;
+};
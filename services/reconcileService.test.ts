@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { JoinCandidate, ParsedFile, ReconcileField } from '../types';
+import { valuesAgree, reconcileFiles, suggestReconcileFields, DIFFERENCES_COLUMN } from './reconcileService';
+import { withSchema } from './schemaService';
+
+const makeFile = (name: string, data: any[]): ParsedFile => withSchema({
+  id: name,
+  name,
+  size: 0,
+  headers: Object.keys(data[0]),
+  previewData: [],
+  data,
+  rowCount: data.length
+});
+
+const candidate = (mappings: [string, string][], extra: Partial<JoinCandidate> = {}): JoinCandidate => ({
+  keyName: 'Key',
+  confidenceScore: 90,
+  reasoning: '',
+  columnMappings: mappings.map(([fileName, columnName]) => ({ fileName, columnName })),
+  ...extra
+});
+
+const field = (name: string, columns: Record<string, string>, extra: Partial<ReconcileField> = {}): ReconcileField => ({ name, columns, ...extra });
+
+describe('valuesAgree', () => {
+  it('compares numbers within the tolerance', () => {
+    const amount = field('Amount', {}, { tolerance: 0.5 });
+    expect(valuesAgree('1,000.2', 1000, amount)).toBe(true);
+    expect(valuesAgree('10', '10.6', amount)).toBe(false);
+    expect(valuesAgree('10', '10.1', field('Amount', {}))).toBe(false);
+  });
+
+  it('compares text after trimming, optionally ignoring case', () => {
+    expect(valuesAgree('  New   York ', 'New York', field('City', {}))).toBe(true);
+    expect(valuesAgree('new york', 'New York', field('City', {}))).toBe(false);
+    expect(valuesAgree('new york', 'New York', field('City', {}, { ignoreCase: true }))).toBe(true);
+  });
+
+  it('lets two blanks agree, but not a blank and a value', () => {
+    expect(valuesAgree(null, ' ', field('City', {}))).toBe(true);
+    expect(valuesAgree(null, '0', field('City', {}))).toBe(false);
+  });
+});
+
+describe('reconcileFiles', () => {
+  const crm = makeFile('crm.csv', [
+    { id: '1', amount: '100', city: 'Paris' },
+    { id: '2', amount: '50', city: 'Rome' },
+    { id: '2', amount: '999', city: 'Oslo' },
+    { id: '3', amount: '', city: '' },
+    { id: '4', amount: '7', city: 'Lyon' }
+  ]);
+  const erp = makeFile('erp.csv', [
+    { ref: '1', amount: '100.4', town: 'paris' },
+    { ref: '2', amount: '50', town: 'Rome' },
+    { ref: '3', amount: '', town: '' }
+  ]);
+  const key = candidate([['crm.csv', 'id'], ['erp.csv', 'ref']], {
+    reconcile: [
+      field('Amount', { 'crm.csv': 'amount', 'erp.csv': 'amount' }, { tolerance: 0.5 }),
+      field('City', { 'crm.csv': 'city', 'erp.csv': 'town' })
+    ]
+  });
+
+  it('compares the first row of keys found in every file and counts repeated keys', () => {
+    const report = reconcileFiles([crm, erp], key);
+    expect(report.matchedKeys).toBe(3);
+    expect(report.repeatedKeys).toBe(1);
+    expect(report.keysWithDifferences).toBe(1);
+    expect(report.rows.map(r => [r.Key, r['Amount (crm)'], r['Amount (erp)'], r['City Match'], r[DIFFERENCES_COLUMN]])).toEqual([
+      ['1', 100, 100.4, 'FALSE', 'City'],
+      ['2', 50, 50, 'TRUE', ''],
+      ['3', null, null, 'TRUE', '']
+    ]);
+  });
+
+  it('rates each field only on keys where some file has a value', () => {
+    expect(reconcileFiles([crm, erp], key).fields).toEqual([
+      { name: 'Amount', compared: 2, mismatched: 0 },
+      { name: 'City', compared: 2, mismatched: 1 }
+    ]);
+  });
+
+  it('needs every pair of files to agree, not just each with the first', () => {
+    const files = ['a.csv', 'b.csv', 'c.csv'].map((name, i) => makeFile(name, [{ id: '1', amount: String(10 + i * 0.4) }]));
+    const amount = field('Amount', { 'a.csv': 'amount', 'b.csv': 'amount', 'c.csv': 'amount' }, { tolerance: 0.5 });
+    const report = reconcileFiles(files, candidate(files.map(f => [f.name, 'id'] as [string, string]), { reconcile: [amount] }));
+    expect(report.fields[0]).toEqual({ name: 'Amount', compared: 1, mismatched: 1 });
+  });
+
+  it('suggests non-key columns every file has, under the same name or a synonym', () => {
+    expect(suggestReconcileFields([crm, erp], key).map(f => f.columns)).toEqual([
+      { 'crm.csv': 'amount', 'erp.csv': 'amount' },
+      { 'crm.csv': 'city', 'erp.csv': 'town' }
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+import { ParsedFile, JoinCandidate, ReconcileField, ReconcileReport, ProgressCallback } from '../types';
+import { createKeyExtractor, getKeyColumnsForFile, formatKey } from './keyService';
+import { getFileLabel } from './dataService';
+import { alignColumns } from './unionService';
+
+export const DIFFERENCES_COLUMN = '_Differences';
+
+const PROGRESS_INTERVAL = 5000;
+
+const isEmpty = (val: any) => val === null || val === undefined || (typeof val === 'string' && val.trim() === '');
+
+const toNumber = (val: any): number | null => {
+  if (typeof val === 'number') return isFinite(val) ? val : null;
+  if (typeof val !== 'string' || val.trim() === '') return null;
+  const num = Number(val.replace(/,/g, '').trim());
+  return isFinite(num) ? num : null;
+};
+
+/**
+ * Proposes fields to compare: non-key columns that every file has under the same name or a synonym
+ */
+export const suggestReconcileFields = (files: ParsedFile[], candidate: JoinCandidate): ReconcileField[] => {
+  const keyColumns = new Map(files.map(f => [f.name, getKeyColumnsForFile(f, candidate)]));
+  return alignColumns(files, true)
+    .filter(col => files.every(f => {
+      const source = col.sources[f.name];
+      return source && !keyColumns.get(f.name)!.includes(source);
+    }))
+    .map(col => ({ name: col.outputName, columns: col.sources }));
+};
+
+/**
+ * Explains why a field can't be compared, or returns null when it is ready
+ */
+export const getReconcileFieldError = (files: ParsedFile[], field: ReconcileField): string | null => {
+  if (!field.name.trim()) return 'Name the field';
+  const missing = files.find(f => !field.columns[f.name]);
+  if (missing) return `Pick a column in ${missing.name}`;
+  return null;
+};
+
+/**
+ * True when the values agree: numbers within the tolerance, text after trimming (and optionally ignoring case).
+ * Two blanks agree; a blank and a value don't.
+ */
+export const valuesAgree = (a: any, b: any, field: ReconcileField): boolean => {
+  if (isEmpty(a) || isEmpty(b)) return isEmpty(a) && isEmpty(b);
+  const numA = toNumber(a);
+  const numB = toNumber(b);
+  if (numA !== null && numB !== null) return Math.abs(numA - numB) <= (field.tolerance || 0);
+  const textA = String(a).trim().replace(/\s+/g, ' ');
+  const textB = String(b).trim().replace(/\s+/g, ' ');
+  return field.ignoreCase ? textA.toLowerCase() === textB.toLowerCase() : textA === textB;
+};
+
+// Every pair must agree: with a tolerance, two values can each be close to a third but not to each other
+const allAgree = (values: any[], field: ReconcileField) =>
+  values.every((a, i) => values.slice(i + 1).every(b => valuesAgree(a, b, field)));
+
+// Output column holding one file's value of a field
+export const getReconcileValueColumn = (field: ReconcileField, file: ParsedFile, candidate: JoinCandidate) =>
+  `${field.name} (${getFileLabel(file, candidate)})`;
+
+export const getReconcileMatchColumn = (fieldName: string) => `${fieldName} Match`;
+
+/**
+ * Compares the mapped fields for every key found in all files. Each file's first row for the key is
+ * used, so keys that repeat are counted separately in the report.
+ */
+export const reconcileFiles = (files: ParsedFile[], candidate: JoinCandidate, onProgress?: ProgressCallback): ReconcileReport => {
+  const fields = (candidate.reconcile || []).filter(f => !getReconcileFieldError(files, f));
+  const firstRows = files.map(file => {
+    const getKey = createKeyExtractor(file, candidate);
+    const byKey = new Map<string, { row: any; count: number }>();
+    file.data.forEach(row => {
+      const key = getKey(row);
+      if (key === '') return;
+      const entry = byKey.get(key);
+      if (entry) entry.count++;
+      else byKey.set(key, { row, count: 1 });
+    });
+    return byKey;
+  });
+
+  const mismatches = fields.map(() => 0);
+  const compared = fields.map(() => 0);
+  const rows: any[] = [];
+  let repeatedKeys = 0;
+  let keysWithDifferences = 0;
+  let keysDone = 0;
+
+  firstRows[0]?.forEach((_, key) => {
+    if (++keysDone % PROGRESS_INTERVAL === 0) onProgress?.({ phase: 'Comparing values', done: keysDone, total: firstRows[0].size, unit: 'keys' });
+    const entries = firstRows.map(map => map.get(key));
+    if (entries.some(e => !e)) return;
+    if (entries.some(e => e!.count > 1)) repeatedKeys++;
+
+    const out: any = { [candidate.keyName]: formatKey(key) };
+    const differing: string[] = [];
+    fields.forEach((field, i) => {
+      const values = files.map((file, f) => entries[f]!.row[field.columns[file.name]!]);
+      const agree = allAgree(values, field);
+      // Keys where no file has a value say nothing about the field, so they don't count towards its rate
+      if (!values.every(isEmpty)) compared[i]++;
+      if (!agree) {
+        mismatches[i]++;
+        differing.push(field.name);
+      }
+      files.forEach((file, f) => out[getReconcileValueColumn(field, file, candidate)] = values[f] ?? null);
+      out[getReconcileMatchColumn(field.name)] = agree ? 'TRUE' : 'FALSE';
+    });
+    out[DIFFERENCES_COLUMN] = differing.join(', ');
+    if (differing.length > 0) keysWithDifferences++;
+    rows.push(out);
+  });
+
+  return {
+    matchedKeys: rows.length,
+    keysWithDifferences,
+    repeatedKeys,
+    fields: fields.map((field, i) => ({ name: field.name, compared: compared[i], mismatched: mismatches[i] })),
+    rows
+  };
+};
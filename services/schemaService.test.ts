@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { ColumnType } from '../types';
+import { inferColumnType, inferSchema, coerceValue, parseDateValue, detectDayFirst, withSchema, overrideColumnType, getOverriddenColumns } from './schemaService';
+
+const makeFile = (data: any[]) => withSchema({
+  id: 'f',
+  name: 'f.csv',
+  size: 0,
+  headers: Object.keys(data[0]),
+  previewData: [],
+  data,
+  rowCount: data.length
+});
+
+describe('inferColumnType', () => {
+  it('detects booleans, integers and decimals', () => {
+    expect(inferColumnType('active', ['yes', 'no', 'Y'])).toBe(ColumnType.BOOLEAN);
+    expect(inferColumnType('qty', ['1', '2', '1,200'])).toBe(ColumnType.INTEGER);
+    expect(inferColumnType('price', ['1.5', '2'])).toBe(ColumnType.DECIMAL);
+  });
+
+  it('keeps numbers with leading zeros as IDs', () => {
+    expect(inferColumnType('zip', ['02134', '10001'])).toBe(ColumnType.ID);
+  });
+
+  it('keeps numbers a double cannot hold exactly as IDs', () => {
+    expect(inferColumnType('card', ['4111111111111111', '5500005555555559'])).toBe(ColumnType.ID);
+    expect(inferColumnType('account', ['12345678901234567890'])).toBe(ColumnType.ID);
+    expect(inferColumnType('amount', ['123456789012345'])).toBe(ColumnType.INTEGER);
+  });
+
+  it('ignores empty values', () => {
+    expect(inferColumnType('qty', ['1', '', null, undefined])).toBe(ColumnType.INTEGER);
+    expect(inferColumnType('blank', ['', null])).toBe(ColumnType.STRING);
+  });
+
+  it('detects dates and emails', () => {
+    expect(inferColumnType('when', ['2024-01-05', '2024-02-10'])).toBe(ColumnType.DATE);
+    expect(inferColumnType('when', ['01/05/2024', '25/12/2024'])).toBe(ColumnType.DATE);
+    expect(inferColumnType('mail', ['a@b.com', 'c@d.org'])).toBe(ColumnType.EMAIL);
+  });
+
+  it('rejects slash dates that fit neither day order', () => {
+    expect(inferColumnType('when', ['25/01/2024', '01/25/2024'])).toBe(ColumnType.STRING);
+  });
+});
+
+describe('day order', () => {
+  it('is decided once for the whole column', () => {
+    expect(detectDayFirst(['01/02/2024', '03/04/2024'])).toBe(false);
+    expect(detectDayFirst(['01/02/2024', '13/04/2024'])).toBe(true);
+  });
+
+  it('reads every value of a day-first column as day/month', () => {
+    const [col] = inferSchema(['when'], [{ when: '01/02/2024' }, { when: '13/04/2024' }]);
+    expect(col.dayFirst).toBe(true);
+    const file = makeFile([{ when: '01/02/2024' }, { when: '13/04/2024' }]);
+    expect(file.data.map(r => r.when)).toEqual(['2024-02-01', '2024-04-13']);
+  });
+
+  it('reads month/day columns as month/day', () => {
+    expect(coerceValue('01/02/2024', ColumnType.DATE)).toBe('2024-01-02');
+    expect(coerceValue('01/02/2024', ColumnType.DATE, true)).toBe('2024-02-01');
+  });
+});
+
+describe('parseDateValue', () => {
+  it('parses ISO and slash dates with times', () => {
+    expect(parseDateValue('2024-03-05')).toBe('2024-03-05');
+    expect(parseDateValue('2024/03/05')).toBe('2024-03-05');
+    expect(parseDateValue('03/05/2024 14:30')).toBe('2024-03-05T14:30:00');
+  });
+
+  it('only reads numbers as Excel serials when allowed', () => {
+    expect(parseDateValue(45000)).toBeNull();
+    expect(parseDateValue(45000, true)).toBe('2023-03-15');
+    expect(parseDateValue(12, true)).toBeNull();
+  });
+});
+
+describe('coerceValue', () => {
+  it('never converts inexact numbers', () => {
+    expect(coerceValue('4111111111111111', ColumnType.INTEGER)).toBe('4111111111111111');
+    expect(coerceValue(1e21, ColumnType.ID)).toBe('1000000000000000000000');
+  });
+
+  it('returns values that cannot be converted unchanged', () => {
+    expect(coerceValue('n/a', ColumnType.INTEGER)).toBe('n/a');
+    expect(coerceValue(' ', ColumnType.STRING)).toBeNull();
+    expect(coerceValue('1,200', ColumnType.INTEGER)).toBe(1200);
+  });
+});
+
+describe('overrideColumnType', () => {
+  it('can be undone without losing leading zeros', () => {
+    const file = makeFile([{ code: '007' }, { code: '012' }]);
+    const asNumber = overrideColumnType(file, 'code', ColumnType.INTEGER);
+    expect(asNumber.data.map(r => r.code)).toEqual([7, 12]);
+    expect(asNumber.schema![0]).toMatchObject({ type: ColumnType.INTEGER, isOverridden: true, inferredType: ColumnType.ID });
+
+    const asText = overrideColumnType(asNumber, 'code', ColumnType.STRING);
+    expect(asText.data.map(r => r.code)).toEqual(['007', '012']);
+
+    const restored = overrideColumnType(asText, 'code', ColumnType.ID);
+    expect(restored.data.map(r => r.code)).toEqual(['007', '012']);
+    expect(restored.schema![0].isOverridden).toBeUndefined();
+    expect(restored.originalColumns).toBeUndefined();
+  });
+
+  it('restores dates after a detour through another type', () => {
+    const file = makeFile([{ when: '2024-01-05' }, { when: '2024-02-10' }]);
+    const asNumber = overrideColumnType(file, 'when', ColumnType.INTEGER);
+    const back = overrideColumnType(asNumber, 'when', ColumnType.DATE);
+    expect(back.data).toEqual(file.data);
+  });
+
+  it('reads day-first dates when a text column is retyped', () => {
+    const file = makeFile([{ when: '01/02/2024', note: 'a' }, { when: '13/02/2024', note: 'b' }, { when: 'soon', note: 'c' }]);
+    expect(file.schema![0].type).toBe(ColumnType.STRING);
+    const dated = overrideColumnType(file, 'when', ColumnType.DATE);
+    expect(dated.data.map(r => r.when)).toEqual(['2024-02-01', '2024-02-13', 'soon']);
+  });
+});
+
+describe('inferSchema with overrides', () => {
+  it('keeps user-picked types for derived columns', () => {
+    const source = overrideColumnType(makeFile([{ zip: '10001' }, { zip: '20002' }]), 'zip', ColumnType.STRING);
+    const overrides = getOverriddenColumns([source], [{ name: 'Customer - zip', fileIndex: 0, sourceColumn: 'zip' }]);
+    const [col] = inferSchema(['Customer - zip'], [{ 'Customer - zip': '10001' }], overrides);
+    expect(col).toMatchObject({ type: ColumnType.STRING, isOverridden: true, inferredType: ColumnType.INTEGER });
+  });
+});
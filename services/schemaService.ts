@@ -0,0 +1,295 @@
+import * as XLSX from 'xlsx';
+import { ParsedFile, ColumnSchema, ColumnType, OutputColumn, ValueKind } from '../types';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const NUMBER_PATTERN = /^[-+]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?$/;
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?/;
+const SLASH_DATE_PATTERN = /^(\d{1,2})[/.](\d{1,2})[/.](\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+const YEAR_FIRST_SLASH_PATTERN = /^(\d{4})[/.](\d{1,2})[/.](\d{1,2})$/;
+const ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_\-:.]*$/;
+const TRUE_WORDS = ['true', 'yes', 'y'];
+const FALSE_WORDS = ['false', 'no', 'n'];
+
+const ID_HEADER_HINT = /(^|[^a-z])(id|ref|code|key|sku|no|number|uuid|guid)([^a-z]|$)|id$/i;
+
+// Excel serial day numbers for 1954-10-10 and 2119-03-21; numbers outside this range are never converted to dates
+const MIN_DATE_SERIAL = 20000;
+const MAX_DATE_SERIAL = 80000;
+const MAX_EXAMPLES = 3;
+// A double holds 15 significant digits exactly; longer numbers (card numbers, long account IDs) would be rounded
+const MAX_EXACT_DIGITS = 15;
+
+export const COLUMN_TYPE_LABELS: Record<ColumnType, string> = {
+  [ColumnType.INTEGER]: 'Integer',
+  [ColumnType.DECIMAL]: 'Decimal',
+  [ColumnType.DATE]: 'Date',
+  [ColumnType.BOOLEAN]: 'Boolean',
+  [ColumnType.EMAIL]: 'Email',
+  [ColumnType.ID]: 'ID / Code',
+  [ColumnType.STRING]: 'Text'
+};
+
+const isEmpty = (val: any) => val === null || val === undefined || (typeof val === 'string' && val.trim() === '');
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const toIsoDate = (y: number, m: number, d: number, hh = 0, mm = 0, ss = 0): string | null => {
+  if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+  const date = `${y}-${pad(m)}-${pad(d)}`;
+  return (hh || mm || ss) ? `${date}T${pad(hh)}:${pad(mm)}:${pad(ss)}` : date;
+};
+
+/**
+ * Parses a date from an ISO / slash formatted string or an Excel serial number.
+ * Returns an ISO string (YYYY-MM-DD, with a time part only when one is present) or null.
+ * dayFirst fixes the order of slash dates; when left out, each value is read month/day unless
+ * its first part cannot be a month.
+ */
+export const parseDateValue = (val: any, allowSerial = false, dayFirst?: boolean): string | null => {
+  if (val instanceof Date) {
+    return isNaN(val.getTime()) ? null : toIsoDate(val.getFullYear(), val.getMonth() + 1, val.getDate(), val.getHours(), val.getMinutes(), val.getSeconds());
+  }
+  if (typeof val === 'number') {
+    if (!allowSerial || val < MIN_DATE_SERIAL || val > MAX_DATE_SERIAL) return null;
+    const parts = XLSX.SSF.parse_date_code(val);
+    return parts ? toIsoDate(parts.y, parts.m, parts.d, parts.H, parts.M, parts.S) : null;
+  }
+  if (typeof val !== 'string') return null;
+  const text = val.trim();
+
+  let match = text.match(ISO_DATE_PATTERN);
+  if (match) {
+    return toIsoDate(+match[1], +match[2], +match[3], +(match[4] || 0), +(match[5] || 0), +(match[6] || 0));
+  }
+  match = text.match(YEAR_FIRST_SLASH_PATTERN);
+  if (match) return toIsoDate(+match[1], +match[2], +match[3]);
+  match = text.match(SLASH_DATE_PATTERN);
+  if (match) {
+    const a = +match[1];
+    const b = +match[2];
+    const isDayFirst = dayFirst ?? a > 12;
+    const [m, d] = isDayFirst ? [b, a] : [a, b];
+    return toIsoDate(+match[3], m, d, +(match[4] || 0), +(match[5] || 0), +(match[6] || 0));
+  }
+  if (allowSerial && NUMBER_PATTERN.test(text)) {
+    return parseDateValue(Number(text), true);
+  }
+  return null;
+};
+
+/**
+ * Whether a slash-dated column writes the day first. Decided once for the whole column: day/month
+ * when any value's first part cannot be a month, month/day otherwise.
+ */
+export const detectDayFirst = (values: any[]): boolean => values.some(v => {
+  const match = typeof v === 'string' ? v.trim().match(SLASH_DATE_PATTERN) : null;
+  return !!match && +match[1] > 12;
+});
+
+// Numbers a double cannot hold exactly: more than 15 significant digits, or whole numbers past 2^53
+const isInexactNumber = (val: any): boolean => {
+  if (typeof val === 'number') return Number.isInteger(val) && !Number.isSafeInteger(val);
+  if (typeof val !== 'string') return false;
+  const [whole, fraction = ''] = val.trim().replace(/^[-+]/, '').replace(/,/g, '').split('.');
+  const significant = `${whole}${fraction}`.replace(/^0+/, '').replace(/0+$/, '');
+  return significant.length > MAX_EXACT_DIGITS || whole.replace(/^0+/, '').length > MAX_EXACT_DIGITS;
+};
+
+// Inexact numbers stay text: converting them would silently change their last digits
+const parseNumber = (val: any): number | null => {
+  if (typeof val === 'number') return isFinite(val) ? val : null;
+  if (typeof val !== 'string') return null;
+  const text = val.trim();
+  if (!text || !NUMBER_PATTERN.test(text) || isInexactNumber(text)) return null;
+  const num = Number(text.replace(/,/g, ''));
+  return isFinite(num) ? num : null;
+};
+
+const parseBoolean = (val: any): boolean | null => {
+  if (typeof val === 'boolean') return val;
+  if (typeof val !== 'string') return null;
+  const text = val.trim().toLowerCase();
+  if (TRUE_WORDS.includes(text)) return true;
+  if (FALSE_WORDS.includes(text)) return false;
+  return null;
+};
+
+// Numbers written with leading zeros ("00123") are identifiers, not quantities
+const hasLeadingZero = (val: any) => typeof val === 'string' && /^0\d/.test(val.trim());
+
+/**
+ * Infers the type of a column from all of its non-empty values
+ */
+export const inferColumnType = (name: string, values: any[]): ColumnType => {
+  const present = values.filter(v => !isEmpty(v));
+  if (present.length === 0) return ColumnType.STRING;
+
+  if (present.every(v => parseBoolean(v) !== null)) return ColumnType.BOOLEAN;
+
+  if (present.every(v => parseNumber(v) !== null)) {
+    if (present.some(v => hasLeadingZero(v) || isInexactNumber(v))) return ColumnType.ID;
+    // Date-formatted Excel cells arrive as dates already, so plain numbers stay numbers
+    const numbers = present.map(v => parseNumber(v)!);
+    return numbers.every(Number.isInteger) ? ColumnType.INTEGER : ColumnType.DECIMAL;
+  }
+
+  const dayFirst = detectDayFirst(present);
+  if (present.every(v => parseDateValue(v, false, dayFirst) !== null)) return ColumnType.DATE;
+
+  if (present.every(v => typeof v === 'string' && EMAIL_PATTERN.test(v.trim()))) return ColumnType.EMAIL;
+
+  // Mixed letter/digit codes ("ORD-001", UUIDs) are IDs when mostly unique or named like one
+  const looksLikeCode = present.every(v => ID_PATTERN.test(String(v).trim()) && /\d/.test(String(v)));
+  if (looksLikeCode) {
+    const distinct = new Set(present.map(v => String(v).trim())).size;
+    if (ID_HEADER_HINT.test(name) || distinct / present.length > 0.9) return ColumnType.ID;
+  }
+
+  return ColumnType.STRING;
+};
+
+/**
+ * Converts a single value to the representation used for the given type.
+ * Values that cannot be converted are returned unchanged. dayFirst is the column's slash date order.
+ */
+export const coerceValue = (val: any, type: ColumnType, dayFirst = false): any => {
+  if (isEmpty(val)) return null;
+  switch (type) {
+    case ColumnType.INTEGER:
+    case ColumnType.DECIMAL: {
+      const num = parseNumber(val);
+      return num === null ? val : num;
+    }
+    case ColumnType.DATE:
+      return parseDateValue(val, true, dayFirst) ?? val;
+    case ColumnType.BOOLEAN: {
+      const bool = parseBoolean(val);
+      return bool === null ? val : bool;
+    }
+    case ColumnType.EMAIL:
+      return String(val).trim();
+    case ColumnType.ID:
+    case ColumnType.STRING:
+    default:
+      if (typeof val === 'string') return val;
+      // Spell out huge whole numbers instead of "1.2345e+21"
+      return isInexactNumber(val) ? BigInt(val).toString() : String(val);
+  }
+};
+
+const buildColumnSchema = (name: string, values: any[], type: ColumnType, dayFirst = type === ColumnType.DATE && detectDayFirst(values)): ColumnSchema => {
+  const examples = Array.from(new Set(
+    values.filter(v => !isEmpty(v)).map(v => String(coerceValue(v, type, dayFirst)))
+  )).slice(0, MAX_EXAMPLES);
+  return {
+    name,
+    type,
+    nullable: values.some(isEmpty),
+    examples,
+    ...(dayFirst ? { dayFirst } : {})
+  };
+};
+
+/**
+ * Builds the schema for a dataset by inferring every column's type.
+ * Columns named in overrides keep the type the user picked instead.
+ */
+export const inferSchema = (headers: string[], data: any[], overrides: ColumnSchema[] = []): ColumnSchema[] => {
+  return headers.map(name => {
+    const values = data.map(row => row[name]);
+    const inferredType = inferColumnType(name, values);
+    const override = overrides.find(col => col.name === name);
+    if (!override || override.type === inferredType) return buildColumnSchema(name, values, inferredType);
+    return { ...buildColumnSchema(name, values, override.type), isOverridden: true, inferredType };
+  });
+};
+
+/**
+ * The user-picked types of the source columns that output columns are copied from, under their
+ * output names. Passed to inferSchema so derived files (joins, unions, roll-ups) keep those types.
+ */
+export const getOverriddenColumns = (files: ParsedFile[], columns: OutputColumn[]): ColumnSchema[] => {
+  return columns.flatMap(col => {
+    if (col.fileIndex === null || !col.sourceColumn) return [];
+    const source = files[col.fileIndex]?.schema?.find(s => s.name === col.sourceColumn && s.isOverridden);
+    return source ? [{ ...source, name: col.name }] : [];
+  });
+};
+
+/**
+ * Returns a copy of the data with every column converted to its schema type
+ */
+export const applySchema = (data: any[], schema: ColumnSchema[]): any[] => {
+  return data.map(row => {
+    const newRow: any = { ...row };
+    schema.forEach(col => {
+      if (col.name in newRow) newRow[col.name] = coerceValue(newRow[col.name], col.type, col.dayFirst);
+    });
+    return newRow;
+  });
+};
+
+/**
+ * Infers the schema for a file (when it has none yet) and converts its data to match
+ */
+export const withSchema = (file: ParsedFile): ParsedFile => {
+  const schema = file.schema || inferSchema(file.headers, file.data);
+  const data = applySchema(file.data, schema);
+  return { ...file, schema, data, previewData: data.slice(0, 10) };
+};
+
+/**
+ * Changes the type of one column and re-converts that column's values. Conversion always starts
+ * from the values the column had before its first override, and picking the detected type again
+ * restores them exactly, so overrides can be undone.
+ */
+export const overrideColumnType = (file: ParsedFile, columnName: string, type: ColumnType): ParsedFile => {
+  const baseSchema = file.schema || inferSchema(file.headers, file.data);
+  const current = baseSchema.find(col => col.name === columnName);
+  const inferredType = current?.inferredType ?? current?.type;
+  const stashed = file.originalColumns?.[columnName];
+  const original = stashed ?? file.data.map(row => row[columnName]);
+  const isOverridden = type !== inferredType;
+
+  const dayFirst = type === ColumnType.DATE && detectDayFirst(original);
+  const values = stashed && !isOverridden ? stashed : original.map(v => v === undefined ? v : coerceValue(v, type, dayFirst));
+  const data = file.data.map((row, i) => values[i] === undefined && !(columnName in row) ? row : { ...row, [columnName]: values[i] });
+
+  const originalColumns = { ...file.originalColumns };
+  if (isOverridden) originalColumns[columnName] = original;
+  else delete originalColumns[columnName];
+  const schema = baseSchema.map(col => col.name === columnName
+    ? { ...buildColumnSchema(columnName, values, type, dayFirst), ...(isOverridden ? { isOverridden, inferredType } : {}) }
+    : col);
+  return {
+    ...file,
+    schema,
+    data,
+    previewData: data.slice(0, 10),
+    originalColumns: Object.keys(originalColumns).length > 0 ? originalColumns : undefined
+  };
+};
+
+export const getColumnType = (file: ParsedFile, columnName: string): ColumnType | undefined => {
+  return file.schema?.find(col => col.name === columnName)?.type;
+};
+
+/**
+ * What a single value looks like on its own, regardless of its column's type
+ */
+export const getValueKind = (val: any): ValueKind => {
+  if (typeof val === 'boolean') return 'boolean';
+  if (parseNumber(val) !== null) return 'number';
+  if (parseDateValue(val) !== null) return 'date';
+  return 'text';
+};
+
+/**
+ * Formats a value for display or text export according to its column type
+ */
+export const formatValue = (val: any, type?: ColumnType): string => {
+  if (val === null || val === undefined) return '';
+  if (typeof val === 'boolean') return val ? 'TRUE' : 'FALSE';
+  if (type === ColumnType.DATE) return parseDateValue(val, true) ?? String(val);
+  return String(val);
+};
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { AsOfDirection, JoinCandidate, JoinType, ParsedFile } from '../types';
+import { toTimestamp, getTemporalOptions, buildTimelines, buildPeriods, findAsOfMatch, findRangeMatches } from './temporalService';
+import { joinDatasets } from './dataService';
+import { withSchema } from './schemaService';
+
+const makeFile = (name: string, data: any[]): ParsedFile => withSchema({
+  id: name,
+  name,
+  size: 0,
+  headers: Object.keys(data[0]),
+  previewData: [],
+  data,
+  rowCount: data.length
+});
+
+const candidate = (mappings: [string, string][]): JoinCandidate => ({
+  keyName: 'Key',
+  confidenceScore: 90,
+  reasoning: '',
+  columnMappings: mappings.map(([fileName, columnName]) => ({ fileName, columnName }))
+});
+
+const DAY = 24 * 60 * 60 * 1000;
+const t = (iso: string) => toTimestamp(iso)!;
+
+describe('findAsOfMatch', () => {
+  const timeline = buildTimelines(
+    [{ on: '2024-01-01', rate: 1 }, { on: '2024-01-10', rate: 2 }, { on: '2024-01-20', rate: 3 }],
+    null,
+    'on'
+  ).get('')!;
+
+  it('looks back, forward or to the nearest date', () => {
+    expect(findAsOfMatch(timeline, t('2024-01-12'), AsOfDirection.BACKWARD)?.row.rate).toBe(2);
+    expect(findAsOfMatch(timeline, t('2024-01-12'), AsOfDirection.FORWARD)?.row.rate).toBe(3);
+    expect(findAsOfMatch(timeline, t('2024-01-12'), AsOfDirection.NEAREST)?.row.rate).toBe(2);
+    expect(findAsOfMatch(timeline, t('2023-12-31'), AsOfDirection.BACKWARD)).toBeNull();
+  });
+
+  it('respects the tolerance', () => {
+    expect(findAsOfMatch(timeline, t('2024-01-15'), AsOfDirection.BACKWARD, 3)).toBeNull();
+    expect(findAsOfMatch(timeline, t('2024-01-15'), AsOfDirection.BACKWARD, 5)?.row.rate).toBe(2);
+  });
+});
+
+describe('findRangeMatches', () => {
+  it('treats a date-only end as the whole day', () => {
+    const index = buildPeriods([{ from: '2024-01-01', to: '2024-01-31' }], null, 'from', 'to').get('');
+    expect(findRangeMatches(index, t('2024-01-31T18:00:00'))).toHaveLength(1);
+    expect(findRangeMatches(index, t('2024-02-01'))).toHaveLength(0);
+  });
+
+  it('keeps an end with a time exact', () => {
+    const index = buildPeriods([{ from: '2024-01-01', to: '2024-01-31 12:00' }], null, 'from', 'to').get('');
+    expect(findRangeMatches(index, t('2024-01-31T12:00:00'))).toHaveLength(1);
+    expect(findRangeMatches(index, t('2024-01-31T18:00:00'))).toHaveLength(0);
+  });
+
+  it('finds the same periods as a full scan, in start order', () => {
+    let seed = 7;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    const day = (n: number) => new Date(Date.UTC(2024, 0, 1 + n)).toISOString().slice(0, 10);
+    const rows = Array.from({ length: 300 }, (_, id) => {
+      const start = Math.floor(random() * 300);
+      return { id, from: day(start), to: random() < 0.1 ? null : day(start + Math.floor(random() * 40)) };
+    });
+    const index = buildPeriods(rows, null, 'from', 'to').get('')!;
+    for (let n = -5; n < 350; n += 7) {
+      const time = t(day(n));
+      const expected = index.periods.filter(p => p.from - DAY <= time && p.end + DAY >= time).map(p => p.row.id);
+      expect(findRangeMatches(index, time, 1).map(p => p.row.id)).toEqual(expected);
+    }
+  });
+
+  it('pairs each row with every period containing its date', () => {
+    const orders = makeFile('orders.csv', [{ sku: 'A', ordered: '2024-01-31' }, { sku: 'A', ordered: '2024-03-01' }]);
+    const prices = makeFile('prices.csv', [
+      { sku: 'A', valid_to: '2024-01-31', valid_from: '2024-01-01', price: 10 },
+      { sku: 'A', valid_to: null, valid_from: '2024-02-01', price: 12 }
+    ]);
+    const rows = joinDatasets([orders, prices], candidate([['orders.csv', 'sku'], ['prices.csv', 'sku']]), JoinType.RANGE);
+    expect(rows.map(r => r['prices - price'])).toEqual([10, 12]);
+  });
+});
+
+describe('getTemporalOptions', () => {
+  it('never suggests an end column as the start of a period', () => {
+    const orders = makeFile('orders.csv', [{ sku: 'A', ordered: '2024-01-05' }]);
+    const prices = makeFile('prices.csv', [{ sku: 'A', valid_to: '2024-01-31', valid_from: '2024-01-01' }]);
+    const options = getTemporalOptions([orders, prices], candidate([['orders.csv', 'sku'], ['prices.csv', 'sku']]));
+    expect(options.files[0]).toMatchObject({ fromColumn: 'valid_from', toColumn: 'valid_to' });
+  });
+});
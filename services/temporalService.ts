@@ -0,0 +1,217 @@
+import { ParsedFile, JoinCandidate, JoinType, AsOfDirection, TemporalJoinOptions, TemporalFileConfig, ColumnType } from '../types';
+import { parseDateValue, getColumnType } from './schemaService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FROM_NAME_PATTERN = /(from|start|begin|effective|valid)/i;
+const TO_NAME_PATTERN = /(to|end|until|expir|thru|through)$/i;
+
+/**
+ * Milliseconds for a date value (ISO text, slash dates or Excel serials), or null if it isn't a date
+ */
+export const toTimestamp = (val: any): number | null => {
+  const iso = parseDateValue(val, true);
+  if (!iso) return null;
+  // Treat everything as UTC so date-only and date-time values compare consistently
+  const time = Date.parse(iso.length > 10 ? `${iso}Z` : iso);
+  return isNaN(time) ? null : time;
+};
+
+const getDateColumns = (file: ParsedFile) => file.headers.filter(h => getColumnType(file, h) === ColumnType.DATE);
+
+// Date columns first, then everything else, so pickers and defaults favour real dates
+export const getDateColumnChoices = (file: ParsedFile) => {
+  const dates = getDateColumns(file);
+  return [...dates, ...file.headers.filter(h => !dates.includes(h))];
+};
+
+const suggestFileConfig = (file: ParsedFile): TemporalFileConfig => {
+  const dates = getDateColumns(file);
+  // "valid_to" also reads as a start ("valid"), so end-like names are never picked as the start
+  const starts = dates.filter(h => !TO_NAME_PATTERN.test(h));
+  const from = starts.find(h => FROM_NAME_PATTERN.test(h)) || starts[0] || dates[0];
+  const to = dates.find(h => h !== from && TO_NAME_PATTERN.test(h));
+  return { fileName: file.name, dateColumn: dates[0], fromColumn: from, toColumn: to };
+};
+
+/**
+ * The candidate's temporal settings for these files, with defaults filled in for anything
+ * missing (e.g. after the join order changed): the first date column of each file.
+ */
+export const getTemporalOptions = (files: ParsedFile[], candidate: JoinCandidate): TemporalJoinOptions => {
+  const stored = candidate.temporal;
+  const anchor = files[0];
+  const anchorDateColumn = stored && anchor?.headers.includes(stored.anchorDateColumn)
+    ? stored.anchorDateColumn
+    : (anchor ? getDateColumns(anchor)[0] || '' : '');
+  return {
+    anchorDateColumn,
+    direction: stored?.direction || AsOfDirection.BACKWARD,
+    toleranceDays: stored?.toleranceDays,
+    matchKey: stored?.matchKey ?? true,
+    files: files.slice(1).map(file => stored?.files.find(f => f.fileName === file.name) || suggestFileConfig(file))
+  };
+};
+
+/**
+ * Explains why a temporal join can't run yet, or returns null when it is ready
+ */
+export const getTemporalConfigError = (files: ParsedFile[], options: TemporalJoinOptions, joinType: JoinType): string | null => {
+  if (!options.anchorDateColumn) return `Pick the date column of ${files[0]?.name}`;
+  for (const file of files.slice(1)) {
+    const config = options.files.find(f => f.fileName === file.name);
+    if (joinType === JoinType.ASOF && !config?.dateColumn) return `Pick the date column of ${file.name}`;
+    if (joinType === JoinType.RANGE && !config?.fromColumn) return `Pick the valid-from column of ${file.name}`;
+  }
+  return null;
+};
+
+interface DatedRow {
+  time: number;
+  row: any;
+}
+
+interface PeriodRow {
+  from: number;
+  to: number; // As written, for display; Infinity for open-ended periods
+  end: number; // Last instant inside the period: the end of the day when to has no time
+  row: any;
+}
+
+/**
+ * Periods sorted by start, laid out as an implicit balanced tree (each range's middle entry is its root)
+ * where maxEnd[i] is the latest end in the subtree rooted at i. Lets lookups skip periods that ended early.
+ */
+interface PeriodIndex {
+  periods: PeriodRow[];
+  maxEnd: number[];
+}
+
+// Pass no key extractor to match on dates alone: every row then lands in one group under ''
+type KeyExtractor = ((row: any) => string) | null;
+
+/**
+ * Rows grouped by key and sorted by date, for as-of lookups. Rows without a key or a valid date are left out.
+ */
+export const buildTimelines = (rows: any[], getKey: KeyExtractor, dateColumn: string): Map<string, DatedRow[]> => {
+  const timelines = new Map<string, DatedRow[]>();
+  rows.forEach(row => {
+    const key = getKey ? getKey(row) : '';
+    const time = toTimestamp(row[dateColumn]);
+    if ((getKey && key === '') || time === null) return;
+    if (!timelines.has(key)) timelines.set(key, []);
+    timelines.get(key)!.push({ time, row });
+  });
+  // Stable sort keeps file order among rows with the same date
+  timelines.forEach(list => list.sort((a, b) => a.time - b.time));
+  return timelines;
+};
+
+// A period ending on a date without a time includes that whole day
+const getPeriodEnd = (val: any, to: number) => {
+  const iso = parseDateValue(val, true);
+  return iso && iso.length <= 10 ? to + DAY_MS - 1 : to;
+};
+
+const fillMaxEnd = (periods: PeriodRow[], maxEnd: number[], lo: number, hi: number): number => {
+  if (lo > hi) return -Infinity;
+  const mid = (lo + hi) >> 1;
+  maxEnd[mid] = Math.max(periods[mid].end, fillMaxEnd(periods, maxEnd, lo, mid - 1), fillMaxEnd(periods, maxEnd, mid + 1, hi));
+  return maxEnd[mid];
+};
+
+/**
+ * Rows grouped by key with their validity periods, indexed for range lookups
+ */
+export const buildPeriods = (rows: any[], getKey: KeyExtractor, fromColumn: string, toColumn?: string): Map<string, PeriodIndex> => {
+  const periods = new Map<string, PeriodRow[]>();
+  rows.forEach(row => {
+    const key = getKey ? getKey(row) : '';
+    const from = toTimestamp(row[fromColumn]);
+    if ((getKey && key === '') || from === null) return;
+    const to = toColumn ? toTimestamp(row[toColumn]) : null;
+    if (!periods.has(key)) periods.set(key, []);
+    periods.get(key)!.push({ from, to: to ?? Infinity, end: to === null ? Infinity : getPeriodEnd(row[toColumn!], to), row });
+  });
+
+  const indexes = new Map<string, PeriodIndex>();
+  periods.forEach((list, key) => {
+    list.sort((a, b) => a.from - b.from);
+    const maxEnd = new Array<number>(list.length);
+    fillMaxEnd(list, maxEnd, 0, list.length - 1);
+    indexes.set(key, { periods: list, maxEnd });
+  });
+  return indexes;
+};
+
+// Index of the last entry whose time is <= t, or -1
+const lastAtOrBefore = (list: DatedRow[], t: number): number => {
+  let lo = 0;
+  let hi = list.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (list[mid].time <= t) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+};
+
+/**
+ * The row dated closest to t in the given direction, within the tolerance. On a date tie,
+ * backward takes the last such row in the file and forward the first.
+ */
+export const findAsOfMatch = (list: DatedRow[] | undefined, t: number, direction: AsOfDirection, toleranceDays?: number): DatedRow | null => {
+  if (!list || list.length === 0) return null;
+  const maxGap = toleranceDays === undefined ? Infinity : toleranceDays * DAY_MS;
+
+  const beforeIdx = lastAtOrBefore(list, t);
+  const before = beforeIdx >= 0 ? list[beforeIdx] : null;
+  // First entry >= t: the exact match if there is one, else the one after the last earlier entry
+  let afterIdx = before && before.time === t ? beforeIdx : beforeIdx + 1;
+  while (afterIdx > 0 && list[afterIdx - 1].time === t) afterIdx--;
+  const after = afterIdx < list.length ? list[afterIdx] : null;
+
+  let match: DatedRow | null = null;
+  if (direction === AsOfDirection.BACKWARD) match = before;
+  else if (direction === AsOfDirection.FORWARD) match = after;
+  else if (!before) match = after;
+  else if (!after) match = before;
+  else match = t - before.time <= after.time - t ? before : after;
+
+  return match && Math.abs(match.time - t) <= maxGap ? match : null;
+};
+
+/**
+ * Every row whose period contains t, widened by the tolerance on both ends, in order of start date
+ */
+export const findRangeMatches = (index: PeriodIndex | undefined, t: number, toleranceDays = 0): PeriodRow[] => {
+  if (!index) return [];
+  const { periods, maxEnd } = index;
+  const slack = toleranceDays * DAY_MS;
+  const matches: PeriodRow[] = [];
+  const visit = (lo: number, hi: number) => {
+    if (lo > hi) return;
+    const mid = (lo + hi) >> 1;
+    // Every period below mid ended before t
+    if (maxEnd[mid] + slack < t) return;
+    visit(lo, mid - 1);
+    // Sorted by start, so nothing from mid on can contain t
+    if (periods[mid].from - slack > t) return;
+    if (periods[mid].end + slack >= t) matches.push(periods[mid]);
+    visit(mid + 1, hi);
+  };
+  visit(0, periods.length - 1);
+  return matches;
+};
+
+// Display form of a matched date or period for the _Matched_ columns
+export const formatTimestamp = (time: number) => {
+  if (!isFinite(time)) return 'open';
+  const iso = new Date(time).toISOString();
+  return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso.slice(0, 19);
+};
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { packValue, unpackValue } from './transferService';
+
+const roundTrip = (value: any) => {
+  const transfer: Transferable[] = [];
+  return { result: unpackValue(structuredClone(packValue(value, transfer))), transfer };
+};
+
+describe('packValue', () => {
+  it('round-trips rows without losing types, NaN or missing keys', () => {
+    const date = new Date('2024-03-01T00:00:00Z');
+    const rows = [
+      { id: 1, name: 'Ann', when: date, score: NaN, ok: true },
+      { id: null, name: 'Zoë ✓', when: null, score: 2.5 },
+      { id: 3, name: '', when: 'unknown', score: null, ok: false, extra: { nested: [1] } }
+    ];
+    const { result, transfer } = roundTrip(rows);
+    expect(result).toEqual(rows);
+    expect(Object.keys(result[1])).toEqual(['id', 'name', 'when', 'score']);
+    expect(result[0].when).toBeInstanceOf(Date);
+    expect(transfer.length).toBeGreaterThan(0);
+  });
+
+  it('packs files and rebuilds their preview from the data', () => {
+    const data = [{ a: 'x' }, { a: 'y' }, { a: 'z' }];
+    const file = { id: 'f', name: 'f.csv', headers: ['a'], previewData: data.slice(0, 2), data, rowCount: 3 };
+    const { result } = roundTrip(file);
+    expect(result).toEqual(file);
+    expect(result.previewData[0]).toBe(result.data[0]);
+  });
+
+  it('splits long text columns into chunks', () => {
+    const long = (c: string) => c.repeat(3_000_000);
+    const rows = [{ t: long('a') }, { t: null }, { t: long('b') }, { t: 'c' }, { t: long('d') }];
+    const { result } = roundTrip(rows);
+    expect(result.map((r: any) => r.t && r.t.length)).toEqual([3_000_000, null, 3_000_000, 1, 3_000_000]);
+    expect(result[3].t).toBe('c');
+    expect(result[4].t[0]).toBe('d');
+  });
+
+  it('leaves arrays that are not rows alone', () => {
+    const value = { counts: [1, 2, 3], sheets: [['a', 'b']], mixed: [{ a: 1 }, null] };
+    expect(roundTrip(value).result).toEqual(value);
+  });
+});
@@ -0,0 +1,167 @@
+// Row arrays cross the worker boundary column by column: numbers as a Float64Array, text as UTF-8
+// chunks, anything else (dates, booleans, mixed columns) as a plain array. The typed buffers are
+// transferred rather than copied, and nothing goes through JSON, so NaN, dates and missing keys survive.
+
+const CELL_VALUE = 0;
+const CELL_NULL = 1;
+const CELL_MISSING = 2; // The row has no such key; left off when the row is rebuilt
+
+// A JS string can't hold a whole large column, so text is encoded in chunks of at most this many characters
+const TEXT_CHUNK_CHARS = 1 << 22;
+
+interface PackedText {
+  chunks: Uint8Array[];
+  chunkStarts: number[]; // First row of each chunk
+  ends: Uint32Array; // Per row, where its value ends within its chunk's text
+}
+
+interface PackedColumn {
+  name: string;
+  states: Uint8Array; // CELL_VALUE, CELL_NULL or CELL_MISSING per row
+  numbers?: Float64Array;
+  text?: PackedText;
+  values?: any[];
+}
+
+interface PackedRows {
+  __packedRows: true;
+  rowCount: number;
+  columns: PackedColumn[];
+}
+
+// What a task carries in place of a workspace file: the packed file the first time, then only its key
+export interface ResidentFileRef {
+  key: string;
+  packed?: any;
+}
+
+const isPlainObject = (value: any) =>
+  value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+
+const isRowArray = (value: any): value is any[] => Array.isArray(value) && value.length > 0 && value.every(isPlainObject);
+
+const packText = (values: any[], states: Uint8Array, transfer: Transferable[]): PackedText => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const chunkStarts: number[] = [];
+  const ends = new Uint32Array(values.length);
+  let parts: string[] = [];
+  let length = 0;
+  const flush = () => {
+    const chunk = encoder.encode(parts.join(''));
+    chunks.push(chunk);
+    transfer.push(chunk.buffer);
+    parts = [];
+    length = 0;
+  };
+  values.forEach((value, r) => {
+    if (states[r] === CELL_VALUE) {
+      if (parts.length > 0 && length + value.length > TEXT_CHUNK_CHARS) flush();
+      if (parts.length === 0) chunkStarts.push(r);
+      parts.push(value);
+      length += value.length;
+    }
+    ends[r] = length;
+  });
+  if (parts.length > 0) flush();
+  transfer.push(ends.buffer);
+  return { chunks, chunkStarts, ends };
+};
+
+const unpackText = ({ chunks, chunkStarts, ends }: PackedText, states: Uint8Array): string[] => {
+  const decoder = new TextDecoder();
+  const values = new Array<string>(ends.length);
+  let chunk = -1;
+  let text = '';
+  let start = 0;
+  for (let r = 0; r < ends.length; r++) {
+    if (chunk + 1 < chunks.length && r === chunkStarts[chunk + 1]) {
+      chunk++;
+      text = decoder.decode(chunks[chunk]);
+      start = 0;
+    }
+    if (states[r] !== CELL_VALUE) continue;
+    values[r] = text.slice(start, ends[r]);
+    start = ends[r];
+  }
+  return values;
+};
+
+const packColumn = (rows: any[], name: string, transfer: Transferable[]): PackedColumn => {
+  const states = new Uint8Array(rows.length);
+  const values = new Array(rows.length);
+  let allNumbers = true;
+  let allText = true;
+  rows.forEach((row, r) => {
+    const value = row[name];
+    values[r] = value;
+    if (value === undefined && !(name in row)) states[r] = CELL_MISSING;
+    else if (value === null || value === undefined) states[r] = CELL_NULL;
+    else {
+      allNumbers = allNumbers && typeof value === 'number';
+      allText = allText && typeof value === 'string';
+    }
+  });
+  transfer.push(states.buffer);
+  if (allNumbers) {
+    const numbers = new Float64Array(rows.length);
+    values.forEach((value, r) => { if (states[r] === CELL_VALUE) numbers[r] = value; });
+    transfer.push(numbers.buffer);
+    return { name, states, numbers };
+  }
+  if (allText) return { name, states, text: packText(values, states, transfer) };
+  return { name, states, values };
+};
+
+const packRows = (rows: any[], transfer: Transferable[]): PackedRows => {
+  const names: string[] = [];
+  const seen = new Set<string>();
+  rows.forEach(row => {
+    for (const name in row) {
+      if (!seen.has(name)) {
+        seen.add(name);
+        names.push(name);
+      }
+    }
+  });
+  return { __packedRows: true, rowCount: rows.length, columns: names.map(name => packColumn(rows, name, transfer)) };
+};
+
+const unpackRows = ({ rowCount, columns }: PackedRows): any[] => {
+  const rows = new Array(rowCount);
+  for (let r = 0; r < rowCount; r++) rows[r] = {};
+  columns.forEach(({ name, states, numbers, text, values }) => {
+    const cells = numbers || (text ? unpackText(text, states) : values!);
+    for (let r = 0; r < rowCount; r++) {
+      const state = states[r];
+      if (state === CELL_VALUE) rows[r][name] = cells[r];
+      else if (state === CELL_NULL) rows[r][name] = null;
+    }
+  });
+  return rows;
+};
+
+/**
+ * Prepares a value to be posted to or from the worker: row arrays found in it (join results, file
+ * data) are packed column-wise and their buffers added to `transfer`. Other arrays are posted as they are.
+ */
+export const packValue = (value: any, transfer: Transferable[]): any => {
+  if (isRowArray(value)) return packRows(value, transfer);
+  if (!isPlainObject(value)) return value;
+  const packed: any = {};
+  // previewData is always the first rows of data; it's small, and rebuilt from data on arrival
+  for (const key in value) packed[key] = key === 'previewData' ? value[key] : packValue(value[key], transfer);
+  return packed;
+};
+
+export const unpackValue = (value: any): any => {
+  if (!isPlainObject(value)) return value;
+  if (value.__packedRows) return unpackRows(value);
+  const unpacked: any = {};
+  for (const key in value) unpacked[key] = unpackValue(value[key]);
+  // Share the row objects rather than keeping a second copy of the first rows
+  if (Array.isArray(unpacked.data) && Array.isArray(unpacked.previewData)) {
+    unpacked.previewData = unpacked.data.slice(0, unpacked.previewData.length);
+  }
+  return unpacked;
+};
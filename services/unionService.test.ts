@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { ColumnMatchSource, ParsedFile } from '../types';
+import { alignColumns, buildUnionColumnsFromGroups, getUnionConfigError, getUnusedColumns, unionFiles, SOURCE_FILE_COLUMN } from './unionService';
+import { withSchema } from './schemaService';
+
+const makeFile = (name: string, data: any[]): ParsedFile => withSchema({
+  id: name,
+  name,
+  size: 0,
+  headers: Object.keys(data[0]),
+  previewData: [],
+  data,
+  rowCount: data.length
+});
+
+const january = makeFile('jan.csv', [{ Name: 'Ann', Phone: '111' }]);
+const february = makeFile('feb.csv', [{ ' name ': 'Bob', Mobile: '222', Region: 'North' }]);
+
+describe('alignColumns', () => {
+  it('matches headers by name, ignoring case and spacing', () => {
+    expect(alignColumns([january, february], false)).toEqual([
+      { outputName: 'Name', sources: { 'jan.csv': 'Name', 'feb.csv': ' name ' }, matchedBy: ColumnMatchSource.NAME },
+      { outputName: 'Phone', sources: { 'jan.csv': 'Phone' }, matchedBy: ColumnMatchSource.NAME },
+      { outputName: 'Mobile', sources: { 'feb.csv': 'Mobile' }, matchedBy: ColumnMatchSource.NAME },
+      { outputName: 'Region', sources: { 'feb.csv': 'Region' }, matchedBy: ColumnMatchSource.NAME }
+    ]);
+  });
+
+  it('also matches synonyms when asked', () => {
+    const phone = alignColumns([january, february], true).find(c => c.outputName === 'Phone');
+    expect(phone).toEqual({ outputName: 'Phone', sources: { 'jan.csv': 'Phone', 'feb.csv': 'Mobile' }, matchedBy: ColumnMatchSource.SYNONYM });
+  });
+});
+
+describe('buildUnionColumnsFromGroups', () => {
+  it('drops unknown files and headers, and appends columns left out', () => {
+    const columns = buildUnionColumnsFromGroups([january, february], [
+      { outputName: 'Contact', sources: [{ fileName: 'jan.csv', columnName: 'Phone' }, { fileName: 'feb.csv', columnName: 'Mobile' }, { fileName: 'mar.csv', columnName: 'Cell' }] },
+      { outputName: 'Ghost', sources: [{ fileName: 'jan.csv', columnName: 'Fax' }] }
+    ]);
+    expect(columns.map(c => [c.outputName, c.sources, c.matchedBy])).toEqual([
+      ['Contact', { 'jan.csv': 'Phone', 'feb.csv': 'Mobile' }, ColumnMatchSource.AI],
+      ['Name', { 'jan.csv': 'Name' }, ColumnMatchSource.NAME],
+      [' name ', { 'feb.csv': ' name ' }, ColumnMatchSource.NAME],
+      ['Region', { 'feb.csv': 'Region' }, ColumnMatchSource.NAME]
+    ]);
+    expect(getUnusedColumns([january, february], columns)).toEqual([]);
+  });
+});
+
+describe('unionFiles', () => {
+  it('stacks rows, fills missing columns with null and records the source file', () => {
+    const rows = unionFiles([january, february], alignColumns([january, february], true));
+    expect(rows).toEqual([
+      { Name: 'Ann', Phone: 111, Region: null, [SOURCE_FILE_COLUMN]: 'jan.csv' },
+      { Name: 'Bob', Phone: 222, Region: 'North', [SOURCE_FILE_COLUMN]: 'feb.csv' }
+    ]);
+  });
+
+  it('refuses configurations it cannot write', () => {
+    const columns = alignColumns([january, february], true);
+    expect(getUnionConfigError([january], columns)).toBe('Pick at least two files to append');
+    expect(getUnionConfigError([january, february], [])).toBe('The result has no columns');
+    expect(getUnionConfigError([january, february], [{ ...columns[0], outputName: ' ' }])).toBe('Every column needs a name');
+    expect(getUnionConfigError([january, february], [{ ...columns[0], outputName: SOURCE_FILE_COLUMN }])).toContain('reserved');
+    expect(getUnionConfigError([january, february], [columns[0], { ...columns[1], outputName: 'Name' }])).toBe('The column name Name is used more than once');
+    expect(() => unionFiles([january], columns)).toThrow('at least two files');
+  });
+});
@@ -0,0 +1,129 @@
+import { ParsedFile, UnionColumn, ColumnMatchSource, OutputColumn, ProgressCallback } from '../types';
+import { canonicalColumnName } from './coalesceService';
+
+export const SOURCE_FILE_COLUMN = '_Source_File';
+
+export const COLUMN_MATCH_LABELS: Record<ColumnMatchSource, string> = {
+  [ColumnMatchSource.NAME]: 'Name',
+  [ColumnMatchSource.SYNONYM]: 'Synonym',
+  [ColumnMatchSource.AI]: 'AI',
+  [ColumnMatchSource.MANUAL]: 'Manual'
+};
+
+const PROGRESS_INTERVAL = 5000;
+
+const sameName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Lines up the files' columns by header, ignoring case and spacing. With synonyms,
+ * headers like "Phone" and "Mobile" share a column too. Columns keep first-seen order.
+ */
+export const alignColumns = (files: ParsedFile[], useSynonyms: boolean): UnionColumn[] => {
+  const columns: UnionColumn[] = [];
+  const matchKeys: string[] = [];
+
+  files.forEach(file => {
+    file.headers.forEach(header => {
+      const key = useSynonyms ? canonicalColumnName(header) : sameName(header);
+      const index = matchKeys.findIndex((k, i) => k === key && !columns[i].sources[file.name]);
+      if (index < 0) {
+        columns.push({ outputName: header, sources: { [file.name]: header }, matchedBy: ColumnMatchSource.NAME });
+        matchKeys.push(key);
+        return;
+      }
+      const column = columns[index];
+      column.sources[file.name] = header;
+      if (sameName(header) !== sameName(column.outputName)) column.matchedBy = ColumnMatchSource.SYNONYM;
+    });
+  });
+  return columns;
+};
+
+/**
+ * Turns AI-proposed column groups into union columns, dropping references to unknown files or headers.
+ * Columns the AI left out are appended on their own so no data is lost.
+ */
+export const buildUnionColumnsFromGroups = (
+  files: ParsedFile[],
+  groups: { outputName: string; sources: { fileName: string; columnName: string }[] }[]
+): UnionColumn[] => {
+  const used = new Set<string>();
+  const columns: UnionColumn[] = [];
+
+  groups.forEach(group => {
+    const sources: Record<string, string | null> = {};
+    group.sources.forEach(({ fileName, columnName }) => {
+      const file = files.find(f => f.name === fileName);
+      const id = `${fileName}\u0000${columnName}`;
+      if (!file || !file.headers.includes(columnName) || sources[fileName] || used.has(id)) return;
+      sources[fileName] = columnName;
+      used.add(id);
+    });
+    if (Object.keys(sources).length > 0 && group.outputName?.trim()) {
+      columns.push({ outputName: group.outputName.trim(), sources, matchedBy: ColumnMatchSource.AI });
+    }
+  });
+
+  files.forEach(file => file.headers.forEach(header => {
+    if (used.has(`${file.name}\u0000${header}`)) return;
+    columns.push({ outputName: header, sources: { [file.name]: header }, matchedBy: ColumnMatchSource.NAME });
+  }));
+  return columns;
+};
+
+/**
+ * Headers of each file that don't feed any output column, and would be dropped
+ */
+export const getUnusedColumns = (files: ParsedFile[], columns: UnionColumn[]): { fileName: string; columnName: string }[] => {
+  return files.flatMap(file => {
+    const used = new Set(columns.map(c => c.sources[file.name]).filter(Boolean));
+    return file.headers.filter(h => !used.has(h)).map(columnName => ({ fileName: file.name, columnName }));
+  });
+};
+
+/**
+ * Explains why the alignment can't be used yet, or returns null when it is ready
+ */
+export const getUnionConfigError = (files: ParsedFile[], columns: UnionColumn[]): string | null => {
+  if (files.length < 2) return 'Pick at least two files to append';
+  if (columns.length === 0) return 'The result has no columns';
+  const names = columns.map(c => c.outputName.trim());
+  if (names.some(name => name === '')) return 'Every column needs a name';
+  if (names.includes(SOURCE_FILE_COLUMN)) return `${SOURCE_FILE_COLUMN} is reserved`;
+  const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+  if (duplicate) return `The column name ${duplicate} is used more than once`;
+  return null;
+};
+
+/**
+ * Every source column feeding the output, with the output name it lands under
+ */
+export const getUnionOutputColumns = (files: ParsedFile[], columns: UnionColumn[]): OutputColumn[] => {
+  return columns.flatMap(col => files.flatMap((file, fileIndex) => {
+    const sourceColumn = col.sources[file.name];
+    return sourceColumn ? [{ name: col.outputName.trim(), fileIndex, sourceColumn }] : [];
+  }));
+};
+
+/**
+ * Stacks the files' rows under the aligned columns. Files without a source column get null,
+ * and every row records the file it came from in _Source_File.
+ */
+export const unionFiles = (files: ParsedFile[], columns: UnionColumn[], onProgress?: ProgressCallback): any[] => {
+  const error = getUnionConfigError(files, columns);
+  if (error) throw new Error(error);
+
+  const total = files.reduce((acc, f) => acc + f.data.length, 0);
+  const result: any[] = [];
+  files.forEach(file => {
+    const mapping = columns.map(col => [col.outputName.trim(), col.sources[file.name] || null] as const);
+    file.data.forEach(row => {
+      const out: any = {};
+      mapping.forEach(([name, source]) => out[name] = source ? row[source] ?? null : null);
+      out[SOURCE_FILE_COLUMN] = file.name;
+      result.push(out);
+      if (result.length % PROGRESS_INTERVAL === 0) onProgress?.({ phase: `Appending ${file.name}`, done: result.length, total, unit: 'rows' });
+    });
+  });
+  return result;
+};
@@ -0,0 +1,108 @@
+import { ParsedFile, ProgressCallback } from '../types';
+import { DataTask, executeDataTask, mapTaskFiles } from './dataTasks';
+import { packValue, unpackValue, ResidentFileRef } from './transferService';
+
+const CANCELLED_ERROR = 'CancelledError';
+
+export const isCancelledError = (err: any) => err?.name === CANCELLED_ERROR;
+
+interface PendingTask {
+  resolve: (value: any) => void;
+  reject: (err: Error) => void;
+  onProgress?: ProgressCallback;
+}
+
+export interface DataWorker {
+  run: <T = any>(task: DataTask, onProgress?: ProgressCallback) => Promise<T>;
+  cancel: () => void; // Stops whatever is running; pending promises reject with a cancelled error
+  dispose: () => void;
+}
+
+/**
+ * Runs data tasks (parsing, stats, joins) on a background thread so the page stays responsive.
+ * A task that is already running can't be interrupted from outside, so cancelling terminates the
+ * worker and the next task starts a fresh one. Falls back to the main thread where workers are unavailable.
+ *
+ * The worker keeps the files of its last task, so a check re-run after an edit sends only file keys.
+ * Files are keyed by object, since edits (type overrides, say) replace the file object but keep its id.
+ */
+export const createDataWorker = (): DataWorker => {
+  let worker: Worker | null = null;
+  let nextId = 1;
+  const pending = new Map<number, PendingTask>();
+  const fileKeys = new WeakMap<ParsedFile, string>();
+  let nextFileKey = 1;
+  let residentKeys = new Set<string>(); // Files the current worker holds
+
+  const toFileRef = (file: ParsedFile, sentKeys: Set<string>, transfer: Transferable[]): ResidentFileRef => {
+    let key = fileKeys.get(file);
+    if (!key) {
+      key = String(nextFileKey++);
+      fileKeys.set(file, key);
+    }
+    const isSent = residentKeys.has(key) || sentKeys.has(key);
+    sentKeys.add(key);
+    return isSent ? { key } : { key, packed: packValue(file, transfer) };
+  };
+
+  const stopWorker = () => {
+    worker?.terminate();
+    worker = null;
+    residentKeys = new Set();
+  };
+
+  const getWorker = () => {
+    if (worker) return worker;
+    worker = new Worker(new URL('./dataWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent) => {
+      const { id, type } = event.data;
+      const task = pending.get(id);
+      if (!task) return;
+      if (type === 'progress') {
+        task.onProgress?.(event.data.progress);
+        return;
+      }
+      pending.delete(id);
+      if (type === 'result') task.resolve(unpackValue(event.data.result));
+      else task.reject(new Error(event.data.message));
+    };
+    worker.onerror = (event) => {
+      pending.forEach(task => task.reject(new Error(event.message || 'Worker failed')));
+      pending.clear();
+      stopWorker();
+    };
+    return worker;
+  };
+
+  const run = <T>(task: DataTask, onProgress?: ProgressCallback): Promise<T> => {
+    if (typeof Worker === 'undefined') return executeDataTask(task, onProgress);
+    return new Promise<T>((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, { resolve, reject, onProgress });
+      const target = getWorker();
+      const sentKeys = new Set<string>();
+      const transfer: Transferable[] = [];
+      const sent = mapTaskFiles(task, (file: ParsedFile) => toFileRef(file, sentKeys, transfer));
+      residentKeys = sentKeys;
+      target.postMessage({ id, task: sent }, transfer);
+    });
+  };
+
+  const cancel = () => {
+    if (!worker || pending.size === 0) return;
+    stopWorker();
+    pending.forEach(task => {
+      const err = new Error('Cancelled');
+      err.name = CANCELLED_ERROR;
+      task.reject(err);
+    });
+    pending.clear();
+  };
+
+  const dispose = () => {
+    cancel();
+    stopWorker();
+  };
+
+  return { run, cancel, dispose };
+};
@@ -10,27 +10,208 @@ export interface AIContext {
   chatHistory: ChatMessage[];
 }
 
+export enum ColumnType {
+  INTEGER = 'INTEGER',
+  DECIMAL = 'DECIMAL',
+  DATE = 'DATE',
+  BOOLEAN = 'BOOLEAN',
+  EMAIL = 'EMAIL',
+  ID = 'ID',
+  STRING = 'STRING'
+}
+
+export interface ColumnSchema {
+  name: string;
+  type: ColumnType;
+  nullable: boolean; // True if at least one row has no value
+  examples: string[]; // A few distinct sample values, for display and AI prompts
+  isOverridden?: boolean; // Set when the user picked the type manually
+  inferredType?: ColumnType; // The detected type, kept while isOverridden is set
+  dayFirst?: boolean; // Slash dates in this column are written day/month/year
+}
+
 export interface ParsedFile {
   id: string;
   name: string;
   size: number;
   headers: string[];
+  schema?: ColumnSchema[]; // Inferred (or user-overridden) column types
   previewData: any[]; // Array of objects representing the first few rows
   data: any[]; // Full dataset
   rowCount: number;
   isJoined?: boolean; // Flag to identify files created by the app
+  isDerived?: boolean; // Made from one workspace file (see lineage); joins like an upload, unlike join results
+  lineage?: FileLineage; // Set on files cleaned or rolled up from another workspace file
+  originalColumns?: Record<string, any[]>; // Values of retyped columns from before the first override, one per row
   aiContext?: AIContext; // Store reasoning, insights, and chat history
 }
 
+export interface RawSheet {
+  name: string;
+  rows: any[][]; // Sheet contents as an array of arrays (row 0 is the first row of the sheet)
+  rowCount: number;
+  columnCount: number;
+  merges?: { s: { r: number; c: number }; e: { r: number; c: number } }[]; // Merged cell ranges (0-based)
+}
+
+export interface HeaderSettings {
+  headerRowIndex: number; // 0-based row where the header starts
+  headerRowCount: number; // Number of stacked header rows to flatten into one name
+}
+
+export interface RawWorkbook {
+  fileName: string;
+  size: number;
+  sheets: RawSheet[];
+}
+
+export interface KeyNormalizationOptions {
+  caseInsensitive?: boolean; // ABC = abc
+  stripLeadingZeros?: boolean; // 00042 = 42, 101.50 = 101.5
+  collapseWhitespace?: boolean; // "New  York " = "New York"
+  stripPunctuation?: boolean; // "A.B.C-1" = "ABC1"
+  foldAccents?: boolean; // Café = Cafe
+  normalizeEmails?: boolean; // John+news@X.com = john@x.com
+  normalizePhones?: boolean; // (555) 010-9999 = +1 555 010 9999
+}
+
+export type KeyNormalizationOption = keyof KeyNormalizationOptions;
+
+export enum FuzzyAlgorithm {
+  JARO_WINKLER = 'JARO_WINKLER',
+  TOKEN_SET = 'TOKEN_SET',
+  NGRAM = 'NGRAM'
+}
+
+export interface FuzzyMatchOptions {
+  algorithm: FuzzyAlgorithm;
+  threshold: number; // Minimum similarity (0 to 100) for two keys to count as a match
+}
+
+export enum AsOfDirection {
+  BACKWARD = 'BACKWARD', // Latest date on or before the anchor date
+  FORWARD = 'FORWARD', // Earliest date on or after it
+  NEAREST = 'NEAREST'
+}
+
+// Date columns of one non-anchor file in a temporal join
+export interface TemporalFileConfig {
+  fileName: string;
+  dateColumn?: string; // As-of: the date each row is valid from
+  fromColumn?: string; // Range: start of the validity period
+  toColumn?: string; // Range: end of the period, blank means still valid
+}
+
+export interface TemporalJoinOptions {
+  anchorDateColumn: string; // Date in the first file that rows are matched on
+  files: TemporalFileConfig[];
+  direction: AsOfDirection; // As-of only
+  toleranceDays?: number; // As-of: largest allowed gap (unset = any). Range: slack added to both ends.
+  matchKey: boolean; // False matches on dates alone, e.g. a rate table without the join key
+}
+
+export enum ColumnCollisionPolicy {
+  PREFIX_ALWAYS = 'PREFIX_ALWAYS', // "CRM - Phone" for every column
+  PREFIX_ON_CONFLICT = 'PREFIX_ON_CONFLICT', // "Phone", or "CRM - Phone" when another file also has Phone
+  SUFFIX_ON_CONFLICT = 'SUFFIX_ON_CONFLICT' // "Phone", or "Phone (CRM)" when another file also has Phone
+}
+
+export interface FileOutputConfig {
+  fileName: string;
+  alias?: string; // Short label used as prefix/suffix. Defaults to the file name without extension.
+  columns?: string[]; // Columns this file contributes. All non-key columns when omitted.
+  renames?: Record<string, string>; // Source column -> output column name (used as-is, no prefix)
+}
+
+export interface JoinOutputConfig {
+  collisionPolicy: ColumnCollisionPolicy;
+  files: FileOutputConfig[];
+}
+
+export interface OutputColumn {
+  name: string; // Column name in the joined output
+  fileIndex: number | null; // Index in the joined files, null for key and status columns
+  sourceColumn?: string;
+}
+
+export enum CoalesceRule {
+  FIRST_BY_PRIORITY = 'FIRST_BY_PRIORITY', // First non-empty value in source column order
+  MOST_FREQUENT = 'MOST_FREQUENT',
+  LONGEST = 'LONGEST',
+  NEWEST_BY_DATE = 'NEWEST_BY_DATE', // Value whose paired date column is most recent
+  FLAG = 'FLAG' // Leave conflicting values empty and only report them
+}
+
+export interface CoalesceSource {
+  column: string; // Column in the joined output
+  dateColumn?: string; // Used by CoalesceRule.NEWEST_BY_DATE
+}
+
+export interface CoalesceGroup {
+  outputName: string;
+  sources: CoalesceSource[]; // In priority order
+  rule: CoalesceRule;
+}
+
+// A pair (or more) of columns that should hold the same value for a matched key, e.g. CRM.Amount vs ERP.Total
+export interface ReconcileField {
+  name: string;
+  columns: Record<string, string | null>; // File name -> compared column
+  tolerance?: number; // Numbers within this absolute difference count as equal
+  ignoreCase?: boolean;
+}
+
+export interface ReconcileFieldSummary {
+  name: string;
+  compared: number; // Matched keys where at least one file has a value
+  mismatched: number;
+}
+
+export interface ReconcileReport {
+  matchedKeys: number; // Keys present in every file
+  keysWithDifferences: number;
+  repeatedKeys: number; // Matched keys with more than one row in some file; their first rows are compared
+  fields: ReconcileFieldSummary[];
+  rows: any[]; // One row per matched key: key, each file's values and a status per field
+}
+
 export interface JoinCandidate {
   keyName: string;
   confidenceScore: number; // 0 to 100
   reasoning: string;
   columnMappings: {
     fileName: string;
-    columnName: string;
+    columnName: string; // First (or only) key column
+    columnNames?: string[]; // Ordered key columns for composite keys, e.g. ["StoreID", "Date"]
   }[];
   potentialIssues?: string[];
+  normalization?: KeyNormalizationOptions; // How key values are cleaned before matching
+  fuzzy?: FuzzyMatchOptions; // Settings for JoinType.FUZZY
+  temporal?: TemporalJoinOptions; // Settings for JoinType.ASOF and JoinType.RANGE
+  reconcile?: ReconcileField[]; // Columns compared value by value for matched keys
+  output?: JoinOutputConfig; // Column selection and naming for the joined result
+  coalesce?: CoalesceGroup[]; // Synonymous output columns merged into one after the join
+}
+
+// One edge of a chained join: an already joined file linked to a new file on its own key
+export interface JoinStep {
+  leftFileName: string; // The base file or a file joined in an earlier step
+  rightFileName: string; // The file this step brings in
+  leftColumns: string[]; // Ordered key columns in the left file
+  rightColumns: string[]; // Matching key columns in the right file, same order
+  joinType: JoinType; // INNER, LEFT, RIGHT or OUTER
+  normalization?: KeyNormalizationOptions;
+  reasoning?: string; // Filled when the AI suggested the step
+}
+
+export interface JoinGraph {
+  baseFileName: string;
+  steps: JoinStep[]; // Run in order, each one against the result so far
+}
+
+export interface JoinAnalysis {
+  candidates: JoinCandidate[]; // Keys shared by all (or most) files
+  joinGraph?: JoinGraph; // Per-pair keys when files link through different keys
 }
 
 export enum AnalysisStatus {
@@ -44,14 +225,273 @@ export enum JoinType {
   INNER = 'INNER',
   OUTER = 'OUTER',
   LEFT = 'LEFT',
+  RIGHT = 'RIGHT',
+  SEMI = 'SEMI', // Rows of the first file that match in every other file, first file's columns only
+  ANTI = 'ANTI', // Rows of the first file that are missing from at least one other file
   ADDITIVE = 'ADDITIVE',
-  AI_SEMANTIC = 'AI_SEMANTIC'
+  AI_SEMANTIC = 'AI_SEMANTIC',
+  FUZZY = 'FUZZY',
+  ASOF = 'ASOF', // Each first-file row gets the nearest-dated row of every other file
+  RANGE = 'RANGE' // Each first-file row gets the rows whose valid-from / valid-to period contains its date
+}
+
+export type KeyRelationship = '1:1' | '1:N' | 'N:M';
+
+export interface FileKeyCardinality {
+  fileName: string;
+  distinctKeys: number;
+  duplicateKeys: number; // Keys that appear on more than one row
+  maxRowsPerKey: number;
+}
+
+// How well a candidate key works in one file, measured on the full data
+export interface FileKeyQuality {
+  fileName: string;
+  rows: number;
+  blankRows: number; // Rows with a blank key (or key part); they never match
+  distinctKeys: number;
+  uniqueness: number; // distinctKeys / non-blank rows; 1 means no key repeats
+  matchedRows: number; // Rows whose key is found in at least one other file
+}
+
+// Local check of a candidate key, shown next to the AI's confidence score
+export interface KeyQuality {
+  files: FileKeyQuality[];
+  sharedKeys: number; // Distinct keys present in every file
+  overlap: number; // sharedKeys / distinct keys of the file with the fewest; near 0 means almost nothing matches
+  typeIssues: string[]; // Key columns whose types differ between files
+}
+
+export interface FanOutKey {
+  key: string; // Display form of the key
+  rowsPerFile: number[]; // Occurrences in each file, in join order
+  outputRows: number; // Rows this key produces in a full outer join
+}
+
+export enum ColumnMatchSource {
+  NAME = 'NAME', // Same header, ignoring case and spacing
+  SYNONYM = 'SYNONYM',
+  AI = 'AI',
+  MANUAL = 'MANUAL'
+}
+
+// One column of an appended (union) result and the column each file feeds into it
+export interface UnionColumn {
+  outputName: string;
+  sources: Record<string, string | null>; // File name -> source column, null when the file has none
+  matchedBy: ColumnMatchSource;
+}
+
+export enum AggregateFunction {
+  SUM = 'SUM',
+  COUNT = 'COUNT', // Rows with a non-empty value
+  MIN = 'MIN',
+  MAX = 'MAX',
+  AVG = 'AVG',
+  FIRST = 'FIRST', // First non-empty value in file order
+  LAST = 'LAST',
+  COUNT_DISTINCT = 'COUNT_DISTINCT',
+  CONCAT = 'CONCAT' // Distinct values joined with ' | '
+}
+
+export interface AggregateSpec {
+  column: string;
+  fn: AggregateFunction;
+  outputName: string;
+}
+
+export interface GroupByConfig {
+  groupBy: string[]; // Columns whose value combination forms a group
+  aggregates: AggregateSpec[];
+}
+
+// Which row survives when several rows of a file share the dedupe columns
+export enum DedupeStrategy {
+  KEEP_FIRST = 'KEEP_FIRST',
+  KEEP_LAST = 'KEEP_LAST',
+  MOST_COMPLETE = 'MOST_COMPLETE', // The row with the most non-empty values
+  MERGE = 'MERGE' // First non-empty value of each column across the group
+}
+
+export interface DedupeConfig {
+  columns: string[]; // Rows with the same values in these columns are duplicates
+  normalization?: KeyNormalizationOptions; // Empty for exact duplicates
+  strategy: DedupeStrategy;
+}
+
+export interface DuplicateGroup {
+  key: string; // Normalized values of the dedupe columns
+  rowIndexes: number[]; // Positions in file.data, in file order
+}
+
+export interface DuplicateReport {
+  groups: DuplicateGroup[]; // Only groups with two or more rows
+  duplicateRows: number; // Rows that deduplication would remove
+  blankRows: number; // Rows blank in every dedupe column; never treated as duplicates
+}
+
+// How a single cell reads, regardless of the column's declared type
+export type ValueKind = 'number' | 'date' | 'boolean' | 'text';
+
+export interface ValueCount {
+  value: string;
+  count: number;
+}
+
+export interface LengthBucket {
+  min: number; // Shortest text length in the bucket, inclusive
+  max: number; // Longest, inclusive
+  count: number;
+}
+
+// Statistics for one column, computed over every row of the file
+export interface ColumnProfile {
+  name: string;
+  type?: ColumnType;
+  nullCount: number; // Null, missing or whitespace-only cells
+  distinctCount: number; // Distinct non-empty values, compared as displayed
+  uniqueness: number; // distinctCount / non-empty cells; 1 means no value repeats
+  min: number | string | null; // Numbers for numeric columns, ISO dates for date columns, else null
+  max: number | string | null;
+  mean: number | null; // Numeric columns only
+  topValues: ValueCount[]; // Most frequent first
+  lengthHistogram: LengthBucket[];
+  patterns: ValueCount[]; // Shapes such as "AAA-999": letters become A, digits 9
+  kinds: Partial<Record<ValueKind, number>>; // Non-empty cells of each kind
+  mixedTypeWarning: string | null; // Set when a column holds more than one kind of value
+}
+
+// A column computed from an expression such as `Amount * 1.2` or `CONCAT(First, ' ', Last)`
+export interface FormulaColumn {
+  name: string;
+  expression: string;
+  columns?: string[]; // Columns the expression reads, spelled as in the file; recorded in lineage
+}
+
+export enum FilterOperator {
+  EQUALS = 'EQUALS',
+  CONTAINS = 'CONTAINS',
+  RANGE = 'RANGE', // Inclusive; either bound may be left open
+  EMPTY = 'EMPTY',
+  NOT_EMPTY = 'NOT_EMPTY',
+  IN_LIST = 'IN_LIST'
+}
+
+export interface ColumnFilter {
+  column: string;
+  operator: FilterOperator;
+  value?: string; // EQUALS and CONTAINS
+  min?: string; // RANGE
+  max?: string; // RANGE
+  values?: string[]; // IN_LIST
+}
+
+export interface ColumnSort {
+  column: string;
+  direction: 'asc' | 'desc';
+}
+
+// The rows shown in the data grid: all filters must match, then rows are sorted
+export interface GridView {
+  search: string; // Substring looked for in any column
+  filters: ColumnFilter[];
+  sort: ColumnSort | null; // File order when null
+}
+
+// A column type picked by the user
+export interface ColumnTypeOverride {
+  name: string;
+  type: ColumnType;
+}
+
+// A cleaning step that turns one file into another, recorded so recipes can repeat it
+export type PreparationStep =
+  | { type: 'dedupe'; config: DedupeConfig }
+  | { type: 'groupBy'; config: GroupByConfig }
+  | { type: 'formula'; config: FormulaColumn }
+  | { type: 'filter'; config: GridView }
+  | { type: 'schema'; config: ColumnTypeOverride[] }; // Type overrides, made in place rather than as a new file
+
+export interface FileLineage {
+  sourceFileId: string;
+  step: PreparationStep;
+}
+
+// One file a recipe needs, and how to turn it into the file the join was set up on
+export interface RecipeInput {
+  joinName: string; // Name the file had in the recorded join; replayed files take this name
+  sourceName: string; // The uploaded file the steps started from
+  namePattern: string; // Glob such as "sales_*.xlsx" used to pick the file on replay
+  headers: string[]; // All columns of the source file, for matching by schema
+  requiredColumns: string[]; // Columns the recipe reads; replay fails without them
+  steps: PreparationStep[]; // Applied in order before joining
+}
+
+// A recorded join that can be replayed on new uploads. Saved as JSON with a format version.
+export interface Recipe {
+  format: 'datalink-recipe';
+  version: number;
+  name: string;
+  createdAt: string; // ISO timestamp
+  inputs: RecipeInput[]; // In join order
+  candidate?: JoinCandidate; // Shared-key joins
+  joinType?: JoinType;
+  reduce?: 'dedupe' | 'aggregate'; // Fan-out guard choice made during the recorded run
+  joinGraph?: JoinGraph; // Chained joins
+}
+
+// Reported by long-running work (joins, stats, parsing) so the UI can show a progress bar
+export interface TaskProgress {
+  phase: string; // e.g. "Joining", "Counting keys"
+  done: number;
+  total: number;
+  unit: string; // What done/total count: "keys", "files", "sheets", ...
+  rows?: number; // Output rows produced so far
+}
+
+export type ProgressCallback = (progress: TaskProgress) => void;
+
+// Keys present in exactly this combination of files (one bar of an UpSet chart)
+export interface KeyOverlapGroup {
+  fileIndexes: number[]; // Files that contain these keys, in join order
+  keyCount: number;
+  rowCounts: number[]; // Rows carrying these keys in each file (0 for files outside the group)
+}
+
+export interface KeyOverlapReport {
+  fileNames: string[];
+  groups: KeyOverlapGroup[]; // Largest first
+  blankKeyRows: number[]; // Rows per file whose key is empty and can never match
+}
+
+export interface NormalizationImpact {
+  innerRows: number; // Inner join row count with the current rules
+  toggled: Partial<Record<KeyNormalizationOption, number>>; // Inner join row count if the given option were toggled
+}
+
+export interface FuzzyCoverage {
+  rows: number; // Rows of the first file with a key
+  limitedRows: number; // Rows whose key was compared with only part of another file's keys
+}
+
+// Returned instead of a result when a join would go past the row limit and needs the user's go-ahead
+export interface JoinSizeCheck {
+  estimatedRows: number | null; // Null when the size can't be estimated before running
 }
 
 export interface JoinStats {
   [JoinType.INNER]: number;
   [JoinType.OUTER]: number;
   [JoinType.LEFT]: number;
+  [JoinType.RIGHT]: number;
+  [JoinType.SEMI]: number;
+  [JoinType.ANTI]: number;
   [JoinType.ADDITIVE]: number;
   [JoinType.AI_SEMANTIC]?: number;
+  [JoinType.FUZZY]?: number; // Not estimated up front; scoring every key pair is as costly as the join
+  [JoinType.ASOF]?: number; // Temporal joins depend on the date settings and aren't estimated either
+  [JoinType.RANGE]?: number;
+  keyCardinality?: FileKeyCardinality[];
+  relationship?: KeyRelationship; // 1:1 when no file repeats keys, 1:N when one does, N:M when several do
+  topFanOutKeys?: FanOutKey[]; // Keys that multiply rows the most
 }
\ No newline at end of file